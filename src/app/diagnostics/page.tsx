@@ -0,0 +1,237 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Navigation } from "@/components/layout/Navigation";
+import { PageHeader } from "@/components/layout/Header";
+import { Card, CardContent } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { GenerationLog } from "@/types";
+import { ChevronDown, ChevronUp, Copy, Download, Play, Trash2 } from "lucide-react";
+import { generationLogService, describeError } from "@/services/GenerationLogService";
+import { aiServiceFactory } from "@/services/AIServiceFactory";
+import { providerRegistry } from "@/services/ProviderRegistry";
+import { formatDate } from "@/lib/utils";
+import { useTranslation } from "@/components/AppProvider";
+
+// ============================================
+// DIAGNOSTICS PAGE
+// Hidden page (linked from the settings version line)
+// listing the logged generation attempts
+// ============================================
+
+/**
+ * Download text as a JSON file
+ */
+function downloadJson(data: string, filename: string) {
+  const blob = new Blob([data], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function DiagnosticsPage() {
+  const router = useRouter();
+  const { t, tn } = useTranslation();
+  const [logs, setLogs] = useState<GenerationLog[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [openLogId, setOpenLogId] = useState<string | null>(null);
+  const [replays, setReplays] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    generationLogService
+      .getAll()
+      .then(setLogs)
+      .catch((error) => console.error("[Diagnostics] Failed to load logs:", error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleCopy = async (log: GenerationLog) => {
+    try {
+      await navigator.clipboard.writeText(generationLogService.toJSON(log));
+      alert(t("diagnostics.copied"));
+    } catch (error) {
+      console.error("[Diagnostics] Copy failed:", error);
+    }
+  };
+
+  const handleExport = (log: GenerationLog) => {
+    downloadJson(generationLogService.toJSON(log), `generation-${log.id}.json`);
+  };
+
+  const handleExportAll = () => {
+    downloadJson(
+      JSON.stringify(logs, null, 2),
+      `review-iabd-generations-${new Date().toISOString().split("T")[0]}.json`
+    );
+  };
+
+  const handleClear = async () => {
+    if (!confirm(t("diagnostics.clearConfirm"))) return;
+    await generationLogService.clear();
+    setLogs([]);
+    setReplays({});
+  };
+
+  const handleReplay = (log: GenerationLog) => {
+    let result: string;
+    try {
+      const questions = aiServiceFactory
+        .getService(log.provider)
+        .parseGeneratedQuestions(log.response || "", log.domains, log.fallbackDifficulty, log.multiDomain);
+      result = t("diagnostics.replayOk", { count: questions.length });
+    } catch (error) {
+      result = t("diagnostics.replayError", { error: describeError(error) });
+    }
+    console.log("[Diagnostics] Replayed parse of", log.id, "->", result);
+    setReplays((prev) => ({ ...prev, [log.id]: result }));
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex flex-col bg-paper-primary">
+        <Navigation />
+        <main className="flex-1 flex items-center justify-center">
+          <p className="font-mono text-ink-muted">{t("diagnostics.loading")}</p>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col bg-paper-primary">
+      <Navigation />
+
+      <main className="flex-1 max-w-4xl mx-auto w-full px-4 py-12">
+        <PageHeader
+          title={t("diagnostics.title")}
+          description={t("diagnostics.description")}
+          actions={
+            <Button variant="secondary" size="sm" onClick={() => router.back()}>
+              {t("common.back")}
+            </Button>
+          }
+        />
+
+        {logs.length === 0 ? (
+          <Card>
+            <CardContent className="text-center py-12">
+              <p className="text-ink-secondary">{t("diagnostics.empty")}</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex gap-3">
+              <Button variant="secondary" size="sm" onClick={handleExportAll}>
+                <Download className="w-4 h-4 mr-2" />
+                {t("diagnostics.exportAll")}
+              </Button>
+              <Button
+                variant="secondary"
+                size="sm"
+                className="text-domain-ml hover:text-domain-ml hover:border-domain-ml"
+                onClick={handleClear}
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                {t("diagnostics.clear")}
+              </Button>
+            </div>
+
+            {logs.map((log) => {
+              const isOpen = openLogId === log.id;
+              return (
+                <Card key={log.id}>
+                  <CardContent>
+                    <button
+                      onClick={() => setOpenLogId(isOpen ? null : log.id)}
+                      className="w-full flex items-start justify-between gap-3 text-left"
+                    >
+                      <div className="min-w-0">
+                        <p className="font-mono text-sm truncate">
+                          {t(providerRegistry.get(log.provider).label)} · {log.model}
+                        </p>
+                        <p className="font-mono text-xs text-ink-muted">
+                          {formatDate(new Date(log.timestamp))} · {(log.durationMs / 1000).toFixed(1)} s
+                          {log.streamed && ` · ${t("diagnostics.streamed")}`} · {log.domains.join(", ")}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        {log.error ? (
+                          <span className="text-xs px-2 py-1 bg-domain-ml/10 text-domain-ml rounded">
+                            {t("diagnostics.failed")}
+                          </span>
+                        ) : (
+                          <span className="text-xs px-2 py-1 bg-green-500/10 text-green-500 rounded">
+                            {tn("diagnostics.questions", log.questionCount ?? 0)}
+                          </span>
+                        )}
+                        {isOpen ? (
+                          <ChevronUp className="w-4 h-4 text-ink-muted" />
+                        ) : (
+                          <ChevronDown className="w-4 h-4 text-ink-muted" />
+                        )}
+                      </div>
+                    </button>
+
+                    {isOpen && (
+                      <div className="mt-4 space-y-4">
+                        {log.error && (
+                          <p className="font-mono text-xs text-domain-ml break-words">{log.error}</p>
+                        )}
+
+                        <div className="flex flex-wrap gap-2">
+                          <Button variant="secondary" size="sm" onClick={() => handleCopy(log)}>
+                            <Copy className="w-4 h-4 mr-2" />
+                            {t("diagnostics.copy")}
+                          </Button>
+                          <Button variant="secondary" size="sm" onClick={() => handleExport(log)}>
+                            <Download className="w-4 h-4 mr-2" />
+                            {t("diagnostics.export")}
+                          </Button>
+                          {log.response && (
+                            <Button variant="secondary" size="sm" onClick={() => handleReplay(log)}>
+                              <Play className="w-4 h-4 mr-2" />
+                              {t("diagnostics.replay")}
+                            </Button>
+                          )}
+                        </div>
+                        {replays[log.id] && (
+                          <p className="font-mono text-xs text-ink-secondary break-words">
+                            {replays[log.id]}
+                          </p>
+                        )}
+
+                        {log.systemPrompt && (
+                          <LogBlock title={t("diagnostics.systemPrompt")} text={log.systemPrompt} />
+                        )}
+                        <LogBlock title={t("diagnostics.prompt")} text={log.prompt} />
+                        <LogBlock
+                          title={t("diagnostics.response")}
+                          text={log.response || t("diagnostics.noResponse")}
+                        />
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
+
+function LogBlock({ title, text }: { title: string; text: string }) {
+  return (
+    <div>
+      <p className="font-mono text-xs text-ink-muted uppercase mb-1">{title}</p>
+      <pre className="max-h-80 overflow-auto p-3 bg-paper-secondary border border-paper-dark rounded font-mono text-xs whitespace-pre-wrap break-words">
+        {text}
+      </pre>
+    </div>
+  );
+}
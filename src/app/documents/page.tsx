@@ -0,0 +1,400 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { useRouter } from "next/navigation";
+import { Navigation } from "@/components/layout/Navigation";
+import { PageHeader } from "@/components/layout/Header";
+import { Card, CardContent } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { Badge } from "@/components/ui/Badge";
+import { ProgressBar } from "@/components/ui/ProgressBar";
+import { DomainSelector, DomainBadge } from "@/components/features/DomainSelector";
+import { QuestionCounter } from "@/components/features/QuestionCounter";
+import { Domain, SourceDocument } from "@/types";
+import { FileUp, ClipboardPaste, Play, Trash2, Square, Library } from "lucide-react";
+import { indexedDBService } from "@/services/IndexedDBService";
+import { documentService } from "@/services/DocumentService";
+import { generationService } from "@/services/GenerationService";
+import { ACCEPTED_DOCUMENT_TYPES } from "@/lib/documentImport";
+import { formatDate } from "@/lib/utils";
+import { useTranslation } from "@/components/AppProvider";
+
+// ============================================
+// DOCUMENTS PAGE ("Mes supports")
+// Library of the user's course material and
+// practice quizzes grounded in a document or passage
+// ============================================
+
+const PASSAGE_PREVIEW_LENGTH = 60;
+
+export default function DocumentsPage() {
+  const router = useRouter();
+  const { t, tn } = useTranslation();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [documents, setDocuments] = useState<SourceDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Import
+  const [domain, setDomain] = useState<Domain>(Domain.MACHINE_LEARNING);
+  const [pasteTitle, setPasteTitle] = useState("");
+  const [pasteContent, setPasteContent] = useState("");
+  const [isImporting, setIsImporting] = useState(false);
+
+  // Quiz generation from the selected document
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [passageIndex, setPassageIndex] = useState<number | "all">("all");
+  const [questionCount, setQuestionCount] = useState(10);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [generatingSessionId, setGeneratingSessionId] = useState<string | null>(null);
+  const [isStopping, setIsStopping] = useState(false);
+  const [generatedQuestions, setGeneratedQuestions] = useState(0);
+
+  // Load the library on mount
+  useEffect(() => {
+    const loadDocuments = async () => {
+      try {
+        await indexedDBService.init();
+        setDocuments(await documentService.getAll());
+      } catch (error) {
+        console.error("[Documents] Failed to load documents:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadDocuments();
+  }, []);
+
+  const addDocument = (document: SourceDocument) => {
+    setDocuments((prev) => [document, ...prev]);
+    setSelectedId(document.id);
+    setPassageIndex("all");
+  };
+
+  const handleFileImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      addDocument(await documentService.importFile(file, domain));
+    } catch (error) {
+      console.error("[Documents] Import failed:", error);
+      alert(t("documents.importError", { message: (error as Error).message }));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handlePaste = async () => {
+    setIsImporting(true);
+    try {
+      addDocument(
+        await documentService.create({
+          title: pasteTitle,
+          // Pasted notes with headings are split like Markdown files
+          format: /^#{1,3}\s/m.test(pasteContent) ? "markdown" : "text",
+          content: pasteContent,
+          domain,
+        })
+      );
+      setPasteTitle("");
+      setPasteContent("");
+    } catch (error) {
+      alert(t("common.errorWithMessage", { message: (error as Error).message }));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleDelete = async (document: SourceDocument) => {
+    if (!confirm(t("documents.deleteConfirm", { title: document.title }))) {
+      return;
+    }
+
+    await documentService.delete(document.id);
+    setDocuments((prev) => prev.filter((d) => d.id !== document.id));
+    if (selectedId === document.id) setSelectedId(null);
+  };
+
+  const handleGenerate = async (document: SourceDocument) => {
+    setIsGenerating(true);
+    setGeneratedQuestions(0);
+
+    try {
+      const sessionId = await generationService.generateWithIncrementalSave({
+        type: "practice",
+        domain: document.domain,
+        totalCount: questionCount,
+        includeExplanations: true,
+        source: {
+          documentId: document.id,
+          passageIndex: passageIndex === "all" ? undefined : passageIndex,
+        },
+      });
+      setGeneratingSessionId(sessionId);
+      console.log("[Documents] Session created:", sessionId, "from", document.id);
+
+      await generationService.runSingleDomainGeneration(
+        sessionId,
+        document.domain,
+        questionCount,
+        {
+          onBatchComplete: (p) => setGeneratedQuestions(p.current),
+          onSessionReady: async (id) => {
+            // Saved like any practice quiz so it can be replayed from history
+            try {
+              const session = await indexedDBService.getSession(id);
+              if (session && !session.practiceQuizId) {
+                const quizId = `practice-${document.domain}-${Date.now()}`;
+                await indexedDBService.savePracticeQuiz({
+                  id: quizId,
+                  domain: document.domain,
+                  questionCount: session.questions.length,
+                  questions: session.questions,
+                  attempts: 1,
+                  createdAt: session.startedAt,
+                  lastAttemptAt: new Date(),
+                });
+                await indexedDBService.saveSession({ ...session, practiceQuizId: quizId });
+              }
+            } catch (err) {
+              console.error("[Documents] Failed to create practice quiz:", err);
+            }
+            console.log("[Documents] First questions ready, navigating to quiz:", id);
+            router.push(`/quiz?session=${id}`);
+          },
+          onGenerationComplete: () => setIsGenerating(false),
+          onGenerationError: (error) => {
+            setIsGenerating(false);
+            alert(t("common.generationError", { message: error.message }));
+          },
+        }
+      );
+    } catch (error) {
+      console.error("[Documents] Generation failed:", error);
+      setIsGenerating(false);
+      alert(
+        t("common.generationError", { message: (error as Error).message || t("common.unknownError") })
+      );
+    }
+  };
+
+  // Stop the generation and start the quiz with the questions already saved
+  const handleStopGeneration = async () => {
+    if (!generatingSessionId) return;
+
+    setIsStopping(true);
+    try {
+      const session = await generationService.cancelGeneration(generatingSessionId);
+      setIsGenerating(false);
+      setGeneratingSessionId(null);
+      if (session) {
+        router.push(`/quiz?session=${session.id}`);
+      }
+    } finally {
+      setIsStopping(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-paper-primary">
+      <Navigation />
+
+      <main className="flex-1 w-full max-w-5xl mx-auto px-4 py-12">
+        <PageHeader
+          title={t("documents.title")}
+          description={t("documents.description")}
+        />
+
+        {/* Import */}
+        <Card className="mb-8">
+          <CardContent className="space-y-6">
+            <DomainSelector value={domain} onChange={setDomain} />
+
+            <div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={ACCEPTED_DOCUMENT_TYPES}
+                onChange={handleFileImport}
+                className="hidden"
+              />
+              <Button
+                variant="secondary"
+                className="w-full"
+                onClick={() => fileInputRef.current?.click()}
+                loading={isImporting}
+                disabled={isImporting}
+              >
+                <FileUp className="w-4 h-4 mr-2" />
+                {t("documents.importFile")}
+              </Button>
+            </div>
+
+            <div className="pt-6 border-t border-paper-dark space-y-3">
+              <label className="font-mono text-xs text-ink-muted uppercase block">
+                {t("documents.paste")}
+              </label>
+              <input
+                type="text"
+                value={pasteTitle}
+                onChange={(e) => setPasteTitle(e.target.value)}
+                placeholder={t("documents.titlePlaceholder")}
+                className="w-full px-4 py-2 bg-paper-secondary border border-paper-dark rounded font-mono text-sm focus:outline-none focus:border-accent"
+              />
+              <textarea
+                value={pasteContent}
+                onChange={(e) => setPasteContent(e.target.value)}
+                rows={6}
+                placeholder={t("documents.contentPlaceholder")}
+                className="w-full px-4 py-3 bg-paper-secondary border border-paper-dark rounded font-serif text-sm focus:outline-none focus:border-accent"
+              />
+              <Button
+                variant="primary"
+                onClick={handlePaste}
+                disabled={isImporting || !pasteContent.trim()}
+              >
+                <ClipboardPaste className="w-4 h-4 mr-2" />
+                {t("documents.addToLibrary")}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Library */}
+        <div className="flex items-center gap-3 mb-6">
+          <Library className="w-5 h-5 text-accent" />
+          <h2 className="font-mono font-semibold text-xl">{t("documents.library")}</h2>
+          {documents.length > 0 && <Badge variant="default">{documents.length}</Badge>}
+        </div>
+
+        {loading ? (
+          <p className="font-mono text-sm text-ink-muted">{t("common.loading")}</p>
+        ) : documents.length === 0 ? (
+          <Card hoverable={false}>
+            <CardContent className="text-center py-12">
+              <p className="text-ink-secondary">{t("documents.empty")}</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {documents.map((document) => {
+              const passages = documentService.getPassages(document);
+              const isSelected = selectedId === document.id;
+
+              return (
+                <Card key={document.id} hoverable={false}>
+                  <CardContent>
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="min-w-0">
+                        <h3 className="font-mono font-semibold truncate">{document.title}</h3>
+                        <div className="flex flex-wrap items-center gap-2 mt-2">
+                          <DomainBadge domain={document.domain} />
+                          <Badge>{t(`documents.format.${document.format}`)}</Badge>
+                          <span className="font-mono text-xs text-ink-muted">
+                            {t("documents.characters", {
+                              count: Math.round(document.content.length / 1000),
+                            })}{" "}
+                            · {tn("documents.passages", passages.length)} ·{" "}
+                            {formatDate(document.createdAt)}
+                          </span>
+                        </div>
+                      </div>
+                      <div className="flex gap-2 shrink-0">
+                        <Button
+                          variant={isSelected ? "primary" : "secondary"}
+                          size="sm"
+                          onClick={() => {
+                            setSelectedId(isSelected ? null : document.id);
+                            setPassageIndex("all");
+                          }}
+                          disabled={isGenerating}
+                        >
+                          <Play className="w-4 h-4 mr-1" />
+                          Quiz
+                        </Button>
+                        <Button
+                          variant="secondary"
+                          size="sm"
+                          onClick={() => handleDelete(document)}
+                          disabled={isGenerating}
+                          aria-label={t("common.deleteItem", { name: document.title })}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+
+                    {isSelected && (
+                      <div className="mt-6 pt-6 border-t border-paper-dark space-y-6">
+                        <div>
+                          <label className="font-mono text-xs text-ink-muted uppercase mb-2 block">
+                            {t("documents.content")}
+                          </label>
+                          <select
+                            value={passageIndex}
+                            onChange={(e) =>
+                              setPassageIndex(
+                                e.target.value === "all" ? "all" : parseInt(e.target.value)
+                              )
+                            }
+                            disabled={isGenerating}
+                            className="w-full px-4 py-3 bg-paper-secondary border border-paper-dark rounded font-mono text-sm text-ink-primary focus:outline-none focus:border-accent"
+                          >
+                            <option value="all">{t("documents.wholeDocument")}</option>
+                            {passages.map((passage, index) => (
+                              <option key={index} value={index}>
+                                {index + 1}.{" "}
+                                {passage.title !== document.title
+                                  ? passage.title.slice(document.title.length + 3)
+                                  : `${passage.text.slice(0, PASSAGE_PREVIEW_LENGTH)}…`}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+
+                        <QuestionCounter
+                          value={questionCount}
+                          onChange={setQuestionCount}
+                          max={30}
+                        />
+
+                        {isGenerating ? (
+                          <div>
+                            <ProgressBar
+                              value={(generatedQuestions / questionCount) * 100}
+                              showLabel
+                              label={t("common.generatedQuestions")}
+                            />
+                            <div className="flex justify-center mt-4">
+                              <Button
+                                variant="secondary"
+                                size="sm"
+                                onClick={handleStopGeneration}
+                                disabled={isStopping || !generatingSessionId}
+                              >
+                                <Square className="w-3 h-3 mr-2" />
+                                {t("common.stop")}
+                              </Button>
+                            </div>
+                          </div>
+                        ) : (
+                          <Button variant="primary" onClick={() => handleGenerate(document)}>
+                            <Play className="w-4 h-4" />
+                            {t("common.generateAndStart")}
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -8,12 +8,16 @@ import { Card, CardContent, CardTitle } from "@/components/ui/Card";
 import { Button } from "@/components/ui/Button";
 import { Badge } from "@/components/ui/Badge";
 import { DomainSelector } from "@/components/features/DomainSelector";
-import { Clock, FileText, Globe, History, RefreshCw, AlertTriangle, CheckCircle, Loader2 } from "lucide-react";
-import { Domain, QuizSession, SavedExam } from "@/types";
+import { DifficultySelector } from "@/components/features/DifficultySelector";
+import { Clock, FileText, Globe, History, RefreshCw, AlertTriangle, CheckCircle, Loader2, Square } from "lucide-react";
+import { DifficultyMix, DifficultySetting, Domain, QuizSession, SavedExam } from "@/types";
 import { indexedDBService } from "@/services/IndexedDBService";
 import { storageService } from "@/services/StorageService";
 import { notificationService } from "@/services/NotificationService";
 import { generationService } from "@/services/GenerationService";
+import { DEFAULT_DIFFICULTY_MIX } from "@/lib/difficulty";
+import { formatShortDate, getDomainLabel } from "@/lib/utils";
+import { useTranslation } from "@/components/AppProvider";
 
 // ============================================
 // EXAM PAGE
@@ -22,9 +26,14 @@ import { generationService } from "@/services/GenerationService";
 
 export default function ExamPage() {
   const router = useRouter();
+  const { t, tn } = useTranslation();
   const [examType, setExamType] = useState<"full" | "domain">("full");
   const [selectedDomain, setSelectedDomain] = useState<Domain>(Domain.MACHINE_LEARNING);
+  const [difficulty, setDifficulty] = useState<DifficultySetting>("mixed");
+  const [difficultyMix, setDifficultyMix] = useState<DifficultyMix>(DEFAULT_DIFFICULTY_MIX);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [generatingSessionId, setGeneratingSessionId] = useState<string | null>(null);
+  const [isStopping, setIsStopping] = useState(false);
   const [savedExams, setSavedExams] = useState<SavedExam[]>([]);
   const [activeExamSession, setActiveExamSession] = useState<QuizSession | null>(null);
   const [loading, setLoading] = useState(true);
@@ -121,6 +130,8 @@ export default function ExamPage() {
         type: "exam",
         domain: examType === "domain" ? selectedDomain : undefined,
         totalCount: questionCount,
+        difficulty,
+        difficultyMix,
         includeExplanations: true,
         timeLimit,
         examType,
@@ -128,9 +139,11 @@ export default function ExamPage() {
       });
 
       console.log('[Exam] Session created:', sessionId);
+      setGeneratingSessionId(sessionId);
 
       // Run generation based on exam type
       if (examType === "full") {
+        // The full exam follows the IABD syllabus (custom domains have domain exams)
         const allDomains = Object.values(Domain);
         await generationService.runMultiDomainGeneration(
           sessionId,
@@ -142,7 +155,7 @@ export default function ExamPage() {
             },
             onSessionReady: (id) => {
               console.log('[Exam] First group ready, navigating to quiz:', id);
-              window.location.href = `/quiz?session=${id}`;
+              router.push(`/quiz?session=${id}`);
             },
             onGenerationComplete: (id) => {
               console.log('[Exam] Generation complete:', id);
@@ -160,11 +173,11 @@ export default function ExamPage() {
                   requestedCount,
                 });
               } else {
-                alert(`Erreur lors de la génération: ${error.message}`);
+                alert(t("common.generationError", { message: error.message }));
               }
             },
           },
-          { taskId }
+          { difficulty, difficultyMix, taskId }
         );
       } else {
         // Domain exam: 20 questions from single domain
@@ -175,7 +188,7 @@ export default function ExamPage() {
           {
             onBatchComplete: () => {},
             onSessionReady: (id) => {
-              window.location.href = `/quiz?session=${id}`;
+              router.push(`/quiz?session=${id}`);
             },
             onGenerationComplete: (id) => {
               setIsGenerating(false);
@@ -191,11 +204,11 @@ export default function ExamPage() {
                   requestedCount,
                 });
               } else {
-                alert(`Erreur lors de la génération: ${error.message}`);
+                alert(t("common.generationError", { message: error.message }));
               }
             },
           },
-          { taskId }
+          { difficulty, difficultyMix, taskId }
         );
       }
     } catch (error: any) {
@@ -206,12 +219,12 @@ export default function ExamPage() {
           taskId,
           'failed',
           undefined,
-          error.message || "Erreur inconnue"
+          error.message || t("common.unknownError")
         );
       }
 
       setIsGenerating(false);
-      alert(`Erreur lors de la génération: ${error.message || "Erreur inconnue"}`);
+      alert(t("common.generationError", { message: error.message || t("common.unknownError") }));
     }
   };
 
@@ -221,6 +234,7 @@ export default function ExamPage() {
     setIsGenerating(true);
     setInterruptedSession(null);
     setErrorModal(null);
+    setGeneratingSessionId(interruptedSession.id);
 
     try {
       await generationService.resumeGeneration(
@@ -228,7 +242,7 @@ export default function ExamPage() {
         {
           onBatchComplete: () => {},
           onSessionReady: (id) => {
-            window.location.href = `/quiz?session=${id}`;
+            router.push(`/quiz?session=${id}`);
           },
           onGenerationComplete: (id) => {
             setIsGenerating(false);
@@ -245,14 +259,34 @@ export default function ExamPage() {
                 requestedCount,
               });
             } else {
-              alert(`Erreur: ${error.message}`);
+              alert(t("common.errorWithMessage", { message: error.message }));
             }
           },
         }
       );
     } catch (error: any) {
       setIsGenerating(false);
-      alert(`Erreur: ${error.message}`);
+      alert(t("common.errorWithMessage", { message: error.message }));
+    }
+  };
+
+  // Stop the generation and start the exam with the questions already saved
+  const handleStopGeneration = async () => {
+    if (!generatingSessionId) return;
+
+    setIsStopping(true);
+    try {
+      const session = await generationService.cancelGeneration(generatingSessionId);
+      setIsGenerating(false);
+      setGeneratingSessionId(null);
+      if (session) {
+        router.push(`/quiz?session=${session.id}`);
+      }
+    } catch (error) {
+      console.error('[Exam] Failed to stop generation:', error);
+      alert(t("common.errorWithMessage", { message: (error as Error).message }));
+    } finally {
+      setIsStopping(false);
     }
   };
 
@@ -263,7 +297,7 @@ export default function ExamPage() {
         setErrorModal(null);
         window.location.href = `/quiz?session=${errorModal.sessionId}`;
       } catch (error: any) {
-        alert(`Erreur: ${error.message}`);
+        alert(t("common.errorWithMessage", { message: error.message }));
       }
       return;
     }
@@ -273,7 +307,7 @@ export default function ExamPage() {
         setInterruptedSession(null);
         window.location.href = `/quiz?session=${interruptedSession.id}`;
       } catch (error: any) {
-        alert(`Erreur: ${error.message}`);
+        alert(t("common.errorWithMessage", { message: error.message }));
       }
     }
   };
@@ -298,6 +332,7 @@ export default function ExamPage() {
   const handleRetakeExam = async (exam: SavedExam) => {
     console.log('[Exam] Retaking exam:', exam.id);
     setIsGenerating(true);
+    setGeneratingSessionId(null);
 
     try {
       await indexedDBService.init();
@@ -335,7 +370,7 @@ export default function ExamPage() {
     } catch (error: any) {
       console.error('[Exam] Failed to retake exam:', error);
       setIsGenerating(false);
-      alert(`Erreur: ${error.message || "Erreur inconnue"}`);
+      alert(t("common.errorWithMessage", { message: error.message || t("common.unknownError") }));
     }
   };
 
@@ -345,8 +380,8 @@ export default function ExamPage() {
 
       <main className="flex-1 w-full max-w-5xl mx-auto px-4 py-12">
         <PageHeader
-          title="Mode Examen"
-          description="Simulez un examen réel avec limite de temps"
+          title={t("exam.title")}
+          description={t("exam.description")}
         />
 
         {/* Active Exam Session Banner */}
@@ -357,11 +392,14 @@ export default function ExamPage() {
                 <FileText className="w-5 h-5 text-accent shrink-0 mt-0.5" />
                 <div className="flex-1">
                   <h3 className="font-mono font-semibold mb-1">
-                    Examen en cours
+                    {t("exams.inProgress")}
                   </h3>
                   <p className="text-sm text-ink-secondary mb-1">
-                    {Object.keys(activeExamSession.userAnswers).length} / {activeExamSession.questions.length} questions répondues
-                    {activeExamSession.domain && ` — ${activeExamSession.domain.replace(/_/g, " ")}`}
+                    {t("exams.answered", {
+                      answered: Object.keys(activeExamSession.userAnswers).length,
+                      total: activeExamSession.questions.length,
+                    })}
+                    {activeExamSession.domain && ` — ${getDomainLabel(activeExamSession.domain)}`}
                   </p>
                   <div className="flex gap-3 mt-3">
                     <Button
@@ -369,7 +407,7 @@ export default function ExamPage() {
                       size="sm"
                       onClick={() => window.location.href = `/quiz?session=${activeExamSession.id}`}
                     >
-                      Continuer
+                      {t("common.continue")}
                     </Button>
                     <Button
                       variant="secondary"
@@ -379,7 +417,7 @@ export default function ExamPage() {
                         setActiveExamSession(null);
                       }}
                     >
-                      Recommencer
+                      {t("common.restart")}
                     </Button>
                   </div>
                 </div>
@@ -396,29 +434,34 @@ export default function ExamPage() {
                 <AlertTriangle className="w-5 h-5 text-accent shrink-0 mt-0.5" />
                 <div className="flex-1">
                   <h3 className="font-mono font-semibold mb-1">
-                    Génération interrompue
+                    {t("generation.interrupted")}
                   </h3>
                   <p className="text-sm text-ink-secondary mb-1">
                     {interruptedSession.generationProgress?.generationError
-                      ? `Erreur : ${interruptedSession.generationProgress.generationError}`
-                      : "La génération a été interrompue."}
+                      ? t("common.errorWithMessage", {
+                          message: interruptedSession.generationProgress.generationError,
+                        })
+                      : t("generation.interruptedHint")}
                   </p>
                   <p className="text-sm text-ink-muted mb-3">
-                    {interruptedSession.questions.length} / {interruptedSession.generationProgress?.requestedCount} questions sont déjà prêtes.
+                    {t("generation.ready", {
+                      saved: interruptedSession.questions.length,
+                      total: interruptedSession.generationProgress?.requestedCount ?? 0,
+                    })}
                   </p>
                   <div className="flex gap-3">
                     <Button variant="primary" size="sm" onClick={handleResumeGeneration} loading={isGenerating}>
                       <RefreshCw className="w-4 h-4 mr-2" />
-                      Reprendre
+                      {t("generation.resume")}
                     </Button>
                     {interruptedSession.questions.length >= 5 && (
                       <Button variant="secondary" size="sm" onClick={handleUsePartialQuestions}>
                         <CheckCircle className="w-4 h-4 mr-2" />
-                        Commencer avec {interruptedSession.questions.length} questions
+                        {t("generation.startWith", { count: interruptedSession.questions.length })}
                       </Button>
                     )}
                     <Button variant="secondary" size="sm" onClick={handleDismissInterrupted}>
-                      Ignorer
+                      {t("generation.dismiss")}
                     </Button>
                   </div>
                 </div>
@@ -435,21 +478,21 @@ export default function ExamPage() {
                 <AlertTriangle className="w-5 h-5 text-red-500 shrink-0 mt-0.5" />
                 <div className="flex-1">
                   <h3 className="font-mono font-semibold mb-1">
-                    Génération interrompue
+                    {t("generation.interrupted")}
                   </h3>
                   <p className="text-sm text-ink-secondary mb-1">
                     {errorModal.message}
                   </p>
                   <p className="text-sm text-ink-muted mb-3">
-                    {errorModal.savedCount} / {errorModal.requestedCount} questions ont été sauvegardées.
+                    {t("generation.saved", { saved: errorModal.savedCount, total: errorModal.requestedCount })}
                   </p>
                   <div className="flex gap-3">
                     <Button variant="primary" size="sm" onClick={handleUsePartialQuestions}>
                       <CheckCircle className="w-4 h-4 mr-2" />
-                      Commencer avec {errorModal.savedCount} questions
+                      {t("generation.startWith", { count: errorModal.savedCount })}
                     </Button>
                     <Button variant="secondary" size="sm" onClick={() => setErrorModal(null)}>
-                      Annuler
+                      {t("common.cancel")}
                     </Button>
                   </div>
                 </div>
@@ -471,32 +514,32 @@ export default function ExamPage() {
                   <Globe className="w-6 h-6 text-domain-ml" />
                 </div>
                 <div className="flex-1">
-                  <CardTitle>Examen Complet</CardTitle>
+                  <CardTitle>{t("exam.full")}</CardTitle>
                   <p className="text-sm text-ink-muted mt-1">
-                    Tous les domaines IABD
+                    {t("exam.fullHint")}
                   </p>
                 </div>
               </div>
 
               <div className="space-y-3">
                 <div className="flex items-center justify-between text-sm">
-                  <span className="text-ink-muted">Questions</span>
+                  <span className="text-ink-muted">{t("exam.questions")}</span>
                   <span className="font-mono font-medium">40</span>
                 </div>
                 <div className="flex items-center justify-between text-sm">
-                  <span className="text-ink-muted">Durée</span>
+                  <span className="text-ink-muted">{t("exam.duration")}</span>
                   <span className="font-mono font-medium flex items-center gap-1">
                     <Clock className="w-4 h-4" />
                     2h
                   </span>
                 </div>
                 <div className="flex items-center justify-between text-sm">
-                  <span className="text-ink-muted">Domaines</span>
+                  <span className="text-ink-muted">{t("exam.domains")}</span>
                   <span className="font-mono font-medium">10</span>
                 </div>
               </div>
 
-              <Badge className="mt-4">RECOMMANDÉ</Badge>
+              <Badge className="mt-4">{t("exam.recommended")}</Badge>
             </CardContent>
           </Card>
 
@@ -512,27 +555,27 @@ export default function ExamPage() {
                   <FileText className="w-6 h-6 text-domain-dl" />
                 </div>
                 <div className="flex-1">
-                  <CardTitle>Examen par Domaine</CardTitle>
+                  <CardTitle>{t("exam.domain")}</CardTitle>
                   <p className="text-sm text-ink-muted mt-1">
-                    Focus sur un domaine spécifique
+                    {t("exam.domainHint")}
                   </p>
                 </div>
               </div>
 
               <div className="space-y-3">
                 <div className="flex items-center justify-between text-sm">
-                  <span className="text-ink-muted">Questions</span>
+                  <span className="text-ink-muted">{t("exam.questions")}</span>
                   <span className="font-mono font-medium">20</span>
                 </div>
                 <div className="flex items-center justify-between text-sm">
-                  <span className="text-ink-muted">Durée</span>
+                  <span className="text-ink-muted">{t("exam.duration")}</span>
                   <span className="font-mono font-medium flex items-center gap-1">
                     <Clock className="w-4 h-4" />
                     1h
                   </span>
                 </div>
                 <div className="flex items-center justify-between text-sm">
-                  <span className="text-ink-muted">Domaines</span>
+                  <span className="text-ink-muted">{t("exam.domains")}</span>
                   <span className="font-mono font-medium">1</span>
                 </div>
               </div>
@@ -544,7 +587,7 @@ export default function ExamPage() {
         {examType === "domain" && (
           <Card className="mb-8 animate-fade-in-up">
             <CardContent>
-              <h3 className="font-mono font-semibold mb-4">Sélection du Domaine</h3>
+              <h3 className="font-mono font-semibold mb-4">{t("exam.selectDomain")}</h3>
               <DomainSelector
                 value={selectedDomain}
                 onChange={setSelectedDomain}
@@ -554,25 +597,39 @@ export default function ExamPage() {
           </Card>
         )}
 
+        {/* Difficulty */}
+        <Card className="mb-8">
+          <CardContent>
+            <h3 className="font-mono font-semibold mb-4">{t("difficulty.label")}</h3>
+            <DifficultySelector
+              value={difficulty}
+              onChange={setDifficulty}
+              mix={difficultyMix}
+              onMixChange={setDifficultyMix}
+              label={t("exam.questionLevel")}
+            />
+          </CardContent>
+        </Card>
+
         {/* Summary */}
         <Card className="mb-8">
           <CardContent>
-            <h3 className="font-mono font-semibold mb-4">Résumé de l'Examen</h3>
+            <h3 className="font-mono font-semibold mb-4">{t("exam.summary")}</h3>
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
               <div>
-                <span className="font-mono text-xs text-ink-muted uppercase">Type</span>
+                <span className="font-mono text-xs text-ink-muted uppercase">{t("exam.type")}</span>
                 <p className="font-medium mt-1">
-                  {examType === "full" ? "Complet" : "Domaine"}
+                  {examType === "full" ? t("exam.type.full") : t("exam.type.domain")}
                 </p>
               </div>
               <div>
-                <span className="font-mono text-xs text-ink-muted uppercase">Questions</span>
+                <span className="font-mono text-xs text-ink-muted uppercase">{t("exam.questions")}</span>
                 <p className="font-medium mt-1">
                   {examType === "full" ? "40" : "20"}
                 </p>
               </div>
               <div>
-                <span className="font-mono text-xs text-ink-muted uppercase">Durée</span>
+                <span className="font-mono text-xs text-ink-muted uppercase">{t("exam.duration")}</span>
                 <p className="font-medium mt-1">
                   {examType === "full" ? "2h" : "1h"}
                 </p>
@@ -590,18 +647,29 @@ export default function ExamPage() {
         {/* Actions */}
         <div className="flex gap-4 justify-center items-center mb-12">
           <Button variant="secondary" onClick={() => router.back()} disabled={isGenerating}>
-            Retour
+            {t("common.back")}
           </Button>
-          <Button variant="primary" onClick={handleStartExam} loading={isGenerating} disabled={isGenerating}>
+          <Button
+            variant="primary"
+            onClick={handleStartExam}
+            loading={isGenerating}
+            disabled={isGenerating || (difficulty === "mixed" && !Object.values(difficultyMix).some((v) => v > 0))}
+          >
             {isGenerating ? (
               <>
                 <Loader2 className="w-4 h-4 animate-spin mr-2" />
-                Préparation...
+                {t("exam.preparing")}
               </>
             ) : (
-              "Commencer l'Examen"
+              t("exam.start")
             )}
           </Button>
+          {isGenerating && generatingSessionId && (
+            <Button variant="secondary" onClick={handleStopGeneration} disabled={isStopping}>
+              <Square className="w-3 h-3 mr-2" />
+              {t("common.stop")}
+            </Button>
+          )}
         </div>
 
         {/* Saved Exams Section */}
@@ -609,7 +677,7 @@ export default function ExamPage() {
           <div className="flex items-center gap-3 mb-6">
             <History className="w-5 h-5 text-accent" />
             <h2 className="font-mono font-semibold text-xl">
-              Examens Précédents
+              {t("exam.previous")}
             </h2>
             {savedExams.length > 0 && (
               <Badge variant="default">{savedExams.length}</Badge>
@@ -617,16 +685,16 @@ export default function ExamPage() {
           </div>
 
           {loading ? (
-            <p className="font-mono text-sm text-ink-muted">Chargement...</p>
+            <p className="font-mono text-sm text-ink-muted">{t("common.loading")}</p>
           ) : savedExams.length === 0 ? (
             <Card>
               <CardContent className="text-center py-12">
                 <History className="w-16 h-16 mx-auto mb-4 text-ink-muted" />
                 <p className="text-ink-secondary mb-2">
-                  Aucun examen précédent
+                  {t("exam.previousEmpty")}
                 </p>
                 <p className="text-sm text-ink-muted">
-                  Les examens que vous créerez seront sauvegardés ici pour pouvoir les refaire
+                  {t("exam.previousEmptyHint")}
                 </p>
               </CardContent>
             </Card>
@@ -642,7 +710,7 @@ export default function ExamPage() {
                         </h3>
                         <div className="flex items-center gap-2 text-sm text-ink-muted">
                           <span>
-                            {exam.type === "full" ? "40 questions" : "20 questions"}
+                            {tn("common.questions", exam.type === "full" ? 40 : 20)}
                           </span>
                           <span>•</span>
                           <span>
@@ -657,10 +725,10 @@ export default function ExamPage() {
 
                     <div className="flex items-center justify-between text-xs text-ink-muted mb-4">
                       <span>
-                        Créé le {new Date(exam.createdAt).toLocaleDateString("fr-FR")}
+                        {t("common.createdOn", { date: formatShortDate(new Date(exam.createdAt)) })}
                       </span>
                       <span>
-                        {exam.attempts.length} tentative{exam.attempts.length > 1 ? "s" : ""}
+                        {tn("exams.attempts", exam.attempts.length)}
                       </span>
                     </div>
 
@@ -673,7 +741,7 @@ export default function ExamPage() {
                       disabled={isGenerating}
                     >
                       <RefreshCw className="w-4 h-4 mr-2" />
-                      Refaire cet Examen
+                      {t("exam.retake")}
                     </Button>
                   </CardContent>
                 </Card>
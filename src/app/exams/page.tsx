@@ -11,6 +11,8 @@ import { DomainBadge } from "@/components/features/DomainSelector";
 import { History, Trophy, Target, TrendingUp, Calendar, FileText } from "lucide-react";
 import { indexedDBService } from "@/services/IndexedDBService";
 import { SavedExam, ExamAttempt, QuizSession } from "@/types";
+import { formatShortDate, getDomainLabel } from "@/lib/utils";
+import { useTranslation } from "@/components/AppProvider";
 
 // ============================================
 // EXAMS HISTORY PAGE
@@ -19,6 +21,7 @@ import { SavedExam, ExamAttempt, QuizSession } from "@/types";
 
 export default function ExamsPage() {
   const router = useRouter();
+  const { t, tn } = useTranslation();
   const [exams, setExams] = useState<SavedExam[]>([]);
   const [activeExamSession, setActiveExamSession] = useState<QuizSession | null>(null);
   const [loading, setLoading] = useState(true);
@@ -125,7 +128,7 @@ export default function ExamsPage() {
       window.location.href = `/quiz?session=${sessionId}`;
     } catch (error: any) {
       console.error('[Exams] Failed to retake exam:', error);
-      alert(`Erreur: ${error.message || "Erreur inconnue"}`);
+      alert(t("common.errorWithMessage", { message: error.message || t("common.unknownError") }));
     }
   };
 
@@ -158,7 +161,7 @@ export default function ExamsPage() {
       <div className="min-h-screen flex flex-col bg-paper-primary">
         <Navigation />
         <main className="flex-1 flex items-center justify-center">
-          <p className="font-mono text-ink-muted">Chargement de l'historique...</p>
+          <p className="font-mono text-ink-muted">{t("exams.loading")}</p>
         </main>
       </div>
     );
@@ -172,8 +175,8 @@ export default function ExamsPage() {
 
       <main className="flex-1 max-w-4xl mx-auto w-full px-4 py-12">
         <PageHeader
-          title="Historique des Examens"
-          description={`${stats.count} examen${stats.count > 1 ? 's' : ''} créé${stats.count > 1 ? 's' : ''} • ${stats.totalAttempts} tentative${stats.totalAttempts > 1 ? 's' : ''}`}
+          title={t("exams.title")}
+          description={`${tn("exams.created", stats.count)} • ${tn("exams.attempts", stats.totalAttempts)}`}
         />
 
         {/* Active Exam Session Banner */}
@@ -184,11 +187,14 @@ export default function ExamsPage() {
                 <FileText className="w-5 h-5 text-accent shrink-0 mt-0.5" />
                 <div className="flex-1">
                   <h3 className="font-mono font-semibold mb-1">
-                    Examen en cours
+                    {t("exams.inProgress")}
                   </h3>
                   <p className="text-sm text-ink-secondary mb-1">
-                    {Object.keys(activeExamSession.userAnswers).length} / {activeExamSession.questions.length} questions répondues
-                    {activeExamSession.domain && ` — ${activeExamSession.domain.replace(/_/g, " ")}`}
+                    {t("exams.answered", {
+                      answered: Object.keys(activeExamSession.userAnswers).length,
+                      total: activeExamSession.questions.length,
+                    })}
+                    {activeExamSession.domain && ` — ${getDomainLabel(activeExamSession.domain)}`}
                   </p>
                   <div className="flex gap-3 mt-3">
                     <Button
@@ -196,7 +202,7 @@ export default function ExamsPage() {
                       size="sm"
                       onClick={() => window.location.href = `/quiz?session=${activeExamSession.id}`}
                     >
-                      Continuer
+                      {t("common.continue")}
                     </Button>
                     <Button
                       variant="secondary"
@@ -206,7 +212,7 @@ export default function ExamsPage() {
                         setActiveExamSession(null);
                       }}
                     >
-                      Recommencer
+                      {t("common.restart")}
                     </Button>
                   </div>
                 </div>
@@ -223,7 +229,7 @@ export default function ExamsPage() {
                 <Target className="w-8 h-8 text-accent" />
                 <div>
                   <p className="font-mono text-2xl font-bold">{stats.count}</p>
-                  <p className="font-mono text-xs text-ink-muted">EXAMENS</p>
+                  <p className="font-mono text-xs text-ink-muted">{t("exams.stats.exams")}</p>
                 </div>
               </div>
             </CardContent>
@@ -234,7 +240,7 @@ export default function ExamsPage() {
                 <History className="w-8 h-8 text-domain-bigdata" />
                 <div>
                   <p className="font-mono text-2xl font-bold">{stats.totalAttempts}</p>
-                  <p className="font-mono text-xs text-ink-muted">TENTATIVES</p>
+                  <p className="font-mono text-xs text-ink-muted">{t("exams.stats.attempts")}</p>
                 </div>
               </div>
             </CardContent>
@@ -245,7 +251,7 @@ export default function ExamsPage() {
                 <TrendingUp className="w-8 h-8 text-domain-dl" />
                 <div>
                   <p className="font-mono text-2xl font-bold">{stats.average}%</p>
-                  <p className="font-mono text-xs text-ink-muted">MOYENNE</p>
+                  <p className="font-mono text-xs text-ink-muted">{t("exams.stats.average")}</p>
                 </div>
               </div>
             </CardContent>
@@ -256,7 +262,7 @@ export default function ExamsPage() {
                 <Trophy className="w-8 h-8 text-domain-ai" />
                 <div>
                   <p className="font-mono text-2xl font-bold">{stats.best}%</p>
-                  <p className="font-mono text-xs text-ink-muted">MEILLEUR</p>
+                  <p className="font-mono text-xs text-ink-muted">{t("exams.stats.best")}</p>
                 </div>
               </div>
             </CardContent>
@@ -269,13 +275,13 @@ export default function ExamsPage() {
             <CardContent className="text-center py-12">
               <History className="w-16 h-16 mx-auto mb-4 text-ink-muted" />
               <p className="text-ink-secondary mb-4">
-                Aucun examen créé pour le moment
+                {t("exams.empty")}
               </p>
               <p className="text-sm text-ink-muted mb-4">
-                Créez votre premier examen pour voir votre historique
+                {t("exams.emptyHint")}
               </p>
               <Button variant="primary" onClick={() => router.push("/exam")}>
-                Créer un Examen
+                {t("exams.create")}
               </Button>
             </CardContent>
           </Card>
@@ -296,22 +302,22 @@ export default function ExamsPage() {
                           </h3>
                           {exam.domain && <DomainBadge domain={exam.domain} />}
                           <Badge variant={exam.type === "full" ? "default" : "accent"}>
-                            {exam.type === "full" ? "COMPLET" : "DOMAINE"}
+                            {exam.type === "full" ? t("exams.type.full") : t("exams.type.domain")}
                           </Badge>
                         </div>
 
                         <div className="flex flex-wrap gap-x-6 gap-y-2 text-sm text-ink-muted">
                           <div className="flex items-center gap-2">
                             <Calendar className="w-4 h-4" />
-                            <span>Créé le {new Date(exam.createdAt).toLocaleDateString("fr-FR")}</span>
+                            <span>{t("common.createdOn", { date: formatShortDate(new Date(exam.createdAt)) })}</span>
                           </div>
                           <div className="flex items-center gap-2">
                             <Target className="w-4 h-4" />
-                            <span>{exam.questions.length} questions</span>
+                            <span>{tn("common.questions", exam.questions.length)}</span>
                           </div>
                           <div className="flex items-center gap-2">
                             <History className="w-4 h-4" />
-                            <span>{attemptsCount} tentative{attemptsCount > 1 ? "s" : ""}</span>
+                            <span>{tn("exams.attempts", attemptsCount)}</span>
                           </div>
                         </div>
                       </div>
@@ -322,7 +328,7 @@ export default function ExamsPage() {
                             <div className={`font-mono text-3xl font-bold ${getScoreColor(exam.bestScore)}`}>
                               {exam.bestScore}%
                             </div>
-                            <p className="font-mono text-xs text-ink-muted">Meilleur score</p>
+                            <p className="font-mono text-xs text-ink-muted">{t("exams.bestScore")}</p>
                           </>
                         ) : (
                           <div className="font-mono text-3xl font-bold text-ink-muted">
@@ -339,14 +345,14 @@ export default function ExamsPage() {
                         onClick={() => handleViewDetails(exam)}
                         disabled={!hasBestScore}
                       >
-                        Voir Détails
+                        {t("exams.viewDetails")}
                       </Button>
                       <Button
                         variant="primary"
                         size="sm"
                         onClick={() => handleRetakeExam(exam)}
                       >
-                        Refaire
+                        {t("exams.retake")}
                       </Button>
                     </div>
                   </CardContent>
@@ -7,10 +7,15 @@ import { PageHeader } from "@/components/layout/Header";
 import { QuestionCard } from "@/components/features/QuestionCard";
 import { Card, CardContent } from "@/components/ui/Card";
 import { Button } from "@/components/ui/Button";
-import { DomainSelector, DomainBadge } from "@/components/features/DomainSelector";
+import { DomainSelector, DomainBadge, useCustomDomains } from "@/components/features/DomainSelector";
+import { SubtopicSelector } from "@/components/features/SubtopicSelector";
 import { Domain, QuestionType, Question } from "@/types";
 import { Star, Filter } from "lucide-react";
 import { indexedDBService } from "@/services/IndexedDBService";
+import { selectAnswer } from "@/lib/scoring";
+import { getDomainLabel } from "@/lib/utils";
+import { countSubtopics, getDomainSubtopics, getQuestionSubtopic } from "@/lib/subtopics";
+import { useTranslation } from "@/components/AppProvider";
 
 // ============================================
 // FAVORITES PAGE
@@ -19,10 +24,13 @@ import { indexedDBService } from "@/services/IndexedDBService";
 
 export default function FavoritesPage() {
   const router = useRouter();
+  const { t } = useTranslation();
   const [favorites, setFavorites] = useState<Question[]>([]);
   const [loading, setLoading] = useState(true);
   const [filterDomain, setFilterDomain] = useState<Domain | "all">("all");
-  const [selectedAnswers, setSelectedAnswers] = useState<Record<string, string>>({});
+  const customDomains = useCustomDomains();
+  const [filterSubtopics, setFilterSubtopics] = useState<string[]>([]);
+  const [selectedAnswers, setSelectedAnswers] = useState<Record<string, string[]>>({});
 
   // Load favorites from IndexedDB on mount
   useEffect(() => {
@@ -34,11 +42,14 @@ export default function FavoritesPage() {
         console.log('[Favorites] Loaded', allFavorites.length, 'favorites');
 
         // Initialize selectedAnswers with the pre-selected correct answers
-        const initialSelectedAnswers: Record<string, string> = {};
+        // (favorites saved before multiple choice only have selectedAnswerId)
+        const initialSelectedAnswers: Record<string, string[]> = {};
         allFavorites.forEach((fav: any) => {
-          if (fav.selectedAnswerId) {
-            initialSelectedAnswers[fav.id] = fav.selectedAnswerId;
-            console.log('[Favorites] Pre-selected answer for question:', fav.id, '->', fav.selectedAnswerId);
+          const preselected: string[] =
+            fav.selectedAnswerIds || (fav.selectedAnswerId ? [fav.selectedAnswerId] : []);
+          if (preselected.length > 0) {
+            initialSelectedAnswers[fav.id] = preselected;
+            console.log('[Favorites] Pre-selected answers for question:', fav.id, '->', preselected);
           }
         });
 
@@ -54,13 +65,30 @@ export default function FavoritesPage() {
     loadFavorites();
   }, []);
 
-  const filteredFavorites =
+  const domainFavorites =
     filterDomain === "all"
       ? favorites
       : favorites.filter((f) => f.domain === filterDomain);
 
-  const handleAnswerSelect = (questionId: string, answerId: string) => {
-    setSelectedAnswers({ ...selectedAnswers, [questionId]: answerId });
+  const filteredFavorites =
+    filterSubtopics.length === 0
+      ? domainFavorites
+      : domainFavorites.filter((f) => filterSubtopics.includes(getQuestionSubtopic(f) ?? ""));
+
+  const handleFilterDomain = (domain: Domain | "all") => {
+    setFilterDomain(domain);
+    setFilterSubtopics([]);
+  };
+
+  const handleAnswerSelect = (question: Question, answerId: string) => {
+    setSelectedAnswers({
+      ...selectedAnswers,
+      [question.id]: selectAnswer(question, selectedAnswers[question.id] || [], answerId),
+    });
+  };
+
+  const handleResponseChange = (question: Question, response: string[]) => {
+    setSelectedAnswers({ ...selectedAnswers, [question.id]: response });
   };
 
   const handleToggleFavorite = async (question: Question) => {
@@ -81,7 +109,7 @@ export default function FavoritesPage() {
       <div className="min-h-screen flex flex-col bg-paper-primary">
         <Navigation />
         <main className="flex-1 flex items-center justify-center">
-          <p className="font-mono text-ink-muted">Chargement des favoris...</p>
+          <p className="font-mono text-ink-muted">{t("favorites.loading")}</p>
         </main>
       </div>
     );
@@ -93,11 +121,11 @@ export default function FavoritesPage() {
 
       <main className="flex-1 max-w-4xl mx-auto w-full px-4 py-12">
         <PageHeader
-          title="Questions Favorites"
-          description={`${favorites.length} questions marquées`}
+          title={t("favorites.title")}
+          description={t("favorites.count", { count: favorites.length })}
           actions={
             <Button variant="secondary" size="sm" onClick={() => router.back()}>
-              Retour
+              {t("common.back")}
             </Button>
           }
         />
@@ -107,33 +135,42 @@ export default function FavoritesPage() {
           <CardContent>
             <div className="flex items-center gap-3 mb-4">
               <Filter className="w-5 h-5 text-accent" />
-              <h3 className="font-mono font-semibold">Filtrer par Domaine</h3>
+              <h3 className="font-mono font-semibold">{t("favorites.filterByDomain")}</h3>
             </div>
             <div className="flex flex-wrap gap-2">
               <button
-                onClick={() => setFilterDomain("all")}
+                onClick={() => handleFilterDomain("all")}
                 className={`px-4 py-2 rounded border font-mono text-sm transition-colors ${
                   filterDomain === "all"
                     ? "border-accent bg-accent/10 text-accent"
                     : "border-paper-dark text-ink-secondary hover:border-accent"
                 }`}
               >
-                Tous ({favorites.length})
+                {t("common.allCount", { count: favorites.length })}
               </button>
-              {Object.values(Domain).map((domain) => (
+              {[...Object.values(Domain), ...customDomains.map((d) => d.id)].map((domain) => (
                 <button
                   key={domain}
-                  onClick={() => setFilterDomain(domain)}
+                  onClick={() => handleFilterDomain(domain)}
                   className={`px-4 py-2 rounded border font-mono text-sm transition-colors ${
                     filterDomain === domain
                       ? "border-accent bg-accent/10 text-accent"
                       : "border-paper-dark text-ink-secondary hover:border-accent"
                   }`}
                 >
-                  {domain.replace(/_/g, " ")}
+                  {getDomainLabel(domain)}
                 </button>
               ))}
             </div>
+            {filterDomain !== "all" && (
+              <SubtopicSelector
+                className="mt-4"
+                subtopics={getDomainSubtopics(filterDomain)}
+                value={filterSubtopics}
+                onChange={setFilterSubtopics}
+                counts={countSubtopics(domainFavorites)}
+              />
+            )}
           </CardContent>
         </Card>
 
@@ -144,11 +181,11 @@ export default function FavoritesPage() {
               <Star className="w-16 h-16 mx-auto mb-4 text-ink-muted" />
               <p className="text-ink-secondary mb-4">
                 {filterDomain === "all"
-                  ? "Aucune question favorite pour le moment"
-                  : "Aucune question favorite dans ce domaine"}
+                  ? t("favorites.empty")
+                  : t("favorites.emptyDomain")}
               </p>
               <Button variant="primary" onClick={() => router.push("/practice")}>
-                Commencer à Réviser
+                {t("favorites.start")}
               </Button>
             </CardContent>
           </Card>
@@ -158,8 +195,9 @@ export default function FavoritesPage() {
               <QuestionCard
                 key={question.id}
                 question={question}
-                selectedAnswerId={selectedAnswers[question.id]}
-                onAnswerSelect={(id) => handleAnswerSelect(question.id, id)}
+                selectedAnswerIds={selectedAnswers[question.id]}
+                onAnswerSelect={(id) => handleAnswerSelect(question, id)}
+                onResponseChange={(response) => handleResponseChange(question, response)}
                 showResult={false}
                 isFavorite={true}
                 onToggleFavorite={() => handleToggleFavorite(question)}
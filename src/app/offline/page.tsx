@@ -7,28 +7,54 @@ import { PageHeader } from "@/components/layout/Header";
 import { Card, CardContent, CardTitle } from "@/components/ui/Card";
 import { Button } from "@/components/ui/Button";
 import { DomainSelector } from "@/components/features/DomainSelector";
+import { DifficultySelector } from "@/components/features/DifficultySelector";
 import { Badge } from "@/components/ui/Badge";
-import { Domain, QuizSession, SavedExercise } from "@/types";
-import { Download, Wifi, WifiOff, CheckCircle } from "lucide-react";
+import { DifficultyMix, DifficultySetting, Domain, Language, QuizSession, SavedExercise } from "@/types";
+import { Download, Wifi, WifiOff, CheckCircle, Languages } from "lucide-react";
 import { indexedDBService } from "@/services/IndexedDBService";
 import { aiServiceFactory } from "@/services/AIServiceFactory";
 import { storageService } from "@/services/StorageService";
 import { notificationService } from "@/services/NotificationService";
+import { translationService } from "@/services/TranslationService";
+import { DEFAULT_DIFFICULTY_MIX } from "@/lib/difficulty";
+import { DEFAULT_QUESTION_FORMATS } from "@/lib/questionFormats";
+import { countSubtopics, getQuestionSubtopic } from "@/lib/subtopics";
+import { formatShortDate, getDomainLabel } from "@/lib/utils";
+import { DEFAULT_LANGUAGE, getQuestionLanguage, LANGUAGE_LABELS, LANGUAGES } from "@/lib/i18n";
+import { useTranslation } from "@/components/AppProvider";
+
+/**
+ * Language of an exercise (its questions are generated or translated together)
+ */
+function getExerciseLanguage(exercise: SavedExercise): Language {
+  return exercise.questions[0] ? getQuestionLanguage(exercise.questions[0]) : DEFAULT_LANGUAGE;
+}
 
 // ============================================
 // OFFLINE PAGE
-// Generate and manage offline exercises
+// Generate and manage offline exercises (question bank),
+// filter them by language or translate them
 // ============================================
 
 export default function OfflinePage() {
   const router = useRouter();
+  const { t, tn } = useTranslation();
   const [selectedDomain, setSelectedDomain] = useState<Domain>(Domain.MACHINE_LEARNING);
   const [exercises, setExercises] = useState<SavedExercise[]>([]);
   const [isGenerating, setIsGenerating] = useState(false);
   const [loading, setLoading] = useState(true);
   const [questionCount, setQuestionCount] = useState(10);
+  const [difficulty, setDifficulty] = useState<DifficultySetting>("mixed");
+  const [difficultyMix, setDifficultyMix] = useState<DifficultyMix>(DEFAULT_DIFFICULTY_MIX);
   const [isOnline, setIsOnline] = useState(true);
   const [activeSessions, setActiveSessions] = useState<Map<string, QuizSession>>(new Map());
+  // Subtopic picked per exercise (question bank filter, empty = all)
+  const [exerciseSubtopics, setExerciseSubtopics] = useState<Record<string, string>>({});
+  const [filterLanguage, setFilterLanguage] = useState<Language | "all">("all");
+  // Exercise being translated and its progress
+  const [translating, setTranslating] = useState<{ id: string; done: number; total: number } | null>(
+    null
+  );
 
   useEffect(() => {
     const loadSettingsAndExercises = async () => {
@@ -125,11 +151,17 @@ export default function OfflinePage() {
       console.log('[Offline] Using provider:', settings.provider);
       const aiService = aiServiceFactory.getService(settings.provider);
 
-      const questions = await aiService.generateQuestions({
+      const language = settings.language ?? DEFAULT_LANGUAGE;
+      const generated = await aiService.generateQuestions({
         domain: selectedDomain,
         count: questionCount,
+        difficulty,
+        difficultyMix,
         includeExplanations: true,
+        formats: settings.questionFormats ?? DEFAULT_QUESTION_FORMATS,
+        language,
       });
+      const questions = generated.map((question) => ({ ...question, language }));
 
       console.log('[Offline] Generated', questions.length, 'questions');
 
@@ -168,7 +200,7 @@ export default function OfflinePage() {
       const allExercises = await indexedDBService.getAllExercises();
       setExercises(allExercises);
 
-      alert(`${questions.length} questions générées et prêtes à être utilisées hors ligne !`);
+      alert(t("offline.generated", { count: questions.length }));
     } catch (error: any) {
       console.error('[Offline] Failed to generate exercises:', error);
 
@@ -178,11 +210,11 @@ export default function OfflinePage() {
           taskId,
           'failed',
           undefined,
-          error.message || "Erreur inconnue"
+          error.message || t("common.unknownError")
         );
       }
 
-      alert(`Erreur lors de la génération: ${error.message || "Erreur inconnue"}`);
+      alert(t("common.generationError", { message: error.message || t("common.unknownError") }));
     } finally {
       setIsGenerating(false);
     }
@@ -194,10 +226,15 @@ export default function OfflinePage() {
     try {
       const exercise = await indexedDBService.getExercise(exerciseId);
       if (!exercise) {
-        alert("Exercice introuvable");
+        alert(t("offline.notFound"));
         return;
       }
 
+      const subtopic = exerciseSubtopics[exerciseId];
+      const questions = subtopic
+        ? exercise.questions.filter((q) => getQuestionSubtopic(q) === subtopic)
+        : exercise.questions;
+
       // Mark as used
       await indexedDBService.markExerciseUsed(exerciseId);
 
@@ -207,20 +244,21 @@ export default function OfflinePage() {
         id: sessionId,
         type: "offline",
         domain: exercise.domain,
-        questions: exercise.questions,
+        questions,
         userAnswers: {},
         currentIndex: 0,
         status: "IN_PROGRESS" as any,
         startedAt: new Date(),
         exerciseId: exercise.id,
+        subtopics: subtopic ? [subtopic] : undefined,
       });
 
-      console.log('[Offline] Session created:', sessionId);
+      console.log('[Offline] Session created:', sessionId, subtopic ? `(${subtopic})` : '');
       // Use direct navigation to avoid RSC prefetch which fails offline
       window.location.href = `/quiz?session=${sessionId}`;
     } catch (error) {
       console.error('[Offline] Failed to start exercise:', error);
-      alert("Erreur lors du démarrage de l'exercice");
+      alert(t("offline.startError"));
     }
   };
 
@@ -236,12 +274,12 @@ export default function OfflinePage() {
       await handleStartExercise(exerciseId);
     } catch (error) {
       console.error('[Offline] Failed to restart exercise:', error);
-      alert("Erreur lors du redémarrage");
+      alert(t("offline.restartError"));
     }
   };
 
   const handleDeleteExercise = async (exerciseId: string) => {
-    if (!confirm("Supprimer cet exercice hors ligne ?")) return;
+    if (!confirm(t("offline.deleteConfirm"))) return;
 
     try {
       await indexedDBService.deleteExercise(exerciseId);
@@ -250,16 +288,48 @@ export default function OfflinePage() {
       console.log('[Offline] Exercise deleted:', exerciseId);
     } catch (error) {
       console.error('[Offline] Failed to delete exercise:', error);
-      alert("Erreur lors de la suppression");
+      alert(t("offline.deleteError"));
     }
   };
 
+  const handleTranslateExercise = async (exercise: SavedExercise, language: Language) => {
+    console.log('[Offline] Translating exercise:', exercise.id, 'to', language);
+    setTranslating({ id: exercise.id, done: 0, total: exercise.questions.length });
+
+    try {
+      const questions = await translationService.translate(exercise.questions, language, {
+        onProgress: (done, total) => setTranslating({ id: exercise.id, done, total }),
+      });
+
+      // The translation is a new exercise, next to the original
+      await indexedDBService.saveExercise({
+        id: `offline-${exercise.domain}-${Date.now()}`,
+        domain: exercise.domain,
+        questions,
+        used: false,
+        createdAt: new Date(),
+      });
+      setExercises(await indexedDBService.getAllExercises());
+      console.log('[Offline] Translated exercise saved:', questions.length, 'questions');
+    } catch (error) {
+      console.error('[Offline] Failed to translate exercise:', error);
+      alert(t("offline.translateError", { message: (error as Error).message || t("common.unknownError") }));
+    } finally {
+      setTranslating(null);
+    }
+  };
+
+  const visibleExercises =
+    filterLanguage === "all"
+      ? exercises
+      : exercises.filter((exercise) => getExerciseLanguage(exercise) === filterLanguage);
+
   if (loading) {
     return (
       <div className="min-h-screen flex flex-col bg-paper-primary">
         <Navigation />
         <main className="flex-1 flex items-center justify-center">
-          <p className="font-mono text-ink-muted">Chargement des exercices...</p>
+          <p className="font-mono text-ink-muted">{t("offline.loading")}</p>
         </main>
       </div>
     );
@@ -271,8 +341,8 @@ export default function OfflinePage() {
 
       <main className="flex-1 max-w-4xl mx-auto w-full px-4 py-12">
         <PageHeader
-          title="Mode Hors Ligne"
-          description="Générez des exercices pour réviser sans connexion"
+          title={t("offline.title")}
+          description={t("offline.description")}
         />
 
         {/* Connection Status */}
@@ -283,9 +353,9 @@ export default function OfflinePage() {
                 <>
                   <Wifi className="w-5 h-5 text-domain-dl" />
                   <div>
-                    <p className="font-medium text-sm">Connecté à Internet</p>
+                    <p className="font-medium text-sm">{t("offline.online")}</p>
                     <p className="text-xs text-ink-muted">
-                      Vous pouvez générer de nouveaux exercices
+                      {t("offline.onlineHint")}
                     </p>
                   </div>
                 </>
@@ -293,9 +363,9 @@ export default function OfflinePage() {
                 <>
                   <WifiOff className="w-5 h-5 text-domain-ml" />
                   <div>
-                    <p className="font-medium text-sm">Hors Ligne</p>
+                    <p className="font-medium text-sm">{t("nav.offline")}</p>
                     <p className="text-xs text-ink-muted">
-                      Utilisez les exercices téléchargés
+                      {t("offline.offlineHint")}
                     </p>
                   </div>
                 </>
@@ -309,18 +379,25 @@ export default function OfflinePage() {
           <CardContent>
             <div className="flex items-center gap-3 mb-4">
               <Download className="w-5 h-5 text-accent" />
-              <h3 className="font-mono font-semibold">Générer des Exercices</h3>
+              <h3 className="font-mono font-semibold">{t("offline.generate")}</h3>
             </div>
 
             <div className="mb-6">
               <p className="text-sm text-ink-muted mb-4">
-                Sélectionnez un domaine pour générer {questionCount} questions utilisables hors ligne
+                {t("offline.generateHint", { count: questionCount })}
               </p>
               <DomainSelector
                 value={selectedDomain}
                 onChange={setSelectedDomain}
                 variant="dropdown"
               />
+              <DifficultySelector
+                className="mt-4"
+                value={difficulty}
+                onChange={setDifficulty}
+                mix={difficultyMix}
+                onMixChange={setDifficultyMix}
+              />
             </div>
 
             <Button
@@ -328,10 +405,14 @@ export default function OfflinePage() {
               className="w-full"
               onClick={handleGenerate}
               loading={isGenerating}
-              disabled={isGenerating || !isOnline}
+              disabled={
+                isGenerating ||
+                !isOnline ||
+                (difficulty === "mixed" && !Object.values(difficultyMix).some((v) => v > 0))
+              }
             >
               <Download className="w-4 h-4 mr-2" />
-              {isOnline ? "Générer pour Hors Ligne" : "Hors Ligne - Non disponible"}
+              {isOnline ? t("offline.generateButton") : t("offline.unavailable")}
             </Button>
           </CardContent>
         </Card>
@@ -340,29 +421,51 @@ export default function OfflinePage() {
         <div>
           <h3 className="font-mono font-semibold mb-4 flex items-center gap-3">
             <WifiOff className="w-5 h-5" />
-            Exercices Disponibles ({exercises.length})
+            {t("offline.available", { count: visibleExercises.length })}
           </h3>
 
-          {exercises.length === 0 ? (
+          {/* Language filter */}
+          <div className="flex flex-wrap gap-2 mb-4">
+            {(["all", ...LANGUAGES] as const).map((language) => (
+              <button
+                key={language}
+                onClick={() => setFilterLanguage(language)}
+                aria-pressed={filterLanguage === language}
+                className={`px-3 py-1.5 rounded border font-mono text-xs transition-colors ${
+                  filterLanguage === language
+                    ? "border-accent bg-accent/10 text-accent"
+                    : "border-paper-dark text-ink-secondary hover:border-accent"
+                }`}
+              >
+                {language === "all" ? t("offline.allLanguages") : LANGUAGE_LABELS[language]}
+              </button>
+            ))}
+          </div>
+
+          {visibleExercises.length === 0 ? (
             <Card>
               <CardContent className="text-center py-12">
                 <WifiOff className="w-16 h-16 mx-auto mb-4 text-ink-muted" />
                 <p className="text-ink-secondary mb-4">
-                  Aucun exercice hors ligne pour le moment
+                  {t("offline.empty")}
                 </p>
                 <p className="text-sm text-ink-muted">
-                  Générez des exercices pour les utiliser sans connexion Internet
+                  {t("offline.emptyHint")}
                 </p>
               </CardContent>
             </Card>
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {exercises.map((exercise) => {
+              {visibleExercises.map((exercise) => {
                 const activeSession = activeSessions.get(exercise.id);
                 const answeredCount = activeSession
                   ? Object.keys(activeSession.userAnswers).length
                   : 0;
                 const totalQuestions = exercise.questions.length;
+                const subtopicCounts = countSubtopics(exercise.questions);
+                const language = getExerciseLanguage(exercise);
+                const target = LANGUAGES.find((l) => l !== language)!;
+                const isTranslating = translating?.id === exercise.id;
 
                 return (
                   <Card key={exercise.id} hoverable>
@@ -370,10 +473,10 @@ export default function OfflinePage() {
                       <div className="flex items-start justify-between mb-3">
                         <div>
                           <CardTitle className="text-base">
-                            {exercise.domain.replace(/_/g, " ")}
+                            {getDomainLabel(exercise.domain)}
                           </CardTitle>
                           <p className="text-sm text-ink-muted">
-                            {totalQuestions} questions
+                            {tn("common.questions", totalQuestions)} · {language.toUpperCase()}
                           </p>
                         </div>
                         {activeSession ? (
@@ -382,15 +485,42 @@ export default function OfflinePage() {
                           </Badge>
                         ) : (
                           <Badge variant={exercise.used ? "default" : "success"}>
-                            {exercise.used ? "Utilisé" : <><CheckCircle className="w-3 h-3 mr-1" />Prêt</>}
+                            {exercise.used ? (
+                              t("offline.used")
+                            ) : (
+                              <>
+                                <CheckCircle className="w-3 h-3 mr-1" />
+                                {t("offline.ready")}
+                              </>
+                            )}
                           </Badge>
                         )}
                       </div>
 
                       <p className="font-mono text-xs text-ink-muted mb-4">
-                        Ajouté le {new Date(exercise.createdAt).toLocaleDateString("fr-FR")}
+                        {t("offline.addedOn", { date: formatShortDate(new Date(exercise.createdAt)) })}
                       </p>
 
+                      {!activeSession && Object.keys(subtopicCounts).length > 1 && (
+                        <select
+                          value={exerciseSubtopics[exercise.id] || ""}
+                          onChange={(e) =>
+                            setExerciseSubtopics({
+                              ...exerciseSubtopics,
+                              [exercise.id]: e.target.value,
+                            })
+                          }
+                          className="w-full mb-4 px-3 py-2 bg-paper-secondary border border-paper-dark rounded font-mono text-xs text-ink-primary focus:outline-none focus:border-accent"
+                        >
+                          <option value="">{t("offline.allSubtopics", { count: totalQuestions })}</option>
+                          {Object.entries(subtopicCounts).map(([subtopic, count]) => (
+                            <option key={subtopic} value={subtopic}>
+                              {subtopic} ({count})
+                            </option>
+                          ))}
+                        </select>
+                      )}
+
                       {activeSession ? (
                         <div className="space-y-2">
                           <Button
@@ -399,7 +529,7 @@ export default function OfflinePage() {
                             size="sm"
                             onClick={() => handleResumeExercise(activeSession.id)}
                           >
-                            Continuer ({answeredCount}/{totalQuestions})
+                            {t("offline.resume", { answered: answeredCount, total: totalQuestions })}
                           </Button>
                           <div className="flex gap-2">
                             <Button
@@ -408,7 +538,7 @@ export default function OfflinePage() {
                               size="sm"
                               onClick={() => handleRestartExercise(exercise.id, activeSession.id)}
                             >
-                              Recommencer
+                              {t("common.restart")}
                             </Button>
                             <Button
                               variant="secondary"
@@ -416,7 +546,7 @@ export default function OfflinePage() {
                               size="sm"
                               onClick={() => handleDeleteExercise(exercise.id)}
                             >
-                              Supprimer
+                              {t("common.delete")}
                             </Button>
                           </div>
                         </div>
@@ -428,17 +558,33 @@ export default function OfflinePage() {
                             size="sm"
                             onClick={() => handleStartExercise(exercise.id)}
                           >
-                            Commencer
+                            {t("offline.start")}
                           </Button>
                           <Button
                             variant="secondary"
                             size="sm"
                             onClick={() => handleDeleteExercise(exercise.id)}
                           >
-                            Supprimer
+                            {t("common.delete")}
                           </Button>
                         </div>
                       )}
+
+                      {!activeSession && isOnline && (
+                        <Button
+                          variant="secondary"
+                          className="w-full mt-2"
+                          size="sm"
+                          onClick={() => handleTranslateExercise(exercise, target)}
+                          loading={isTranslating}
+                          disabled={!!translating}
+                        >
+                          <Languages className="w-4 h-4 mr-2" />
+                          {isTranslating
+                            ? t("offline.translating", { done: translating.done, total: translating.total })
+                            : t("offline.translateTo", { language: t(`language.${target}`) })}
+                        </Button>
+                      )}
                     </CardContent>
                   </Card>
                 );
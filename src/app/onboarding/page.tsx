@@ -6,51 +6,33 @@ import { Navigation } from "@/components/layout/Navigation";
 import { Card, CardContent } from "@/components/ui/Card";
 import { Button } from "@/components/ui/Button";
 import { Badge } from "@/components/ui/Badge";
-import { Key, Check, AlertCircle, Cpu, HelpCircle } from "lucide-react";
+import { Key, Check, AlertCircle, Cpu, HelpCircle, RefreshCw } from "lucide-react";
 import { Modal } from "@/components/ui/Modal";
 import { storageService } from "@/services/StorageService";
-import { AIProvider } from "@/types";
+import { providerRegistry } from "@/services/ProviderRegistry";
+import { AIProvider, ProviderCredentials } from "@/types";
+import { LANGUAGES, LANGUAGE_LABELS, setLanguage } from "@/lib/i18n";
 import { BatchSizeSlider } from "@/components/features/BatchSizeSlider";
+import { useTranslation } from "@/components/AppProvider";
 
 // ============================================
 // ONBOARDING PAGE
 // One-time setup for API key and model selection
 // ============================================
 
-const AVAILABLE_MODELS = [
-  {
-    id: "google/gemma-4-31b-it:free",
-    name: "Gemma 4 31B (Free)",
-    free: true,
-    provider: "openrouter" as AIProvider,
-  },
-  {
-    id: "openai/gpt-oss-120b:free",
-    name: "GPT-OSS 120B (Free)",
-    free: true,
-    provider: "openrouter" as AIProvider,
-  },
-  {
-    id: "gemma-4-31b-it",
-    name: "Gemma 4 31B",
-    free: true,
-    provider: "gemini" as AIProvider,
-  },
-  {
-    id: "gemini-3.1-flash-lite-preview",
-    name: "Gemini 3.1 Flash Lite",
-    free: true,
-    provider: "gemini" as AIProvider,
-  },
-];
+// Providers with a step-by-step key guide in the help modal
+const PROVIDERS_WITH_HELP: AIProvider[] = ["openrouter", "gemini"];
 
 export default function OnboardingPage() {
   const router = useRouter();
+  const { language, t } = useTranslation();
   const [provider, setProvider] = useState<AIProvider>("openrouter");
-  const [apiKey, setApiKey] = useState("");
-  const [geminiApiKey, setGeminiApiKey] = useState("");
-  const [customOpenRouterModel, setCustomOpenRouterModel] = useState("");
-  const [customGeminiModel, setCustomGeminiModel] = useState("");
+  const [credentials, setCredentials] = useState<ProviderCredentials>(
+    providerRegistry.getDefaultCredentials("openrouter"),
+  );
+  const [customModel, setCustomModel] = useState("");
+  const [discoveredModels, setDiscoveredModels] = useState<string[]>([]);
+  const [isDetectingModels, setIsDetectingModels] = useState(false);
   const [selectedModel, setSelectedModel] = useState("google/gemma-4-31b-it:free");
   const [batchSize, setBatchSize] = useState(10);
   const [isValidKey, setIsValidKey] = useState(false);
@@ -59,6 +41,9 @@ export default function OnboardingPage() {
   const [step, setStep] = useState(1);
   const [showHelpModal, setShowHelpModal] = useState(false);
 
+  const providers = providerRegistry.getAll();
+  const activeProvider = providerRegistry.get(provider);
+
   useEffect(() => {
     // Check if onboarding is already completed
     const checkOnboarding = async () => {
@@ -70,35 +55,61 @@ export default function OnboardingPage() {
     checkOnboarding();
   }, [router]);
 
-  const validateApiKey = (key: string, provider: AIProvider) => {
-    if (provider === "gemini") {
-      // Google API key format: AIza followed by 33+ alphanumeric characters
-      return /^AIza[A-Za-z0-9_-]{33,}$/.test(key);
-    } else {
-      // OpenRouter API key format
-      return key.length >= 20 && /^[a-zA-Z0-9_-]+$/.test(key);
-    }
+  const handleProviderChange = (id: AIProvider) => {
+    const defaults = providerRegistry.getDefaultCredentials(id);
+    setProvider(id);
+    setCredentials(defaults);
+    setIsValidKey(providerRegistry.isConfigured(id, defaults));
+    setError("");
+    setCustomModel("");
+    setDiscoveredModels([]);
+    setSelectedModel(providerRegistry.get(id).defaultModel);
   };
 
-  const handleApiKeyChange = (value: string) => {
-    if (provider === "openrouter") {
-      setApiKey(value);
-      setIsValidKey(validateApiKey(value, provider));
-    } else {
-      setGeminiApiKey(value);
-      setIsValidKey(validateApiKey(value, provider));
-    }
+  const handleCredentialChange = (key: string, value: string) => {
+    const updated = { ...credentials, [key]: value };
+    setCredentials(updated);
+    setIsValidKey(providerRegistry.isConfigured(provider, updated));
     setError("");
   };
 
+  const handleDetectModels = async () => {
+    if (!activeProvider.discoverModels) return;
+
+    setIsDetectingModels(true);
+    setError("");
+    try {
+      const discovered = await activeProvider.discoverModels(credentials);
+      setDiscoveredModels(discovered);
+      if (discovered.length > 0 && !selectedModel) {
+        setSelectedModel(discovered[0]);
+      }
+      if (discovered.length === 0) {
+        setError(t("settings.noModelFound"));
+      }
+    } catch {
+      setDiscoveredModels([]);
+      setError(t("settings.serverUnreachable"));
+    } finally {
+      setIsDetectingModels(false);
+    }
+  };
+
   const handleContinue = () => {
     if (step === 1) {
       if (!isValidKey) {
-        setError("Please enter a valid API key");
+        setError(t("onboarding.invalidConfig"));
         return;
       }
       setStep(2);
+      if (activeProvider.discoverModels) {
+        handleDetectModels();
+      }
     } else {
+      if (!selectedModel) {
+        setError(t("onboarding.chooseModel"));
+        return;
+      }
       handleComplete();
     }
   };
@@ -110,13 +121,12 @@ export default function OnboardingPage() {
     try {
       // Save settings to StorageService (IndexedDB)
       await storageService.saveSettings({
-        apiKey: provider === "openrouter" ? apiKey : "",
-        geminiApiKey: provider === "gemini" ? geminiApiKey : "",
         provider,
+        credentials: { [provider]: credentials },
+        customModels: customModel ? { [provider]: customModel } : {},
         model: selectedModel,
         defaultModel: selectedModel,
-        customOpenRouterModel: customOpenRouterModel || undefined,
-        customGeminiModel: customGeminiModel || undefined,
+        language,
         onboardingCompleted: true,
         notifyOnComplete: false,
         offlineQuestionsPerDomain: 10,
@@ -129,7 +139,7 @@ export default function OnboardingPage() {
 
       router.push("/");
     } catch (err) {
-      setError("Failed to save settings. Please try again.");
+      setError(t("onboarding.saveFailed"));
     } finally {
       setIsLoading(false);
     }
@@ -139,11 +149,11 @@ export default function OnboardingPage() {
     setIsLoading(true);
     try {
       await storageService.saveSettings({
-        apiKey: "",
-        geminiApiKey: "",
         provider: "openrouter",
+        credentials: {},
         model: "google/gemma-4-31b-it:free",
         defaultModel: "google/gemma-4-31b-it:free",
+        language,
         onboardingCompleted: true,
         notifyOnComplete: false,
         offlineQuestionsPerDomain: 10,
@@ -152,7 +162,7 @@ export default function OnboardingPage() {
       });
       router.push("/");
     } catch {
-      setError("Erreur lors de la sauvegarde. Réessayez.");
+      setError(t("onboarding.saveError"));
     } finally {
       setIsLoading(false);
     }
@@ -164,13 +174,27 @@ export default function OnboardingPage() {
 
       <main className="flex-1 max-w-2xl px-4 py-12 w-full self-center">
         <div className="mb-8 text-center">
+          {/* Language switch - saved with the settings */}
+          <div className="flex justify-center gap-2 mb-6">
+            {LANGUAGES.map((l) => (
+              <button
+                key={l}
+                onClick={() => setLanguage(l)}
+                aria-pressed={language === l}
+                className={`px-3 py-1 rounded border font-mono text-xs transition-all ${
+                  language === l
+                    ? "border-accent bg-accent/10 text-accent"
+                    : "border-paper-dark text-ink-secondary hover:border-accent"
+                }`}
+              >
+                {LANGUAGE_LABELS[l]}
+              </button>
+            ))}
+          </div>
           <h1 className="font-mono font-bold text-3xl mb-4">
-            Configuration Initiale
+            {t("onboarding.title")}
           </h1>
-          <p className="text-ink-secondary">
-            Configurez votre application pour commencer à réviser. Vous ne
-            verrez cette page qu&apos;une seule fois.
-          </p>
+          <p className="text-ink-secondary">{t("onboarding.description")}</p>
         </div>
 
         {/* Step Indicator */}
@@ -209,116 +233,77 @@ export default function OnboardingPage() {
                 </div>
                 <div className="flex-1">
                   <h2 className="font-mono font-semibold text-lg mb-1">
-                    Fournisseur IA
+                    {t("settings.provider")}
                   </h2>
                   <p className="text-sm text-ink-muted">
-                    Choisissez le service pour générer vos questions
+                    {t("onboarding.providerHint")}
                   </p>
                 </div>
               </div>
 
-              <div className="grid grid-cols-2 gap-4 mb-8">
-                {/* OpenRouter Option */}
-                <label
-                  className={`cursor-pointer border-2 rounded-lg p-4 transition-all ${
-                    provider === "openrouter"
-                      ? "border-accent bg-accent/10"
-                      : "border-paper-dark hover:border-accent/50"
-                  }`}
-                >
-                  <input
-                    type="radio"
-                    name="provider"
-                    value="openrouter"
-                    checked={provider === "openrouter"}
-                    onChange={(e) => {
-                      setProvider(e.target.value as AIProvider);
-                      setIsValidKey(false);
-                      setError("");
-                      setSelectedModel("google/gemma-4-31b-it:free");
-                    }}
-                    className="sr-only"
-                  />
-                  <div className="text-center">
-                    <div className="font-mono font-semibold text-ink-primary mb-1">
-                      OpenRouter
-                    </div>
-                    <div className="text-xs text-ink-muted">
-                      Multi-modèles gratuit
-                    </div>
-                  </div>
-                </label>
-
-                {/* Gemini Option */}
-                <label
-                  className={`cursor-pointer border-2 rounded-lg p-4 transition-all ${
-                    provider === "gemini"
-                      ? "border-accent bg-accent/10"
-                      : "border-paper-dark hover:border-accent/50"
-                  }`}
-                >
-                  <input
-                    type="radio"
-                    name="provider"
-                    value="gemini"
-                    checked={provider === "gemini"}
-                    onChange={(e) => {
-                      setProvider(e.target.value as AIProvider);
-                      setIsValidKey(false);
-                      setError("");
-                      setSelectedModel("gemma-4-31b-it");
-                    }}
-                    className="sr-only"
-                  />
-                  <div className="text-center">
-                    <div className="font-mono font-semibold text-ink-primary mb-1">
-                      Google Gemini
-                    </div>
-                    <div className="text-xs text-ink-muted">
-                      Gemini/Gemma
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-8">
+                {providers.map((p) => (
+                  <label
+                    key={p.id}
+                    className={`cursor-pointer border-2 rounded-lg p-4 transition-all ${
+                      provider === p.id
+                        ? "border-accent bg-accent/10"
+                        : "border-paper-dark hover:border-accent/50"
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="provider"
+                      value={p.id}
+                      checked={provider === p.id}
+                      onChange={(e) => handleProviderChange(e.target.value)}
+                      className="sr-only"
+                    />
+                    <div className="text-center">
+                      <div className="font-mono font-semibold text-ink-primary mb-1">
+                        {t(p.label)}
+                      </div>
+                      <div className="text-xs text-ink-muted">
+                        {t(p.description)}
+                      </div>
                     </div>
-                  </div>
-                </label>
+                  </label>
+                ))}
               </div>
 
-              {/* API Key Input */}
+              {/* Credentials Input */}
               <div className="flex items-center gap-3 mb-4">
                 <div className="w-12 h-12 rounded-full bg-accent/10 flex items-center justify-center">
                   <Key className="w-6 h-6 text-accent" />
                 </div>
                 <div>
                   <h2 className="font-mono font-semibold text-lg">
-                    {provider === "gemini"
-                      ? "Clé API Google"
-                      : "Clé API OpenRouter"}
+                    {activeProvider.credentialFields[0] &&
+                      t(activeProvider.credentialFields[0].label)}
                   </h2>
                   <p className="text-sm text-ink-muted">
-                    {provider === "gemini"
-                      ? "Obtenez votre clé sur aistudio.google.com"
-                      : "Obtenez votre clé gratuitement sur openrouter.ai"}
+                    {t(activeProvider.setupHint)}
                   </p>
                 </div>
               </div>
 
               <div className="space-y-4">
-                <div>
-                  <label className="font-mono text-xs text-ink-muted uppercase mb-2 block">
-                    Clé API
-                  </label>
-                  <input
-                    type="password"
-                    value={
-                      provider === "gemini" ? geminiApiKey : apiKey
-                    }
-                    onChange={(e) => handleApiKeyChange(e.target.value)}
-                    placeholder={
-                      provider === "gemini"
-                        ? "AIza..."
-                        : "sk-or-v1-..."
-                    }
-                    className="w-full px-4 py-3 bg-paper-secondary border border-paper-dark rounded font-mono text-sm text-ink-primary placeholder:text-ink-muted focus:outline-none focus:border-accent"
-                  />
-                </div>
+                {activeProvider.credentialFields.map((field) => (
+                  <div key={field.key}>
+                    <label className="font-mono text-xs text-ink-muted uppercase mb-2 block">
+                      {t(field.label)}
+                    </label>
+                    <input
+                      type={field.type}
+                      value={credentials[field.key] || ""}
+                      onChange={(e) =>
+                        handleCredentialChange(field.key, e.target.value)
+                      }
+                      placeholder={field.placeholder && t(field.placeholder)}
+                      className="w-full px-4 py-3 bg-paper-secondary border border-paper-dark rounded font-mono text-sm text-ink-primary placeholder:text-ink-muted focus:outline-none focus:border-accent"
+                    />
+                  </div>
+                ))}
 
                 {error && (
                   <div className="flex items-center gap-2 text-domain-ml text-sm">
@@ -330,32 +315,33 @@ export default function OnboardingPage() {
                 {isValidKey && (
                   <div className="flex items-center gap-2 text-domain-dl text-sm">
                     <Check className="w-4 h-4" />
-                    <span>Clé API valide</span>
+                    <span>{t("onboarding.validConfig")}</span>
                   </div>
                 )}
 
                 <div className="mt-6 flex items-center gap-4">
-                  <a
-                    href={
-                      provider === "gemini"
-                        ? "https://aistudio.google.com/app/apikey"
-                        : "https://openrouter.ai/keys"
-                    }
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="text-accent text-sm hover:underline"
-                  >
-                    {provider === "gemini"
-                      ? "Obtenir une clé API Google →"
-                      : "Obtenir une clé API OpenRouter →"}
-                  </a>
-                  <button
-                    onClick={() => setShowHelpModal(true)}
-                    className="flex items-center gap-1.5 text-sm text-ink-muted hover:text-accent transition-colors"
-                  >
-                    <HelpCircle className="w-4 h-4" />
-                    Comment obtenir ma clé ?
-                  </button>
+                  {activeProvider.credentialFields
+                    .filter((field) => field.helpUrl)
+                    .map((field) => (
+                      <a
+                        key={field.key}
+                        href={field.helpUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-accent text-sm hover:underline"
+                      >
+                        {field.helpLabel && t(field.helpLabel)}
+                      </a>
+                    ))}
+                  {PROVIDERS_WITH_HELP.includes(provider) && (
+                    <button
+                      onClick={() => setShowHelpModal(true)}
+                      className="flex items-center gap-1.5 text-sm text-ink-muted hover:text-accent transition-colors"
+                    >
+                      <HelpCircle className="w-4 h-4" />
+                      {t("onboarding.howToGetKey")}
+                    </button>
+                  )}
                 </div>
               </div>
             </CardContent>
@@ -368,126 +354,128 @@ export default function OnboardingPage() {
             <CardContent>
               <div className="mb-6">
                 <h2 className="font-mono font-semibold text-lg mb-2">
-                  Sélection du Modèle
+                  {t("onboarding.selectModel")}
                 </h2>
                 <p className="text-sm text-ink-muted">
-                  Choisissez le modèle IA pour générer vos questions
+                  {t("onboarding.selectModelHint")}
                 </p>
               </div>
 
               <div className="space-y-3">
-                {AVAILABLE_MODELS.filter((model) => model.provider === provider).map(
-                  (model) => (
-                    <button
-                      key={model.id}
-                      onClick={() => setSelectedModel(model.id)}
-                      className={`w-full p-4 rounded border text-left transition-all ${
-                        selectedModel === model.id
-                          ? "border-accent bg-accent/10"
-                          : "border-paper-dark hover:border-accent/50"
-                      }`}
-                    >
-                      <div className="flex items-start justify-between">
-                        <div>
-                          <div className="flex items-center gap-2 mb-1">
-                            <span className="font-mono font-medium text-ink-primary">
-                              {model.name}
-                            </span>
-                            {model.free && (
-                              <Badge variant="success">GRATUIT</Badge>
-                            )}
-                          </div>
-                          <span className="text-xs text-ink-muted font-mono">
-                            {model.id}
+                {activeProvider.models.map((model) => (
+                  <button
+                    key={model.id}
+                    onClick={() => setSelectedModel(model.id)}
+                    className={`w-full p-4 rounded border text-left transition-all ${
+                      selectedModel === model.id
+                        ? "border-accent bg-accent/10"
+                        : "border-paper-dark hover:border-accent/50"
+                    }`}
+                  >
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <div className="flex items-center gap-2 mb-1">
+                          <span className="font-mono font-medium text-ink-primary">
+                            {model.name}
                           </span>
+                          {model.free && (
+                            <Badge variant="success">{t("settings.free")}</Badge>
+                          )}
                         </div>
-                        {selectedModel === model.id && (
-                          <Check className="w-5 h-5 text-accent" />
-                        )}
+                        <span className="text-xs text-ink-muted font-mono">
+                          {model.id}
+                        </span>
                       </div>
-                    </button>
-                  )
-                )}
-
-                {/* Custom Model Input - OpenRouter */}
-                {provider === "openrouter" && (
-                  <div className="mt-4 p-4 border border-paper-dark rounded-lg">
-                    <label className="font-mono text-xs text-ink-muted uppercase mb-2 block">
-                      Modèle Custom (optionnel)
-                    </label>
-                    <input
-                      type="text"
-                      value={customOpenRouterModel}
-                      onChange={(e) => setCustomOpenRouterModel(e.target.value)}
-                      placeholder="ex: anthropic/claude-3-5-sonnet"
-                      className="w-full px-4 py-3 bg-paper-secondary border border-paper-dark rounded font-mono text-sm text-ink-primary placeholder:text-ink-muted focus:outline-none focus:border-accent"
-                    />
-                    <p className="text-xs text-ink-muted mt-2">
-                      Entrez l'ID d'un modèle OpenRouter custom. Voir{" "}
-                      <a
-                        href="https://openrouter.ai/models"
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="text-accent hover:underline"
-                      >
-                        la liste complète
-                      </a>.
-                    </p>
-                    {customOpenRouterModel && selectedModel !== customOpenRouterModel && (
+                      {selectedModel === model.id && (
+                        <Check className="w-5 h-5 text-accent" />
+                      )}
+                    </div>
+                  </button>
+                ))}
+
+                {/* Discovered Models */}
+                {activeProvider.discoverModels && (
+                  <div className="space-y-3">
+                    <Button
+                      variant="secondary"
+                      className="w-full"
+                      onClick={handleDetectModels}
+                      loading={isDetectingModels}
+                    >
+                      <RefreshCw className="w-4 h-4 mr-2" />
+                      {t("settings.detectModels")}
+                    </Button>
+                    {discoveredModels.map((model) => (
                       <button
-                        onClick={() => setSelectedModel(customOpenRouterModel)}
-                        className="mt-2 text-xs text-accent hover:underline"
+                        key={model}
+                        onClick={() => setSelectedModel(model)}
+                        className={`w-full p-4 rounded border text-left transition-all ${
+                          selectedModel === model
+                            ? "border-accent bg-accent/10"
+                            : "border-paper-dark hover:border-accent/50"
+                        }`}
                       >
-                        Utiliser ce modèle custom
+                        <div className="flex items-center justify-between">
+                          <span className="font-mono font-medium text-ink-primary">
+                            {model}
+                          </span>
+                          {selectedModel === model && (
+                            <Check className="w-5 h-5 text-accent" />
+                          )}
+                        </div>
                       </button>
-                    )}
-                    {selectedModel === customOpenRouterModel && customOpenRouterModel && (
-                      <span className="inline-flex items-center gap-1 mt-2 text-xs px-2 py-1 bg-accent/10 text-accent rounded">
-                        <span>CUSTOM</span>
-                        <span>✓</span>
-                      </span>
-                    )}
+                    ))}
                   </div>
                 )}
 
-                {/* Custom Model Input - Gemini */}
-                {provider === "gemini" && (
-                  <div className="mt-4 p-4 border border-paper-dark rounded-lg">
-                    <label className="font-mono text-xs text-ink-muted uppercase mb-2 block">
-                      Modèle Custom (optionnel)
-                    </label>
-                    <input
-                      type="text"
-                      value={customGeminiModel}
-                      onChange={(e) => setCustomGeminiModel(e.target.value)}
-                      placeholder="ex: gemini-1.5-pro"
-                      className="w-full px-4 py-3 bg-paper-secondary border border-paper-dark rounded font-mono text-sm text-ink-primary placeholder:text-ink-muted focus:outline-none focus:border-accent"
-                    />
-                    <p className="text-xs text-ink-muted mt-2">
-                      Entrez l'ID d'un modèle Gemini custom. Voir{" "}
-                      <a
-                        href="https://ai.google.dev/gemini-api/docs/models"
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="text-accent hover:underline"
-                      >
-                        la documentation Gemini
-                      </a>.
-                    </p>
-                    {customGeminiModel && selectedModel !== customGeminiModel && (
-                      <button
-                        onClick={() => setSelectedModel(customGeminiModel)}
-                        className="mt-2 text-xs text-accent hover:underline"
-                      >
-                        Utiliser ce modèle custom
-                      </button>
-                    )}
-                    {selectedModel === customGeminiModel && customGeminiModel && (
-                      <span className="inline-flex items-center gap-1 mt-2 text-xs px-2 py-1 bg-accent/10 text-accent rounded">
-                        <span>CUSTOM</span>
-                        <span>✓</span>
-                      </span>
+                {/* Custom Model Input */}
+                <div className="mt-4 p-4 border border-paper-dark rounded-lg">
+                  <label className="font-mono text-xs text-ink-muted uppercase mb-2 block">
+                    {t("settings.customModel")}
+                  </label>
+                  <input
+                    type="text"
+                    value={customModel}
+                    onChange={(e) => setCustomModel(e.target.value)}
+                    placeholder={t(activeProvider.customModelPlaceholder)}
+                    className="w-full px-4 py-3 bg-paper-secondary border border-paper-dark rounded font-mono text-sm text-ink-primary placeholder:text-ink-muted focus:outline-none focus:border-accent"
+                  />
+                  <p className="text-xs text-ink-muted mt-2">
+                    {t("settings.customModelHint", { provider: t(activeProvider.label) })}
+                    {activeProvider.modelsDocUrl && (
+                      <>
+                        {" "}
+                        <a
+                          href={activeProvider.modelsDocUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-accent hover:underline"
+                        >
+                          {t("settings.customModelDocs")}
+                        </a>
+                      </>
                     )}
+                  </p>
+                  {customModel && selectedModel !== customModel && (
+                    <button
+                      onClick={() => setSelectedModel(customModel)}
+                      className="mt-2 text-xs text-accent hover:underline"
+                    >
+                      {t("settings.useCustomModel")}
+                    </button>
+                  )}
+                  {selectedModel === customModel && customModel && (
+                    <span className="inline-flex items-center gap-1 mt-2 text-xs px-2 py-1 bg-accent/10 text-accent rounded">
+                      <span>CUSTOM</span>
+                      <span>✓</span>
+                    </span>
+                  )}
+                </div>
+
+                {error && (
+                  <div className="flex items-center gap-2 text-domain-ml text-sm">
+                    <AlertCircle className="w-4 h-4" />
+                    <span>{error}</span>
                   </div>
                 )}
 
@@ -510,7 +498,7 @@ export default function OnboardingPage() {
             onClick={() => setStep(step - 1)}
             disabled={step === 1 || isLoading}
           >
-            Retour
+            {t("common.back")}
           </Button>
           <Button
             variant="primary"
@@ -518,7 +506,7 @@ export default function OnboardingPage() {
             loading={isLoading}
             disabled={step === 1 && !isValidKey}
           >
-            {step === 1 ? "Continuer" : "Terminer"}
+            {step === 1 ? t("common.continue") : t("onboarding.finish")}
           </Button>
         </div>
 
@@ -526,20 +514,14 @@ export default function OnboardingPage() {
         {step === 1 && (
           <div className="mt-8 border-t border-paper-dark pt-6 text-center">
             <p className="text-sm text-ink-secondary mb-4">
-              Vous avez déjà accès à <strong>1000 questions offline</strong>{" "}
-              (10 domaines × 100 questions). Vous pourrez configurer votre clé
-              API plus tard dans les{" "}
-              <a href="/settings" className="text-accent hover:underline">
-                Paramètres
-              </a>{" "}
-              pour générer des questions personnalisées.
+              {t("onboarding.skipHint")}
             </p>
             <button
               onClick={handleSkip}
               disabled={isLoading}
               className="inline-flex items-center gap-2 px-6 py-2.5 rounded-lg border border-paper-dark bg-paper-secondary text-sm font-mono text-ink-secondary hover:border-accent hover:text-accent hover:bg-accent/5 active:scale-[0.98] transition-all duration-150 disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              Continuer plus tard →
+              {t("onboarding.skip")}
             </button>
           </div>
         )}
@@ -549,53 +531,47 @@ export default function OnboardingPage() {
       <Modal
         isOpen={showHelpModal}
         onClose={() => setShowHelpModal(false)}
-        title={provider === "gemini" ? "Obtenir votre clé API Google" : "Obtenir votre clé API OpenRouter"}
+        title={provider === "gemini" ? t("onboarding.help.gemini.title") : t("onboarding.help.openrouter.title")}
       >
         {provider === "openrouter" ? (
           <div className="space-y-4">
             <p className="text-sm text-ink-secondary">
-              OpenRouter est un service gratuit qui vous permet d&apos;utiliser plusieurs modèles IA.
-              Suivez ces étapes pour obtenir votre clé API :
+              {t("onboarding.help.openrouter.intro")}
             </p>
             <ol className="space-y-3">
               <li className="flex gap-3">
                 <span className="shrink-0 w-6 h-6 rounded-full bg-accent/10 text-accent text-xs font-mono font-bold flex items-center justify-center">1</span>
                 <div>
-                  <p className="text-sm text-ink-primary font-medium">Créez un compte sur OpenRouter</p>
-                  <p className="text-xs text-ink-muted">Allez sur{" "}
-                    <a href="https://openrouter.ai" target="_blank" rel="noopener noreferrer" className="text-accent hover:underline">openrouter.ai</a> et inscrivez-vous gratuitement.
-                  </p>
+                  <p className="text-sm text-ink-primary font-medium">{t("onboarding.help.openrouter.step1")}</p>
+                  <p className="text-xs text-ink-muted">{t("onboarding.help.openrouter.step1Detail")}</p>
                 </div>
               </li>
               <li className="flex gap-3">
                 <span className="shrink-0 w-6 h-6 rounded-full bg-accent/10 text-accent text-xs font-mono font-bold flex items-center justify-center">2</span>
                 <div>
-                  <p className="text-sm text-ink-primary font-medium">Ouvrez les Settings</p>
-                  <p className="text-xs text-ink-muted">Cliquez sur <strong>Settings</strong> en haut à droite de la page.
-                  </p>
+                  <p className="text-sm text-ink-primary font-medium">{t("onboarding.help.openrouter.step2")}</p>
+                  <p className="text-xs text-ink-muted">{t("onboarding.help.openrouter.step2Detail")}</p>
                 </div>
               </li>
               <li className="flex gap-3">
                 <span className="shrink-0 w-6 h-6 rounded-full bg-accent/10 text-accent text-xs font-mono font-bold flex items-center justify-center">3</span>
                 <div>
-                  <p className="text-sm text-ink-primary font-medium">Allez dans "API Keys"</p>
-                  <p className="text-xs text-ink-muted">Dans la sidebar à gauche, cliquez sur <strong>API Keys</strong>.
-                  </p>
+                  <p className="text-sm text-ink-primary font-medium">{t("onboarding.help.openrouter.step3")}</p>
+                  <p className="text-xs text-ink-muted">{t("onboarding.help.openrouter.step3Detail")}</p>
                 </div>
               </li>
               <li className="flex gap-3">
                 <span className="shrink-0 w-6 h-6 rounded-full bg-accent/10 text-accent text-xs font-mono font-bold flex items-center justify-center">4</span>
                 <div>
-                  <p className="text-sm text-ink-primary font-medium">Créez une nouvelle clé</p>
-                  <p className="text-xs text-ink-muted">Cliquez sur <strong>"Create Key"</strong>, donnez-lui un nom et validez.
-                  </p>
+                  <p className="text-sm text-ink-primary font-medium">{t("onboarding.help.openrouter.step4")}</p>
+                  <p className="text-xs text-ink-muted">{t("onboarding.help.openrouter.step4Detail")}</p>
                 </div>
               </li>
               <li className="flex gap-3">
                 <span className="shrink-0 w-6 h-6 rounded-full bg-accent/10 text-accent text-xs font-mono font-bold flex items-center justify-center">5</span>
                 <div>
-                  <p className="text-sm text-ink-primary font-medium">Copiez votre clé</p>
-                  <p className="text-xs text-ink-muted">Collez-la dans le champ ci-dessus. Elle commence par <code className="bg-paper-dark px-1 rounded text-accent">sk-or-v1-...</code>
+                  <p className="text-sm text-ink-primary font-medium">{t("onboarding.help.copyKey")}</p>
+                  <p className="text-xs text-ink-muted">{t("onboarding.help.copyKeyDetail")} <code className="bg-paper-dark px-1 rounded text-accent">sk-or-v1-...</code>
                   </p>
                 </div>
               </li>
@@ -606,46 +582,41 @@ export default function OnboardingPage() {
               rel="noopener noreferrer"
               className="inline-block text-sm text-accent hover:underline mt-2"
             >
-              Aller sur OpenRouter →
+              {t("onboarding.help.openrouter.link")}
             </a>
           </div>
         ) : (
           <div className="space-y-4">
             <p className="text-sm text-ink-secondary">
-              Google AI Studio vous donne accès gratuitement aux modèles Gemini.
-              Suivez ces étapes pour obtenir votre clé API :
+              {t("onboarding.help.gemini.intro")}
             </p>
             <ol className="space-y-3">
               <li className="flex gap-3">
                 <span className="shrink-0 w-6 h-6 rounded-full bg-accent/10 text-accent text-xs font-mono font-bold flex items-center justify-center">1</span>
                 <div>
-                  <p className="text-sm text-ink-primary font-medium">Allez sur Google AI Studio</p>
-                  <p className="text-xs text-ink-muted">Visitez{" "}
-                    <a href="https://aistudio.google.com" target="_blank" rel="noopener noreferrer" className="text-accent hover:underline">aistudio.google.com</a> et connectez-vous avec votre compte Google.
-                  </p>
+                  <p className="text-sm text-ink-primary font-medium">{t("onboarding.help.gemini.step1")}</p>
+                  <p className="text-xs text-ink-muted">{t("onboarding.help.gemini.step1Detail")}</p>
                 </div>
               </li>
               <li className="flex gap-3">
                 <span className="shrink-0 w-6 h-6 rounded-full bg-accent/10 text-accent text-xs font-mono font-bold flex items-center justify-center">2</span>
                 <div>
-                  <p className="text-sm text-ink-primary font-medium">Cliquez sur "Get API Key"</p>
-                  <p className="text-xs text-ink-muted">Dans le menu de gauche, cliquez sur <strong>"Get API Key"</strong>.
-                  </p>
+                  <p className="text-sm text-ink-primary font-medium">{t("onboarding.help.gemini.step2")}</p>
+                  <p className="text-xs text-ink-muted">{t("onboarding.help.gemini.step2Detail")}</p>
                 </div>
               </li>
               <li className="flex gap-3">
                 <span className="shrink-0 w-6 h-6 rounded-full bg-accent/10 text-accent text-xs font-mono font-bold flex items-center justify-center">3</span>
                 <div>
-                  <p className="text-sm text-ink-primary font-medium">Sélectionnez un projet Google Cloud</p>
-                  <p className="text-xs text-ink-muted">Choisissez un projet existant ou créez-en un nouveau.
-                  </p>
+                  <p className="text-sm text-ink-primary font-medium">{t("onboarding.help.gemini.step3")}</p>
+                  <p className="text-xs text-ink-muted">{t("onboarding.help.gemini.step3Detail")}</p>
                 </div>
               </li>
               <li className="flex gap-3">
                 <span className="shrink-0 w-6 h-6 rounded-full bg-accent/10 text-accent text-xs font-mono font-bold flex items-center justify-center">4</span>
                 <div>
-                  <p className="text-sm text-ink-primary font-medium">Copiez votre clé</p>
-                  <p className="text-xs text-ink-muted">Collez-la dans le champ ci-dessus. Elle commence par <code className="bg-paper-dark px-1 rounded text-accent">AIza...</code>
+                  <p className="text-sm text-ink-primary font-medium">{t("onboarding.help.copyKey")}</p>
+                  <p className="text-xs text-ink-muted">{t("onboarding.help.copyKeyDetail")} <code className="bg-paper-dark px-1 rounded text-accent">AIza...</code>
                   </p>
                 </div>
               </li>
@@ -656,7 +627,7 @@ export default function OnboardingPage() {
               rel="noopener noreferrer"
               className="inline-block text-sm text-accent hover:underline mt-2"
             >
-              Aller sur Google AI Studio →
+              {t("onboarding.help.gemini.link")}
             </a>
           </div>
         )}
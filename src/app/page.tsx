@@ -25,7 +25,15 @@ import {
 import { storageService } from "@/services/StorageService";
 import { statisticsService } from "@/services/StatisticsService";
 import { indexedDBService } from "@/services/IndexedDBService";
-import { QuizSession } from "@/types";
+import { Difficulty, Domain, QuestionType, QuizSession, UserStatistics } from "@/types";
+import { getAnswerCredit } from "@/lib/scoring";
+import { DIFFICULTIES } from "@/lib/difficulty";
+import { MessageKey } from "@/lib/i18n";
+import { formatShortDate } from "@/lib/utils";
+import { useTranslation } from "@/components/AppProvider";
+
+// Answers needed before a subtopic is ranked
+const MIN_SUBTOPIC_ANSWERS = 3;
 
 // ============================================
 // HOME PAGE
@@ -33,8 +41,8 @@ import { QuizSession } from "@/types";
 // ============================================
 
 interface ModeCard {
-  title: string;
-  description: string;
+  title: MessageKey;
+  description: MessageKey;
   href: string;
   icon: React.ComponentType<{ className?: string }>;
   color: string;
@@ -43,30 +51,30 @@ interface ModeCard {
 
 const MODES: ModeCard[] = [
   {
-    title: "Pratique",
-    description: "Révisez domaine par domaine avec des QCM générés à la demande",
+    title: "nav.practice",
+    description: "home.mode.practice",
     href: "/practice",
     icon: BookOpen,
     color: "var(--domain-dl)",
   },
   {
-    title: "Examen",
-    description: "Simulez un examen complet ou par domaine avec limite de temps",
+    title: "nav.exam",
+    description: "home.mode.exam",
     href: "/exam",
     icon: FileText,
     color: "var(--domain-ml)",
     badge: "2h",
   },
   {
-    title: "Favoris",
-    description: "Retrouvez vos questions marquées pour les réviser",
+    title: "nav.favorites",
+    description: "home.mode.favorites",
     href: "/favorites",
     icon: Star,
     color: "var(--accent-vivid)",
   },
   {
-    title: "Hors Ligne",
-    description: "Accédez aux exercices téléchargés sans connexion",
+    title: "nav.offline",
+    description: "home.mode.offline",
     href: "/offline",
     icon: WifiOff,
     color: "var(--domain-bigdata)",
@@ -75,6 +83,7 @@ const MODES: ModeCard[] = [
 
 export default function HomePage() {
   const router = useRouter();
+  const { t, tn } = useTranslation();
   const [mounted, setMounted] = useState(false);
   const [checking, setChecking] = useState(true);
   const [statsLoading, setStatsLoading] = useState(true);
@@ -87,6 +96,17 @@ export default function HomePage() {
     studyTimeHours: 0,
     favoriteCount: 0,
   });
+  const [difficultyStats, setDifficultyStats] = useState<Record<Difficulty, {
+    questionsAnswered: number;
+    averageScore: number;
+  }> | null>(null);
+  const [formatStats, setFormatStats] = useState<NonNullable<UserStatistics["formatsProgress"]>>({});
+  const [weakSubtopics, setWeakSubtopics] = useState<{
+    domain: Domain;
+    subtopic: string;
+    questionsAnswered: number;
+    averageScore: number;
+  }[]>([]);
   const [recentSessions, setRecentSessions] = useState<QuizSession[]>([]);
 
   useEffect(() => {
@@ -119,6 +139,23 @@ export default function HomePage() {
       const formattedStats = await statisticsService.getFormattedStats();
       console.log('[HomePage] Loaded statistics:', formattedStats);
       setStats(formattedStats);
+      setDifficultyStats(formattedStats.difficulties);
+      setFormatStats(formattedStats.formats);
+
+      // Lowest-scoring subtopics with enough answers
+      setWeakSubtopics(
+        Object.entries(formattedStats.subtopics)
+          .flatMap(([domain, subtopics]) =>
+            Object.entries(subtopics || {}).map(([subtopic, progress]) => ({
+              domain: domain as Domain,
+              subtopic,
+              ...progress,
+            }))
+          )
+          .filter((s) => s.questionsAnswered >= MIN_SUBTOPIC_ANSWERS)
+          .sort((a, b) => a.averageScore - b.averageScore)
+          .slice(0, 5)
+      );
     } catch (error) {
       console.error('[HomePage] Failed to load statistics:', error);
     } finally {
@@ -144,20 +181,18 @@ export default function HomePage() {
   const calculateSessionScore = (session: QuizSession): number => {
     if (!session.questions || !session.userAnswers) return 0;
 
-    let correct = 0;
+    let credit = 0;
     let answered = 0;
 
     session.questions.forEach((q) => {
       const userAnswer = session.userAnswers[q.id];
       if (userAnswer) {
         answered++;
-        if (userAnswer.isCorrect) {
-          correct++;
-        }
+        credit += getAnswerCredit(userAnswer);
       }
     });
 
-    return answered > 0 ? Math.round((correct / answered) * 100) : 0;
+    return answered > 0 ? Math.round((credit / answered) * 100) : 0;
   };
 
   const getScoreColor = (score: number) => {
@@ -171,7 +206,7 @@ export default function HomePage() {
       <div className="min-h-screen flex flex-col bg-paper-primary">
         <Navigation />
         <main className="flex-1 flex items-center justify-center">
-          <p className="font-mono text-ink-muted">Chargement...</p>
+          <p className="font-mono text-ink-muted">{t("common.loading")}</p>
         </main>
       </div>
     );
@@ -183,47 +218,116 @@ export default function HomePage() {
 
       <main className="flex-1 w-full max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
         <Header
-          title="Tableau de Bord"
-          subtitle="Bienvenue sur Review IABD - Votre application de révision"
+          title={t("home.title")}
+          subtitle={t("home.subtitle")}
         />
 
         {/* Quick Stats */}
         <section className="mb-12">
           <h2 className="font-mono font-semibold text-lg mb-6 flex items-center gap-3">
             <div className="w-2 h-6 bg-accent" />
-            Statistiques Globales
+            {t("home.stats")}
           </h2>
           <StatsGrid columns={4}>
             <StatsCard
-              label="Questions Répondues"
+              label={t("home.stats.answered")}
               value={statsLoading ? "..." : stats.totalQuestions.toString()}
               icon={<Target className="w-5 h-5" />}
             />
             <StatsCard
-              label="Examens Passés"
+              label={t("home.stats.exams")}
               value={statsLoading ? "..." : stats.totalExams.toString()}
               icon={<FileText className="w-5 h-5" />}
             />
             <StatsCard
-              label="Score Moyen"
+              label={t("home.stats.average")}
               value={statsLoading ? "--" : stats.averageScore.toString()}
               unit="%"
               icon={<TrendingUp className="w-5 h-5" />}
             />
             <StatsCard
-              label="Temps d'Étude"
+              label={t("home.stats.studyTime")}
               value={statsLoading ? "0" : stats.studyTimeMinutes.toString()}
               unit="min"
               icon={<Clock className="w-5 h-5" />}
             />
           </StatsGrid>
+
+          {/* Accuracy per difficulty */}
+          {difficultyStats &&
+            DIFFICULTIES.some((d) => difficultyStats[d].questionsAnswered > 0) && (
+              <StatsGrid columns={3} className="mt-4">
+                {DIFFICULTIES.map((d) => (
+                  <StatsCard
+                    key={d}
+                    label={t("home.stats.scoreFor", {
+                      label: t(`difficulty.${d}`),
+                      count: difficultyStats[d].questionsAnswered,
+                    })}
+                    value={
+                      difficultyStats[d].questionsAnswered > 0
+                        ? difficultyStats[d].averageScore.toString()
+                        : "--"
+                    }
+                    unit="%"
+                  />
+                ))}
+              </StatsGrid>
+            )}
+
+          {/* Accuracy per question format (once another format than QCM was answered) */}
+          {Object.keys(formatStats).some(
+            (f) => f !== QuestionType.SINGLE_CHOICE && f !== QuestionType.MULTIPLE_CHOICE
+          ) && (
+            <StatsGrid columns={3} className="mt-4">
+              {Object.values(QuestionType)
+                .filter((f) => formatStats[f]?.questionsAnswered)
+                .map((f) => (
+                  <StatsCard
+                    key={f}
+                    label={t("home.stats.scoreFor", {
+                      label: t(`format.${f}`),
+                      count: formatStats[f]!.questionsAnswered,
+                    })}
+                    value={formatStats[f]!.averageScore.toString()}
+                    unit="%"
+                  />
+                ))}
+            </StatsGrid>
+          )}
+
+          {/* Weakest subtopics */}
+          {weakSubtopics.length > 0 && (
+            <Card hoverable={false} className="mt-4">
+              <CardContent>
+                <CardTitle className="mb-4">{t("home.weakSubtopics")}</CardTitle>
+                <div className="space-y-3">
+                  {weakSubtopics.map((s) => (
+                    <div
+                      key={`${s.domain}-${s.subtopic}`}
+                      className="flex items-center justify-between gap-3"
+                    >
+                      <div className="flex items-center gap-3 min-w-0">
+                        <DomainBadge domain={s.domain} />
+                        <span className="text-sm truncate">{s.subtopic}</span>
+                      </div>
+                      <span className="font-mono text-sm shrink-0">
+                        {s.averageScore}%{" "}
+                        <span className="text-xs text-ink-muted">({s.questionsAnswered} q.)</span>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
         </section>
 
         {/* Mode Cards */}
         <section className="mb-12">
           <h2 className="font-mono font-semibold text-lg mb-6 flex items-center gap-3">
             <div className="w-2 h-6 bg-accent" />
-            Modes de Révision
+            {t("home.modes")}
           </h2>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             {MODES.map((mode, index) => {
@@ -243,11 +347,11 @@ export default function HomePage() {
                         </div>
                         <div className="flex-1">
                           <div className="flex items-center gap-2 mb-2">
-                            <CardTitle>{mode.title}</CardTitle>
+                            <CardTitle>{t(mode.title)}</CardTitle>
                             {mode.badge && <Badge>{mode.badge}</Badge>}
                           </div>
                           <p className="text-sm text-ink-secondary">
-                            {mode.description}
+                            {t(mode.description)}
                           </p>
                         </div>
                       </div>
@@ -263,7 +367,7 @@ export default function HomePage() {
         <section>
           <h2 className="font-mono font-semibold text-lg mb-6 flex items-center gap-3">
             <div className="w-2 h-6 bg-accent" />
-            Activité Récente
+            {t("home.recent")}
           </h2>
           {recentSessions.length === 0 ? (
             <Card>
@@ -271,10 +375,10 @@ export default function HomePage() {
                 <div className="text-center py-12">
                   <Award className="w-16 h-16 mx-auto mb-4 text-ink-muted" />
                   <p className="text-ink-secondary mb-4">
-                    Commencez par générer vos premières questions en mode Pratique
+                    {t("home.recentEmpty")}
                   </p>
                   <Link href="/practice" prefetch={false}>
-                    <Button variant="primary">Commencer à Réviser</Button>
+                    <Button variant="primary">{t("favorites.start")}</Button>
                   </Link>
                 </div>
               </CardContent>
@@ -283,7 +387,7 @@ export default function HomePage() {
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               {recentSessions.map((session) => {
                 const score = calculateSessionScore(session);
-                const date = new Date(session.completedAt || session.startedAt).toLocaleDateString("fr-FR");
+                const date = formatShortDate(new Date(session.completedAt || session.startedAt));
 
                 return (
                   <Link key={session.id} href={`/quiz?session=${session.id}`} prefetch={false}>
@@ -293,7 +397,7 @@ export default function HomePage() {
                           <div className="flex-1">
                             <div className="flex items-center gap-2 mb-1">
                               <span className="font-mono text-xs text-ink-muted">
-                                {session.type === "exam" ? "EXAMEN" : "PRATIQUE"}
+                                {session.type === "exam" ? t("home.session.exam") : t("home.session.practice")}
                               </span>
                               {session.domain && <DomainBadge domain={session.domain as any} />}
                             </div>
@@ -307,7 +411,7 @@ export default function HomePage() {
                           </div>
                         </div>
                         <p className="text-sm text-ink-muted">
-                          {session.questions?.length || 0} questions
+                          {tn("common.questions", session.questions?.length || 0)}
                         </p>
                       </CardContent>
                     </Card>
@@ -8,14 +8,21 @@ import { Card, CardContent } from "@/components/ui/Card";
 import { Button } from "@/components/ui/Button";
 import { DomainSelector } from "@/components/features/DomainSelector";
 import { QuestionCounter } from "@/components/features/QuestionCounter";
+import { DifficultySelector } from "@/components/features/DifficultySelector";
+import { SubtopicSelector } from "@/components/features/SubtopicSelector";
 import { ProgressBar } from "@/components/ui/ProgressBar";
 import { Badge } from "@/components/ui/Badge";
-import { Domain, Question, SavedPracticeQuiz, QuizSession } from "@/types";
-import { Loader2, Play, History, RefreshCw, Trash2, AlertTriangle, CheckCircle } from "lucide-react";
+import { DifficultyMix, DifficultySetting, Domain, ModelChoice, Question, SavedPracticeQuiz, QuizSession } from "@/types";
+import { Loader2, Play, History, RefreshCw, Trash2, AlertTriangle, CheckCircle, Square } from "lucide-react";
 import { indexedDBService } from "@/services/IndexedDBService";
 import { storageService } from "@/services/StorageService";
 import { notificationService } from "@/services/NotificationService";
 import { generationService } from "@/services/GenerationService";
+import { providerRegistry } from "@/services/ProviderRegistry";
+import { DEFAULT_DIFFICULTY_MIX } from "@/lib/difficulty";
+import { getDomainSubtopics } from "@/lib/subtopics";
+import { formatShortDate, getDomainLabel } from "@/lib/utils";
+import { useTranslation } from "@/components/AppProvider";
 
 // ============================================
 // PRACTICE PAGE
@@ -24,11 +31,19 @@ import { generationService } from "@/services/GenerationService";
 
 export default function PracticePage() {
   const router = useRouter();
+  const { t, tn } = useTranslation();
   const [selectedDomain, setSelectedDomain] = useState<Domain>(Domain.MACHINE_LEARNING);
+  const [subtopics, setSubtopics] = useState<string[]>([]);
   const [questionCount, setQuestionCount] = useState(10);
+  const [difficulty, setDifficulty] = useState<DifficultySetting>("mixed");
+  const [difficultyMix, setDifficultyMix] = useState<DifficultyMix>(DEFAULT_DIFFICULTY_MIX);
+  const [openEnded, setOpenEnded] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [generatingSessionId, setGeneratingSessionId] = useState<string | null>(null);
+  const [isStopping, setIsStopping] = useState(false);
   const [progress, setProgress] = useState(0);
   const [generatedQuestions, setGeneratedQuestions] = useState(0);
+  const [modelSwitch, setModelSwitch] = useState<{ from: ModelChoice; to: ModelChoice } | null>(null);
   const [savedQuizzes, setSavedQuizzes] = useState<SavedPracticeQuiz[]>([]);
   const [activePracticeSessions, setActivePracticeSessions] = useState<Map<string, QuizSession>>(new Map());
   const [loading, setLoading] = useState(true);
@@ -104,12 +119,14 @@ export default function PracticePage() {
     console.log('[Practice] Configuration:', {
       domain: selectedDomain,
       questionCount,
+      difficulty,
       timestamp: new Date().toISOString()
     });
 
     setIsGenerating(true);
     setProgress(0);
     setGeneratedQuestions(0);
+    setModelSwitch(null);
     setErrorModal(null);
 
     let taskId: string | undefined;
@@ -137,11 +154,16 @@ export default function PracticePage() {
         type: "practice",
         domain: selectedDomain,
         totalCount: questionCount,
+        difficulty,
+        difficultyMix,
+        subtopics,
+        openEnded,
         includeExplanations: true,
         taskId,
       });
 
       console.log('[Practice] Session created:', sessionId, 'Starting batch generation...');
+      setGeneratingSessionId(sessionId);
 
       // Run the generation loop
       await generationService.runSingleDomainGeneration(
@@ -153,6 +175,9 @@ export default function PracticePage() {
             setGeneratedQuestions(p.current);
             setProgress((p.current / p.total) * 100);
           },
+          onModelSwitch: (from, to) => {
+            setModelSwitch({ from, to });
+          },
           onSessionReady: async (id) => {
             // Create the SavedPracticeQuiz BEFORE navigating so there's exactly one
             try {
@@ -178,9 +203,10 @@ export default function PracticePage() {
             } catch (err) {
               console.error('[Practice] Failed to create practice quiz:', err);
             }
-            // Navigate to quiz after first batch (progressive display)
-            console.log('[Practice] First batch ready, navigating to quiz:', id);
-            window.location.href = `/quiz?session=${id}`;
+            // Navigate to quiz as soon as the first questions are saved (progressive display).
+            // Client-side navigation keeps a still-streaming first batch running.
+            console.log('[Practice] First questions ready, navigating to quiz:', id);
+            router.push(`/quiz?session=${id}`);
           },
           onGenerationComplete: (id) => {
             console.log('[Practice] Generation complete:', id);
@@ -200,18 +226,18 @@ export default function PracticePage() {
                 requestedCount,
               });
             } else {
-              alert(`Erreur lors de la génération: ${error.message}`);
+              alert(t("common.generationError", { message: error.message }));
             }
           },
         },
-        { taskId }
+        { difficulty, difficultyMix, taskId }
       );
     } catch (error: any) {
       console.error('[Practice] ERROR during generation:', error);
       setIsGenerating(false);
       setProgress(0);
       setGeneratedQuestions(0);
-      alert(`Erreur lors de la génération: ${error.message || "Erreur inconnue"}`);
+      alert(t("common.generationError", { message: error.message || t("common.unknownError") }));
     }
   };
 
@@ -222,6 +248,7 @@ export default function PracticePage() {
     setProgress(0);
     setErrorModal(null);
     setInterruptedSession(null);
+    setGeneratingSessionId(interruptedSession.id);
 
     const gp = interruptedSession.generationProgress!;
     setGeneratedQuestions(interruptedSession.questions.length);
@@ -235,7 +262,7 @@ export default function PracticePage() {
             setProgress((p.current / p.total) * 100);
           },
           onSessionReady: (id) => {
-            window.location.href = `/quiz?session=${id}`;
+            router.push(`/quiz?session=${id}`);
           },
           onGenerationComplete: (id) => {
             setIsGenerating(false);
@@ -252,14 +279,34 @@ export default function PracticePage() {
                 requestedCount,
               });
             } else {
-              alert(`Erreur: ${error.message}`);
+              alert(t("common.errorWithMessage", { message: error.message }));
             }
           },
         }
       );
     } catch (error: any) {
       setIsGenerating(false);
-      alert(`Erreur: ${error.message}`);
+      alert(t("common.errorWithMessage", { message: error.message }));
+    }
+  };
+
+  // Stop the generation and start the quiz with the questions already saved
+  const handleStopGeneration = async () => {
+    if (!generatingSessionId) return;
+
+    setIsStopping(true);
+    try {
+      const session = await generationService.cancelGeneration(generatingSessionId);
+      setIsGenerating(false);
+      setGeneratingSessionId(null);
+      if (session) {
+        router.push(`/quiz?session=${session.id}`);
+      }
+    } catch (error) {
+      console.error('[Practice] Failed to stop generation:', error);
+      alert(t("common.errorWithMessage", { message: (error as Error).message }));
+    } finally {
+      setIsStopping(false);
     }
   };
 
@@ -271,7 +318,7 @@ export default function PracticePage() {
       setErrorModal(null);
       window.location.href = `/quiz?session=${errorModal.sessionId}`;
     } catch (error: any) {
-      alert(`Erreur: ${error.message}`);
+      alert(t("common.errorWithMessage", { message: error.message }));
     }
   };
 
@@ -283,7 +330,7 @@ export default function PracticePage() {
       setInterruptedSession(null);
       window.location.href = `/quiz?session=${interruptedSession.id}`;
     } catch (error: any) {
-      alert(`Erreur: ${error.message}`);
+      alert(t("common.errorWithMessage", { message: error.message }));
     }
   };
 
@@ -308,6 +355,7 @@ export default function PracticePage() {
   const handleRetakeQuiz = async (quiz: SavedPracticeQuiz, clearOldSession?: string) => {
     console.log('[Practice] Retaking quiz:', quiz.id);
     setIsGenerating(true);
+    setGeneratingSessionId(null);
 
     try {
       await indexedDBService.init();
@@ -353,12 +401,12 @@ export default function PracticePage() {
     } catch (error: any) {
       console.error('[Practice] Failed to retake quiz:', error);
       setIsGenerating(false);
-      alert(`Erreur: ${error.message || "Erreur inconnue"}`);
+      alert(t("common.errorWithMessage", { message: error.message || t("common.unknownError") }));
     }
   };
 
   const handleDeleteQuiz = async (quizId: string) => {
-    if (!confirm('Supprimer ce quiz ? Cette action est irréversible.')) {
+    if (!confirm(t("practice.deleteConfirm"))) {
       return;
     }
 
@@ -368,11 +416,12 @@ export default function PracticePage() {
       console.log('[Practice] Quiz deleted:', quizId);
     } catch (error: any) {
       console.error('[Practice] Failed to delete quiz:', error);
-      alert(`Erreur: ${error.message || "Erreur inconnue"}`);
+      alert(t("common.errorWithMessage", { message: error.message || t("common.unknownError") }));
     }
   };
 
-  const canStart = selectedDomain && questionCount >= 5 && !isGenerating;
+  const isMixValid = difficulty !== "mixed" || Object.values(difficultyMix).some((v) => v > 0);
+  const canStart = selectedDomain && questionCount >= 5 && isMixValid && !isGenerating;
 
   return (
     <div className="min-h-screen flex flex-col bg-paper-primary">
@@ -380,8 +429,8 @@ export default function PracticePage() {
 
       <main className="flex-1 w-full max-w-5xl mx-auto px-4 py-12">
         <PageHeader
-          title="Mode Pratique"
-          description="Configurez votre session de révision"
+          title={t("practice.title")}
+          description={t("practice.description")}
         />
 
         {/* Interrupted Generation Modal */}
@@ -392,15 +441,20 @@ export default function PracticePage() {
                 <AlertTriangle className="w-5 h-5 text-accent shrink-0 mt-0.5" />
                 <div className="flex-1">
                   <h3 className="font-mono font-semibold mb-1">
-                    Génération interrompue
+                    {t("generation.interrupted")}
                   </h3>
                   <p className="text-sm text-ink-secondary mb-1">
                     {interruptedSession.generationProgress?.generationError
-                      ? `Erreur : ${interruptedSession.generationProgress.generationError}`
-                      : "La génération a été interrompue."}
+                      ? t("common.errorWithMessage", {
+                          message: interruptedSession.generationProgress.generationError,
+                        })
+                      : t("generation.interruptedHint")}
                   </p>
                   <p className="text-sm text-ink-muted mb-3">
-                    {interruptedSession.questions.length} / {interruptedSession.generationProgress?.requestedCount} questions sont déjà prêtes.
+                    {t("generation.ready", {
+                      saved: interruptedSession.questions.length,
+                      total: interruptedSession.generationProgress?.requestedCount ?? 0,
+                    })}
                   </p>
                   <div className="flex gap-3">
                     <Button
@@ -410,7 +464,7 @@ export default function PracticePage() {
                       loading={isGenerating}
                     >
                       <RefreshCw className="w-4 h-4 mr-2" />
-                      Reprendre la génération
+                      {t("practice.resumeGeneration")}
                     </Button>
                     {interruptedSession.questions.length >= 5 && (
                       <Button
@@ -419,7 +473,7 @@ export default function PracticePage() {
                         onClick={handleUseInterruptedQuestions}
                       >
                         <CheckCircle className="w-4 h-4 mr-2" />
-                        Commencer avec {interruptedSession.questions.length} questions
+                        {t("generation.startWith", { count: interruptedSession.questions.length })}
                       </Button>
                     )}
                     <Button
@@ -427,7 +481,7 @@ export default function PracticePage() {
                       size="sm"
                       onClick={handleDismissInterrupted}
                     >
-                      Ignorer
+                      {t("generation.dismiss")}
                     </Button>
                   </div>
                 </div>
@@ -444,13 +498,13 @@ export default function PracticePage() {
                 <AlertTriangle className="w-5 h-5 text-red-500 shrink-0 mt-0.5" />
                 <div className="flex-1">
                   <h3 className="font-mono font-semibold mb-1">
-                    Génération interrompue
+                    {t("generation.interrupted")}
                   </h3>
                   <p className="text-sm text-ink-secondary mb-1">
                     {errorModal.message}
                   </p>
                   <p className="text-sm text-ink-muted mb-3">
-                    {errorModal.savedCount} / {errorModal.requestedCount} questions ont été sauvegardées et sont utilisables.
+                    {t("practice.savedUsable", { saved: errorModal.savedCount, total: errorModal.requestedCount })}
                   </p>
                   <div className="flex gap-3">
                     <Button
@@ -459,7 +513,7 @@ export default function PracticePage() {
                       onClick={handleUsePartialQuestions}
                     >
                       <CheckCircle className="w-4 h-4 mr-2" />
-                      Commencer avec {errorModal.savedCount} questions
+                      {t("generation.startWith", { count: errorModal.savedCount })}
                     </Button>
                     <Button
                       variant="secondary"
@@ -467,6 +521,7 @@ export default function PracticePage() {
                       onClick={async () => {
                         setErrorModal(null);
                         setIsGenerating(true);
+                        setGeneratingSessionId(errorModal.sessionId);
                         try {
                           await generationService.resumeGeneration(
                             errorModal.sessionId,
@@ -476,7 +531,7 @@ export default function PracticePage() {
                                 setProgress((p.current / p.total) * 100);
                               },
                               onSessionReady: (id) => {
-                                window.location.href = `/quiz?session=${id}`;
+                                router.push(`/quiz?session=${id}`);
                               },
                               onGenerationComplete: (id) => {
                                 setIsGenerating(false);
@@ -496,19 +551,19 @@ export default function PracticePage() {
                           );
                         } catch (err: any) {
                           setIsGenerating(false);
-                          alert(`Erreur: ${err.message}`);
+                          alert(t("common.errorWithMessage", { message: err.message }));
                         }
                       }}
                     >
                       <RefreshCw className="w-4 h-4 mr-2" />
-                      Réessayer
+                      {t("common.retry")}
                     </Button>
                     <Button
                       variant="secondary"
                       size="sm"
                       onClick={() => setErrorModal(null)}
                     >
-                      Annuler
+                      {t("common.cancel")}
                     </Button>
                   </div>
                 </div>
@@ -523,18 +578,27 @@ export default function PracticePage() {
             <div className="space-y-8">
               {/* Domain Selection */}
               <div>
-                <h3 className="font-mono font-semibold mb-4">01. Domaine IABD</h3>
+                <h3 className="font-mono font-semibold mb-4">{t("practice.step.domain")}</h3>
                 <DomainSelector
                   value={selectedDomain}
-                  onChange={setSelectedDomain}
+                  onChange={(domain) => {
+                    setSelectedDomain(domain);
+                    setSubtopics([]);
+                  }}
                   variant="grid"
                 />
+                <SubtopicSelector
+                  className="mt-6"
+                  subtopics={getDomainSubtopics(selectedDomain)}
+                  value={subtopics}
+                  onChange={setSubtopics}
+                />
               </div>
 
               {/* Question Count */}
               <div>
                 <h3 className="font-mono font-semibold mb-4">
-                  02. Nombre de Questions
+                  {t("practice.step.count")}
                 </h3>
                 <QuestionCounter
                   value={questionCount}
@@ -542,33 +606,80 @@ export default function PracticePage() {
                 />
               </div>
 
+              {/* Difficulty */}
+              <div>
+                <h3 className="font-mono font-semibold mb-4">{t("practice.step.difficulty")}</h3>
+                <DifficultySelector
+                  value={difficulty}
+                  onChange={setDifficulty}
+                  mix={difficultyMix}
+                  onMixChange={setDifficultyMix}
+                />
+              </div>
+
+              {/* Open-ended questions */}
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <h3 className="font-mono font-semibold mb-1">{t("practice.step.openEnded")}</h3>
+                  <p className="text-sm text-ink-muted">
+                    {t("practice.openEndedHint")}
+                  </p>
+                </div>
+                <button
+                  onClick={() => setOpenEnded(!openEnded)}
+                  role="switch"
+                  aria-checked={openEnded}
+                  aria-label={t("practice.openEndedToggle")}
+                  className={`flex-shrink-0 w-12 h-6 rounded-full transition-colors ${
+                    openEnded ? "bg-accent" : "bg-paper-dark"
+                  }`}
+                >
+                  <div
+                    className={`w-5 h-5 bg-white rounded-full transition-transform ${
+                      openEnded ? "translate-x-6" : "translate-x-0.5"
+                    }`}
+                  />
+                </button>
+              </div>
+
               {/* Summary */}
               <div className="border-t border-paper-dark pt-6">
-                <h3 className="font-mono font-semibold mb-4">Résumé</h3>
+                <h3 className="font-mono font-semibold mb-4">{t("practice.summary")}</h3>
                 <div className="grid grid-cols-2 gap-4 text-sm">
                   <div>
                     <span className="font-mono text-xs text-ink-muted uppercase">
-                      Domaine
+                      {t("practice.summary.domain")}
                     </span>
-                    <p className="font-medium mt-1">{selectedDomain.replace(/_/g, " ")}</p>
+                    <p className="font-medium mt-1">{getDomainLabel(selectedDomain)}</p>
+                    {subtopics.length > 0 && (
+                      <p className="text-xs text-ink-muted mt-1">{subtopics.join(", ")}</p>
+                    )}
                   </div>
                   <div>
                     <span className="font-mono text-xs text-ink-muted uppercase">
-                      Questions
+                      {t("practice.summary.questions")}
                     </span>
                     <p className="font-medium mt-1">{questionCount}</p>
                   </div>
                   <div>
                     <span className="font-mono text-xs text-ink-muted uppercase">
-                      Batches
+                      {t("difficulty.label")}
+                    </span>
+                    <p className="font-medium mt-1">
+                      {t(`difficulty.${difficulty}`)}
+                    </p>
+                  </div>
+                  <div>
+                    <span className="font-mono text-xs text-ink-muted uppercase">
+                      {t("practice.summary.batches")}
                     </span>
                     <p className="font-medium mt-1">{Math.ceil(questionCount / 10)}</p>
                   </div>
                   <div>
                     <span className="font-mono text-xs text-ink-muted uppercase">
-                      Durée estimée
+                      {t("practice.summary.duration")}
                     </span>
-                    <p className="font-medium mt-1">{~Math.ceil(questionCount / 2)} min</p>
+                    <p className="font-medium mt-1">{t("practice.summary.minutes", { count: Math.ceil(questionCount / 2) })}</p>
                   </div>
                 </div>
               </div>
@@ -576,15 +687,36 @@ export default function PracticePage() {
               {/* Progress Bar (during generation) */}
               {isGenerating && (
                 <div className="border-t border-paper-dark pt-6">
-                  <h3 className="font-mono font-semibold mb-4">Génération en cours...</h3>
+                  <h3 className="font-mono font-semibold mb-4">{t("practice.generating")}</h3>
                   <ProgressBar
                     value={progress}
                     showLabel
-                    label="Questions générées"
+                    label={t("common.generatedQuestions")}
                   />
                   <p className="font-mono text-xs text-ink-muted mt-2 text-center">
                     {generatedQuestions} / {questionCount}
                   </p>
+                  {modelSwitch && (
+                    <p className="font-mono text-xs text-accent mt-2 text-center">
+                      {t("practice.modelSwitch", {
+                        from: providerRegistry.getModelName(modelSwitch.from.model),
+                        to: providerRegistry.getModelName(modelSwitch.to.model),
+                      })}
+                    </p>
+                  )}
+                  {generatingSessionId && (
+                    <div className="flex justify-center mt-4">
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        onClick={handleStopGeneration}
+                        disabled={isStopping}
+                      >
+                        <Square className="w-3 h-3 mr-2" />
+                        {t("common.stop")}
+                      </Button>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -594,7 +726,7 @@ export default function PracticePage() {
         {/* Action Buttons */}
         <div className="flex gap-4 justify-center items-center">
           <Button variant="secondary" onClick={() => router.back()} disabled={isGenerating}>
-            Retour
+            {t("common.back")}
           </Button>
           <Button
             variant="primary"
@@ -605,12 +737,12 @@ export default function PracticePage() {
             {isGenerating ? (
               <>
                 <Loader2 className="w-4 h-4 animate-spin" />
-                Génération...
+                {t("practice.generatingShort")}
               </>
             ) : (
               <>
                 <Play className="w-4 h-4" />
-                Générer et Commencer
+                {t("common.generateAndStart")}
               </>
             )}
           </Button>
@@ -622,7 +754,7 @@ export default function PracticePage() {
             <div className="space-y-3">
               <div className="flex items-center gap-2">
                 <div className="w-1 h-4 bg-accent" />
-                <h3 className="font-mono font-semibold text-sm">Comment ça marche ?</h3>
+                <h3 className="font-mono font-semibold text-sm">{t("practice.how")}</h3>
               </div>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                 <div className="flex items-start gap-2">
@@ -632,7 +764,7 @@ export default function PracticePage() {
                     </div>
                   </div>
                   <p className="text-sm text-ink-secondary flex-1">
-                    Les questions sont générées par lots de <span className="font-mono text-accent">10</span>
+                    {t("practice.how.batches", { size: 10 })}
                   </p>
                 </div>
                 <div className="flex items-start gap-2">
@@ -642,7 +774,7 @@ export default function PracticePage() {
                     </div>
                   </div>
                   <p className="text-sm text-ink-secondary flex-1">
-                    Commencez le quiz dès que le 1er lot est prêt
+                    {t("practice.how.firstBatch")}
                   </p>
                 </div>
                 <div className="flex items-start gap-2">
@@ -652,7 +784,7 @@ export default function PracticePage() {
                     </div>
                   </div>
                   <p className="text-sm text-ink-secondary flex-1">
-                    Si la génération échoue, les questions déjà prêtes sont utilisables
+                    {t("practice.how.partial")}
                   </p>
                 </div>
                 <div className="flex items-start gap-2">
@@ -662,7 +794,7 @@ export default function PracticePage() {
                     </div>
                   </div>
                   <p className="text-sm text-ink-secondary flex-1">
-                    Pas de limite de temps en mode Pratique
+                    {t("practice.how.noTimer")}
                   </p>
                 </div>
               </div>
@@ -675,7 +807,7 @@ export default function PracticePage() {
           <div className="flex items-center gap-3 mb-6">
             <History className="w-5 h-5 text-accent" />
             <h2 className="font-mono font-semibold text-xl">
-              Quiz Précédents
+              {t("practice.previous")}
             </h2>
             {savedQuizzes.length > 0 && (
               <Badge variant="default">{savedQuizzes.length}</Badge>
@@ -683,16 +815,16 @@ export default function PracticePage() {
           </div>
 
           {loading ? (
-            <p className="font-mono text-sm text-ink-muted">Chargement...</p>
+            <p className="font-mono text-sm text-ink-muted">{t("common.loading")}</p>
           ) : savedQuizzes.length === 0 ? (
             <Card>
               <CardContent className="text-center py-12">
                 <History className="w-16 h-16 mx-auto mb-4 text-ink-muted" />
                 <p className="text-ink-secondary mb-2">
-                  Aucun quiz précédent
+                  {t("practice.previousEmpty")}
                 </p>
                 <p className="text-sm text-ink-muted">
-                  Les quiz que vous générerez seront sauvegardés ici pour pouvoir les refaire
+                  {t("practice.previousEmptyHint")}
                 </p>
               </CardContent>
             </Card>
@@ -711,12 +843,12 @@ export default function PracticePage() {
                       <div className="flex items-start justify-between mb-3">
                         <div className="flex-1">
                           <h3 className="font-mono font-semibold mb-1">
-                            {quiz.domain.replace(/_/g, " ")}
+                            {getDomainLabel(quiz.domain)}
                           </h3>
                           <div className="flex items-center gap-2 text-sm text-ink-muted">
-                            <span>{totalQuestions} questions</span>
+                            <span>{tn("common.questions", totalQuestions)}</span>
                             <span>•</span>
-                            <span>Pratique</span>
+                            <span>{t("practice.mode")}</span>
                           </div>
                         </div>
                         {activeSession ? (
@@ -732,10 +864,10 @@ export default function PracticePage() {
 
                       <div className="flex items-center justify-between text-xs text-ink-muted mb-4">
                         <span>
-                          Créé le {new Date(quiz.createdAt).toLocaleDateString("fr-FR")}
+                          {t("common.createdOn", { date: formatShortDate(new Date(quiz.createdAt)) })}
                         </span>
                         <span>
-                          {quiz.attempts} tentative{quiz.attempts > 1 ? "s" : ""}
+                          {tn("exams.attempts", quiz.attempts)}
                         </span>
                       </div>
 
@@ -748,7 +880,7 @@ export default function PracticePage() {
                             onClick={() => window.location.href = `/quiz?session=${activeSession.id}`}
                           >
                             <Play className="w-4 h-4 mr-2" />
-                            Continuer ({answeredCount}/{totalQuestions})
+                            {t("practice.continue", { answered: answeredCount, total: totalQuestions })}
                           </Button>
                           <Button
                             variant="secondary"
@@ -759,7 +891,7 @@ export default function PracticePage() {
                             disabled={isGenerating}
                           >
                             <RefreshCw className="w-4 h-4 mr-2" />
-                            Recommencer
+                            {t("common.restart")}
                           </Button>
                         </div>
                       ) : (
@@ -773,7 +905,7 @@ export default function PracticePage() {
                             disabled={isGenerating}
                           >
                             <RefreshCw className="w-4 h-4 mr-2" />
-                            Refaire
+                            {t("exams.retake")}
                           </Button>
                           <Button
                             variant="secondary"
@@ -9,12 +9,16 @@ import { ProgressBar } from "@/components/ui/ProgressBar";
 import { Button } from "@/components/ui/Button";
 import { Card, CardContent } from "@/components/ui/Card";
 import {
+  AnswerGrade,
   Question,
+  QuestionType,
   QuizSession,
   SavedExam,
   QuizSessionStatus,
   GenerationState,
   Domain,
+  ScoringMode,
+  TutorMessage,
 } from "@/types";
 import {
   ArrowLeft,
@@ -23,10 +27,27 @@ import {
   Grid3x3,
   X,
   Loader2,
+  RefreshCw,
+  Square,
 } from "lucide-react";
 import { indexedDBService } from "@/services/IndexedDBService";
 import { generationService } from "@/services/GenerationService";
+import { rationaleService } from "@/services/RationaleService";
+import { gradingService } from "@/services/GradingService";
 import { statisticsService } from "@/services/StatisticsService";
+import { storageService } from "@/services/StorageService";
+import { providerRegistry } from "@/services/ProviderRegistry";
+import {
+  DEFAULT_SCORING_MODE,
+  buildUserAnswer,
+  getAnswerCredit,
+  getCorrectResponse,
+  isAnswerCorrect,
+  scoreAnswer,
+  selectAnswer,
+} from "@/lib/scoring";
+import { describeCorrectResponse, describeResponse } from "@/lib/questionFormats";
+import { useTranslation } from "@/components/AppProvider";
 
 // ============================================
 // QUIZ PAGE
@@ -37,14 +58,21 @@ import { statisticsService } from "@/services/StatisticsService";
 
 function QuizContent() {
   const router = useRouter();
+  const { t, tn } = useTranslation();
   const searchParams = useSearchParams();
   const sessionId = searchParams.get("session");
 
   const [questions, setQuestions] = useState<Question[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [selectedAnswers, setSelectedAnswers] = useState<
-    Record<string, string>
+    Record<string, string[]>
   >({});
+  const [scoringMode, setScoringMode] = useState<ScoringMode>(DEFAULT_SCORING_MODE);
+  // AI grades of open-ended answers, and those being graded or that failed
+  const [grades, setGrades] = useState<Record<string, AnswerGrade>>({});
+  const [gradingStatus, setGradingStatus] = useState<Record<string, "pending" | "error">>({});
+  // Grading of the unvalidated open-ended answers when finishing the quiz
+  const [finishGrading, setFinishGrading] = useState<"pending" | "error" | null>(null);
   const [favorites, setFavorites] = useState<Set<string>>(new Set());
   const [showResult, setShowResult] = useState(false);
   const [quizCompleted, setQuizCompleted] = useState(false);
@@ -59,14 +87,17 @@ function QuizContent() {
 
   // Progressive generation state
   const [generationState, setGenerationState] = useState<GenerationState | null>(null);
+  const [isStopping, setIsStopping] = useState(false);
   const pollingRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const currentTimeRef = useRef<number>(0);
+  // Grading requests in flight, by question (validating and finishing share them)
+  const gradingRequests = useRef(new Map<string, Promise<AnswerGrade | undefined>>());
 
   // Load session on mount
   useEffect(() => {
     const loadSession = async () => {
       if (!sessionId) {
-        setError("Aucune session trouvée. Veuillez commencer un nouveau quiz.");
+        setError(t("quiz.noSession"));
         setLoading(false);
         return;
       }
@@ -74,9 +105,10 @@ function QuizContent() {
       try {
         await indexedDBService.init();
         const session = await indexedDBService.getSession(sessionId);
+        setScoringMode(await storageService.getScoringMode());
 
         if (!session) {
-          setError("Session introuvable. Veuillez recommencer.");
+          setError(t("quiz.sessionNotFound"));
           setLoading(false);
           return;
         }
@@ -133,6 +165,8 @@ function QuizContent() {
                 requestedCount:
                   fresh.generationProgress?.requestedCount ||
                   fresh.questions.length,
+                activeModel: fresh.generationProgress?.activeModel,
+                batchSize: fresh.generationProgress?.batchSize,
               });
 
               // Allow user to answer even while generating
@@ -148,13 +182,18 @@ function QuizContent() {
 
         // Load user answers if they exist
         if (session.userAnswers) {
-          const answers: Record<string, string> = {};
+          const answers: Record<string, string[]> = {};
+          const savedGrades: Record<string, AnswerGrade> = {};
           Object.values(session.userAnswers).forEach((userAnswer) => {
-            if (userAnswer.selectedAnswerIds && userAnswer.selectedAnswerIds[0]) {
-              answers[userAnswer.questionId] = userAnswer.selectedAnswerIds[0];
+            if (userAnswer.selectedAnswerIds && userAnswer.selectedAnswerIds.length > 0) {
+              answers[userAnswer.questionId] = userAnswer.selectedAnswerIds;
+            }
+            if (userAnswer.grade) {
+              savedGrades[userAnswer.questionId] = userAnswer.grade;
             }
           });
           setSelectedAnswers(answers);
+          setGrades(savedGrades);
         }
 
         // Load favorites from IndexedDB
@@ -164,13 +203,13 @@ function QuizContent() {
         setLoading(false);
       } catch (err) {
         console.error("Failed to load session:", err);
-        setError("Erreur lors du chargement de la session.");
+        setError(t("quiz.loadError"));
         setLoading(false);
       }
     };
 
     loadSession();
-  }, [sessionId]);
+  }, [sessionId, t]);
 
   // Listen for new questions via BroadcastChannel (same-tab, fast)
   useEffect(() => {
@@ -187,8 +226,8 @@ function QuizContent() {
       const data = event.data;
       if (!data || data.sessionId !== sessionId) return;
 
-      if (data.type === "BATCH_COMPLETE") {
-        // Reload session to get new questions
+      if (data.type === "BATCH_COMPLETE" || data.type === "QUESTION_READY") {
+        // Reload session to get new questions (per batch, or per question when streaming)
         try {
           const session = await indexedDBService.getSession(sessionId);
           if (session) {
@@ -198,6 +237,7 @@ function QuizContent() {
                 ? {
                     ...prev,
                     availableCount: session.questions.length,
+                    batchSize: session.generationProgress?.batchSize ?? prev.batchSize,
                   }
                 : null
             );
@@ -207,6 +247,13 @@ function QuizContent() {
         }
       }
 
+      if (data.type === "MODEL_SWITCH") {
+        // Fallback chain moved on to the next provider/model
+        setGenerationState((prev) =>
+          prev ? { ...prev, activeModel: data.to, switchedFrom: data.from } : null
+        );
+      }
+
       if (data.type === "GENERATION_COMPLETE") {
         try {
           const session = await indexedDBService.getSession(sessionId);
@@ -251,7 +298,7 @@ function QuizContent() {
         if (!gp.isGenerating || gp.completedBatches >= gp.totalBatches) return;
 
         console.log(
-          `[Quiz] Continuing generation from batch ${gp.completedBatches + 1}/${gp.totalBatches}`
+          `[Quiz] Continuing generation (${gp.completedBatches}/${gp.totalBatches} batches done)`
         );
 
         if (session.type === "exam" && !session.domain && gp.requestedCount > 20) {
@@ -380,42 +427,55 @@ function QuizContent() {
     };
   }, [generationState?.isGenerating, sessionId, questions.length]);
 
+  // Stop the generation and keep the questions already saved
+  const handleStopGeneration = async () => {
+    if (!sessionId) return;
+
+    setIsStopping(true);
+    try {
+      const session = await generationService.cancelGeneration(sessionId);
+      if (!session) {
+        router.push("/");
+        return;
+      }
+      setQuestions([...session.questions]);
+      setGenerationState(null);
+    } catch (err) {
+      console.error("[Quiz] Failed to stop generation:", err);
+    } finally {
+      setIsStopping(false);
+    }
+  };
+
+  // Convert selectedAnswers to userAnswers format (with credit earned)
+  const buildUserAnswers = (currentGrades: Record<string, AnswerGrade>) => {
+    const userAnswers: QuizSession["userAnswers"] = {};
+    Object.entries(selectedAnswers).forEach(([questionId, answerIds]) => {
+      const question = questions.find((q) => q.id === questionId);
+      if (question && answerIds.length > 0) {
+        userAnswers[questionId] = buildUserAnswer(
+          question,
+          answerIds,
+          scoringMode,
+          favorites.has(questionId),
+          currentGrades[questionId]
+        );
+      }
+    });
+    return userAnswers;
+  };
+
   // Save session progress and answers
-  const saveSessionProgress = async () => {
+  const saveSessionProgress = async (currentGrades = grades) => {
     if (!sessionId) return;
 
     try {
       const session = await indexedDBService.getSession(sessionId);
       if (session) {
-        // Convert selectedAnswers to userAnswers format
-        const userAnswers: Record<
-          string,
-          {
-            questionId: string;
-            selectedAnswerIds: string[];
-            isCorrect: boolean;
-            timeSpent: number;
-            isFavorite: boolean;
-          }
-        > = {};
-        Object.entries(selectedAnswers).forEach(([questionId, answerId]) => {
-          const question = questions.find((q) => q.id === questionId);
-          if (question) {
-            const correctAnswer = question.answers.find((a) => a.isCorrect);
-            userAnswers[questionId] = {
-              questionId,
-              selectedAnswerIds: [answerId],
-              isCorrect: answerId === correctAnswer?.id,
-              timeSpent: 0,
-              isFavorite: favorites.has(questionId),
-            };
-          }
-        });
-
         await indexedDBService.saveSession({
           ...session,
           currentIndex,
-          userAnswers,
+          userAnswers: buildUserAnswers(currentGrades),
           timeRemaining: currentTimeRef.current || undefined,
         });
       }
@@ -425,11 +485,12 @@ function QuizContent() {
   };
 
   // Save progress when index or answers change
+  // (finishQuiz saves the final answers itself)
   useEffect(() => {
-    if (!loading && questions.length > 0) {
+    if (!loading && questions.length > 0 && !quizCompleted) {
       saveSessionProgress();
     }
-  }, [currentIndex, selectedAnswers]);
+  }, [currentIndex, selectedAnswers, grades]);
 
   // Update SavedPracticeQuiz when questions arrive from background generation
   useEffect(() => {
@@ -503,12 +564,33 @@ function QuizContent() {
   }, [sessionId]);
 
   const currentQuestion = questions[currentIndex];
-  const selectedAnswerId = selectedAnswers[currentQuestion?.id];
+  const currentSelection = selectedAnswers[currentQuestion?.id] || [];
   const progress =
     questions.length > 0 ? ((currentIndex + 1) / questions.length) * 100 : 0;
 
+  // Single choice replaces the selection; multiple choice toggles checkboxes
   const handleAnswerSelect = (answerId: string) => {
-    setSelectedAnswers({ ...selectedAnswers, [currentQuestion.id]: answerId });
+    setSelectedAnswers({
+      ...selectedAnswers,
+      [currentQuestion.id]: selectAnswer(currentQuestion, currentSelection, answerId),
+    });
+  };
+
+  // Typed answers and step orders replace the whole response
+  // (an edited open-ended answer has to be graded again)
+  const handleResponseChange = (response: string[]) => {
+    const questionId = currentQuestion.id;
+    setSelectedAnswers({
+      ...selectedAnswers,
+      [questionId]: response,
+    });
+    if (grades[questionId]) {
+      setGrades((prev) => {
+        const next = { ...prev };
+        delete next[questionId];
+        return next;
+      });
+    }
   };
 
   const handleGoToQuestion = (index: number) => {
@@ -527,7 +609,7 @@ function QuizContent() {
         // Don't complete quiz yet - wait for more questions
         return;
       }
-      setQuizCompleted(true);
+      finishQuiz();
     }
   };
 
@@ -552,15 +634,15 @@ function QuizContent() {
       console.log("[Quiz] Adding to favorites");
       newFavorites.add(currentQuestion.id);
       console.log("[Quiz] Calling addFavorite...");
-      // Save the question WITH the correct answer pre-selected
-      const correctAnswer = currentQuestion.answers.find((a) => a.isCorrect);
+      // Save the question WITH the correct answers pre-selected
+      const correctAnswerIds = getCorrectResponse(currentQuestion);
       const questionWithCorrectAnswer = {
         ...currentQuestion,
-        selectedAnswerId: correctAnswer?.id,
+        selectedAnswerIds: correctAnswerIds,
       };
       console.log(
-        "[Quiz] Saving with correct answer:",
-        correctAnswer?.id
+        "[Quiz] Saving with correct answers:",
+        correctAnswerIds
       );
       await indexedDBService.addFavorite(questionWithCorrectAnswer);
       console.log("[Quiz] Favorite added");
@@ -572,20 +654,118 @@ function QuizContent() {
     );
   };
 
+  // Backfill the rationales of a wrong answer once its result is shown
+  // (questions generated before rationales existed, preloaded packs)
+  const rationaleAttempts = useRef(new Set<string>());
+  useEffect(() => {
+    if (!showResult || !currentQuestion || !navigator.onLine) return;
+    const missesRationale = currentQuestion.answers.some(
+      (a) => !a.isCorrect && !a.rationale && selectedAnswers[currentQuestion.id]?.includes(a.id)
+    );
+    if (!missesRationale || rationaleAttempts.current.has(currentQuestion.id)) return;
+    rationaleAttempts.current.add(currentQuestion.id);
+
+    rationaleService
+      .backfill(currentQuestion, sessionId ?? undefined)
+      .then((explained) => {
+        setQuestions((prev) => prev.map((q) => (q.id === explained.id ? explained : q)));
+      })
+      .catch((error) => {
+        console.warn("[Quiz] Rationale backfill failed:", error);
+      });
+  }, [showResult, currentQuestion, selectedAnswers, sessionId]);
+
+  // Keep the saved tutor conversation in the loaded questions
+  const handleTutorChatChange = (tutorChat: TutorMessage[]) => {
+    const questionId = currentQuestion.id;
+    setQuestions((prev) => prev.map((q) => (q.id === questionId ? { ...q, tutorChat } : q)));
+  };
+
+  // Have the AI grade an open-ended answer against its rubric
+  // (undefined when grading failed; the caller stores the grade)
+  const gradeAnswer = (question: Question, response: string) => {
+    const inFlight = gradingRequests.current.get(question.id);
+    if (inFlight) return inFlight;
+
+    setGradingStatus((prev) => ({ ...prev, [question.id]: "pending" }));
+    const request = gradingService
+      .grade(question, response, { sessionId: sessionId ?? undefined })
+      .then(
+        (grade) => {
+          setGradingStatus((prev) => {
+            const next = { ...prev };
+            delete next[question.id];
+            return next;
+          });
+          return grade;
+        },
+        (error) => {
+          console.warn("[Quiz] Grading failed:", error);
+          setGradingStatus((prev) => ({ ...prev, [question.id]: "error" }));
+          return undefined;
+        }
+      )
+      .finally(() => gradingRequests.current.delete(question.id));
+    gradingRequests.current.set(question.id, request);
+    return request;
+  };
+
+  const gradeCurrentAnswer = async () => {
+    const question = currentQuestion;
+    const response = selectedAnswers[question.id]?.[0];
+    if (question.type !== QuestionType.OPEN_ENDED || !response || grades[question.id]) return;
+
+    const grade = await gradeAnswer(question, response);
+    if (grade) {
+      setGrades((prev) => ({ ...prev, [question.id]: grade }));
+    }
+  };
+
+  // Grade the open-ended answers left without a grade (skipped validation,
+  // grading pending or failed) before completing: they would score 0.
+  // The quiz stays open with a retry when grading fails.
+  const finishQuiz = async () => {
+    if (finishGrading === "pending") return;
+    const ungraded = questions.filter(
+      (q) => q.type === QuestionType.OPEN_ENDED && selectedAnswers[q.id]?.[0] && !grades[q.id]
+    );
+    if (ungraded.length > 0) {
+      setFinishGrading("pending");
+      const results = await Promise.all(
+        ungraded.map((q) => gradeAnswer(q, selectedAnswers[q.id][0]))
+      );
+      const finalGrades = { ...grades };
+      results.forEach((grade, i) => {
+        if (grade) finalGrades[ungraded[i].id] = grade;
+      });
+
+      if (results.some((grade) => !grade)) {
+        setGrades(finalGrades);
+        setFinishGrading("error");
+        return;
+      }
+      // Saved before completion reads the session for statistics
+      await saveSessionProgress(finalGrades);
+      setGrades(finalGrades);
+    }
+
+    setFinishGrading(null);
+    setQuizCompleted(true);
+  };
+
   const handleShowResult = () => {
     setShowResult(true);
+    gradeCurrentAnswer();
   };
 
+  // Score with partial credit for multiple choice when enabled
+  // (open-ended answers earn their AI grade)
   const calculateScore = () => {
-    let correct = 0;
+    let credit = 0;
     questions.forEach((q) => {
-      const selectedId = selectedAnswers[q.id];
-      const correctAnswer = q.answers.find((a) => a.isCorrect);
-      if (selectedId === correctAnswer?.id) {
-        correct++;
-      }
+      credit += scoreAnswer(q, selectedAnswers[q.id] || [], scoringMode, grades[q.id]);
     });
-    return Math.round((correct / questions.length) * 100);
+    return Math.round((credit / questions.length) * 100);
   };
 
   // In exam mode, no immediate results - just go to next question
@@ -604,8 +784,8 @@ function QuizContent() {
   };
 
   // Check if all questions have been answered
-  const allQuestionsAnswered = questions.every((q) => selectedAnswers[q.id]);
-  const answeredCount = Object.keys(selectedAnswers).length;
+  const allQuestionsAnswered = questions.every((q) => selectedAnswers[q.id]?.length > 0);
+  const answeredCount = Object.values(selectedAnswers).filter((ids) => ids.length > 0).length;
 
   // Save completion and update statistics when quiz is completed
   useEffect(() => {
@@ -665,20 +845,22 @@ function QuizContent() {
 
       console.log("[Quiz] Found SavedExam:", exam.name);
 
-      // Calculate score
+      // Calculate score (partial credit included)
       let correct = 0;
+      let credit = 0;
       let answered = 0;
       completedSession.questions?.forEach((q) => {
         const userAnswer = completedSession.userAnswers[q.id];
         if (userAnswer) {
           answered++;
+          credit += getAnswerCredit(userAnswer);
           if (userAnswer.isCorrect) {
             correct++;
           }
         }
       });
       const score =
-        answered > 0 ? Math.round((correct / answered) * 100) : 0;
+        answered > 0 ? Math.round((credit / answered) * 100) : 0;
 
       // Calculate time spent
       const timeSpent = completedSession.completedAt
@@ -735,7 +917,7 @@ function QuizContent() {
       <div className="min-h-screen flex flex-col bg-paper-primary">
         <Navigation />
         <main className="flex-1 flex items-center justify-center">
-          <p className="font-mono text-ink-muted">Chargement du quiz...</p>
+          <p className="font-mono text-ink-muted">{t("quiz.loading")}</p>
         </main>
       </div>
     );
@@ -750,7 +932,7 @@ function QuizContent() {
             <CardContent className="text-center py-12">
               <p className="text-domain-ml mb-4">{error}</p>
               <Button variant="primary" onClick={() => router.push("/")}>
-                Retour à l&apos;Accueil
+                {t("quiz.backHome")}
               </Button>
             </CardContent>
           </Card>
@@ -761,11 +943,9 @@ function QuizContent() {
 
   if (quizCompleted) {
     const score = calculateScore();
-    const correctCount = questions.filter((q) => {
-      const selectedId = selectedAnswers[q.id];
-      const correctAnswer = q.answers.find((a) => a.isCorrect);
-      return selectedId === correctAnswer?.id;
-    }).length;
+    const correctCount = questions.filter((q) =>
+      isAnswerCorrect(q, selectedAnswers[q.id] || [], grades[q.id])
+    ).length;
 
     return (
       <div className="min-h-screen flex flex-col bg-paper-primary">
@@ -776,10 +956,10 @@ function QuizContent() {
               <div className="mb-8">
                 <h1 className="font-mono font-bold text-3xl mb-2">
                   {sessionType === "exam"
-                    ? "Examen Terminé !"
-                    : "Quiz Terminé !"}
+                    ? t("quiz.examDone")
+                    : t("quiz.quizDone")}
                 </h1>
-                <p className="text-ink-secondary">Voici vos résultats</p>
+                <p className="text-ink-secondary">{t("quiz.results")}</p>
               </div>
 
               <div className="mb-8">
@@ -787,14 +967,19 @@ function QuizContent() {
                   {score}%
                 </div>
                 <p className="text-ink-muted">
-                  {correctCount} / {questions.length} réponses correctes
+                  {t("quiz.correctCount", { correct: correctCount, total: questions.length })}
                 </p>
+                {scoringMode === "partial" && (
+                  <p className="font-mono text-xs text-ink-muted mt-1">
+                    {t("quiz.partialCredit")}
+                  </p>
+                )}
               </div>
 
               <div className="grid grid-cols-1 gap-4 mb-8">
                 <div className="p-4 bg-paper-secondary rounded">
                   <div className="font-mono text-xs text-ink-muted uppercase mb-1">
-                    Questions marquées comme favoris
+                    {t("quiz.favorited")}
                   </div>
                   <div className="font-mono text-lg font-bold">
                     {favorites.size}
@@ -805,16 +990,15 @@ function QuizContent() {
               {/* Review answers section - show all questions with correct answers */}
               <div className="text-left mb-8">
                 <h2 className="font-mono font-semibold mb-4">
-                  Révision des réponses
+                  {t("quiz.review")}
                 </h2>
                 <div className="space-y-3 max-h-96 overflow-y-auto">
                   {questions.map((q, index) => {
-                    const selectedId = selectedAnswers[q.id];
-                    const correctAnswer = q.answers.find((a) => a.isCorrect);
-                    const isCorrect = selectedId === correctAnswer?.id;
-                    const selectedAnswer = q.answers.find(
-                      (a) => a.id === selectedId
-                    );
+                    const selectedIds = selectedAnswers[q.id] || [];
+                    const isCorrect = isAnswerCorrect(q, selectedIds, grades[q.id]);
+                    const credit = scoreAnswer(q, selectedIds, scoringMode, grades[q.id]);
+                    const selectedText = describeResponse(q, selectedIds);
+                    const correctText = describeCorrectResponse(q);
 
                     return (
                       <div
@@ -840,13 +1024,19 @@ function QuizContent() {
                                   : "text-domain-ml"
                               }`}
                             >
-                              {isCorrect ? "✓ Correct" : "✗ Incorrect"} -
-                              Votre réponse:{" "}
-                              {selectedAnswer?.text || "Non répondu"}
+                              {isCorrect
+                                ? t("quiz.review.correct")
+                                : credit > 0
+                                  ? t("quiz.review.partial", { percent: Math.round(credit * 100) })
+                                  : t("quiz.review.incorrect")}{" "}
+                              -{" "}
+                              {t("quiz.review.yourAnswer", {
+                                answer: selectedText || t("quiz.unanswered"),
+                              })}
                             </p>
                             {!isCorrect && (
                               <p className="text-xs text-domain-dl mt-1">
-                                Bonne réponse: {correctAnswer?.text}
+                                {t("quiz.review.correctAnswer", { answer: correctText })}
                               </p>
                             )}
                             {q.explanation && (
@@ -867,7 +1057,7 @@ function QuizContent() {
                   variant="secondary"
                   onClick={() => router.push("/")}
                 >
-                  Retour à l&apos;Accueil
+                  {t("quiz.backHome")}
                 </Button>
                 <Button
                   variant="primary"
@@ -878,8 +1068,8 @@ function QuizContent() {
                   }
                 >
                   {sessionType === "exam"
-                    ? "Autre Examen"
-                    : "Nouveau Quiz"}
+                    ? t("quiz.anotherExam")
+                    : t("quiz.newQuiz")}
                 </Button>
               </div>
             </CardContent>
@@ -902,13 +1092,15 @@ function QuizContent() {
               <div className="flex-1 min-w-0">
                 <div className="flex items-center justify-between mb-1">
                   <p className="font-mono text-sm text-accent">
-                    {generationState.availableCount} /{" "}
-                    {generationState.requestedCount} questions
+                    {t("quiz.generating", {
+                      available: generationState.availableCount,
+                      requested: generationState.requestedCount,
+                    })}
                   </p>
                   <span className="font-mono text-xs text-ink-muted">
-                    {generationState.requestedCount -
-                      generationState.availableCount}{" "}
-                    en cours...
+                    {t("quiz.pending", {
+                      count: generationState.requestedCount - generationState.availableCount,
+                    })}
                   </span>
                 </div>
                 <ProgressBar
@@ -918,7 +1110,31 @@ function QuizContent() {
                     100
                   }
                 />
+                {generationState.activeModel && (
+                  <p className="font-mono text-xs text-ink-muted mt-1 truncate">
+                    {generationState.switchedFrom && (
+                      <span className="text-accent">
+                        {t("quiz.modelUnavailable", {
+                          model: providerRegistry.getModelName(generationState.switchedFrom.model),
+                        })}{" "}
+                      </span>
+                    )}
+                    {providerRegistry.getModelName(generationState.activeModel.model)}
+                    {generationState.batchSize &&
+                      ` · ${t("quiz.batchSize", { size: generationState.batchSize })}`}
+                  </p>
+                )}
               </div>
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={handleStopGeneration}
+                disabled={isStopping}
+                className="shrink-0"
+              >
+                <Square className="w-3 h-3 mr-1" />
+                {t("common.stop")}
+              </Button>
             </div>
           </div>
         )}
@@ -930,7 +1146,7 @@ function QuizContent() {
             {/* Row 1: Title and question counter */}
             <div className="flex items-center justify-between">
               <h1 className="font-mono font-semibold text-sm truncate flex-1">
-                {sessionType === "exam" ? "Examen" : "Pratique"}
+                {sessionType === "exam" ? t("quiz.exam") : t("quiz.practice")}
               </h1>
               <span className="font-mono text-xs text-ink-muted ml-2">
                 {currentIndex + 1}/{questions.length}
@@ -945,7 +1161,7 @@ function QuizContent() {
                   size="sm"
                   onClick={() => router.back()}
                   className="px-2 py-1"
-                  title="Quitter"
+                  title={t("quiz.quit")}
                 >
                   <ArrowLeft className="w-3.5 h-3.5" />
                 </Button>
@@ -953,7 +1169,7 @@ function QuizContent() {
                   variant="secondary"
                   size="sm"
                   onClick={() => setShowQuickNav(!showQuickNav)}
-                  title="Navigation rapide"
+                  title={t("quiz.quickNav")}
                   className="px-2 py-1"
                 >
                   <Grid3x3 className="w-3.5 h-3.5" />
@@ -963,9 +1179,9 @@ function QuizContent() {
                 initialTime={timerInitialTime}
                 timeLimit={timeLimit}
                 mode={sessionType === "exam" ? "countdown" : "countup"}
-                isPaused={showResult}
-                onTimeUp={() => setQuizCompleted(true)}
-                onTimeUpdate={(t) => { currentTimeRef.current = t; }}
+                isPaused={showResult || finishGrading !== null}
+                onTimeUp={finishQuiz}
+                onTimeUpdate={(time) => { currentTimeRef.current = time; }}
                 compact
               />
             </div>
@@ -978,13 +1194,13 @@ function QuizContent() {
               <div className="flex items-center gap-4 min-w-0 flex-1">
                 <div className="min-w-0">
                   <h1 className="font-mono font-semibold text-base">
-                    {sessionType === "exam" ? "Mode Examen" : "Mode Pratique"}
+                    {sessionType === "exam" ? t("quiz.examMode") : t("quiz.practiceMode")}
                   </h1>
                   <p className="font-mono text-xs text-ink-muted">
-                    Question {currentIndex + 1} / {questions.length}
+                    {t("quiz.position", { current: currentIndex + 1, total: questions.length })}
                     {sessionType === "exam" && (
                       <span>
-                        {` • ${answeredCount}/${questions.length} répondues`}
+                        {t("quiz.answeredCount", { answered: answeredCount, total: questions.length })}
                       </span>
                     )}
                   </p>
@@ -997,15 +1213,15 @@ function QuizContent() {
                   initialTime={timerInitialTime}
                   timeLimit={timeLimit}
                   mode={sessionType === "exam" ? "countdown" : "countup"}
-                  isPaused={showResult}
-                  onTimeUp={() => setQuizCompleted(true)}
-                  onTimeUpdate={(t) => { currentTimeRef.current = t; }}
+                  isPaused={showResult || finishGrading !== null}
+                  onTimeUp={finishQuiz}
+                  onTimeUpdate={(time) => { currentTimeRef.current = time; }}
                 />
                 <Button
                   variant="secondary"
                   size="sm"
                   onClick={() => setShowQuickNav(!showQuickNav)}
-                  title="Navigation rapide"
+                  title={t("quiz.quickNav")}
                 >
                   <Grid3x3 className="w-4 h-4" />
                 </Button>
@@ -1015,7 +1231,7 @@ function QuizContent() {
                   onClick={() => router.back()}
                 >
                   <ArrowLeft className="w-4 h-4" />
-                  Quitter
+                  {t("quiz.quit")}
                 </Button>
               </div>
             </div>
@@ -1033,7 +1249,7 @@ function QuizContent() {
             <CardContent className="pt-4">
               <div className="flex items-center justify-between mb-3">
                 <h3 className="font-mono text-sm font-semibold">
-                  Navigation Rapide
+                  {t("quiz.quickNav")}
                 </h3>
                 <Button
                   variant="secondary"
@@ -1045,11 +1261,10 @@ function QuizContent() {
               </div>
               <div className="grid grid-cols-5 sm:grid-cols-8 md:grid-cols-10 gap-2">
                 {questions.map((q, index) => {
-                  const isAnswered = selectedAnswers[q.id];
+                  const isAnswered = selectedAnswers[q.id]?.length > 0;
                   const isCurrent = index === currentIndex;
                   const isCorrect =
-                    isAnswered &&
-                    q.answers.find((a) => a.id === isAnswered)?.isCorrect;
+                    isAnswered && isAnswerCorrect(q, selectedAnswers[q.id], grades[q.id]);
 
                   return (
                     <button
@@ -1070,7 +1285,7 @@ function QuizContent() {
                             : ""
                         }
                       `}
-                      title={`Question ${index + 1}${isAnswered ? " • Répondu" : ""}`}
+                      title={`${t("question.number", { number: index + 1 })}${isAnswered ? ` • ${t("quiz.answered")}` : ""}`}
                     >
                       {index + 1}
                     </button>
@@ -1080,15 +1295,15 @@ function QuizContent() {
               <div className="flex items-center gap-4 mt-3 text-xs text-ink-muted">
                 <div className="flex items-center gap-1">
                   <div className="w-3 h-3 rounded bg-domain-dl/20 border border-domain-dl"></div>
-                  <span>Correcte</span>
+                  <span>{t("quiz.legend.correct")}</span>
                 </div>
                 <div className="flex items-center gap-1">
                   <div className="w-3 h-3 rounded bg-domain-ml/20 border border-domain-ml"></div>
-                  <span>Incorrecte</span>
+                  <span>{t("quiz.legend.incorrect")}</span>
                 </div>
                 <div className="flex items-center gap-1">
                   <div className="w-3 h-3 rounded bg-paper-secondary"></div>
-                  <span>Non répondu</span>
+                  <span>{t("quiz.unanswered")}</span>
                 </div>
               </div>
             </CardContent>
@@ -1100,12 +1315,18 @@ function QuizContent() {
           <QuestionCard
             key={currentQuestion.id}
             question={currentQuestion}
-            selectedAnswerId={selectedAnswerId}
+            selectedAnswerIds={currentSelection}
             onAnswerSelect={handleAnswerSelect}
+            onResponseChange={handleResponseChange}
+            grade={grades[currentQuestion.id]}
+            gradingStatus={gradingStatus[currentQuestion.id]}
+            onRetryGrading={gradeCurrentAnswer}
             showResult={showResult}
             isFavorite={favorites.has(currentQuestion.id)}
             onToggleFavorite={handleToggleFavorite}
             questionNumber={currentIndex + 1}
+            sessionId={sessionId ?? undefined}
+            onTutorChatChange={handleTutorChatChange}
           />
         )}
 
@@ -1117,25 +1338,25 @@ function QuizContent() {
             disabled={currentIndex === 0}
           >
             <ArrowLeft className="w-4 h-4 mr-2" />
-            Précédent
+            {t("quiz.previous")}
           </Button>
 
           {sessionType === "exam" ? (
             // Exam mode: No "Validate" button, just "Next" (can skip questions)
-            <Button variant="primary" onClick={handleNext}>
+            <Button variant="primary" onClick={handleNext} disabled={finishGrading === "pending"}>
               {currentIndex < questions.length - 1 ? (
                 <>
-                  Suivant
+                  {t("quiz.next")}
                   <ArrowRight className="w-4 h-4 ml-2" />
                 </>
               ) : generationState?.isGenerating ? (
                 <>
-                  En attente...
+                  {t("quiz.waiting")}
                   <Loader2 className="w-4 h-4 ml-2 animate-spin" />
                 </>
               ) : (
                 <>
-                  Terminer l&apos;Examen
+                  {t("quiz.finishExam")}
                   <CheckCircle className="w-4 h-4 ml-2" />
                 </>
               )}
@@ -1143,20 +1364,20 @@ function QuizContent() {
           ) : (
             // Practice mode: Validate then Next
             showResult ? (
-              <Button variant="primary" onClick={handleNext}>
+              <Button variant="primary" onClick={handleNext} disabled={finishGrading === "pending"}>
                 {currentIndex < questions.length - 1 ? (
                   <>
-                    Suivant
+                    {t("quiz.next")}
                     <ArrowRight className="w-4 h-4 ml-2" />
                   </>
                 ) : generationState?.isGenerating ? (
                   <>
-                    En attente...
+                    {t("quiz.waiting")}
                     <Loader2 className="w-4 h-4 ml-2 animate-spin" />
                   </>
                 ) : (
                   <>
-                    Terminer
+                    {t("quiz.finish")}
                     <CheckCircle className="w-4 h-4 ml-2" />
                   </>
                 )}
@@ -1165,20 +1386,40 @@ function QuizContent() {
               <Button
                 variant="primary"
                 onClick={handleValidateOrNext}
-                disabled={!selectedAnswerId}
+                disabled={currentSelection.length === 0}
               >
                 <CheckCircle className="w-4 h-4 mr-2" />
-                Valider
+                {t("quiz.validate")}
               </Button>
             )
           )}
         </div>
 
+        {finishGrading === "pending" && (
+          <p className="flex items-center justify-center gap-2 font-mono text-xs text-ink-muted mt-4">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            {t("quiz.finishGrading")}
+          </p>
+        )}
+
+        {finishGrading === "error" && (
+          <div className="flex items-center justify-between gap-3 p-3 mt-4 rounded border border-domain-ml">
+            <p className="font-mono text-xs text-domain-ml">
+              {t("quiz.finishGradingFailed")}
+            </p>
+            <button
+              onClick={finishQuiz}
+              className="inline-flex items-center gap-1 font-mono text-xs text-ink-secondary hover:text-accent"
+            >
+              <RefreshCw className="w-3 h-3" />
+              {t("common.retry")}
+            </button>
+          </div>
+        )}
+
         {sessionType === "exam" && !allQuestionsAnswered && (
           <p className="text-center text-sm text-ink-muted mt-4">
-            {questions.length - answeredCount} question
-            {questions.length - answeredCount > 1 ? "s" : ""} non répondue
-            {questions.length - answeredCount > 1 ? "s" : ""}
+            {tn("quiz.remaining", questions.length - answeredCount)}
           </p>
         )}
       </main>
@@ -1187,13 +1428,15 @@ function QuizContent() {
 }
 
 export default function QuizPage() {
+  const { t } = useTranslation();
+
   return (
     <Suspense
       fallback={
         <div className="min-h-screen flex flex-col bg-paper-primary">
           <Navigation />
           <main className="flex-1 flex items-center justify-center">
-            <p className="font-mono text-ink-muted">Chargement du quiz...</p>
+            <p className="font-mono text-ink-muted">{t("quiz.loading")}</p>
           </main>
         </div>
       }
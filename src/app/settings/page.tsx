@@ -1,35 +1,87 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import Link from "next/link";
 import { Navigation } from "@/components/layout/Navigation";
 import { PageHeader } from "@/components/layout/Header";
 import { Card, CardContent, CardTitle } from "@/components/ui/Card";
 import { Button } from "@/components/ui/Button";
-import { Key, Cpu, Trash2, Download, Upload } from "lucide-react";
+import { Key, Cpu, Trash2, Download, Upload, RefreshCw, Activity, ShieldCheck, Shapes, Languages } from "lucide-react";
 import { storageService } from "@/services/StorageService";
 import { indexedDBService } from "@/services/IndexedDBService";
 import { notificationService } from "@/services/NotificationService";
-import { AIProvider } from "@/types";
+import { batchSizeService } from "@/services/BatchSizeService";
+import { providerRegistry } from "@/services/ProviderRegistry";
+import {
+  AdaptiveBatchSettings,
+  AIProvider,
+  Language,
+  ModelChoice,
+  ProviderCredentials,
+  QuestionType,
+  ScoringMode,
+  VerificationSettings,
+} from "@/types";
+import { DEFAULT_SCORING_MODE } from "@/lib/scoring";
+import { DEFAULT_VERIFICATION, VERIFICATION_ACTIONS } from "@/lib/verification";
+import { DEFAULT_QUESTION_FORMATS, EXTRA_QUESTION_FORMATS } from "@/lib/questionFormats";
+import { BATCH_SIZE_LIMITS, DEFAULT_ADAPTIVE_BATCH } from "@/lib/batchSizing";
+import { LANGUAGES, LANGUAGE_LABELS, MessageKey, getLanguage, isLanguage, setLanguage } from "@/lib/i18n";
 import { BatchSizeSlider } from "@/components/features/BatchSizeSlider";
+import { FallbackChainEditor } from "@/components/features/FallbackChainEditor";
+import { ModelCatalogPicker } from "@/components/features/ModelCatalogPicker";
+import { UsageReport } from "@/components/features/UsageReport";
+import { CustomDomainManager } from "@/components/features/CustomDomainManager";
+import { useTranslation } from "@/components/AppProvider";
 
 // ============================================
 // SETTINGS PAGE
 // Manage API key, model, and preferences
 // ============================================
 
+const SCORING_MODES: { id: ScoringMode; label: MessageKey; description: MessageKey }[] = [
+  {
+    id: "all-or-nothing",
+    label: "settings.scoring.allOrNothing",
+    description: "settings.scoring.allOrNothingHint",
+  },
+  {
+    id: "partial",
+    label: "settings.scoring.partial",
+    description: "settings.scoring.partialHint",
+  },
+];
+
 export default function SettingsPage() {
-  const [apiKey, setApiKey] = useState("");
-  const [geminiApiKey, setGeminiApiKey] = useState("");
+  const { t } = useTranslation();
   const [provider, setProvider] = useState<AIProvider>("openrouter");
+  const [credentials, setCredentials] = useState<
+    Record<AIProvider, ProviderCredentials>
+  >({});
+  const [customModels, setCustomModels] = useState<Record<AIProvider, string>>(
+    {},
+  );
   const [selectedModel, setSelectedModel] = useState("z-ai/glm-4.5-air:free");
-  const [customOpenRouterModel, setCustomOpenRouterModel] = useState("");
-  const [customGeminiModel, setCustomGeminiModel] = useState("");
+  const [discoveredModels, setDiscoveredModels] = useState<string[]>([]);
+  const [isDetectingModels, setIsDetectingModels] = useState(false);
+  const [detectError, setDetectError] = useState("");
+  const [uiLanguage, setUiLanguage] = useState<Language>(getLanguage());
   const [notifications, setNotifications] = useState(false);
   const [offlineQuestions, setOfflineQuestions] = useState(10);
   const [batchSize, setBatchSize] = useState(10);
+  const [adaptiveBatch, setAdaptiveBatch] = useState<AdaptiveBatchSettings>(DEFAULT_ADAPTIVE_BATCH);
+  const [batchConcurrency, setBatchConcurrency] = useState(1);
+  const [scoringMode, setScoringMode] = useState<ScoringMode>(DEFAULT_SCORING_MODE);
+  const [questionFormats, setQuestionFormats] = useState<QuestionType[]>(DEFAULT_QUESTION_FORMATS);
+  const [fallbackChain, setFallbackChain] = useState<ModelChoice[]>([]);
+  const [verification, setVerification] = useState<VerificationSettings>(DEFAULT_VERIFICATION);
   const [isSaving, setIsSaving] = useState(false);
   const [loading, setLoading] = useState(true);
-  const [models] = useState(storageService.getAvailableModels());
+  const providers = providerRegistry.getAll();
+  const activeProvider = providerRegistry.get(provider);
+  const providerCredentials =
+    credentials[provider] || providerRegistry.getDefaultCredentials(provider);
+  const customModel = customModels[provider] || "";
 
   useEffect(() => {
     const loadSettings = async () => {
@@ -40,15 +92,20 @@ export default function SettingsPage() {
 
         const settings = await storageService.getSettings();
         if (settings) {
-          setApiKey(settings.apiKey || "");
-          setGeminiApiKey(settings.geminiApiKey || "");
           setProvider(settings.provider || "openrouter");
+          setCredentials(settings.credentials || {});
+          setCustomModels(settings.customModels || {});
           setSelectedModel(settings.model || "z-ai/glm-4.5-air:free");
-          setCustomOpenRouterModel(settings.customOpenRouterModel || "");
-          setCustomGeminiModel(settings.customGeminiModel || "");
+          if (isLanguage(settings.language)) setUiLanguage(settings.language);
           setNotifications(settings.notifyOnComplete ?? false);
           setOfflineQuestions(settings.offlineQuestionsPerDomain || 10);
           setBatchSize(settings.batchSize || 10);
+          setAdaptiveBatch({ ...DEFAULT_ADAPTIVE_BATCH, ...settings.adaptiveBatchSize });
+          setBatchConcurrency(settings.batchConcurrency || 1);
+          setScoringMode(settings.scoringMode ?? DEFAULT_SCORING_MODE);
+          setQuestionFormats(settings.questionFormats ?? DEFAULT_QUESTION_FORMATS);
+          setFallbackChain(settings.fallbackChain || []);
+          setVerification({ ...DEFAULT_VERIFICATION, ...settings.verification });
         }
         setLoading(false);
       } catch (error) {
@@ -60,44 +117,93 @@ export default function SettingsPage() {
     loadSettings();
   }, []);
 
+  const handleResetBatchSizes = async () => {
+    await batchSizeService.reset();
+    alert(t("settings.adaptiveBatch.resetDone"));
+  };
+
   const handleSave = async () => {
     setIsSaving(true);
     console.log("[Settings] Saving settings...");
     console.log("[Settings] Provider:", provider);
     console.log(
-      "[Settings] OpenRouter API Key:",
-      apiKey ? apiKey.substring(0, 10) + "..." : "empty",
-    );
-    console.log(
-      "[Settings] Gemini API Key:",
-      geminiApiKey ? geminiApiKey.substring(0, 10) + "..." : "empty",
+      "[Settings] Credentials configured:",
+      providerRegistry.isConfigured(provider, providerCredentials),
     );
     console.log("[Settings] Model:", selectedModel);
     try {
-      await storageService.saveSettings({
-        apiKey,
-        geminiApiKey,
+      // Merge so settings edited elsewhere (model prices...) are kept
+      await storageService.updateSettings({
         provider,
+        credentials: { ...credentials, [provider]: providerCredentials },
+        customModels,
         model: selectedModel,
         defaultModel: selectedModel,
-        customOpenRouterModel: customOpenRouterModel || undefined,
-        customGeminiModel: customGeminiModel || undefined,
+        language: uiLanguage,
         notifyOnComplete: notifications,
         offlineQuestionsPerDomain: offlineQuestions,
         batchSize,
+        adaptiveBatchSize: adaptiveBatch,
+        batchConcurrency,
+        scoringMode,
+        questionFormats,
+        fallbackChain: fallbackChain.filter((entry) => entry.model.trim()),
+        verification: {
+          ...verification,
+          model: verification.model?.model.trim() ? verification.model : undefined,
+        },
         onboardingCompleted: true,
         updatedAt: new Date(),
       });
       console.log("[Settings] Settings saved successfully");
-      alert("Paramètres sauvegardés !");
+      setLanguage(uiLanguage);
+      alert(t("settings.saved"));
     } catch (error) {
       console.error("[Settings] Failed to save settings:", error);
-      alert("Erreur lors de la sauvegarde des paramètres");
+      alert(t("settings.saveError"));
     } finally {
       setIsSaving(false);
     }
   };
 
+  const handleProviderChange = (id: AIProvider) => {
+    setProvider(id);
+    setDiscoveredModels([]);
+    setDetectError("");
+  };
+
+  const handleCredentialChange = (key: string, value: string) => {
+    setCredentials((prev) => ({
+      ...prev,
+      [provider]: { ...providerCredentials, [key]: value },
+    }));
+  };
+
+  const handleCustomModelChange = (value: string) => {
+    setCustomModels((prev) => ({ ...prev, [provider]: value }));
+  };
+
+  const handleDetectModels = async () => {
+    if (!activeProvider.discoverModels) return;
+
+    setIsDetectingModels(true);
+    setDetectError("");
+    try {
+      const discovered =
+        await activeProvider.discoverModels(providerCredentials);
+      setDiscoveredModels(discovered);
+      if (discovered.length === 0) {
+        setDetectError(t("settings.noModelFound"));
+      }
+    } catch (error) {
+      console.error("[Settings] Failed to detect models:", error);
+      setDiscoveredModels([]);
+      setDetectError(t("settings.serverUnreachable"));
+    } finally {
+      setIsDetectingModels(false);
+    }
+  };
+
   const handleNotificationToggle = async () => {
     const newValue = !notifications;
 
@@ -105,9 +211,7 @@ export default function SettingsPage() {
     if (newValue && !notificationService.isEnabled()) {
       const granted = await notificationService.requestPermission();
       if (!granted) {
-        alert(
-          "Les notifications nécessitent votre permission pour fonctionner. Vous pouvez les activer dans les paramètres de votre navigateur.",
-        );
+        alert(t("settings.notificationPermission"));
         return;
       }
     }
@@ -125,10 +229,10 @@ export default function SettingsPage() {
       a.download = `review-iabd-backup-${new Date().toISOString().split("T")[0]}.json`;
       a.click();
       URL.revokeObjectURL(url);
-      alert("Données exportées avec succès !");
+      alert(t("settings.exported"));
     } catch (error) {
       console.error("[Settings] Export failed:", error);
-      alert("Erreur lors de l'export des données");
+      alert(t("settings.exportError"));
     }
   };
 
@@ -143,34 +247,30 @@ export default function SettingsPage() {
       try {
         const text = await file.text();
         await indexedDBService.importData(text);
-        alert("Données importées avec succès !");
+        alert(t("settings.imported"));
         window.location.reload();
       } catch (error) {
         console.error("[Settings] Import failed:", error);
-        alert("Erreur lors de l'import des données");
+        alert(t("settings.importError"));
       }
     };
     input.click();
   };
 
   const handleClearData = async () => {
-    if (
-      confirm("Êtes-vous sûr de vouloir supprimer toutes les données locales ?")
-    ) {
+    if (confirm(t("settings.clearConfirm"))) {
       try {
         await storageService.clearAllData();
-        alert(
-          "Données supprimées. Vous allez être redirigé vers l'onboarding.",
-        );
+        alert(t("settings.cleared"));
         window.location.href = "/onboarding";
       } catch (error) {
         console.error("[Settings] Failed to clear data:", error);
-        alert("Erreur lors de la suppression des données");
+        alert(t("settings.clearError"));
       }
     }
   };
 
-  const maskApiKey = (key: string) => {
+  const maskApiKey = (key?: string) => {
     if (!key) return "";
     return key.slice(0, 8) + "..." + key.slice(-4);
   };
@@ -180,9 +280,7 @@ export default function SettingsPage() {
       <div className="min-h-screen flex flex-col bg-paper-primary">
         <Navigation />
         <main className="flex-1 flex items-center justify-center">
-          <p className="font-mono text-ink-muted">
-            Chargement des paramètres...
-          </p>
+          <p className="font-mono text-ink-muted">{t("settings.loading")}</p>
         </main>
       </div>
     );
@@ -194,257 +292,395 @@ export default function SettingsPage() {
 
       <main className="flex-1 max-w-3xl mx-auto w-full px-4 py-12">
         <PageHeader
-          title="Paramètres"
-          description="Configurez votre application"
+          title={t("settings.title")}
+          description={t("settings.description")}
         />
 
         <div className="space-y-6">
-          {/* Provider Selection & API Keys */}
+          {/* Language */}
           <Card>
             <CardContent className="pt-6">
-              <div className="flex items-center gap-3 mb-4">
-                <Cpu className="w-5 h-5 text-accent" />
-                <CardTitle>Fournisseur IA & Clés API</CardTitle>
+              <div className="flex items-center gap-3 mb-2">
+                <Languages className="w-5 h-5 text-accent" />
+                <CardTitle>{t("settings.language")}</CardTitle>
               </div>
-
-              {/* Provider Selector */}
-              <div className="mb-6">
-                <label className="font-medium block mb-3">Fournisseur IA</label>
-                <div className="grid grid-cols-2 gap-4">
-                  <label
-                    className={`flex items-center gap-3 p-4 rounded border cursor-pointer transition-all ${
-                      provider === "openrouter"
-                        ? "border-accent bg-accent/10"
-                        : "border-paper-dark hover:border-accent/50"
-                    }`}
-                  >
-                    <input
-                      type="radio"
-                      name="provider"
-                      value="openrouter"
-                      checked={provider === "openrouter"}
-                      onChange={(e) =>
-                        setProvider(e.target.value as AIProvider)
-                      }
-                      className="sr-only"
-                    />
-                    <div>
-                      <div className="font-mono text-sm">OpenRouter</div>
-                      <div className="text-xs text-ink-muted">
-                        Plusieurs modèles disponibles
-                      </div>
-                    </div>
-                  </label>
-
+              <p className="text-sm text-ink-muted mb-4">{t("settings.languageHint")}</p>
+              <div className="grid grid-cols-2 gap-3">
+                {LANGUAGES.map((l) => (
                   <label
-                    className={`flex items-center gap-3 p-4 rounded border cursor-pointer transition-all ${
-                      provider === "gemini"
+                    key={l}
+                    className={`p-3 rounded border cursor-pointer transition-all font-mono text-sm text-center ${
+                      uiLanguage === l
                         ? "border-accent bg-accent/10"
                         : "border-paper-dark hover:border-accent/50"
                     }`}
                   >
                     <input
                       type="radio"
-                      name="provider"
-                      value="gemini"
-                      checked={provider === "gemini"}
-                      onChange={(e) =>
-                        setProvider(e.target.value as AIProvider)
-                      }
+                      name="language"
+                      value={l}
+                      checked={uiLanguage === l}
+                      onChange={() => setUiLanguage(l)}
                       className="sr-only"
                     />
-                    <div>
-                      <div className="font-mono text-sm">Google Gemini</div>
-                      <div className="text-xs text-ink-muted">Gemini/Gemma</div>
-                    </div>
+                    {LANGUAGE_LABELS[l]}
                   </label>
-                </div>
+                ))}
               </div>
-
-              {/* API Key fields - conditional based on provider */}
-              {provider === "openrouter" ? (
-                <div className="space-y-3">
-                  <div>
-                    <label className="font-medium block mb-2">
-                      Clé API OpenRouter
-                    </label>
-                    <input
-                      type="password"
-                      value={apiKey}
-                      onChange={(e) => setApiKey(e.target.value)}
-                      placeholder="Entrez votre clé API OpenRouter (sk-or-...)"
-                      className="w-full px-4 py-3 bg-paper-secondary border border-paper-dark rounded font-mono text-sm text-ink-primary focus:outline-none focus:border-accent"
-                    />
-                    <p className="font-mono text-xs text-ink-muted mt-1">
-                      Actuel: {maskApiKey(apiKey) || "Non configurée"}
-                    </p>
-                  </div>
-                  <a
-                    href="https://openrouter.ai/keys"
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="text-accent text-sm hover:underline"
-                  >
-                    Obtenir une clé API OpenRouter →
-                  </a>
-                </div>
-              ) : (
-                <div className="space-y-3">
-                  <div>
-                    <label className="font-medium block mb-2">
-                      Clé API Google
-                    </label>
-                    <input
-                      type="password"
-                      value={geminiApiKey}
-                      onChange={(e) => setGeminiApiKey(e.target.value)}
-                      placeholder="Entrez votre clé API Google (AIza...)"
-                      className="w-full px-4 py-3 bg-paper-secondary border border-paper-dark rounded font-mono text-sm text-ink-primary focus:outline-none focus:border-accent"
-                    />
-                    <p className="font-mono text-xs text-ink-muted mt-1">
-                      Actuel: {maskApiKey(geminiApiKey) || "Non configurée"}
-                    </p>
-                  </div>
-                  <a
-                    href="https://aistudio.google.com/app/apikey"
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="text-accent text-sm hover:underline"
-                  >
-                    Obtenir une clé API Google →
-                  </a>
-                </div>
-              )}
             </CardContent>
           </Card>
 
-          {/* Model Selection */}
+          {/* Provider Selection & API Keys */}
           <Card>
             <CardContent className="pt-6">
               <div className="flex items-center gap-3 mb-4">
                 <Cpu className="w-5 h-5 text-accent" />
-                <CardTitle>Modèle IA</CardTitle>
+                <CardTitle>{t("settings.providerKeys")}</CardTitle>
               </div>
-              <div className="space-y-2">
-                {models
-                  .filter((model) => model.provider === provider)
-                  .map((model) => (
-                    <button
-                      key={model.id}
-                      onClick={() => setSelectedModel(model.id)}
-                      className={`w-full p-3 rounded border text-left transition-all flex items-center justify-between ${
-                        selectedModel === model.id
+
+              {/* Provider Selector */}
+              <div className="mb-6">
+                <label className="font-medium block mb-3">{t("settings.provider")}</label>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  {providers.map((p) => (
+                    <label
+                      key={p.id}
+                      className={`flex items-center gap-3 p-4 rounded border cursor-pointer transition-all ${
+                        provider === p.id
                           ? "border-accent bg-accent/10"
                           : "border-paper-dark hover:border-accent/50"
                       }`}
                     >
-                      <span className="font-mono text-sm">{model.name}</span>
-                      {model.free && (
-                        <span className="text-xs px-2 py-1 bg-green-500/10 text-green-500 rounded">
-                          GRATUIT
-                        </span>
-                      )}
-                      {selectedModel === model.id && (
-                        <span className="text-accent text-sm">✓</span>
-                      )}
-                    </button>
+                      <input
+                        type="radio"
+                        name="provider"
+                        value={p.id}
+                        checked={provider === p.id}
+                        onChange={(e) => handleProviderChange(e.target.value)}
+                        className="sr-only"
+                      />
+                      <div>
+                        <div className="font-mono text-sm">{t(p.label)}</div>
+                        <div className="text-xs text-ink-muted">
+                          {t(p.description)}
+                        </div>
+                      </div>
+                    </label>
                   ))}
+                </div>
+              </div>
 
-                {/* Custom Model Input - OpenRouter */}
-                {provider === "openrouter" && (
-                  <div className="mt-4 p-4 border border-paper-dark rounded-lg">
-                    <label className="font-mono text-xs text-ink-muted uppercase mb-2 block">
-                      Modèle Custom (optionnel)
+              {/* Credential fields - declared by the provider */}
+              <div className="space-y-3">
+                {activeProvider.credentialFields.map((field) => (
+                  <div key={field.key}>
+                    <label className="font-medium block mb-2">
+                      {t(field.label)}
                     </label>
                     <input
-                      type="text"
-                      value={customOpenRouterModel}
-                      onChange={(e) => setCustomOpenRouterModel(e.target.value)}
-                      placeholder="ex: anthropic/claude-3-5-sonnet"
-                      className="w-full px-4 py-3 bg-paper-secondary border border-paper-dark rounded font-mono text-sm text-ink-primary placeholder:text-ink-muted focus:outline-none focus:border-accent"
+                      type={field.type}
+                      value={providerCredentials[field.key] || ""}
+                      onChange={(e) =>
+                        handleCredentialChange(field.key, e.target.value)
+                      }
+                      placeholder={field.placeholder && t(field.placeholder)}
+                      className="w-full px-4 py-3 bg-paper-secondary border border-paper-dark rounded font-mono text-sm text-ink-primary focus:outline-none focus:border-accent"
                     />
-                    <p className="text-xs text-ink-muted mt-2">
-                      Entrez l'ID d'un modèle OpenRouter custom. Voir{" "}
+                    {field.type === "password" && (
+                      <p className="font-mono text-xs text-ink-muted mt-1">
+                        {t("settings.currentKey", {
+                          key:
+                            maskApiKey(providerCredentials[field.key]) ||
+                            t("settings.keyNotSet"),
+                        })}
+                      </p>
+                    )}
+                    {field.helpUrl && (
                       <a
-                        href="https://openrouter.ai/models"
+                        href={field.helpUrl}
                         target="_blank"
                         rel="noopener noreferrer"
-                        className="text-accent hover:underline"
+                        className="inline-block mt-2 text-accent text-sm hover:underline"
                       >
-                        la liste complète
+                        {field.helpLabel && t(field.helpLabel)}
                       </a>
-                      .
-                    </p>
-                    {customOpenRouterModel &&
-                      selectedModel !== customOpenRouterModel && (
-                        <button
-                          onClick={() =>
-                            setSelectedModel(customOpenRouterModel)
-                          }
-                          className="mt-2 text-xs text-accent hover:underline"
-                        >
-                          Utiliser ce modèle custom
-                        </button>
-                      )}
-                    {selectedModel === customOpenRouterModel &&
-                      customOpenRouterModel && (
-                        <span className="inline-flex items-center gap-1 mt-2 text-xs px-2 py-1 bg-accent/10 text-accent rounded">
-                          <span>CUSTOM</span>
-                          <span>✓</span>
-                        </span>
-                      )}
+                    )}
                   </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Model Selection */}
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center gap-3 mb-4">
+                <Cpu className="w-5 h-5 text-accent" />
+                <CardTitle>{t("settings.model")}</CardTitle>
+              </div>
+              <div className="space-y-2">
+                {activeProvider.models.map((model) => (
+                  <button
+                    key={model.id}
+                    onClick={() => setSelectedModel(model.id)}
+                    className={`w-full p-3 rounded border text-left transition-all flex items-center justify-between ${
+                      selectedModel === model.id
+                        ? "border-accent bg-accent/10"
+                        : "border-paper-dark hover:border-accent/50"
+                    }`}
+                  >
+                    <span className="font-mono text-sm">{model.name}</span>
+                    {model.free && (
+                      <span className="text-xs px-2 py-1 bg-green-500/10 text-green-500 rounded">
+                        {t("settings.free")}
+                      </span>
+                    )}
+                    {selectedModel === model.id && (
+                      <span className="text-accent text-sm">✓</span>
+                    )}
+                  </button>
+                ))}
+
+                {/* Provider Catalog */}
+                {activeProvider.fetchCatalog && (
+                  <ModelCatalogPicker
+                    key={provider}
+                    provider={provider}
+                    credentials={providerCredentials}
+                    selectedModel={selectedModel}
+                    onSelect={setSelectedModel}
+                    className="pt-2"
+                  />
                 )}
 
-                {/* Custom Model Input - Gemini */}
-                {provider === "gemini" && (
-                  <div className="mt-4 p-4 border border-paper-dark rounded-lg">
-                    <label className="font-mono text-xs text-ink-muted uppercase mb-2 block">
-                      Modèle Custom (optionnel)
-                    </label>
-                    <input
-                      type="text"
-                      value={customGeminiModel}
-                      onChange={(e) => setCustomGeminiModel(e.target.value)}
-                      placeholder="ex: gemini-1.5-pro"
-                      className="w-full px-4 py-3 bg-paper-secondary border border-paper-dark rounded font-mono text-sm text-ink-primary placeholder:text-ink-muted focus:outline-none focus:border-accent"
-                    />
-                    <p className="text-xs text-ink-muted mt-2">
-                      Entrez l'ID d'un modèle Gemini custom. Voir{" "}
-                      <a
-                        href="https://ai.google.dev/gemini-api/docs/models"
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="text-accent hover:underline"
+                {/* Discovered Models */}
+                {activeProvider.discoverModels && (
+                  <div className="space-y-2">
+                    <Button
+                      variant="secondary"
+                      className="w-full"
+                      onClick={handleDetectModels}
+                      loading={isDetectingModels}
+                    >
+                      <RefreshCw className="w-4 h-4 mr-2" />
+                      {t("settings.detectModels")}
+                    </Button>
+                    {detectError && (
+                      <p className="text-xs text-domain-ml">{detectError}</p>
+                    )}
+                    {discoveredModels.map((model) => (
+                      <button
+                        key={model}
+                        onClick={() => setSelectedModel(model)}
+                        className={`w-full p-3 rounded border text-left transition-all flex items-center justify-between ${
+                          selectedModel === model
+                            ? "border-accent bg-accent/10"
+                            : "border-paper-dark hover:border-accent/50"
+                        }`}
                       >
-                        la documentation Gemini
-                      </a>
-                      .
-                    </p>
-                    {customGeminiModel &&
-                      selectedModel !== customGeminiModel && (
-                        <button
-                          onClick={() => setSelectedModel(customGeminiModel)}
-                          className="mt-2 text-xs text-accent hover:underline"
-                        >
-                          Utiliser ce modèle custom
-                        </button>
-                      )}
-                    {selectedModel === customGeminiModel &&
-                      customGeminiModel && (
-                        <span className="inline-flex items-center gap-1 mt-2 text-xs px-2 py-1 bg-accent/10 text-accent rounded">
-                          <span>CUSTOM</span>
-                          <span>✓</span>
-                        </span>
-                      )}
+                        <span className="font-mono text-sm">{model}</span>
+                        {selectedModel === model && (
+                          <span className="text-accent text-sm">✓</span>
+                        )}
+                      </button>
+                    ))}
                   </div>
                 )}
 
-                {models.filter((model) => model.provider === provider)
-                  .length === 0 && (
-                  <p className="text-center text-ink-muted text-sm py-4">
-                    Aucun modèle disponible pour ce fournisseur
+                {/* Custom Model Input */}
+                <div className="mt-4 p-4 border border-paper-dark rounded-lg">
+                  <label className="font-mono text-xs text-ink-muted uppercase mb-2 block">
+                    {t("settings.customModel")}
+                  </label>
+                  <input
+                    type="text"
+                    value={customModel}
+                    onChange={(e) => handleCustomModelChange(e.target.value)}
+                    placeholder={t(activeProvider.customModelPlaceholder)}
+                    className="w-full px-4 py-3 bg-paper-secondary border border-paper-dark rounded font-mono text-sm text-ink-primary placeholder:text-ink-muted focus:outline-none focus:border-accent"
+                  />
+                  <p className="text-xs text-ink-muted mt-2">
+                    {t("settings.customModelHint", { provider: t(activeProvider.label) })}
+                    {activeProvider.modelsDocUrl && (
+                      <>
+                        {" "}
+                        <a
+                          href={activeProvider.modelsDocUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-accent hover:underline"
+                        >
+                          {t("settings.customModelDocs")}
+                        </a>
+                      </>
+                    )}
+                  </p>
+                  {customModel && selectedModel !== customModel && (
+                    <button
+                      onClick={() => setSelectedModel(customModel)}
+                      className="mt-2 text-xs text-accent hover:underline"
+                    >
+                      {t("settings.useCustomModel")}
+                    </button>
+                  )}
+                  {selectedModel === customModel && customModel && (
+                    <span className="inline-flex items-center gap-1 mt-2 text-xs px-2 py-1 bg-accent/10 text-accent rounded">
+                      <span>CUSTOM</span>
+                      <span>✓</span>
+                    </span>
+                  )}
+                </div>
+
+                {activeProvider.models.length === 0 &&
+                  !activeProvider.discoverModels && (
+                    <p className="text-center text-ink-muted text-sm py-4">
+                      {t("settings.noModels")}
+                    </p>
+                  )}
+
+                {/* Fallback Chain */}
+                <div className="mt-4 pt-4 border-t border-paper-dark">
+                  <p className="font-medium mb-1">{t("settings.fallback")}</p>
+                  <p className="text-sm text-ink-muted mb-3">
+                    {t("settings.fallbackHint")}
                   </p>
+                  <FallbackChainEditor
+                    value={fallbackChain}
+                    onChange={setFallbackChain}
+                  />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Answer key verification */}
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center gap-3 mb-4">
+                <ShieldCheck className="w-5 h-5 text-accent" />
+                <CardTitle>{t("settings.verification")}</CardTitle>
+              </div>
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium">{t("settings.verification.secondOpinion")}</p>
+                    <p className="text-sm text-ink-muted">
+                      {t("settings.verification.secondOpinionHint")}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() =>
+                      setVerification({ ...verification, enabled: !verification.enabled })
+                    }
+                    className={`w-12 h-6 rounded-full transition-colors flex-shrink-0 ${
+                      verification.enabled ? "bg-accent" : "bg-paper-dark"
+                    }`}
+                    aria-pressed={verification.enabled}
+                  >
+                    <div
+                      className={`w-5 h-5 bg-white rounded-full transition-transform ${
+                        verification.enabled ? "translate-x-6" : "translate-x-0.5"
+                      }`}
+                    />
+                  </button>
+                </div>
+
+                {verification.enabled && (
+                  <>
+                    <div className="pt-4 border-t border-paper-dark">
+                      <p className="font-medium mb-3">{t("settings.verification.flagged")}</p>
+                      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                        {VERIFICATION_ACTIONS.map(
+                          (action) => (
+                            <label
+                              key={action}
+                              className={`p-3 rounded border cursor-pointer transition-all font-mono text-sm ${
+                                verification.onFlagged === action
+                                  ? "border-accent bg-accent/10"
+                                  : "border-paper-dark hover:border-accent/50"
+                              }`}
+                            >
+                              <input
+                                type="radio"
+                                name="verificationAction"
+                                value={action}
+                                checked={verification.onFlagged === action}
+                                onChange={() =>
+                                  setVerification({ ...verification, onFlagged: action })
+                                }
+                                className="sr-only"
+                              />
+                              {t(`verification.${action}`)}
+                            </label>
+                          )
+                        )}
+                      </div>
+                    </div>
+
+                    <div className="pt-4 border-t border-paper-dark">
+                      <label className="flex items-center gap-2 font-medium mb-2">
+                        <input
+                          type="checkbox"
+                          checked={!!verification.model}
+                          onChange={(e) =>
+                            setVerification({
+                              ...verification,
+                              model: e.target.checked
+                                ? { provider, model: selectedModel }
+                                : undefined,
+                            })
+                          }
+                          className="accent-accent"
+                        />
+                        {t("settings.verification.otherModel")}
+                      </label>
+                      <p className="text-sm text-ink-muted mb-3">
+                        {t("settings.verification.otherModelHint")}
+                      </p>
+                      {verification.model && (
+                        <div className="flex items-center gap-2">
+                          <select
+                            value={verification.model.provider}
+                            onChange={(e) =>
+                              setVerification({
+                                ...verification,
+                                model: {
+                                  provider: e.target.value,
+                                  model: providerRegistry.get(e.target.value).defaultModel,
+                                },
+                              })
+                            }
+                            className="px-2 py-2 bg-paper-secondary border border-paper-dark rounded font-mono text-xs text-ink-primary focus:outline-none focus:border-accent"
+                          >
+                            {providers.map((p) => (
+                              <option key={p.id} value={p.id}>
+                                {t(p.label)}
+                              </option>
+                            ))}
+                          </select>
+                          <input
+                            type="text"
+                            list="verifier-models"
+                            value={verification.model.model}
+                            onChange={(e) =>
+                              setVerification({
+                                ...verification,
+                                model: { ...verification.model!, model: e.target.value },
+                              })
+                            }
+                            className="flex-1 min-w-0 px-3 py-2 bg-paper-secondary border border-paper-dark rounded font-mono text-xs text-ink-primary focus:outline-none focus:border-accent"
+                          />
+                          <datalist id="verifier-models">
+                            {providerRegistry.get(verification.model.provider).models.map((m) => (
+                              <option key={m.id} value={m.id}>
+                                {m.name}
+                              </option>
+                            ))}
+                          </datalist>
+                        </div>
+                      )}
+                    </div>
+                  </>
                 )}
               </div>
             </CardContent>
@@ -453,13 +689,13 @@ export default function SettingsPage() {
           {/* Preferences */}
           <Card>
             <CardContent className="pt-6">
-              <CardTitle className="mb-4">Préférences</CardTitle>
+              <CardTitle className="mb-4">{t("settings.preferences")}</CardTitle>
               <div className="space-y-4">
                 <div className="flex items-center justify-between">
                   <div>
-                    <p className="font-medium">Notifications</p>
+                    <p className="font-medium">{t("settings.notifications")}</p>
                     <p className="text-sm text-ink-muted">
-                      Recevoir une notification quand la génération est terminée
+                      {t("settings.notificationsHint")}
                     </p>
                   </div>
                   <button
@@ -478,7 +714,7 @@ export default function SettingsPage() {
 
                 <div>
                   <label className="font-medium block mb-2">
-                    Questions hors ligne par domaine
+                    {t("settings.offlineQuestions")}
                   </label>
                   <input
                     type="number"
@@ -494,16 +730,190 @@ export default function SettingsPage() {
                 </div>
 
                 <div className="pt-4 border-t border-paper-dark">
-                  <BatchSizeSlider value={batchSize} onChange={setBatchSize} />
+                  <BatchSizeSlider
+                    value={batchSize}
+                    onChange={setBatchSize}
+                    label={adaptiveBatch.enabled ? t("settings.adaptiveBatch.start") : undefined}
+                  />
+                </div>
+
+                <div className="pt-4 border-t border-paper-dark space-y-4">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="font-medium">{t("settings.adaptiveBatch")}</p>
+                      <p className="text-sm text-ink-muted">
+                        {t("settings.adaptiveBatch.hint")}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() =>
+                        setAdaptiveBatch({ ...adaptiveBatch, enabled: !adaptiveBatch.enabled })
+                      }
+                      className={`w-12 h-6 rounded-full transition-colors flex-shrink-0 ${
+                        adaptiveBatch.enabled ? "bg-accent" : "bg-paper-dark"
+                      }`}
+                      aria-pressed={adaptiveBatch.enabled}
+                    >
+                      <div
+                        className={`w-5 h-5 bg-white rounded-full transition-transform ${
+                          adaptiveBatch.enabled ? "translate-x-6" : "translate-x-0.5"
+                        }`}
+                      />
+                    </button>
+                  </div>
+
+                  {adaptiveBatch.enabled && (
+                    <>
+                      <BatchSizeSlider
+                        value={adaptiveBatch.min}
+                        onChange={(min) =>
+                          setAdaptiveBatch({
+                            ...adaptiveBatch,
+                            min,
+                            max: Math.max(adaptiveBatch.max, min),
+                          })
+                        }
+                        min={BATCH_SIZE_LIMITS.min}
+                        max={BATCH_SIZE_LIMITS.max}
+                        label={t("settings.adaptiveBatch.min")}
+                        description={t("settings.adaptiveBatch.minHint")}
+                      />
+                      <BatchSizeSlider
+                        value={adaptiveBatch.max}
+                        onChange={(max) =>
+                          setAdaptiveBatch({
+                            ...adaptiveBatch,
+                            max,
+                            min: Math.min(adaptiveBatch.min, max),
+                          })
+                        }
+                        min={BATCH_SIZE_LIMITS.min}
+                        max={BATCH_SIZE_LIMITS.max}
+                        label={t("settings.adaptiveBatch.max")}
+                        description={t("settings.adaptiveBatch.maxHint")}
+                      />
+                      <Button variant="secondary" size="sm" onClick={handleResetBatchSizes}>
+                        <RefreshCw className="w-4 h-4 mr-2" />
+                        {t("settings.adaptiveBatch.reset")}
+                      </Button>
+                    </>
+                  )}
+                </div>
+
+                <div className="pt-4 border-t border-paper-dark">
+                  <BatchSizeSlider
+                    value={batchConcurrency}
+                    onChange={setBatchConcurrency}
+                    min={1}
+                    max={4}
+                    label={t("settings.concurrency")}
+                    description={
+                      <>
+                        {t("settings.concurrencyHint")}
+                        <br />
+                        <span className="text-ink-secondary">•</span> {t("settings.concurrencyFree")}
+                        <br />
+                        <span className="text-ink-secondary">•</span> {t("settings.concurrencyPaid")}
+                      </>
+                    }
+                  />
+                </div>
+
+                <div className="pt-4 border-t border-paper-dark">
+                  <p className="font-medium mb-1">
+                    {t("settings.scoring")}
+                  </p>
+                  <p className="text-sm text-ink-muted mb-3">
+                    {t("settings.scoringHint")}
+                  </p>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    {SCORING_MODES.map((mode) => (
+                      <label
+                        key={mode.id}
+                        className={`p-3 rounded border cursor-pointer transition-all ${
+                          scoringMode === mode.id
+                            ? "border-accent bg-accent/10"
+                            : "border-paper-dark hover:border-accent/50"
+                        }`}
+                      >
+                        <input
+                          type="radio"
+                          name="scoringMode"
+                          value={mode.id}
+                          checked={scoringMode === mode.id}
+                          onChange={() => setScoringMode(mode.id)}
+                          className="sr-only"
+                        />
+                        <div className="font-mono text-sm">{t(mode.label)}</div>
+                        <div className="text-xs text-ink-muted">
+                          {t(mode.description)}
+                        </div>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="pt-4 border-t border-paper-dark">
+                  <p className="font-medium mb-1">{t("settings.formats")}</p>
+                  <p className="text-sm text-ink-muted mb-3">
+                    {t("settings.formatsHint")}
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {EXTRA_QUESTION_FORMATS.map((format) => {
+                      const enabled = questionFormats.includes(format);
+                      return (
+                        <button
+                          key={format}
+                          onClick={() =>
+                            setQuestionFormats(
+                              enabled
+                                ? questionFormats.filter((f) => f !== format)
+                                : [...questionFormats, format]
+                            )
+                          }
+                          aria-pressed={enabled}
+                          className={`px-3 py-1.5 rounded border font-mono text-sm transition-all ${
+                            enabled
+                              ? "border-accent bg-accent/10 text-accent"
+                              : "border-paper-dark text-ink-secondary hover:border-accent"
+                          }`}
+                        >
+                          {t(`format.${format}`)}
+                        </button>
+                      );
+                    })}
+                  </div>
                 </div>
               </div>
             </CardContent>
           </Card>
 
+          {/* Custom Domains */}
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center gap-3 mb-4">
+                <Shapes className="w-5 h-5 text-accent" />
+                <CardTitle>{t("settings.customDomains")}</CardTitle>
+              </div>
+              <CustomDomainManager />
+            </CardContent>
+          </Card>
+
+          {/* API Usage */}
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center gap-3 mb-4">
+                <Activity className="w-5 h-5 text-accent" />
+                <CardTitle>{t("settings.usage")}</CardTitle>
+              </div>
+              <UsageReport />
+            </CardContent>
+          </Card>
+
           {/* Data Management */}
           <Card>
             <CardContent className="pt-6">
-              <CardTitle className="mb-4">Gestion des Données</CardTitle>
+              <CardTitle className="mb-4">{t("settings.data")}</CardTitle>
               <div className="space-y-3">
                 <div className="flex gap-3">
                   <Button
@@ -512,7 +922,7 @@ export default function SettingsPage() {
                     onClick={handleExport}
                   >
                     <Download className="w-4 h-4 mr-2" />
-                    Exporter
+                    {t("settings.export")}
                   </Button>
                   <Button
                     variant="secondary"
@@ -520,7 +930,7 @@ export default function SettingsPage() {
                     onClick={handleImport}
                   >
                     <Upload className="w-4 h-4 mr-2" />
-                    Importer
+                    {t("settings.import")}
                   </Button>
                 </div>
                 <Button
@@ -529,7 +939,7 @@ export default function SettingsPage() {
                   onClick={handleClearData}
                 >
                   <Trash2 className="w-4 h-4 mr-2" />
-                  Supprimer Toutes les Données
+                  {t("settings.clearAll")}
                 </Button>
               </div>
             </CardContent>
@@ -542,13 +952,16 @@ export default function SettingsPage() {
             onClick={handleSave}
             loading={isSaving}
           >
-            Sauvegarder les Paramètres
+            {t("settings.save")}
           </Button>
 
-          {/* Version Info */}
-          <div className="text-center font-mono text-xs text-ink-muted">
+          {/* Version Info (links to the hidden diagnostics page) */}
+          <Link
+            href="/diagnostics"
+            className="block text-center font-mono text-xs text-ink-muted"
+          >
             Review IABD v2.0.4
-          </div>
+          </Link>
         </div>
       </main>
     </div>
@@ -1,19 +1,44 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useState, useSyncExternalStore } from "react";
+import Link from "next/link";
+import { AlertTriangle, X } from "lucide-react";
+import { Language } from "@/types";
+import {
+  DEFAULT_LANGUAGE,
+  getLanguage,
+  isLanguage,
+  setLanguage,
+  subscribeLanguage,
+  t,
+  tn,
+} from "@/lib/i18n";
 import { indexedDBService } from "@/services/IndexedDBService";
 import { preloadedQuestionsService } from "@/services/PreloadedQuestionsService";
 import { storageService } from "@/services/StorageService";
 import { statisticsService } from "@/services/StatisticsService";
+import { providerRegistry } from "@/services/ProviderRegistry";
+import { MissingModel, modelCatalogService } from "@/services/ModelCatalogService";
 
 // ============================================
 // APP PROVIDER
 // Initializes services and manages global state
 // ============================================
 
+/**
+ * Current UI language and the message lookup.
+ * Components calling it re-render when the language changes.
+ */
+export function useTranslation(): { language: Language; t: typeof t; tn: typeof tn } {
+  const language = useSyncExternalStore(subscribeLanguage, getLanguage, () => DEFAULT_LANGUAGE);
+  return { language, t, tn };
+}
+
 export function AppProvider({ children }: { children: React.ReactNode }) {
   const [isInitialized, setIsInitialized] = useState(false);
   const [initError, setInitError] = useState<string | null>(null);
+  const [missingModel, setMissingModel] = useState<MissingModel | null>(null);
+  const { t } = useTranslation();
 
   useEffect(() => {
     const initializeServices = async () => {
@@ -30,6 +55,10 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
         await storageService.init();
         console.log('[AppProvider] StorageService initialized successfully');
 
+        // Apply the saved UI language before the first render
+        const { language } = await storageService.getSettings();
+        if (isLanguage(language)) setLanguage(language);
+
         // Initialize StatisticsService
         console.log('[AppProvider] Initializing StatisticsService...');
         await statisticsService.init();
@@ -43,7 +72,10 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
         // Log current data for debugging
         const settings = await storageService.getSettings();
         console.log('[AppProvider] Current settings:', {
-          hasApiKey: !!settings.apiKey,
+          hasCredentials: providerRegistry.isConfigured(
+            settings.provider,
+            settings.credentials?.[settings.provider],
+          ),
           model: settings.model,
           onboardingCompleted: settings.onboardingCompleted,
         });
@@ -59,6 +91,12 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
 
         setIsInitialized(true);
         console.log('[AppProvider] All services initialized successfully');
+
+        // Check the configured model against the provider catalog (network, not awaited)
+        modelCatalogService
+          .checkConfiguredModel()
+          .then(setMissingModel)
+          .catch((error) => console.warn('[AppProvider] Model check failed:', error));
       } catch (error) {
         console.error('[AppProvider] Failed to initialize services:', error);
         setInitError(error instanceof Error ? error.message : 'Unknown error');
@@ -81,7 +119,7 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
           >
             Review IABD
           </h1>
-          <p className="text-sm text-ink-muted font-mono">Chargement...</p>
+          <p className="text-sm text-ink-muted font-mono">{t("common.loading")}</p>
         </div>
         <div className="w-48 h-1 rounded-full bg-(--paper-primary) border border-(--ink-muted)/20 overflow-hidden">
           <div className="loading-bar h-full rounded-full bg-(--accent-vivid)" />
@@ -95,5 +133,43 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
     console.warn('[AppProvider] Services failed to initialize, app may have limited functionality:', initError);
   }
 
-  return <>{children}</>;
+  return (
+    <>
+      {children}
+      {missingModel && (
+        <div className="fixed top-4 left-4 right-4 sm:left-auto sm:right-4 sm:w-96 z-100 animate-fade-in-up">
+          <div className="bg-paper-secondary border border-domain-ml rounded-lg shadow-lg p-4">
+            <div className="flex items-start gap-3">
+              <AlertTriangle className="w-5 h-5 text-domain-ml shrink-0" />
+              <div className="flex-1 min-w-0">
+                <h3 className="font-mono font-semibold text-sm text-domain-ml mb-1">
+                  {t("catalog.missing.title")}
+                </h3>
+                <p className="text-xs text-ink-secondary break-words">
+                  {t("catalog.missing.hint", {
+                    provider: t(providerRegistry.get(missingModel.provider).label),
+                    model: missingModel.model,
+                  })}
+                </p>
+                <Link
+                  href="/settings"
+                  onClick={() => setMissingModel(null)}
+                  className="inline-block mt-2 text-xs text-accent hover:underline"
+                >
+                  {t("catalog.missing.open")}
+                </Link>
+              </div>
+              <button
+                onClick={() => setMissingModel(null)}
+                className="shrink-0 p-1 rounded hover:bg-paper-dark transition-colors"
+                aria-label={t("update.close")}
+              >
+                <X className="w-4 h-4 text-ink-muted" />
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
 }
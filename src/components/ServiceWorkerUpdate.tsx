@@ -2,6 +2,7 @@
 
 import { useEffect, useState } from "react";
 import { Download, X } from "lucide-react";
+import { useTranslation } from "@/components/AppProvider";
 
 /**
  * ServiceWorkerUpdate Component
@@ -10,6 +11,7 @@ import { Download, X } from "lucide-react";
  * The user can click to refresh and get the latest version.
  */
 export function ServiceWorkerUpdate() {
+  const { t } = useTranslation();
   const [showUpdate, setShowUpdate] = useState(false);
 
   useEffect(() => {
@@ -96,16 +98,16 @@ export function ServiceWorkerUpdate() {
           </div>
           <div className="flex-1 min-w-0">
             <h3 className="font-mono font-semibold text-sm text-accent mb-1">
-              Mise à jour disponible
+              {t("update.available")}
             </h3>
             <p className="text-xs text-ink-secondary">
-              Une nouvelle version de l&apos;application est disponible. Cliquez pour mettre à jour.
+              {t("update.hint")}
             </p>
           </div>
           <button
             onClick={handleDismiss}
             className="shrink-0 p-1 rounded hover:bg-paper-dark transition-colors"
-            aria-label="Fermer"
+            aria-label={t("update.close")}
           >
             <X className="w-4 h-4 text-ink-muted" />
           </button>
@@ -114,7 +116,7 @@ export function ServiceWorkerUpdate() {
           onClick={handleRefresh}
           className="mt-3 w-full btn btn-primary btn-sm"
         >
-          Mettre à jour maintenant
+          {t("update.now")}
         </button>
       </div>
     </div>
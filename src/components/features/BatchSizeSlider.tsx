@@ -1,6 +1,8 @@
 "use client";
 
+import type { ReactNode } from "react";
 import { cn } from "@/lib/utils";
+import { useTranslation } from "@/components/AppProvider";
 
 // ============================================
 // BATCH SIZE SLIDER COMPONENT
@@ -15,6 +17,7 @@ interface BatchSizeSliderProps {
   step?: number;
   className?: string;
   label?: string;
+  description?: ReactNode;
 }
 
 export function BatchSizeSlider({
@@ -24,12 +27,14 @@ export function BatchSizeSlider({
   max = 20,
   step = 1,
   className,
-  label = "Questions par Batch (API)",
+  label,
+  description,
 }: BatchSizeSliderProps) {
+  const { t } = useTranslation();
   return (
     <div className={cn("", className)}>
       <label className="font-mono text-xs text-ink-muted uppercase mb-2 block">
-        {label}
+        {label ?? t("batchSize.label")}
       </label>
       <div className="flex items-center gap-4">
         <input
@@ -66,11 +71,15 @@ export function BatchSizeSlider({
         <span className="font-mono text-xs text-ink-muted">{max}</span>
       </div>
       <p className="text-xs text-ink-muted mt-3">
-        Nombre de questions générées par appel API.
-        <br />
-        <span className="text-ink-secondary">•</span> Providers gratuits : 5-10 recommandé
-        <br />
-        <span className="text-ink-secondary">•</span> Providers payants : 10-20 possible
+        {description ?? (
+          <>
+            {t("batchSize.description")}
+            <br />
+            <span className="text-ink-secondary">•</span> {t("batchSize.free")}
+            <br />
+            <span className="text-ink-secondary">•</span> {t("batchSize.paid")}
+          </>
+        )}
       </p>
     </div>
   );
@@ -0,0 +1,242 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { CustomDomain } from "@/types";
+import { domainService } from "@/services/DomainService";
+import { CUSTOM_DOMAIN_COLORS } from "@/lib/customDomains";
+import { Button } from "@/components/ui/Button";
+import { DomainBadge, useCustomDomains } from "./DomainSelector";
+import { FileJson, Pencil, Plus, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useTranslation } from "@/components/AppProvider";
+
+// ============================================
+// CUSTOM DOMAIN MANAGER COMPONENT
+// Create, edit and delete user-defined domains
+// (label, color, syllabus prompt, question pack)
+// ============================================
+
+interface DomainForm {
+  id?: CustomDomain["id"]; // Set when editing
+  label: string;
+  color: string;
+  prompt: string;
+  packName?: string;
+  packContents?: string;
+}
+
+const EMPTY_FORM: DomainForm = {
+  label: "",
+  color: CUSTOM_DOMAIN_COLORS[0],
+  prompt: "",
+};
+
+interface CustomDomainManagerProps {
+  className?: string;
+}
+
+export function CustomDomainManager({ className }: CustomDomainManagerProps) {
+  const customDomains = useCustomDomains();
+  const packInputRef = useRef<HTMLInputElement>(null);
+  const [form, setForm] = useState<DomainForm | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+  const { t } = useTranslation();
+
+  const openForm = (domain?: CustomDomain) => {
+    setError("");
+    setForm(
+      domain
+        ? { id: domain.id, label: domain.label, color: domain.color, prompt: domain.prompt }
+        : { ...EMPTY_FORM }
+    );
+  };
+
+  const handlePackSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !form) return;
+    setForm({ ...form, packName: file.name, packContents: await file.text() });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    setIsSaving(true);
+    setError("");
+    try {
+      const input = {
+        label: form.label,
+        color: form.color,
+        prompt: form.prompt,
+        questionPack: form.packContents,
+      };
+      if (form.id) {
+        await domainService.update(form.id, input);
+      } else {
+        await domainService.create(input);
+      }
+      setForm(null);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (domain: CustomDomain) => {
+    if (
+      !confirm(
+        t("customDomains.deleteConfirm", { label: domain.label })
+      )
+    ) {
+      return;
+    }
+    await domainService.delete(domain.id);
+    if (form?.id === domain.id) setForm(null);
+  };
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      {customDomains.length === 0 && !form && (
+        <p className="text-sm text-ink-secondary">
+          {t("customDomains.empty")}
+        </p>
+      )}
+
+      {customDomains.map((domain) => (
+        <div
+          key={domain.id}
+          className="flex items-start justify-between gap-3 p-3 border border-paper-dark rounded"
+        >
+          <div className="min-w-0">
+            <div className="flex items-center gap-2">
+              <DomainBadge domain={domain.id} />
+              <span className="font-mono text-sm font-medium truncate">{domain.label}</span>
+            </div>
+            {domain.prompt && (
+              <p className="text-xs text-ink-muted mt-2 line-clamp-2">{domain.prompt}</p>
+            )}
+            {!!domain.questionCount && (
+              <p className="font-mono text-xs text-ink-muted mt-1">
+                {t("customDomains.offlineCount", { count: domain.questionCount })}
+              </p>
+            )}
+          </div>
+          <div className="flex gap-1 shrink-0">
+            <button
+              onClick={() => openForm(domain)}
+              className="p-2 text-ink-muted hover:text-accent"
+              aria-label={t("customDomains.edit", { label: domain.label })}
+            >
+              <Pencil className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => handleDelete(domain)}
+              className="p-2 text-ink-muted hover:text-domain-ml"
+              aria-label={t("customDomains.delete", { label: domain.label })}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {form ? (
+        <div className="p-4 border border-accent/50 rounded space-y-4">
+          <div>
+            <label className="font-mono text-xs text-ink-muted uppercase mb-2 block">
+              {t("customDomains.name")}
+            </label>
+            <input
+              type="text"
+              value={form.label}
+              onChange={(e) => setForm({ ...form, label: e.target.value })}
+              placeholder={t("customDomains.namePlaceholder")}
+              className="w-full px-4 py-2 bg-paper-secondary border border-paper-dark rounded font-mono text-sm focus:outline-none focus:border-accent"
+            />
+          </div>
+
+          <div>
+            <label className="font-mono text-xs text-ink-muted uppercase mb-2 block">
+              {t("customDomains.color")}
+            </label>
+            <div className="flex items-center gap-2">
+              {CUSTOM_DOMAIN_COLORS.map((color) => (
+                <button
+                  key={color}
+                  onClick={() => setForm({ ...form, color })}
+                  className={cn(
+                    "w-7 h-7 rounded-full border-2",
+                    form.color === color ? "border-ink-primary" : "border-transparent"
+                  )}
+                  style={{ backgroundColor: color }}
+                  aria-label={color}
+                />
+              ))}
+              <input
+                type="color"
+                value={form.color}
+                onChange={(e) => setForm({ ...form, color: e.target.value })}
+                className="w-9 h-7 bg-transparent cursor-pointer"
+                aria-label={t("customDomains.otherColor")}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="font-mono text-xs text-ink-muted uppercase mb-2 block">
+              {t("customDomains.syllabus")}
+            </label>
+            <textarea
+              value={form.prompt}
+              onChange={(e) => setForm({ ...form, prompt: e.target.value })}
+              rows={3}
+              placeholder={t("customDomains.syllabusPlaceholder")}
+              className="w-full px-4 py-2 bg-paper-secondary border border-paper-dark rounded font-mono text-sm focus:outline-none focus:border-accent"
+            />
+          </div>
+
+          <div>
+            <input
+              ref={packInputRef}
+              type="file"
+              accept=".json,application/json"
+              onChange={handlePackSelect}
+              className="hidden"
+            />
+            <Button variant="secondary" size="sm" onClick={() => packInputRef.current?.click()}>
+              <FileJson className="w-4 h-4 mr-2" />
+              {form.packName || t("customDomains.pack")}
+            </Button>
+            <p className="text-xs text-ink-muted mt-2">
+              {t(form.id ? "customDomains.packHelpReplace" : "customDomains.packHelp")}
+            </p>
+          </div>
+
+          {error && <p className="text-sm text-domain-ml">{error}</p>}
+
+          <div className="flex gap-2">
+            <Button
+              variant="primary"
+              size="sm"
+              onClick={handleSave}
+              loading={isSaving}
+              disabled={isSaving || !form.label.trim()}
+            >
+              {form.id ? t("common.save") : t("customDomains.create")}
+            </Button>
+            <Button variant="secondary" size="sm" onClick={() => setForm(null)} disabled={isSaving}>
+              {t("common.cancel")}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button variant="secondary" size="sm" onClick={() => openForm()}>
+          <Plus className="w-4 h-4 mr-2" />
+          {t("customDomains.add")}
+        </Button>
+      )}
+    </div>
+  );
+}
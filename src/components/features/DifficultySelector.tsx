@@ -0,0 +1,90 @@
+"use client";
+
+import { DifficultyMix, DifficultySetting } from "@/types";
+import { DIFFICULTIES, DEFAULT_DIFFICULTY_MIX } from "@/lib/difficulty";
+import { cn } from "@/lib/utils";
+import { useTranslation } from "@/components/AppProvider";
+
+// ============================================
+// DIFFICULTY SELECTOR COMPONENT
+// Single difficulty level or mixed ratio
+// (easy / medium / hard percentages)
+// ============================================
+
+const OPTIONS: DifficultySetting[] = [...DIFFICULTIES, "mixed"];
+
+interface DifficultySelectorProps {
+  value: DifficultySetting;
+  onChange: (value: DifficultySetting) => void;
+  mix?: DifficultyMix;
+  onMixChange?: (mix: DifficultyMix) => void;
+  className?: string;
+  label?: string;
+}
+
+export function DifficultySelector({
+  value,
+  onChange,
+  mix = DEFAULT_DIFFICULTY_MIX,
+  onMixChange,
+  className,
+  label,
+}: DifficultySelectorProps) {
+  const { t } = useTranslation();
+  const total = DIFFICULTIES.reduce((sum, d) => sum + mix[d], 0);
+
+  return (
+    <div className={cn("", className)}>
+      <label className="font-mono text-xs text-ink-muted uppercase mb-2 block">
+        {label ?? t("difficulty.label")}
+      </label>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        {OPTIONS.map((option) => (
+          <button
+            key={option}
+            onClick={() => onChange(option)}
+            aria-pressed={value === option}
+            className={cn(
+              "px-3 py-2 rounded border font-mono text-xs uppercase transition-colors",
+              value === option
+                ? "border-accent bg-accent/10 text-accent"
+                : "border-paper-dark text-ink-secondary hover:border-accent hover:text-accent"
+            )}
+          >
+            {t(`difficulty.${option}`)}
+          </button>
+        ))}
+      </div>
+
+      {/* Ratio (mixed only) */}
+      {value === "mixed" && onMixChange && (
+        <div className="mt-4 space-y-3">
+          {DIFFICULTIES.map((d) => (
+            <div key={d} className="flex items-center gap-4">
+              <span className="font-mono text-xs text-ink-secondary w-20">
+                {t(`difficulty.${d}`)}
+              </span>
+              <input
+                type="range"
+                min={0}
+                max={100}
+                step={10}
+                value={mix[d]}
+                onChange={(e) => onMixChange({ ...mix, [d]: parseInt(e.target.value) })}
+                className="flex-1 h-2 bg-paper-secondary rounded-lg appearance-none cursor-pointer accent-accent"
+              />
+              <span className="font-mono font-bold text-sm w-12 text-right">
+                {total > 0 ? Math.round((mix[d] / total) * 100) : 0}%
+              </span>
+            </div>
+          ))}
+          {total === 0 && (
+            <p className="font-mono text-xs text-domain-ml">
+              {t("difficulty.pickOne")}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
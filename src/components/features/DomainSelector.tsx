@@ -1,14 +1,37 @@
 "use client";
 
-import { Domain, DOMAIN_LABELS } from "@/types";
-import { getDomainColor, getDomainShortLabel } from "@/lib/utils";
+import { useEffect, useSyncExternalStore } from "react";
+import { CustomDomain, Domain } from "@/types";
+import { getDomainColor, getDomainLabel, getDomainShortLabel } from "@/lib/utils";
 import { cn } from "@/lib/utils";
+import { getCustomDomains, subscribeCustomDomains } from "@/lib/customDomains";
+import { domainService } from "@/services/DomainService";
 
 // ============================================
 // DOMAIN SELECTOR COMPONENT
 // Dropdown or grid selection for IABD domains
+// and the user's custom domains
 // ============================================
 
+const NO_CUSTOM_DOMAINS: CustomDomain[] = [];
+
+/**
+ * Custom domains, loaded on first use and kept in sync with edits
+ */
+export function useCustomDomains(): CustomDomain[] {
+  useEffect(() => {
+    domainService.init().catch((error) => {
+      console.error("[Domains] Failed to load custom domains:", error);
+    });
+  }, []);
+
+  return useSyncExternalStore(
+    subscribeCustomDomains,
+    getCustomDomains,
+    () => NO_CUSTOM_DOMAINS
+  );
+}
+
 interface DomainSelectorProps {
   value: Domain;
   onChange: (domain: Domain) => void;
@@ -24,7 +47,11 @@ export function DomainSelector({
   variant = "dropdown",
   excludeDomains = [],
 }: DomainSelectorProps) {
-  const domains = Object.values(Domain).filter((d) => !excludeDomains.includes(d));
+  const customDomains = useCustomDomains();
+  const domains = [
+    ...Object.values(Domain),
+    ...customDomains.map((d) => d.id),
+  ].filter((d) => !excludeDomains.includes(d));
 
   if (variant === "grid") {
     return (
@@ -56,7 +83,7 @@ export function DomainSelector({
                 {shortLabel}
               </div>
               <span className="font-mono text-xs uppercase text-ink-secondary">
-                {DOMAIN_LABELS[domain].split(" ")[0]}
+                {getDomainLabel(domain).split(" ")[0]}
               </span>
             </button>
           );
@@ -77,7 +104,7 @@ export function DomainSelector({
       >
         {domains.map((domain) => (
           <option key={domain} value={domain}>
-            {DOMAIN_LABELS[domain]}
+            {getDomainLabel(domain)}
           </option>
         ))}
       </select>
@@ -91,6 +118,7 @@ interface DomainBadgeProps {
 }
 
 export function DomainBadge({ domain, className }: DomainBadgeProps) {
+  useCustomDomains(); // Re-render once custom labels and colors are loaded
   const color = getDomainColor(domain);
   const shortLabel = getDomainShortLabel(domain);
 
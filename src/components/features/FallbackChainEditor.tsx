@@ -0,0 +1,120 @@
+"use client";
+
+import { ModelChoice } from "@/types";
+import { providerRegistry } from "@/services/ProviderRegistry";
+import { ArrowDown, ArrowUp, Plus, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useTranslation } from "@/components/AppProvider";
+
+// ============================================
+// FALLBACK CHAIN EDITOR COMPONENT
+// Ordered list of provider/model pairs tried when
+// the selected model is rate-limited or down
+// ============================================
+
+interface FallbackChainEditorProps {
+  value: ModelChoice[];
+  onChange: (value: ModelChoice[]) => void;
+  className?: string;
+}
+
+export function FallbackChainEditor({
+  value,
+  onChange,
+  className,
+}: FallbackChainEditorProps) {
+  const providers = providerRegistry.getAll();
+  const { t } = useTranslation();
+
+  const updateEntry = (index: number, entry: ModelChoice) => {
+    onChange(value.map((e, i) => (i === index ? entry : e)));
+  };
+
+  const moveEntry = (index: number, offset: number) => {
+    const next = [...value];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  const addEntry = () => {
+    const provider = providers[0];
+    onChange([...value, { provider: provider.id, model: provider.defaultModel }]);
+  };
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      {value.map((entry, index) => {
+        const definition = providerRegistry.get(entry.provider);
+        const listId = `fallback-models-${index}`;
+
+        return (
+          <div key={index} className="flex items-center gap-2">
+            <span className="font-mono text-xs text-ink-muted w-6">{index + 1}.</span>
+            <select
+              value={entry.provider}
+              onChange={(e) =>
+                updateEntry(index, {
+                  provider: e.target.value,
+                  model: providerRegistry.get(e.target.value).defaultModel,
+                })
+              }
+              className="px-2 py-2 bg-paper-secondary border border-paper-dark rounded font-mono text-xs text-ink-primary focus:outline-none focus:border-accent"
+            >
+              {providers.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {t(p.label)}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              list={listId}
+              value={entry.model}
+              onChange={(e) => updateEntry(index, { ...entry, model: e.target.value })}
+              placeholder={t(definition.customModelPlaceholder)}
+              className="flex-1 min-w-0 px-3 py-2 bg-paper-secondary border border-paper-dark rounded font-mono text-xs text-ink-primary placeholder:text-ink-muted focus:outline-none focus:border-accent"
+            />
+            <datalist id={listId}>
+              {definition.models.map((m) => (
+                <option key={m.id} value={m.id}>
+                  {m.name}
+                </option>
+              ))}
+            </datalist>
+            <button
+              onClick={() => moveEntry(index, -1)}
+              disabled={index === 0}
+              className="p-1 text-ink-muted hover:text-accent disabled:opacity-30"
+              aria-label={t("formats.moveUp")}
+            >
+              <ArrowUp className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => moveEntry(index, 1)}
+              disabled={index === value.length - 1}
+              className="p-1 text-ink-muted hover:text-accent disabled:opacity-30"
+              aria-label={t("formats.moveDown")}
+            >
+              <ArrowDown className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => onChange(value.filter((_, i) => i !== index))}
+              className="p-1 text-ink-muted hover:text-domain-ml"
+              aria-label={t("fallback.remove")}
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        );
+      })}
+
+      <button
+        onClick={addEntry}
+        className="w-full p-2 rounded border border-dashed border-paper-dark font-mono text-xs text-ink-secondary hover:border-accent hover:text-accent flex items-center justify-center gap-2"
+      >
+        <Plus className="w-4 h-4" />
+        {t("fallback.add")}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { RefreshCw, Search } from "lucide-react";
+import { AIProvider, ModelCatalog, ProviderCredentials } from "@/types";
+import { modelCatalogService } from "@/services/ModelCatalogService";
+import { providerRegistry } from "@/services/ProviderRegistry";
+import {
+  CONTEXT_LENGTH_FILTERS,
+  DEFAULT_CATALOG_FILTER,
+  filterCatalogModels,
+  formatContextLength,
+  isCatalogStale,
+} from "@/lib/modelCatalog";
+import { cn, formatDate } from "@/lib/utils";
+import { Button } from "@/components/ui/Button";
+import { useTranslation } from "@/components/AppProvider";
+
+// ============================================
+// MODEL CATALOG PICKER COMPONENT
+// Searchable list of the models a provider offers,
+// from the catalog cached in IndexedDB
+// ============================================
+
+// Rows rendered at once (catalogs hold hundreds of models)
+const MAX_VISIBLE_MODELS = 50;
+
+interface ModelCatalogPickerProps {
+  provider: AIProvider;
+  credentials: ProviderCredentials;
+  selectedModel: string;
+  onSelect: (model: string) => void;
+  className?: string;
+}
+
+export function ModelCatalogPicker({
+  provider,
+  credentials,
+  selectedModel,
+  onSelect,
+  className,
+}: ModelCatalogPickerProps) {
+  const [catalog, setCatalog] = useState<ModelCatalog>();
+  const [filter, setFilter] = useState(DEFAULT_CATALOG_FILTER);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [fetchError, setFetchError] = useState(false);
+  const { t } = useTranslation();
+
+  useEffect(() => {
+    modelCatalogService.getCached(provider).then(setCatalog);
+  }, [provider]);
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    setFetchError(false);
+    try {
+      setCatalog(await modelCatalogService.refresh(provider, credentials));
+    } catch (error) {
+      console.error("[ModelCatalog] Failed to refresh catalog:", error);
+      setFetchError(true);
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  const matches = catalog ? filterCatalogModels(catalog.models, filter) : [];
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="flex items-center justify-between gap-2">
+        <p className="font-mono text-xs text-ink-muted uppercase">
+          {t("catalog.title", { provider: t(providerRegistry.get(provider).label) })}
+        </p>
+        <Button variant="secondary" size="sm" onClick={handleRefresh} loading={isRefreshing}>
+          <RefreshCw className="w-4 h-4 mr-2" />
+          {t("catalog.refresh")}
+        </Button>
+      </div>
+      <p
+        className={cn(
+          "text-xs",
+          catalog && isCatalogStale(catalog) ? "text-domain-ml" : "text-ink-muted"
+        )}
+      >
+        {catalog
+          ? t("catalog.updatedAt", { date: formatDate(new Date(catalog.fetchedAt)) })
+          : t("catalog.empty")}
+      </p>
+      {fetchError && <p className="text-xs text-domain-ml">{t("catalog.fetchError")}</p>}
+
+      {catalog && (
+        <>
+          <div className="relative">
+            <Search className="w-4 h-4 text-ink-muted absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="search"
+              value={filter.query}
+              onChange={(e) => setFilter({ ...filter, query: e.target.value })}
+              placeholder={t("catalog.search")}
+              className="w-full pl-9 pr-4 py-2 bg-paper-secondary border border-paper-dark rounded font-mono text-sm text-ink-primary placeholder:text-ink-muted focus:outline-none focus:border-accent"
+            />
+          </div>
+          <div className="flex flex-wrap items-center gap-4 text-xs">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={filter.freeOnly}
+                onChange={(e) => setFilter({ ...filter, freeOnly: e.target.checked })}
+                className="accent-accent"
+              />
+              {t("catalog.freeOnly")}
+            </label>
+            <label className="flex items-center gap-2">
+              {t("catalog.minContext")}
+              <select
+                value={filter.minContextLength}
+                onChange={(e) => setFilter({ ...filter, minContextLength: Number(e.target.value) })}
+                className="px-2 py-1 bg-paper-secondary border border-paper-dark rounded font-mono text-xs"
+              >
+                {CONTEXT_LENGTH_FILTERS.map((tokens) => (
+                  <option key={tokens} value={tokens}>
+                    {tokens ? formatContextLength(tokens) : t("catalog.anyContext")}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="max-h-80 overflow-y-auto space-y-1">
+            {matches.slice(0, MAX_VISIBLE_MODELS).map((model) => (
+              <button
+                key={model.id}
+                onClick={() => onSelect(model.id)}
+                className={cn(
+                  "w-full p-2 rounded border text-left transition-all flex items-center justify-between gap-2",
+                  selectedModel === model.id
+                    ? "border-accent bg-accent/10"
+                    : "border-paper-dark hover:border-accent/50"
+                )}
+              >
+                <span className="min-w-0">
+                  <span className="block text-sm truncate">{model.name}</span>
+                  <span className="block font-mono text-xs text-ink-muted truncate">{model.id}</span>
+                </span>
+                <span className="flex items-center gap-2 shrink-0">
+                  {model.contextLength && (
+                    <span className="font-mono text-xs text-ink-muted">
+                      {t("catalog.context", { size: formatContextLength(model.contextLength) })}
+                    </span>
+                  )}
+                  {model.free && (
+                    <span className="text-xs px-2 py-1 bg-green-500/10 text-green-500 rounded">
+                      {t("settings.free")}
+                    </span>
+                  )}
+                  {selectedModel === model.id && <span className="text-accent text-sm">✓</span>}
+                </span>
+              </button>
+            ))}
+          </div>
+          {matches.length === 0 && (
+            <p className="text-center text-ink-muted text-sm py-2">{t("catalog.noMatch")}</p>
+          )}
+          {matches.length > MAX_VISIBLE_MODELS && (
+            <p className="text-center text-ink-muted text-xs">
+              {t("catalog.more", { count: matches.length - MAX_VISIBLE_MODELS })}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
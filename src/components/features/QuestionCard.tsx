@@ -1,38 +1,77 @@
 "use client";
 
-import { Question, Answer, Domain } from "@/types";
+import { Question, Answer, AnswerGrade, Domain, QuestionType, TutorMessage } from "@/types";
 import { getDomainColor } from "@/lib/utils";
 import { DomainBadge } from "./DomainSelector";
-import { Star } from "lucide-react";
+import { TutorChat } from "./TutorChat";
+import {
+  BlankStatement,
+  OpenAnswerInput,
+  OrderingList,
+  TypedAnswerInput,
+} from "./QuestionFormatRenderers";
+import { AlertTriangle, Check, Star } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { isAnswerCorrect, isChoiceQuestion, isMultipleChoice } from "@/lib/scoring";
+import { useTranslation } from "@/components/AppProvider";
 
 // ============================================
 // QUESTION CARD COMPONENT
 // Display a single question with answers
+// (radio-style for single choice, checkboxes for multiple choice,
+// dedicated renderers for typed and ordering answers)
 // ============================================
 
 interface QuestionCardProps {
   question: Question;
-  selectedAnswerId?: string;
-  onAnswerSelect: (answerId: string) => void;
+  selectedAnswerIds?: string[];
+  onAnswerSelect: (answerId: string) => void; // Selects (single) or toggles (multiple) an answer
+  onResponseChange?: (response: string[]) => void; // Typed text or step order (non-choice formats)
+  grade?: AnswerGrade; // AI grade of an open-ended answer
+  gradingStatus?: "pending" | "error";
+  onRetryGrading?: () => void;
   showResult?: boolean;
   isFavorite?: boolean;
   onToggleFavorite?: () => void;
   className?: string;
   questionNumber?: number;
+  sessionId?: string; // Session the question belongs to (tutor conversation)
+  onTutorChatChange?: (tutorChat: TutorMessage[]) => void; // Enables "Approfondir" in results
 }
 
 export function QuestionCard({
   question,
-  selectedAnswerId,
+  selectedAnswerIds = [],
   onAnswerSelect,
+  onResponseChange,
+  grade,
+  gradingStatus,
+  onRetryGrading,
   showResult = false,
   isFavorite = false,
   onToggleFavorite,
   className,
   questionNumber,
+  sessionId,
+  onTutorChatChange,
 }: QuestionCardProps) {
+  const { t } = useTranslation();
   const domainColor = getDomainColor(question.domain);
+  const isMultiple = isMultipleChoice(question);
+  const isFlagged = question.verification?.status === "flagged";
+  const reason = question.verification?.reason;
+  const verificationReason = typeof reason === "object" ? t(reason.key, reason.params) : reason;
+  const isChoice = isChoiceQuestion(question);
+  const formatHint =
+    question.type === QuestionType.FILL_BLANK
+      ? t("question.hint.fillBlank")
+      : question.type === QuestionType.ORDERING
+      ? t("question.hint.ordering")
+      : question.type === QuestionType.NUMERIC
+      ? t("question.hint.numeric")
+      : question.type === QuestionType.OPEN_ENDED
+      ? t("question.hint.openEnded")
+      : null;
 
   return (
     <div className={cn("card", className)}>
@@ -41,14 +80,32 @@ export function QuestionCard({
         <div className="flex-1">
           {questionNumber && (
             <span className="font-mono text-xs text-ink-muted uppercase mb-2 block">
-              Question {questionNumber}
+              {t("question.number", { number: questionNumber })}
             </span>
           )}
           <div className="flex items-center gap-2 mb-3">
             <DomainBadge domain={question.domain} />
             <span className="font-mono text-xs text-ink-muted uppercase">
-              {question.difficulty}
+              {t(`difficulty.${question.difficulty}`)}
             </span>
+            {question.type !== QuestionType.SINGLE_CHOICE &&
+              question.type !== QuestionType.MULTIPLE_CHOICE && (
+                <span className="font-mono text-xs text-ink-muted uppercase">
+                  · {t(`format.${question.type}`)}
+                </span>
+              )}
+            {question.subtopic && (
+              <span className="font-mono text-xs text-ink-muted">· {question.subtopic}</span>
+            )}
+            {isFlagged && (
+              <span
+                className="inline-flex items-center gap-1 px-2 py-0.5 rounded border border-domain-ml font-mono text-xs text-domain-ml uppercase"
+                title={verificationReason}
+              >
+                <AlertTriangle className="w-3 h-3" />
+                {t("question.unverified")}
+              </span>
+            )}
           </div>
         </div>
         {onToggleFavorite && (
@@ -58,7 +115,7 @@ export function QuestionCard({
               "p-2 rounded transition-colors",
               isFavorite ? "text-accent" : "text-ink-muted hover:text-accent"
             )}
-            aria-label={isFavorite ? "Retirer des favoris" : "Ajouter aux favoris"}
+            aria-label={isFavorite ? t("question.removeFavorite") : t("question.addFavorite")}
           >
             <Star
               className={cn("w-5 h-5", isFavorite && "fill-current")}
@@ -68,77 +125,179 @@ export function QuestionCard({
       </div>
 
       {/* Question */}
-      <h3 className="font-serif text-lg mb-6">{question.question}</h3>
+      <h3 className={cn("font-serif text-lg", isMultiple || formatHint ? "mb-2" : "mb-6")}>
+        {question.type === QuestionType.FILL_BLANK ? (
+          <BlankStatement text={question.question} />
+        ) : (
+          question.question
+        )}
+      </h3>
+      {isMultiple && (
+        <p className="font-mono text-xs text-accent uppercase mb-6">
+          {t("question.hint.multiple")}
+        </p>
+      )}
+      {formatHint && (
+        <p className="font-mono text-xs text-accent uppercase mb-6">{formatHint}</p>
+      )}
+
+      {/* Typed or ordered answer */}
+      {!isChoice && (
+        question.type === QuestionType.OPEN_ENDED ? (
+          <OpenAnswerInput
+            question={question}
+            response={selectedAnswerIds}
+            onResponseChange={onResponseChange}
+            showResult={showResult}
+            grade={grade}
+            gradingStatus={gradingStatus}
+            onRetryGrading={onRetryGrading}
+          />
+        ) : question.type === QuestionType.ORDERING ? (
+          <OrderingList
+            question={question}
+            response={selectedAnswerIds}
+            onResponseChange={onResponseChange}
+            showResult={showResult}
+            isCorrect={isAnswerCorrect(question, selectedAnswerIds)}
+          />
+        ) : (
+          <TypedAnswerInput
+            question={question}
+            response={selectedAnswerIds}
+            onResponseChange={onResponseChange}
+            showResult={showResult}
+            isCorrect={isAnswerCorrect(question, selectedAnswerIds)}
+          />
+        )
+      )}
 
       {/* Answers */}
-      <div className="space-y-3">
-        {question.answers.map((answer, index) => {
-          const isSelected = selectedAnswerId === answer.id;
-          const isCorrect = answer.isCorrect;
-          const showCorrect = showResult && isCorrect;
-          const showIncorrect = showResult && isSelected && !isCorrect;
-
-          return (
-            <button
-              key={answer.id}
-              onClick={() => !showResult && onAnswerSelect(answer.id)}
-              disabled={showResult}
-              className={cn(
-                "w-full text-left p-4 rounded border transition-all",
-                "hover:border-accent/50",
-                isSelected && !showResult && "border-accent bg-accent/10",
-                showCorrect && "border-domain-dl bg-domain-dl/10",
-                showIncorrect && "border-domain-ml bg-domain-ml/10",
-                showResult && "cursor-not-allowed opacity-80"
-              )}
-              style={{
-                borderColor:
-                  isSelected && !showResult
-                    ? domainColor
-                    : showCorrect
-                    ? "var(--domain-dl)"
-                    : showIncorrect
-                    ? "var(--domain-ml)"
-                    : undefined,
-              }}
-            >
-              <div className="flex items-start gap-3">
-                <span
-                  className={cn(
-                    "flex-shrink-0 w-6 h-6 rounded border flex items-center justify-center font-mono text-xs font-bold",
+      {isChoice && (
+        <div className="space-y-3">
+          {question.answers.map((answer, index) => {
+            const isSelected = selectedAnswerIds.includes(answer.id);
+            const isCorrect = answer.isCorrect;
+            const showCorrect = showResult && isCorrect;
+            const showIncorrect = showResult && isSelected && !isCorrect;
+
+            return (
+              <button
+                key={answer.id}
+                onClick={() => !showResult && onAnswerSelect(answer.id)}
+                disabled={showResult}
+                role={isMultiple ? "checkbox" : "radio"}
+                aria-checked={isSelected}
+                className={cn(
+                  "w-full text-left p-4 rounded border transition-all",
+                  "hover:border-accent/50",
+                  isSelected && !showResult && "border-accent bg-accent/10",
+                  showCorrect && "border-domain-dl bg-domain-dl/10",
+                  showIncorrect && "border-domain-ml bg-domain-ml/10",
+                  showResult && "cursor-not-allowed opacity-80"
+                )}
+                style={{
+                  borderColor:
                     isSelected && !showResult
-                      ? "bg-accent text-paper-primary border-accent"
-                      : "border-paper-dark text-ink-muted",
-                    showCorrect && "bg-domain-dl text-paper-primary border-domain-dl",
-                    showIncorrect && "bg-domain-ml text-paper-primary border-domain-ml"
+                      ? domainColor
+                      : showCorrect
+                      ? "var(--domain-dl)"
+                      : showIncorrect
+                      ? "var(--domain-ml)"
+                      : undefined,
+                }}
+              >
+                <div className="flex items-start gap-3">
+                  <span
+                    className={cn(
+                      "flex-shrink-0 w-6 h-6 border flex items-center justify-center font-mono text-xs font-bold",
+                      isMultiple ? "rounded-sm" : "rounded",
+                      isSelected && !showResult
+                        ? "bg-accent text-paper-primary border-accent"
+                        : "border-paper-dark text-ink-muted",
+                      showCorrect && "bg-domain-dl text-paper-primary border-domain-dl",
+                      showIncorrect && "bg-domain-ml text-paper-primary border-domain-ml"
+                    )}
+                  >
+                    {isMultiple && isSelected ? (
+                      <Check className="w-4 h-4" />
+                    ) : (
+                      String.fromCharCode(65 + index)
+                    )}
+                  </span>
+                  <span className="flex-1 font-serif">{answer.text}</span>
+                  {showResult && isCorrect && (
+                    <span className="text-domain-dl font-mono text-xs">
+                      {isMultiple && !isSelected ? t("question.missed") : t("question.correct")}
+                    </span>
                   )}
-                >
-                  {String.fromCharCode(65 + index)}
-                </span>
-                <span className="flex-1 font-serif">{answer.text}</span>
-                {showResult && isCorrect && (
-                  <span className="text-domain-dl font-mono text-xs">✓ CORRECT</span>
-                )}
-                {showResult && isSelected && !isCorrect && (
-                  <span className="text-domain-ml font-mono text-xs">✗ WRONG</span>
+                  {showResult && isSelected && !isCorrect && (
+                    <span className="text-domain-ml font-mono text-xs">{t("question.wrong")}</span>
+                  )}
+                </div>
+
+                {/* Why the selected option is wrong */}
+                {showIncorrect && answer.rationale && (
+                  <p className="mt-2 ml-9 font-serif text-sm text-ink-secondary">
+                    {answer.rationale}
+                  </p>
                 )}
-              </div>
-            </button>
-          );
-        })}
-      </div>
+              </button>
+            );
+          })}
+        </div>
+      )}
 
       {/* Explanation (shown in results) */}
-      {showResult && question.explanation && (
+      {showResult && (question.explanation || question.source) && (
         <div className="mt-6 p-4 bg-paper-dark/50 rounded border-l-2 border-accent">
           <p className="font-mono text-xs text-ink-muted uppercase mb-2">
-            Explication
+            {t("question.explanation")}
           </p>
           <p className="font-serif text-sm text-ink-secondary">
             {question.explanation}
           </p>
+
+          {/* Passage of the course material the question is based on */}
+          {question.source && (
+            <blockquote className="mt-3 pl-3 border-l-2 border-paper-dark">
+              <p className="font-serif text-sm italic text-ink-secondary">
+                « {question.source.excerpt} »
+              </p>
+              {question.source.documentTitle && (
+                <p className="font-mono text-xs text-ink-muted mt-1">
+                  — {question.source.documentTitle}
+                </p>
+              )}
+            </blockquote>
+          )}
         </div>
       )}
+
+      {/* Verifier's objection (flagged questions, shown in results) */}
+      {showResult && isFlagged && verificationReason && (
+        <div className="mt-4 p-4 bg-paper-dark/50 rounded border-l-2 border-domain-ml">
+          <p className="font-mono text-xs text-ink-muted uppercase mb-2">
+            {t("question.disputedBy", {
+              model: question.verification?.model || t("question.verifier"),
+            })}
+          </p>
+          <p className="font-serif text-sm text-ink-secondary">
+            {verificationReason}
+          </p>
+        </div>
+      )}
+
+      {/* Follow-up conversation about the question (shown in results) */}
+      {showResult && onTutorChatChange && (
+        <TutorChat
+          question={question}
+          selectedAnswerIds={selectedAnswerIds}
+          sessionId={sessionId}
+          onChange={onTutorChatChange}
+          className="mt-4"
+        />
+      )}
     </div>
   );
 }
@@ -1,6 +1,7 @@
 "use client";
 
 import { cn } from "@/lib/utils";
+import { useTranslation } from "@/components/AppProvider";
 
 // ============================================
 // QUESTION COUNTER COMPONENT
@@ -24,8 +25,9 @@ export function QuestionCounter({
   max = 50,
   step = 5,
   className,
-  label = "Nombre de questions",
+  label,
 }: QuestionCounterProps) {
+  const { t } = useTranslation();
   const options = [];
   for (let i = min; i <= max; i += step) {
     options.push(i);
@@ -34,7 +36,7 @@ export function QuestionCounter({
   return (
     <div className={cn("", className)}>
       <label className="font-mono text-xs text-ink-muted uppercase mb-2 block">
-        {label}
+        {label ?? t("questionCounter.label")}
       </label>
       <div className="flex items-center gap-4">
         <input
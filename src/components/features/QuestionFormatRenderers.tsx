@@ -0,0 +1,265 @@
+"use client";
+
+import { AnswerGrade, Question, QuestionType } from "@/types";
+import { ArrowDown, ArrowUp, Loader2, RefreshCw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { BLANK_MARKER, describeCorrectResponse, getInitialOrder } from "@/lib/questionFormats";
+import { OPEN_ANSWER_PASS_SCORE } from "@/lib/scoring";
+import { MAX_OPEN_ANSWER_LENGTH } from "@/lib/grading";
+import { useTranslation } from "@/components/AppProvider";
+
+// ============================================
+// QUESTION FORMAT RENDERERS
+// Answer areas of the formats that are not picked
+// from a list: typed answers (fill-in-the-blank,
+// numeric), step ordering and AI-graded written answers
+// ============================================
+
+interface FormatRendererProps {
+  question: Question;
+  response: string[];
+  onResponseChange?: (response: string[]) => void;
+  showResult: boolean;
+  isCorrect: boolean; // Only meaningful when showResult
+}
+
+/**
+ * Statement with the blank highlighted (fill-in-the-blank)
+ */
+export function BlankStatement({ text }: { text: string }) {
+  const parts = text.split(BLANK_MARKER);
+  if (parts.length === 1) return <>{text}</>;
+
+  return (
+    <>
+      {parts.map((part, i) => (
+        <span key={i}>
+          {part}
+          {i < parts.length - 1 && (
+            <span className="inline-block min-w-16 mx-1 border-b-2 border-accent align-baseline">
+              &nbsp;
+            </span>
+          )}
+        </span>
+      ))}
+    </>
+  );
+}
+
+/**
+ * Text or number typed by the user (fill-in-the-blank, numeric)
+ */
+export function TypedAnswerInput({
+  question,
+  response,
+  onResponseChange,
+  showResult,
+  isCorrect,
+}: FormatRendererProps) {
+  const { t } = useTranslation();
+  const isNumeric = question.type === QuestionType.NUMERIC;
+
+  return (
+    <div className="space-y-3">
+      <input
+        type="text"
+        inputMode={isNumeric ? "decimal" : "text"}
+        value={response[0] || ""}
+        onChange={(e) => onResponseChange?.(e.target.value ? [e.target.value] : [])}
+        disabled={showResult}
+        placeholder={isNumeric ? t("formats.numericPlaceholder") : t("formats.yourAnswer")}
+        aria-label={t("formats.yourAnswer")}
+        className={cn(
+          "w-full p-4 rounded border bg-transparent font-serif",
+          "focus:outline-none focus:border-accent",
+          !showResult && "border-paper-dark",
+          showResult && isCorrect && "border-domain-dl bg-domain-dl/10",
+          showResult && !isCorrect && "border-domain-ml bg-domain-ml/10"
+        )}
+      />
+      {showResult && <ResultLine question={question} isCorrect={isCorrect} />}
+    </div>
+  );
+}
+
+/**
+ * Steps moved up and down by the user (ordering)
+ */
+export function OrderingList({
+  question,
+  response,
+  onResponseChange,
+  showResult,
+  isCorrect,
+}: FormatRendererProps) {
+  const { t } = useTranslation();
+  // Nothing moved yet: the shuffled order is the current answer
+  const order = response.length === question.answers.length ? response : getInitialOrder(question);
+
+  const move = (index: number, offset: number) => {
+    const next = [...order];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onResponseChange?.(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <ol className="space-y-2">
+        {order.map((id, index) => {
+          const answer = question.answers.find((a) => a.id === id);
+          if (!answer) return null;
+          const inPlace = question.answers[index]?.id === id;
+
+          return (
+            <li
+              key={id}
+              className={cn(
+                "flex items-center gap-3 p-3 rounded border",
+                !showResult && "border-paper-dark",
+                showResult && inPlace && "border-domain-dl bg-domain-dl/10",
+                showResult && !inPlace && "border-domain-ml bg-domain-ml/10"
+              )}
+            >
+              <span className="flex-shrink-0 w-6 h-6 rounded border border-paper-dark flex items-center justify-center font-mono text-xs font-bold text-ink-muted">
+                {index + 1}
+              </span>
+              <span className="flex-1 font-serif">{answer.text}</span>
+              {!showResult && (
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => move(index, -1)}
+                    disabled={index === 0}
+                    className="p-1 rounded text-ink-muted hover:text-accent disabled:opacity-30"
+                    aria-label={t("formats.moveUp")}
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => move(index, 1)}
+                    disabled={index === order.length - 1}
+                    className="p-1 rounded text-ink-muted hover:text-accent disabled:opacity-30"
+                    aria-label={t("formats.moveDown")}
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+      {showResult && <ResultLine question={question} isCorrect={isCorrect} />}
+    </div>
+  );
+}
+
+interface OpenAnswerInputProps extends Omit<FormatRendererProps, "isCorrect"> {
+  grade?: AnswerGrade;
+  gradingStatus?: "pending" | "error";
+  onRetryGrading?: () => void;
+}
+
+/**
+ * Short written answer graded by the AI against the rubric (open-ended)
+ */
+export function OpenAnswerInput({
+  question,
+  response,
+  onResponseChange,
+  showResult,
+  grade,
+  gradingStatus,
+  onRetryGrading,
+}: OpenAnswerInputProps) {
+  const { t } = useTranslation();
+  return (
+    <div className="space-y-3">
+      <textarea
+        value={response[0] || ""}
+        onChange={(e) => onResponseChange?.(e.target.value.trim() ? [e.target.value] : [])}
+        disabled={showResult}
+        rows={5}
+        maxLength={MAX_OPEN_ANSWER_LENGTH}
+        placeholder={t("formats.openPlaceholder")}
+        aria-label={t("formats.yourAnswer")}
+        className="w-full p-4 rounded border border-paper-dark bg-transparent font-serif resize-y focus:outline-none focus:border-accent disabled:opacity-80"
+      />
+
+      {showResult && gradingStatus === "pending" && (
+        <p className="flex items-center gap-2 font-mono text-xs text-ink-muted">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          {t("formats.grading")}
+        </p>
+      )}
+
+      {showResult && gradingStatus === "error" && (
+        <div className="flex items-center justify-between gap-3 p-3 rounded border border-domain-ml">
+          <p className="font-mono text-xs text-domain-ml">
+            {t("formats.gradingUnavailable")}
+          </p>
+          {onRetryGrading && (
+            <button
+              onClick={onRetryGrading}
+              className="inline-flex items-center gap-1 font-mono text-xs text-ink-secondary hover:text-accent"
+            >
+              <RefreshCw className="w-3 h-3" />
+              {t("common.retry")}
+            </button>
+          )}
+        </div>
+      )}
+
+      {showResult && grade && (
+        <div
+          className={cn(
+            "p-4 rounded border",
+            grade.score >= OPEN_ANSWER_PASS_SCORE
+              ? "border-domain-dl bg-domain-dl/10"
+              : "border-domain-ml bg-domain-ml/10"
+          )}
+        >
+          <p className="font-mono text-xs uppercase mb-2">
+            {t("formats.grade", { score: Math.round(grade.score * 100) })}
+            {grade.model && (
+              <span className="text-ink-muted normal-case"> — {t("formats.gradedBy", { model: grade.model })}</span>
+            )}
+          </p>
+          {grade.feedback && <p className="font-serif text-sm text-ink-secondary">{grade.feedback}</p>}
+          {grade.missingPoints.length > 0 && (
+            <>
+              <p className="font-mono text-xs text-ink-muted uppercase mt-3 mb-1">{t("formats.missingPoints")}</p>
+              <ul className="list-disc pl-5 font-serif text-sm text-ink-secondary space-y-1">
+                {grade.missingPoints.map((point, i) => (
+                  <li key={i}>{point}</li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+
+      {showResult && (
+        <div className="p-4 rounded bg-paper-dark/50">
+          <p className="font-mono text-xs text-ink-muted uppercase mb-2">{t("formats.modelAnswer")}</p>
+          <p className="font-serif text-sm text-ink-secondary">{describeCorrectResponse(question)}</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ResultLine({ question, isCorrect }: { question: Question; isCorrect: boolean }) {
+  const { t } = useTranslation();
+  return (
+    <p className="font-mono text-xs">
+      <span className={isCorrect ? "text-domain-dl" : "text-domain-ml"}>
+        {isCorrect ? t("question.correct") : t("question.wrong")}
+      </span>
+      {!isCorrect && (
+        <span className="text-ink-secondary">
+          {" "}— {t("formats.expected", { answer: describeCorrectResponse(question) })}
+        </span>
+      )}
+    </p>
+  );
+}
@@ -4,6 +4,7 @@ import { useState, useEffect } from "react";
 import { formatTime } from "@/lib/utils";
 import { cn } from "@/lib/utils";
 import { Clock, Pause, Play } from "lucide-react";
+import { useTranslation } from "@/components/AppProvider";
 
 // ============================================
 // QUIZ TIMER COMPONENT
@@ -36,6 +37,7 @@ export function QuizTimer({
   compact = false,
 }: QuizTimerProps) {
   const [time, setTime] = useState(initialTime);
+  const { t } = useTranslation();
 
   useEffect(() => {
     if (isPaused) return;
@@ -115,7 +117,7 @@ export function QuizTimer({
             "rounded hover:bg-paper-dark transition-colors",
             compact ? "p-0.5" : "ml-2 p-1"
           )}
-          aria-label={isPaused ? "Reprendre" : "Pause"}
+          aria-label={isPaused ? t("timer.resume") : t("timer.pause")}
         >
           {isPaused ? (
             <Play className={cn("text-ink-muted", compact ? "w-3 h-3" : "w-4 h-4")} />
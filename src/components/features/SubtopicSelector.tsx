@@ -0,0 +1,73 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import { useTranslation } from "@/components/AppProvider";
+
+// ============================================
+// SUBTOPIC SELECTOR COMPONENT
+// Toggle chips for the subtopics of a domain
+// (no selection = every subtopic)
+// ============================================
+
+interface SubtopicSelectorProps {
+  subtopics: string[];
+  value: string[];
+  onChange: (value: string[]) => void;
+  counts?: Record<string, number>; // Shown next to each subtopic when given
+  className?: string;
+  label?: string;
+}
+
+export function SubtopicSelector({
+  subtopics,
+  value,
+  onChange,
+  counts,
+  className,
+  label,
+}: SubtopicSelectorProps) {
+  const { t } = useTranslation();
+  if (subtopics.length === 0) return null;
+
+  const toggle = (subtopic: string) => {
+    onChange(
+      value.includes(subtopic) ? value.filter((s) => s !== subtopic) : [...value, subtopic]
+    );
+  };
+
+  const chipClass = (isSelected: boolean) =>
+    cn(
+      "px-3 py-1.5 rounded border font-mono text-xs transition-colors",
+      isSelected
+        ? "border-accent bg-accent/10 text-accent"
+        : "border-paper-dark text-ink-secondary hover:border-accent hover:text-accent"
+    );
+
+  return (
+    <div className={cn("", className)}>
+      <label className="font-mono text-xs text-ink-muted uppercase mb-2 block">
+        {label ?? t("subtopics.label")}
+      </label>
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => onChange([])}
+          aria-pressed={value.length === 0}
+          className={chipClass(value.length === 0)}
+        >
+          {t("subtopics.all")}
+        </button>
+        {subtopics.map((subtopic) => (
+          <button
+            key={subtopic}
+            onClick={() => toggle(subtopic)}
+            aria-pressed={value.includes(subtopic)}
+            className={chipClass(value.includes(subtopic))}
+          >
+            {subtopic}
+            {counts && ` (${counts[subtopic] || 0})`}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Question, TutorMessage } from "@/types";
+import { tutorService } from "@/services/TutorService";
+import { Button } from "@/components/ui/Button";
+import { MessageCircle, Send, Square } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { MessageKey } from "@/lib/i18n";
+import { useTranslation } from "@/components/AppProvider";
+
+// ============================================
+// TUTOR CHAT COMPONENT
+// "Approfondir": follow-up questions to the AI about
+// an answered question (the saved conversation stays
+// readable offline)
+// ============================================
+
+// Quick questions offered before the first message
+const TUTOR_SUGGESTIONS: MessageKey[] = [
+  "tutor.suggestion.wrongOptions",
+  "tutor.suggestion.example",
+  "tutor.suggestion.simple",
+];
+
+interface TutorChatProps {
+  question: Question;
+  selectedAnswerIds: string[];
+  sessionId?: string;
+  onChange?: (tutorChat: TutorMessage[]) => void; // Called once the conversation is saved
+  className?: string;
+}
+
+export function TutorChat({
+  question,
+  selectedAnswerIds,
+  sessionId,
+  onChange,
+  className,
+}: TutorChatProps) {
+  const [messages, setMessages] = useState<TutorMessage[]>(question.tutorChat || []);
+  const [isOpen, setIsOpen] = useState(messages.length > 0);
+  const [draft, setDraft] = useState("");
+  const [pending, setPending] = useState<string | null>(null); // Message awaiting a reply
+  const [error, setError] = useState("");
+  const abortRef = useRef<AbortController | null>(null);
+  const { t } = useTranslation();
+
+  const send = async (content: string) => {
+    if (!content.trim() || pending) return;
+    if (!navigator.onLine) {
+      setError(t("tutor.offline"));
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setPending(content.trim());
+    setDraft("");
+    setError("");
+    try {
+      const tutorChat = await tutorService.ask({ ...question, tutorChat: messages }, content, {
+        selectedAnswerIds,
+        sessionId,
+        signal: controller.signal,
+      });
+      setMessages(tutorChat);
+      onChange?.(tutorChat);
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error("[Tutor] Reply failed:", err);
+        setError((err as Error).message || t("tutor.failed"));
+      }
+      setDraft(content);
+    } finally {
+      abortRef.current = null;
+      setPending(null);
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <Button variant="secondary" size="sm" onClick={() => setIsOpen(true)} className={className}>
+        <MessageCircle className="w-4 h-4 mr-2" />
+        {t("tutor.open")}
+      </Button>
+    );
+  }
+
+  const bubbleClass = (role: TutorMessage["role"]) =>
+    cn(
+      "p-3 rounded font-serif text-sm whitespace-pre-wrap",
+      role === "user"
+        ? "ml-8 bg-accent/10 border border-accent/30"
+        : "mr-8 bg-paper-dark/50 border-l-2 border-accent text-ink-secondary"
+    );
+
+  return (
+    <div className={cn("p-4 border border-paper-dark rounded space-y-3", className)}>
+      <p className="font-mono text-xs text-ink-muted uppercase">{t("tutor.title")}</p>
+
+      {messages.map((message, index) => (
+        <div key={index} className={bubbleClass(message.role)}>
+          {message.content}
+        </div>
+      ))}
+      {pending && (
+        <>
+          <div className={bubbleClass("user")}>{pending}</div>
+          <div className={cn(bubbleClass("assistant"), "animate-pulse")}>…</div>
+        </>
+      )}
+
+      {messages.length === 0 && !pending && (
+        <div className="flex flex-wrap gap-2">
+          {TUTOR_SUGGESTIONS.map((key) => t(key)).map((suggestion) => (
+            <button
+              key={suggestion}
+              onClick={() => send(suggestion)}
+              className="px-3 py-1.5 rounded border border-paper-dark font-mono text-xs text-ink-secondary hover:border-accent hover:text-accent transition-colors"
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-domain-ml">{error}</p>}
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && send(draft)}
+          placeholder={t("tutor.placeholder")}
+          disabled={!!pending}
+          className="flex-1 px-4 py-2 bg-paper-secondary border border-paper-dark rounded font-mono text-sm focus:outline-none focus:border-accent"
+        />
+        {pending ? (
+          <button
+            onClick={() => abortRef.current?.abort()}
+            className="p-2 text-ink-muted hover:text-domain-ml"
+            aria-label={t("tutor.stop")}
+          >
+            <Square className="w-4 h-4" />
+          </button>
+        ) : (
+          <button
+            onClick={() => send(draft)}
+            disabled={!draft.trim()}
+            className="p-2 text-ink-muted hover:text-accent disabled:opacity-50"
+            aria-label={t("tutor.send")}
+          >
+            <Send className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
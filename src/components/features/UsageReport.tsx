@@ -0,0 +1,221 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Domain, ModelPricing, UserSettings } from "@/types";
+import { usageService, UsageSummary, UsageTotals } from "@/services/UsageService";
+import { providerRegistry } from "@/services/ProviderRegistry";
+import { storageService } from "@/services/StorageService";
+import { Button } from "@/components/ui/Button";
+import { Trash2 } from "lucide-react";
+import { cn, getDomainLabel } from "@/lib/utils";
+import { useTranslation } from "@/components/AppProvider";
+
+// ============================================
+// USAGE REPORT COMPONENT
+// API calls, tokens and estimated cost over the
+// last 30 days, per day, per model and per domain
+// ============================================
+
+const PERIOD_DAYS = 30;
+
+function formatTokens(n: number): string {
+  return n >= 1000 ? `${(n / 1000).toFixed(1)}k` : String(Math.round(n));
+}
+
+function formatCost(totals: UsageTotals): string {
+  const cost = `$${totals.cost.toFixed(totals.cost < 1 ? 4 : 2)}`;
+  return totals.hasUnknownCost ? `≥ ${cost}` : cost;
+}
+
+function UsageRow({ label, totals }: { label: string; totals: UsageTotals }) {
+  return (
+    <tr className="border-t border-paper-dark">
+      <td className="py-2 pr-2 text-ink-primary truncate max-w-[10rem]">{label}</td>
+      <td className="py-2 px-2 text-right">{Math.round(totals.calls)}</td>
+      <td className="py-2 px-2 text-right">{formatTokens(totals.promptTokens)}</td>
+      <td className="py-2 px-2 text-right">{formatTokens(totals.completionTokens)}</td>
+      <td className="py-2 pl-2 text-right">{formatCost(totals)}</td>
+    </tr>
+  );
+}
+
+function UsageTable({ title, rows }: { title: string; rows: [string, UsageTotals][] }) {
+  const { t } = useTranslation();
+  if (rows.length === 0) return null;
+
+  return (
+    <div>
+      <h4 className="font-mono text-xs text-ink-muted uppercase mb-2">{title}</h4>
+      <table className="w-full font-mono text-xs text-ink-secondary">
+        <thead>
+          <tr className="text-ink-muted">
+            <th className="pb-1 text-left font-normal"></th>
+            <th className="pb-1 px-2 text-right font-normal">{t("usage.calls")}</th>
+            <th className="pb-1 px-2 text-right font-normal">{t("usage.input")}</th>
+            <th className="pb-1 px-2 text-right font-normal">{t("usage.output")}</th>
+            <th className="pb-1 pl-2 text-right font-normal">{t("usage.cost")}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(([label, totals]) => (
+            <UsageRow key={label} label={label} totals={totals} />
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+async function fetchUsage() {
+  const [summary, settings] = await Promise.all([
+    usageService.getSummary(
+      PERIOD_DAYS,
+      providerRegistry.getAll().flatMap((p) => p.models),
+      providerRegistry.getAll().filter((p) => p.free).map((p) => p.id)
+    ),
+    storageService.getSettings(),
+  ]);
+  return { summary, pricing: settings.modelPricing || {} };
+}
+
+interface UsageReportProps {
+  className?: string;
+}
+
+export function UsageReport({ className }: UsageReportProps) {
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [userPricing, setUserPricing] = useState<UserSettings["modelPricing"]>({});
+  const { t } = useTranslation();
+
+  const declaredModels = providerRegistry.getAll().flatMap((p) => p.models);
+
+  const showUsage = ({ summary, pricing }: Awaited<ReturnType<typeof fetchUsage>>) => {
+    setSummary(summary);
+    setUserPricing(pricing);
+  };
+
+  useEffect(() => {
+    fetchUsage().then(showUsage);
+  }, []);
+
+  const handlePriceChange = async (model: string, field: keyof ModelPricing, value: string) => {
+    const current = usageService.getPricing(model, declaredModels, userPricing);
+    const price = parseFloat(value);
+    if (!Number.isFinite(price) || price < 0 || current?.[field] === price) return;
+
+    await usageService.setModelPricing(model, {
+      prompt: 0,
+      completion: 0,
+      ...current,
+      [field]: price,
+    });
+    showUsage(await fetchUsage());
+  };
+
+  const handleClear = async () => {
+    if (confirm(t("usage.clearConfirm"))) {
+      await usageService.clear();
+      showUsage(await fetchUsage());
+    }
+  };
+
+  if (!summary) return null;
+
+  if (summary.total.calls === 0) {
+    return (
+      <p className={cn("font-mono text-xs text-ink-muted", className)}>
+        {t("usage.empty", { days: PERIOD_DAYS })}
+      </p>
+    );
+  }
+
+  const { total } = summary;
+  const byDay = Object.entries(summary.byDay).sort(([a], [b]) => b.localeCompare(a));
+  const byModel = Object.entries(summary.byModel).sort(([, a], [, b]) => b.calls - a.calls);
+  // Models of free providers have no price to enter
+  const pricedModels = byModel.filter(([, totals]) => !providerRegistry.get(totals.provider).free);
+  const byDomain = (Object.entries(summary.byDomain) as [Domain, UsageTotals][])
+    .map(([domain, totals]): [string, UsageTotals] => [getDomainLabel(domain), totals]);
+
+  return (
+    <div className={cn("space-y-6", className)}>
+      {/* Totals */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 font-mono">
+        <div>
+          <div className="text-xs text-ink-muted uppercase">{t("usage.calls")}</div>
+          <div className="text-lg font-bold">{total.calls}</div>
+          {total.failures > 0 && (
+            <div className="text-xs text-domain-ml">{t("usage.failures", { count: total.failures })}</div>
+          )}
+        </div>
+        <div>
+          <div className="text-xs text-ink-muted uppercase">Tokens</div>
+          <div className="text-lg font-bold">
+            {formatTokens(total.promptTokens + total.completionTokens)}
+          </div>
+        </div>
+        <div>
+          <div className="text-xs text-ink-muted uppercase">{t("usage.latency")}</div>
+          <div className="text-lg font-bold">
+            {(total.totalLatencyMs / total.calls / 1000).toFixed(1)}s
+          </div>
+        </div>
+        <div>
+          <div className="text-xs text-ink-muted uppercase">{t("usage.estimatedCost")}</div>
+          <div className="text-lg font-bold">{formatCost(total)}</div>
+        </div>
+      </div>
+      {total.hasUnknownCost && (
+        <p className="font-mono text-xs text-ink-muted">
+          {t("usage.unknownCost")}
+        </p>
+      )}
+
+      <UsageTable title={t("usage.byDay")} rows={byDay} />
+
+      {/* Per model, with editable prices */}
+      <div>
+        <UsageTable title={t("usage.byModel")} rows={byModel} />
+        {pricedModels.length > 0 && (
+          <div className="mt-3 space-y-2">
+            <h4 className="font-mono text-xs text-ink-muted uppercase">
+              {t("usage.prices")}
+            </h4>
+            {pricedModels.map(([key, { model }]) => {
+              const pricing = usageService.getPricing(model, declaredModels, userPricing);
+              return (
+                <div key={key} className="flex items-center gap-2 font-mono text-xs">
+                  <span className="flex-1 min-w-0 truncate text-ink-secondary">{key}</span>
+                  {(["prompt", "completion"] as const).map((field) => (
+                    <input
+                      key={`${model}-${field}-${pricing?.[field] ?? ""}`}
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      defaultValue={pricing?.[field] ?? ""}
+                      placeholder="?"
+                      onBlur={(e) => handlePriceChange(model, field, e.target.value)}
+                      className="w-20 px-2 py-1 bg-paper-secondary border border-paper-dark rounded text-right text-ink-primary focus:outline-none focus:border-accent"
+                      aria-label={t(field === "prompt" ? "usage.inputPrice" : "usage.outputPrice", { model })}
+                    />
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <UsageTable title={t("usage.byDomain")} rows={byDomain} />
+
+      <Button
+        variant="secondary"
+        className="w-full text-domain-ml hover:text-domain-ml hover:border-domain-ml"
+        onClick={handleClear}
+      >
+        <Trash2 className="w-4 h-4 mr-2" />
+        {t("usage.clear")}
+      </Button>
+    </div>
+  );
+}
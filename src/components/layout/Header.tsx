@@ -2,6 +2,7 @@
 
 import { cn } from "@/lib/utils";
 import { formatShortDate } from "@/lib/utils";
+import { useTranslation } from "@/components/AppProvider";
 
 // ============================================
 // HEADER COMPONENT
@@ -18,6 +19,7 @@ interface HeaderProps {
 const APP_VERSION = "v2.0.4";
 
 export function Header({ title, subtitle, className, showVersion = true }: HeaderProps) {
+  useTranslation(); // Re-render the date when the language changes
   const currentDate = new Date();
 
   return (
@@ -14,8 +14,11 @@ import {
   History,
   Settings,
   Home,
+  FolderOpen,
 } from "lucide-react";
 import { storageService } from "@/services/StorageService";
+import { useTranslation } from "@/components/AppProvider";
+import { MessageKey } from "@/lib/i18n";
 
 // ============================================
 // NAVIGATION COMPONENT
@@ -25,44 +28,51 @@ import { storageService } from "@/services/StorageService";
 
 interface NavLink {
   href: string;
-  label: string;
+  label: MessageKey;
   icon: React.ComponentType<{ className?: string }>;
   requiresOnboarding?: boolean;
 }
 
 const navLinks: NavLink[] = [
-  { href: "/", label: "Accueil", icon: Home },
+  { href: "/", label: "nav.home", icon: Home },
   {
     href: "/practice",
-    label: "Pratique",
+    label: "nav.practice",
     icon: BookOpen,
     requiresOnboarding: true,
   },
-  { href: "/exam", label: "Examen", icon: FileText, requiresOnboarding: true },
+  { href: "/exam", label: "nav.exam", icon: FileText, requiresOnboarding: true },
   {
     href: "/favorites",
-    label: "Favoris",
+    label: "nav.favorites",
     icon: Star,
     requiresOnboarding: true,
   },
+  {
+    href: "/documents",
+    label: "nav.documents",
+    icon: FolderOpen,
+    requiresOnboarding: true,
+  },
   {
     href: "/offline",
-    label: "Hors Ligne",
+    label: "nav.offline",
     icon: WifiOff,
   },
   {
     href: "/exams",
-    label: "Historique",
+    label: "nav.history",
     icon: History,
     requiresOnboarding: true,
   },
-  { href: "/settings", label: "Paramètres", icon: Settings },
+  { href: "/settings", label: "nav.settings", icon: Settings },
 ];
 
 export function Navigation() {
   const [isOpen, setIsOpen] = useState(false);
   const [onboardingCompleted, setOnboardingCompleted] = useState(false);
   const pathname = usePathname();
+  const { t } = useTranslation();
 
   useEffect(() => {
     // Check if onboarding is completed
@@ -102,10 +112,10 @@ export function Navigation() {
                         "px-4 py-2 rounded-md font-mono text-sm font-medium opacity-50 cursor-not-allowed flex items-center gap-2",
                         "text-ink-muted",
                       )}
-                      title="Complétez l'onboarding d'abord"
+                      title={t("nav.onboardingFirst")}
                     >
                       <Icon className="w-4 h-4" />
-                      <span>{link.label}</span>
+                      <span>{t(link.label)}</span>
                     </div>
                   );
                 }
@@ -123,7 +133,7 @@ export function Navigation() {
                     )}
                   >
                     <Icon className="w-4 h-4" />
-                    <span>{link.label}</span>
+                    <span>{t(link.label)}</span>
                     {isActive && (
                       <span className="absolute bottom-0 left-0 right-0 h-0.5 bg-accent" />
                     )}
@@ -148,7 +158,7 @@ export function Navigation() {
             <button
               onClick={toggleMenu}
               className="p-2 rounded-md text-ink-secondary hover:text-accent hover:bg-paper-secondary transition-colors"
-              aria-label="Toggle menu"
+              aria-label={t("nav.toggleMenu")}
             >
               {isOpen ? (
                 <X className="w-6 h-6" />
@@ -183,7 +193,7 @@ export function Navigation() {
                     )}
                   >
                     <Icon className="w-5 h-5" />
-                    <span>{link.label}</span>
+                    <span>{t(link.label)}</span>
                   </div>
                 );
               }
@@ -202,7 +212,7 @@ export function Navigation() {
                   )}
                 >
                   <Icon className="w-5 h-5" />
-                  <span>{link.label}</span>
+                  <span>{t(link.label)}</span>
                 </Link>
               );
             })}
@@ -0,0 +1,85 @@
+import { AdaptiveBatchSettings } from "@/types";
+
+// ============================================
+// BATCH SIZING
+// Per-model batch size learned from generation
+// outcomes: shrinks on truncated or unparseable
+// responses and slow batches, grows on fast full ones
+// ============================================
+
+export const DEFAULT_ADAPTIVE_BATCH: AdaptiveBatchSettings = {
+  enabled: true,
+  min: 5,
+  max: 25,
+};
+
+// Slider limits of the bounds in settings
+export const BATCH_SIZE_LIMITS = { min: 1, max: 40 };
+
+// A full batch faster than this grows the size, one slower than the slow limit shrinks it
+const FAST_BATCH_MS = 30_000;
+const SLOW_BATCH_MS = 90_000;
+const SIZE_STEP = 2;
+
+// Output token budget: the historical 12000, raised for large batches
+const DEFAULT_MAX_TOKENS = 12000;
+const TOKENS_PER_QUESTION = 800;
+const MAX_OUTPUT_TOKENS = 32000;
+
+// Errors caused by the model output rather than the request
+const OUTPUT_ERROR_PATTERN =
+  /invalid response format|failed to parse|not an array|invalid question|empty response|truncated/i;
+
+// What a batch request produced
+export interface BatchOutcome {
+  requested: number;
+  received: number; // Questions parsed from the response (before any top-up)
+  latencyMs: number;
+  failed?: boolean; // The response could not be used at all
+}
+
+export function clampBatchSize(size: number, { min, max }: AdaptiveBatchSettings): number {
+  return Math.min(max, Math.max(min, Math.round(size)));
+}
+
+/**
+ * Size for the next batches of a model after `outcome`.
+ * A truncated batch sets the size to what the model managed to write;
+ * a failed one halves the request. Growth only follows a full batch of
+ * at least the current size (short last batches prove nothing).
+ */
+export function nextBatchSize(
+  current: number,
+  outcome: BatchOutcome,
+  bounds: AdaptiveBatchSettings
+): number {
+  if (outcome.failed) {
+    return clampBatchSize(Math.min(current, Math.floor(outcome.requested / 2)), bounds);
+  }
+  if (outcome.received < outcome.requested) {
+    return clampBatchSize(Math.min(current, outcome.received), bounds);
+  }
+  if (outcome.latencyMs > SLOW_BATCH_MS) {
+    return clampBatchSize(current - SIZE_STEP, bounds);
+  }
+  if (outcome.latencyMs < FAST_BATCH_MS && outcome.requested >= current) {
+    return clampBatchSize(current + SIZE_STEP, bounds);
+  }
+  return clampBatchSize(current, bounds);
+}
+
+/**
+ * Whether a generation error comes from an unusable response
+ * (unparseable, empty or cut JSON) rather than the request itself
+ */
+export function isOutputFailure(error: unknown): boolean {
+  const e = error as { message?: string; statusCode?: number; code?: string };
+  return !e?.statusCode && e?.code !== "ABORTED" && OUTPUT_ERROR_PATTERN.test(e?.message || "");
+}
+
+/**
+ * Output token budget for a batch of `count` questions
+ */
+export function maxTokensFor(count = 0): number {
+  return Math.min(MAX_OUTPUT_TOKENS, Math.max(DEFAULT_MAX_TOKENS, count * TOKENS_PER_QUESTION));
+}
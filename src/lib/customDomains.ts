@@ -0,0 +1,72 @@
+import { BuiltInDomain, CustomDomain, CustomDomainId, Domain } from "@/types";
+
+// ============================================
+// CUSTOM DOMAINS REGISTRY
+// In-memory copy of the user's domains (loaded from
+// IndexedDB by DomainService) so labels, colors and
+// prompts can be looked up synchronously
+// ============================================
+
+export const CUSTOM_DOMAIN_PREFIX = "custom-";
+
+// Colors offered when creating a domain (any hex color is accepted)
+export const CUSTOM_DOMAIN_COLORS = [
+  "#0ea5e9",
+  "#14b8a6",
+  "#84cc16",
+  "#f59e0b",
+  "#ec4899",
+  "#8b5cf6",
+  "#64748b",
+];
+
+let customDomains: CustomDomain[] = [];
+const listeners = new Set<() => void>();
+
+export function isCustomDomain(domain: string): domain is CustomDomainId {
+  return domain.startsWith(CUSTOM_DOMAIN_PREFIX);
+}
+
+export function isBuiltInDomain(domain: string): domain is BuiltInDomain {
+  return (Object.values(BuiltInDomain) as string[]).includes(domain);
+}
+
+/**
+ * Replace the registry contents and notify subscribers
+ */
+export function setCustomDomains(domains: CustomDomain[]): void {
+  customDomains = [...domains].sort((a, b) => a.label.localeCompare(b.label));
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Current custom domains (stable reference until the next change)
+ */
+export function getCustomDomains(): CustomDomain[] {
+  return customDomains;
+}
+
+export function getCustomDomain(domain: Domain | string): CustomDomain | undefined {
+  return isCustomDomain(domain) ? customDomains.find((d) => d.id === domain) : undefined;
+}
+
+/**
+ * Listen to registry changes (returns the unsubscribe function)
+ */
+export function subscribeCustomDomains(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Short label of a custom domain: initials of its words, or the
+ * first letters of a single word ("Cloud Computing" -> "CC", "MLOps" -> "MLO")
+ */
+export function getCustomDomainShortLabel(label: string): string {
+  const words = label.split(/[\s-]+/).filter(Boolean);
+  const short =
+    words.length > 1 ? words.map((word) => word[0]).join("") : (words[0] || "?");
+  return short.substring(0, 3).toUpperCase();
+}
@@ -0,0 +1,87 @@
+import { Difficulty, DifficultyMix, DifficultySetting } from "@/types";
+
+// ============================================
+// DIFFICULTY
+// Requested difficulty (single level or mixed ratio),
+// prompt instructions and parsing of model output
+// ============================================
+
+export const DIFFICULTIES: Difficulty[] = ["easy", "medium", "hard"];
+
+export const DEFAULT_DIFFICULTY_MIX: DifficultyMix = {
+  easy: 30,
+  medium: 50,
+  hard: 20,
+};
+
+/**
+ * Split a question count according to a mix (largest remainder, sums to count)
+ */
+export function splitByMix(count: number, mix: DifficultyMix): Record<Difficulty, number> {
+  const total = DIFFICULTIES.reduce((sum, d) => sum + Math.max(0, mix[d]), 0) || 1;
+  const exact = DIFFICULTIES.map((d) => (count * Math.max(0, mix[d])) / total);
+  const result = {} as Record<Difficulty, number>;
+  DIFFICULTIES.forEach((d, i) => (result[d] = Math.floor(exact[i])));
+
+  let remaining = count - DIFFICULTIES.reduce((sum, d) => sum + result[d], 0);
+  const byRemainder = DIFFICULTIES
+    .map((d, i) => ({ d, rest: exact[i] - Math.floor(exact[i]) }))
+    .sort((a, b) => b.rest - a.rest);
+  for (let i = 0; remaining > 0; i = (i + 1) % byRemainder.length, remaining--) {
+    result[byRemainder[i].d]++;
+  }
+
+  return result;
+}
+
+/**
+ * Prompt instruction for the requested difficulty, for `count` questions
+ * (per domain in multi-domain requests)
+ */
+export function buildDifficultyInstruction(
+  count: number,
+  difficulty?: DifficultySetting,
+  mix: DifficultyMix = DEFAULT_DIFFICULTY_MIX,
+  perDomain = false,
+): string {
+  if (!difficulty) {
+    return "";
+  }
+
+  if (difficulty === "mixed") {
+    const split = splitByMix(count, mix);
+    const parts = DIFFICULTIES
+      .filter((d) => split[d] > 0)
+      .map((d) => `${split[d]} "${d}"`);
+    const scope = perDomain ? " (pour chaque domaine)" : "";
+    return ` Répartition des difficultés${scope}: ${parts.join(", ")}.`;
+  }
+
+  return ` Niveau de difficulté: toutes les questions doivent être "${difficulty}".`;
+}
+
+/**
+ * Difficulty recorded when the model does not return one
+ */
+export function getFallbackDifficulty(difficulty?: DifficultySetting): Difficulty {
+  return difficulty && difficulty !== "mixed" ? difficulty : "medium";
+}
+
+/**
+ * Read a difficulty from model output, tolerating French labels and casing
+ */
+export function parseDifficulty(value: unknown, fallback: Difficulty = "medium"): Difficulty {
+  if (typeof value !== "string") {
+    return fallback;
+  }
+
+  const normalized = value.trim().toLowerCase();
+  if ((DIFFICULTIES as string[]).includes(normalized)) {
+    return normalized as Difficulty;
+  }
+  if (normalized.startsWith("facile")) return "easy";
+  if (normalized.startsWith("moyen")) return "medium";
+  if (normalized.startsWith("difficile")) return "hard";
+
+  return fallback;
+}
@@ -0,0 +1,79 @@
+import { SourceDocumentFormat } from "@/types";
+
+// ============================================
+// DOCUMENT IMPORT
+// Text extraction from course material files
+// (plain text, Markdown, PDF parsed in the browser)
+// ============================================
+
+// Value of the file input "accept" attribute
+export const ACCEPTED_DOCUMENT_TYPES = ".txt,.md,.markdown,.pdf,text/plain,text/markdown,application/pdf";
+
+
+/**
+ * Format of a file from its type or extension (null when unsupported)
+ */
+export function detectDocumentFormat(file: File): SourceDocumentFormat | null {
+  const name = file.name.toLowerCase();
+  if (file.type === "application/pdf" || name.endsWith(".pdf")) return "pdf";
+  if (file.type === "text/markdown" || name.endsWith(".md") || name.endsWith(".markdown")) {
+    return "markdown";
+  }
+  if (file.type.startsWith("text/") || name.endsWith(".txt")) return "text";
+  return null;
+}
+
+/**
+ * Normalize extracted text: line endings, runs of spaces, words
+ * hyphenated across lines, and stacks of blank lines
+ */
+export function cleanDocumentText(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t\u00a0]+/g, " ")
+    .replace(/(\w)-\n(\w)/g, "$1$2")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Text of every page of a PDF (pages separated by a blank line)
+ */
+async function extractPdfText(file: File): Promise<string> {
+  // Loaded on demand: pdf.js is large and only runs in the browser
+  const pdfjs = await import("pdfjs-dist");
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+    "pdfjs-dist/build/pdf.worker.min.mjs",
+    import.meta.url
+  ).toString();
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  try {
+    const pages: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      pages.push(
+        content.items
+          .map((item) => ("str" in item ? `${item.str}${item.hasEOL ? "\n" : ""}` : ""))
+          .join("")
+      );
+    }
+    console.log("[DocumentImport] Extracted", pdf.numPages, "PDF pages from", file.name);
+    return pages.join("\n\n");
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Plain text of a course material file
+ */
+export async function extractDocumentText(
+  file: File,
+  format: SourceDocumentFormat
+): Promise<string> {
+  const text = format === "pdf" ? await extractPdfText(file) : await file.text();
+  return cleanDocumentText(text);
+}
@@ -0,0 +1,92 @@
+import { AnswerGrade, Question } from "@/types";
+import { JSONSchema } from "./questionSchema";
+import { buildReplyLanguageInstruction, getQuestionLanguage } from "./i18n";
+
+// ============================================
+// OPEN-ENDED GRADING
+// The model grades a written answer against the
+// rubric generated with the question
+// ============================================
+
+export const GRADING_SYSTEM_PROMPT =
+  "Tu es un correcteur exigeant mais bienveillant en IA et Big Data. Tu notes la réponse écrite d'un étudiant en te basant uniquement sur le barème fourni, sans pénaliser la forme.";
+
+// Longest answer sent for grading (characters)
+export const MAX_OPEN_ANSWER_LENGTH = 2000;
+
+/**
+ * Prompt with the question, its rubric (or model answer) and the student's answer
+ */
+export function buildGradingPrompt(question: Question, response: string): string {
+  const rubric = question.rubric?.length
+    ? question.rubric.map((point, i) => `${i + 1}. ${point}`).join("\n")
+    : "(pas de barème: se baser sur la réponse modèle)";
+
+  return `Question: ${question.question}
+
+Réponse modèle: ${question.answers[0]?.text || "(aucune)"}
+
+Barème (points attendus):
+${rubric}
+
+Réponse de l'étudiant:
+"""
+${response.trim().slice(0, MAX_OPEN_ANSWER_LENGTH)}
+"""
+
+Renvoie:
+- "score": note de 0 à 100, proportionnelle aux points du barème correctement couverts (une erreur de fond fait perdre le point concerné)
+- "missingPoints": les points du barème absents ou faux dans la réponse (reformulés brièvement)
+- "feedback": 2 à 3 phrases adressées à l'étudiant (ce qui est juste, ce qu'il faut ajouter ou corriger)${buildReplyLanguageInstruction(getQuestionLanguage(question))}
+
+Format: {"score": 70, "missingPoints": ["..."], "feedback": "..."}
+Retourne UNIQUEMENT le JSON, sans texte avant ou après.`;
+}
+
+/**
+ * Response schema: { score, missingPoints, feedback }
+ */
+export function buildGradingSchema(): JSONSchema {
+  return {
+    type: "object",
+    properties: {
+      score: { type: "integer" },
+      missingPoints: { type: "array", items: { type: "string" } },
+      feedback: { type: "string" },
+    },
+    required: ["score", "missingPoints", "feedback"],
+    additionalProperties: false,
+  };
+}
+
+/**
+ * Read the model's grade (score brought back to [0, 1]).
+ * Throws when the response holds no usable score.
+ */
+export function parseGrade(content: string, model?: string): AnswerGrade {
+  const json = content.match(/\{[\s\S]*\}/)?.[0];
+  let raw: { score?: unknown; missingPoints?: unknown; feedback?: unknown } = {};
+  try {
+    raw = json ? JSON.parse(json) : {};
+  } catch {
+    // Reported below as a missing score
+  }
+
+  const score = Number(raw.score);
+  if (typeof raw.score === "boolean" || !Number.isFinite(score)) {
+    throw new Error("Invalid grading response: no score");
+  }
+
+  const grade: AnswerGrade = {
+    score: Math.round(Math.min(100, Math.max(0, score))) / 100,
+    missingPoints: Array.isArray(raw.missingPoints)
+      ? raw.missingPoints.filter((p): p is string => typeof p === "string" && !!p.trim())
+      : [],
+    feedback: typeof raw.feedback === "string" ? raw.feedback.trim() : "",
+    model,
+    gradedAt: new Date(),
+  };
+
+  console.log("[Grading] Score", grade.score, "with", grade.missingPoints.length, "missing points");
+  return grade;
+}
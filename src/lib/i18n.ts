@@ -0,0 +1,125 @@
+import { Language, Question } from "@/types";
+import { fr, MessageKey } from "@/locales/fr";
+import { en } from "@/locales/en";
+
+// ============================================
+// I18N
+// UI language registry (set from the settings by
+// AppProvider), message lookup and the language
+// instructions added to AI prompts
+// ============================================
+
+export type { MessageKey };
+
+// Keys declared with ".one" and ".other" variants (see tn)
+export type PluralKey = {
+  [K in MessageKey]: K extends `${infer Prefix}.one` ? Prefix : never;
+}[MessageKey];
+
+export const LANGUAGES: Language[] = ["fr", "en"];
+
+export const DEFAULT_LANGUAGE: Language = "fr";
+
+// Shown in the language picker, each in its own language
+export const LANGUAGE_LABELS: Record<Language, string> = {
+  fr: "Français",
+  en: "English",
+};
+
+// Locale used to format dates and numbers
+const LANGUAGE_LOCALES: Record<Language, string> = {
+  fr: "fr-FR",
+  en: "en-GB",
+};
+
+const CATALOGS: Record<Language, Record<MessageKey, string>> = { fr, en };
+
+// Language names as written in the (French) prompts
+const PROMPT_LANGUAGE_NAMES: Record<Language, string> = {
+  fr: "français",
+  en: "anglais (English)",
+};
+
+let language: Language = DEFAULT_LANGUAGE;
+const listeners = new Set<() => void>();
+
+export function isLanguage(value: unknown): value is Language {
+  return LANGUAGES.includes(value as Language);
+}
+
+/**
+ * Switch the UI language and notify subscribers
+ */
+export function setLanguage(next: Language): void {
+  if (next === language) return;
+  language = next;
+  if (typeof document !== "undefined") {
+    document.documentElement.lang = next;
+  }
+  listeners.forEach((listener) => listener());
+}
+
+export function getLanguage(): Language {
+  return language;
+}
+
+/**
+ * Listen to language changes (returns the unsubscribe function)
+ */
+export function subscribeLanguage(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Message in the current language, with {name} placeholders filled in
+ */
+export function t(key: MessageKey, params?: Record<string, string | number>): string {
+  const template = CATALOGS[language][key] ?? fr[key] ?? key;
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+}
+
+/**
+ * Message agreeing with a count ("1 examen" / "2 examens"), {count} filled in
+ */
+export function tn(key: PluralKey, count: number, params?: Record<string, string | number>): string {
+  const rule = new Intl.PluralRules(LANGUAGE_LOCALES[language]).select(count);
+  return t(`${key}.${rule === "one" ? "one" : "other"}` as MessageKey, { count, ...params });
+}
+
+/**
+ * Locale of the current language (dates and numbers)
+ */
+export function getLocale(): string {
+  return LANGUAGE_LOCALES[language];
+}
+
+/**
+ * Language a question is written in (questions saved before languages were French)
+ */
+export function getQuestionLanguage(question: Pick<Question, "language">): Language {
+  return question.language ?? DEFAULT_LANGUAGE;
+}
+
+/**
+ * Generation prompt line asking for questions in the given language
+ * (empty for French, the language the prompts are written in)
+ */
+export function buildLanguageInstruction(target?: Language): string {
+  if (!target || target === "fr") return "";
+  return `\n\nLangue: rédige l'énoncé, les réponses, les explications et les justifications en ${PROMPT_LANGUAGE_NAMES[target]}. Pour "TRUE_FALSE", les réponses sont "True" et "False".`;
+}
+
+/**
+ * Prompt line asking the model to reply in the language of the question
+ * (tutor, grading, rationales)
+ */
+export function buildReplyLanguageInstruction(target?: Language): string {
+  if (!target || target === "fr") return "";
+  return `\n\nRédige ta réponse en ${PROMPT_LANGUAGE_NAMES[target]}.`;
+}
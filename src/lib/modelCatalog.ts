@@ -0,0 +1,57 @@
+import { ModelCatalog, ProviderModel } from "@/types";
+import { normalizeText } from "./similarity";
+
+// ============================================
+// MODEL CATALOG
+// Freshness and filtering of the provider model
+// lists cached by ModelCatalogService
+// ============================================
+
+// Cached catalogs older than this are refetched
+export const CATALOG_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Minimum context length choices offered by the catalog filter (0 = any)
+export const CONTEXT_LENGTH_FILTERS = [0, 32_000, 128_000, 1_000_000];
+
+export interface CatalogFilter {
+  query: string;
+  freeOnly: boolean;
+  minContextLength: number;
+}
+
+export const DEFAULT_CATALOG_FILTER: CatalogFilter = {
+  query: "",
+  freeOnly: false,
+  minContextLength: 0,
+};
+
+export function isCatalogStale(catalog: ModelCatalog, now = Date.now()): boolean {
+  return now - new Date(catalog.fetchedAt).getTime() > CATALOG_MAX_AGE_MS;
+}
+
+/**
+ * Models matching the search (id or name, accents ignored) and filters.
+ * Models without a reported context length are dropped by a minimum.
+ */
+export function filterCatalogModels(
+  models: ProviderModel[],
+  { query, freeOnly, minContextLength }: CatalogFilter
+): ProviderModel[] {
+  const needle = normalizeText(query);
+  return models.filter(
+    (model) =>
+      (!needle || normalizeText(`${model.id} ${model.name}`).includes(needle)) &&
+      (!freeOnly || model.free) &&
+      (!minContextLength || (model.contextLength ?? 0) >= minContextLength)
+  );
+}
+
+/**
+ * Short context length label: 8k, 128k, 1M
+ */
+export function formatContextLength(tokens: number): string {
+  if (tokens >= 1_000_000) {
+    return `${Math.round(tokens / 100_000) / 10}M`;
+  }
+  return `${Math.round(tokens / 1000)}k`;
+}
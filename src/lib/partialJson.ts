@@ -0,0 +1,106 @@
+// ============================================
+// PARTIAL JSON
+// Tolerant incremental scanner that recovers complete
+// objects from a JSON array cut off mid-stream
+// ============================================
+
+export interface SalvageResult {
+  items: unknown[];   // Fully-formed objects found before the cut
+  complete: boolean;  // True when the closing bracket of the array was reached
+}
+
+/**
+ * Incremental scanner over the questions array, whether the payload is
+ * `{"questions": [...]}` or a bare `[...]` (possibly wrapped in markdown or
+ * surrounded by text). Feed it chunks as they arrive; each push returns the
+ * top-level objects completed by that chunk. Objects that are themselves
+ * malformed are skipped; scanning stops at the end of the array.
+ */
+export class JsonArrayScanner {
+  private buffer = "";
+  private pos = -1; // Next index to scan, -1 until the array start is found
+  private depth = 0; // 1 = directly inside the array
+  private inString = false;
+  private escaped = false;
+  private objectStart = -1;
+  private done = false;
+
+  /**
+   * True once the closing bracket of the array was reached
+   */
+  get complete(): boolean {
+    return this.done;
+  }
+
+  /**
+   * Append a chunk and return the objects it completed
+   */
+  push(chunk: string): unknown[] {
+    this.buffer += chunk;
+    const items: unknown[] = [];
+
+    if (this.done) {
+      return items;
+    }
+
+    if (this.pos === -1) {
+      const keyMatch = /"questions"\s*:\s*\[/.exec(this.buffer);
+      this.pos = keyMatch
+        ? keyMatch.index + keyMatch[0].length - 1
+        : this.buffer.indexOf("[");
+      if (this.pos === -1) {
+        return items;
+      }
+    }
+
+    const content = this.buffer;
+    for (; this.pos < content.length; this.pos++) {
+      const ch = content[this.pos];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (ch === "\\") {
+          this.escaped = true;
+        } else if (ch === '"') {
+          this.inString = false;
+        }
+        continue;
+      }
+
+      if (ch === '"') {
+        this.inString = true;
+      } else if (ch === "{" || ch === "[") {
+        if (this.depth === 1 && ch === "{") {
+          this.objectStart = this.pos;
+        }
+        this.depth++;
+      } else if (ch === "}" || ch === "]") {
+        this.depth--;
+        if (this.depth === 1 && ch === "}" && this.objectStart !== -1) {
+          try {
+            items.push(JSON.parse(content.slice(this.objectStart, this.pos + 1)));
+          } catch {
+            // Malformed object - skip it and keep scanning
+          }
+          this.objectStart = -1;
+        } else if (this.depth === 0) {
+          this.done = true;
+          break;
+        }
+      }
+    }
+
+    return items;
+  }
+}
+
+/**
+ * Recover every complete top-level object of the questions array
+ * from a (possibly truncated) response
+ */
+export function salvageJsonArray(content: string): SalvageResult {
+  const scanner = new JsonArrayScanner();
+  const items = scanner.push(content);
+  return { items, complete: scanner.complete };
+}
@@ -0,0 +1,195 @@
+import { Question, QuestionType } from "@/types";
+import { inferQuestionType, isChoiceQuestion, parseNumericResponse } from "./scoring";
+
+// ============================================
+// QUESTION FORMATS
+// True/false, fill-in-the-blank, ordering, numeric and
+// open-ended questions alongside the QCM: labels, generation
+// instructions and normalization of model output
+// ============================================
+
+export const QUESTION_FORMAT_LABELS: Record<QuestionType, string> = {
+  [QuestionType.SINGLE_CHOICE]: "QCM",
+  [QuestionType.MULTIPLE_CHOICE]: "QCM à réponses multiples",
+  [QuestionType.TRUE_FALSE]: "Vrai / Faux",
+  [QuestionType.FILL_BLANK]: "Texte à trous",
+  [QuestionType.ORDERING]: "Remise en ordre",
+  [QuestionType.NUMERIC]: "Calcul numérique",
+  [QuestionType.OPEN_ENDED]: "Réponse libre",
+};
+
+// Formats that can be generated besides the QCM
+export const EXTRA_QUESTION_FORMATS: QuestionType[] = [
+  QuestionType.TRUE_FALSE,
+  QuestionType.FILL_BLANK,
+  QuestionType.ORDERING,
+  QuestionType.NUMERIC,
+];
+
+// QCM only until formats are picked in settings
+export const DEFAULT_QUESTION_FORMATS: QuestionType[] = [];
+
+// Formats a generation prompt can ask for besides the QCM
+// (open-ended questions are only mixed in on request in practice mode)
+export const PROMPT_QUESTION_FORMATS: QuestionType[] = [
+  ...EXTRA_QUESTION_FORMATS,
+  QuestionType.OPEN_ENDED,
+];
+
+// Placeholder of the missing word in fill-in-the-blank questions
+export const BLANK_MARKER = "___";
+
+const FORMAT_INSTRUCTIONS: Partial<Record<QuestionType, string>> = {
+  [QuestionType.TRUE_FALSE]:
+    '"TRUE_FALSE": une affirmation à juger; "answers" = [{"text": "Vrai", ...}, {"text": "Faux", ...}] avec exactement une réponse "isCorrect": true',
+  [QuestionType.FILL_BLANK]:
+    `"FILL_BLANK": l'énoncé contient "${BLANK_MARKER}" à la place d'un terme technique; "answers" = les formulations acceptées de ce terme (toutes "isCorrect": true, synonymes et sigles compris)`,
+  [QuestionType.ORDERING]:
+    '"ORDERING": des étapes à remettre dans l\'ordre (pipeline ETL, rétropropagation, étapes d\'un algorithme...); "answers" = 3 à 6 étapes DANS L\'ORDRE CORRECT (toutes "isCorrect": true)',
+  [QuestionType.NUMERIC]:
+    '"NUMERIC": un calcul (précision/rappel, F1, support/confiance...) dont l\'énoncé donne toutes les données; "answers" = [{"text": "valeur attendue en chiffres", "isCorrect": true}], "tolerance" = écart accepté (ex. 0.01)',
+  [QuestionType.OPEN_ENDED]:
+    '"OPEN_ENDED": une question appelant une courte explication rédigée (ex. "Expliquez le compromis biais/variance"); "answers" = [{"text": "réponse modèle en 3 à 5 phrases", "isCorrect": true}], "rubric" = 3 à 5 points précis qu\'une réponse complète doit couvrir',
+};
+
+/**
+ * Prompt lines asking for the given formats besides the QCM
+ * (empty when only QCM are requested)
+ */
+export function buildFormatInstruction(formats?: QuestionType[]): string {
+  const extra = PROMPT_QUESTION_FORMATS.filter((f) => formats?.includes(f));
+  if (extra.length === 0) return "";
+  const rubricLine = extra.includes(QuestionType.OPEN_ENDED)
+    ? `\nLe champ "rubric" est une liste vide pour tous les formats sauf "OPEN_ENDED".`
+    : "";
+
+  return `
+
+Formats de questions: environ la moitié des questions sont des QCM ("type": "SINGLE_CHOICE" ou "MULTIPLE_CHOICE"), les autres utilisent les formats suivants (champ "type"):
+${extra.map((f) => `- ${FORMAT_INSTRUCTIONS[f]}`).join("\n")}
+Le champ "tolerance" vaut 0 pour tous les formats sauf "NUMERIC". Les contraintes sur le nombre de choix ne s'appliquent qu'aux QCM.${rubricLine}`;
+}
+
+/**
+ * Question type named by the model, or the one implied by the answers
+ */
+export function parseQuestionType(
+  value: unknown,
+  answers: Question["answers"],
+): QuestionType {
+  return Object.values(QuestionType).includes(value as QuestionType)
+    ? (value as QuestionType)
+    : inferQuestionType(answers);
+}
+
+/**
+ * Set the format of a generated question from the model's "type" and
+ * "tolerance" fields. Payloads that do not fit their format fall back
+ * to the closest one (a non-numeric NUMERIC answer becomes fill-in-the-blank).
+ */
+export function applyQuestionFormat(
+  question: Question,
+  raw: { type?: unknown; tolerance?: unknown; rubric?: unknown },
+): Question {
+  const answers = question.answers;
+  let type = parseQuestionType(raw.type, answers);
+
+  if (type === QuestionType.NUMERIC && !parseNumericResponse(answers[0]?.text || "")) {
+    type = QuestionType.FILL_BLANK;
+  }
+  if (type === QuestionType.TRUE_FALSE && answers.length !== 2) {
+    type = inferQuestionType(answers);
+  }
+  if (type === QuestionType.ORDERING && answers.length < 2) {
+    type = QuestionType.FILL_BLANK;
+  }
+  // A single option can only be typed in
+  if (isChoiceQuestion({ ...question, type }) && answers.length < 2) {
+    type = QuestionType.FILL_BLANK;
+  }
+
+  const formatted: Question = { ...question, type };
+  if (!isChoiceQuestion(formatted)) {
+    // Every listed answer is part of the key (accepted words, steps, value)
+    formatted.answers = answers.map((a) => ({ ...a, isCorrect: true }));
+  } else {
+    formatted.type = type === QuestionType.TRUE_FALSE ? type : inferQuestionType(answers);
+  }
+  if (type === QuestionType.NUMERIC) {
+    const tolerance = Number(raw.tolerance);
+    formatted.tolerance = Number.isFinite(tolerance) && tolerance > 0 ? tolerance : 0;
+  }
+  if (type === QuestionType.OPEN_ENDED && Array.isArray(raw.rubric)) {
+    const rubric = raw.rubric
+      .filter((p): p is string => typeof p === "string" && !!p.trim())
+      .map((p) => p.trim());
+    if (rubric.length > 0) formatted.rubric = rubric;
+  }
+  return formatted;
+}
+
+/**
+ * Order in which the steps of an ordering question are first shown:
+ * shuffled the same way on every render, never already solved
+ */
+export function getInitialOrder(question: Question): string[] {
+  const ids = question.answers.map((a) => a.id);
+  let seed = [...question.id].reduce((hash, ch) => (hash * 31 + ch.charCodeAt(0)) >>> 0, 7);
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) >>> 0;
+    return seed / 2 ** 32;
+  };
+
+  const order = [...ids];
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  if (order.length > 1 && order.every((id, i) => id === ids[i])) {
+    order.push(order.shift()!);
+  }
+  return order;
+}
+
+/**
+ * Human-readable response (review lists, tutor context)
+ */
+export function describeResponse(question: Question, response: string[]): string {
+  switch (question.type) {
+    case QuestionType.ORDERING:
+      return response
+        .map((id) => question.answers.find((a) => a.id === id)?.text)
+        .filter(Boolean)
+        .join(" → ");
+    case QuestionType.FILL_BLANK:
+    case QuestionType.NUMERIC:
+    case QuestionType.OPEN_ENDED:
+      return response[0] || "";
+    default:
+      return question.answers
+        .filter((a) => response.includes(a.id))
+        .map((a) => a.text)
+        .join(" ; ");
+  }
+}
+
+/**
+ * Human-readable answer key
+ */
+export function describeCorrectResponse(question: Question): string {
+  switch (question.type) {
+    case QuestionType.ORDERING:
+      return question.answers.map((a) => a.text).join(" → ");
+    case QuestionType.FILL_BLANK:
+      return question.answers.map((a) => a.text).join(" / ");
+    case QuestionType.NUMERIC:
+      return `${question.answers[0]?.text ?? ""}${question.tolerance ? ` (± ${question.tolerance})` : ""}`;
+    case QuestionType.OPEN_ENDED:
+      return question.answers[0]?.text ?? "";
+    default:
+      return question.answers
+        .filter((a) => a.isCorrect)
+        .map((a) => a.text)
+        .join(" ; ");
+  }
+}
@@ -0,0 +1,335 @@
+import { Answer, Difficulty, Domain, Question, QuestionType } from "@/types";
+import { generateId } from "./utils";
+import { salvageJsonArray } from "./partialJson";
+import { inferQuestionType } from "./scoring";
+import { DIFFICULTIES, parseDifficulty } from "./difficulty";
+import { tagSubtopic } from "./subtopics";
+import { PROMPT_QUESTION_FORMATS, applyQuestionFormat } from "./questionFormats";
+
+// ============================================
+// QUESTION SCHEMA
+// JSON schema for structured-output generation
+// (OpenRouter json_schema, Gemini responseSchema)
+// and runtime validation of AI payloads
+// ============================================
+
+// Question as produced by the model, before ids/metadata are added
+export type RawAnswer = Pick<Answer, "text" | "isCorrect" | "rationale">;
+export type RawQuestion = Pick<Question, "question" | "explanation"> & {
+  domain?: Domain;
+  difficulty?: Difficulty;
+  answers: RawAnswer[];
+  sourceExcerpt?: string; // Quote of the course material (grounded generation)
+  subtopic?: string; // Syllabus subtopic named by the model (normalized in toQuestion)
+  type?: string; // Question format (requests allowing formats besides QCM)
+  tolerance?: number; // NUMERIC: accepted gap around the expected value
+  rubric?: string[]; // OPEN_ENDED: points a complete answer covers
+};
+
+// Subset of JSON Schema understood by both OpenRouter and Gemini
+export interface JSONSchema {
+  type: "object" | "array" | "string" | "boolean" | "number" | "integer";
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+  enum?: string[];
+  minItems?: number;
+  additionalProperties?: boolean;
+}
+
+const ANSWER_REQUIRED: (keyof RawAnswer)[] = ["text", "isCorrect", "rationale"];
+const QUESTION_REQUIRED: (keyof RawQuestion)[] = [
+  "question",
+  "answers",
+  "explanation",
+  "difficulty",
+  "subtopic",
+];
+
+/**
+ * Build the response schema: { questions: RawQuestion[] }
+ * When domains are given (multi-domain requests), each question must carry one of them.
+ * Questions grounded in course material must quote it (sourceExcerpt).
+ * When formats besides QCM are allowed, each question names its type
+ * (and carries a grading rubric when open-ended questions are allowed).
+ */
+export function buildQuestionsSchema(
+  domains?: Domain[],
+  withSourceExcerpt = false,
+  formats?: QuestionType[],
+): JSONSchema {
+  const extraFormats = PROMPT_QUESTION_FORMATS.filter((f) => formats?.includes(f));
+
+  const answerSchema: JSONSchema = {
+    type: "object",
+    properties: {
+      text: { type: "string" },
+      isCorrect: { type: "boolean" },
+      rationale: { type: "string" },
+    },
+    required: ANSWER_REQUIRED,
+    additionalProperties: false,
+  };
+
+  const questionSchema: JSONSchema = {
+    type: "object",
+    properties: {
+      question: { type: "string" },
+      answers: { type: "array", items: answerSchema, minItems: extraFormats.length > 0 ? 1 : 2 },
+      explanation: { type: "string" },
+      difficulty: { type: "string", enum: DIFFICULTIES },
+      subtopic: { type: "string" },
+    },
+    required: [...QUESTION_REQUIRED],
+    additionalProperties: false,
+  };
+
+  if (domains && domains.length > 0) {
+    questionSchema.properties!.domain = { type: "string", enum: domains };
+    questionSchema.required!.push("domain");
+  }
+
+  if (withSourceExcerpt) {
+    questionSchema.properties!.sourceExcerpt = { type: "string" };
+    questionSchema.required!.push("sourceExcerpt");
+  }
+
+  if (extraFormats.length > 0) {
+    questionSchema.properties!.type = {
+      type: "string",
+      enum: [QuestionType.SINGLE_CHOICE, QuestionType.MULTIPLE_CHOICE, ...extraFormats],
+    };
+    questionSchema.properties!.tolerance = { type: "number" };
+    questionSchema.required!.push("type", "tolerance");
+  }
+
+  if (extraFormats.includes(QuestionType.OPEN_ENDED)) {
+    questionSchema.properties!.rubric = { type: "array", items: { type: "string" } };
+    questionSchema.required!.push("rubric");
+  }
+
+  return {
+    type: "object",
+    properties: {
+      questions: { type: "array", items: questionSchema },
+    },
+    required: ["questions"],
+    additionalProperties: false,
+  };
+}
+
+/**
+ * Convert a JSON schema to Gemini's OpenAPI subset
+ * (uppercase types, no additionalProperties)
+ */
+export function toGeminiSchema(schema: JSONSchema): Record<string, unknown> {
+  const { properties, items, type, ...rest } = schema;
+  delete rest.additionalProperties;
+  const result: Record<string, unknown> = { ...rest, type: type.toUpperCase() };
+
+  if (properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(properties).map(([key, value]) => [key, toGeminiSchema(value)]),
+    );
+  }
+  if (items) {
+    result.items = toGeminiSchema(items);
+  }
+
+  return result;
+}
+
+// ============================================
+// RUNTIME VALIDATION
+// ============================================
+
+/**
+ * Validate one question object against the schema, throwing on the first violation
+ */
+export function validateRawQuestion(
+  value: unknown,
+  index: number,
+  domains?: Domain[],
+): RawQuestion {
+  const q = value as Partial<RawQuestion> | null;
+
+  if (!q || typeof q !== "object") {
+    throw new Error(`questions[${index}] is not an object`);
+  }
+  if (typeof q.question !== "string" || !q.question.trim()) {
+    throw new Error(`questions[${index}].question must be a non-empty string`);
+  }
+  // Fill-in-the-blank, numeric and open-ended questions may list a single answer
+  const minAnswers =
+    q.type === QuestionType.FILL_BLANK ||
+    q.type === QuestionType.NUMERIC ||
+    q.type === QuestionType.OPEN_ENDED
+      ? 1
+      : 2;
+  if (!Array.isArray(q.answers) || q.answers.length < minAnswers) {
+    throw new Error(`questions[${index}].answers must contain at least ${minAnswers} answers`);
+  }
+  q.answers.forEach((a, i) => {
+    if (!a || typeof a.text !== "string" || typeof a.isCorrect !== "boolean") {
+      throw new Error(`questions[${index}].answers[${i}] must be {text: string, isCorrect: boolean}`);
+    }
+  });
+  q.answers.forEach((a, i) => {
+    if (a.rationale !== undefined && typeof a.rationale !== "string") {
+      throw new Error(`questions[${index}].answers[${i}].rationale must be a string`);
+    }
+  });
+  if (!q.answers.some((a) => a.isCorrect)) {
+    throw new Error(`questions[${index}] has no correct answer`);
+  }
+  if (q.rubric !== undefined && (!Array.isArray(q.rubric) || q.rubric.some((p) => typeof p !== "string"))) {
+    throw new Error(`questions[${index}].rubric must be an array of strings`);
+  }
+  if (q.explanation !== undefined && typeof q.explanation !== "string") {
+    throw new Error(`questions[${index}].explanation must be a string`);
+  }
+  if (domains && domains.length > 1 && !domains.includes(q.domain as Domain)) {
+    throw new Error(`questions[${index}].domain must be one of ${domains.join(", ")}`);
+  }
+
+  return {
+    question: q.question,
+    answers: q.answers,
+    explanation: q.explanation || "",
+    domain: q.domain,
+    difficulty: q.difficulty,
+    sourceExcerpt: typeof q.sourceExcerpt === "string" ? q.sourceExcerpt : undefined,
+    subtopic: typeof q.subtopic === "string" ? q.subtopic : undefined,
+    type: typeof q.type === "string" ? q.type : undefined,
+    tolerance: typeof q.tolerance === "number" ? q.tolerance : undefined,
+    rubric: q.rubric,
+  };
+}
+
+/**
+ * Build a Question from a validated raw question.
+ * fallbackDifficulty is recorded when the model returned no usable difficulty.
+ */
+export function toQuestion(
+  raw: RawQuestion,
+  domains: Domain[],
+  fallbackDifficulty: Difficulty = "medium",
+): Question {
+  const domain = raw.domain && domains.includes(raw.domain) ? raw.domain : domains[0];
+
+  const question: Question = {
+    id: generateId(),
+    domain,
+    type: inferQuestionType(raw.answers),
+    question: raw.question,
+    answers: raw.answers.map((a, i) => ({
+      id: `${generateId()}-${i}`,
+      text: a.text,
+      isCorrect: a.isCorrect,
+      ...(a.rationale?.trim() ? { rationale: a.rationale.trim() } : {}),
+    })),
+    explanation: raw.explanation,
+    difficulty: parseDifficulty(raw.difficulty, fallbackDifficulty),
+    tags: [domain],
+    createdAt: new Date(),
+    ...(raw.sourceExcerpt?.trim() ? { source: { excerpt: raw.sourceExcerpt.trim() } } : {}),
+  };
+  return tagSubtopic(applyQuestionFormat(question, raw), raw.subtopic);
+}
+
+/**
+ * Parse a structured-output response ({questions: [...]} or a bare array).
+ * Returns null when the content is not valid schema JSON, so callers can
+ * fall back to prompt-based parsing.
+ */
+export function parseStructuredQuestions(
+  content: string,
+  domains: Domain[],
+  fallbackDifficulty?: Difficulty,
+): Question[] | null {
+  try {
+    const data = JSON.parse(content.trim());
+    const items: unknown = Array.isArray(data) ? data : data?.questions;
+
+    if (!Array.isArray(items)) {
+      throw new Error("Missing questions array");
+    }
+
+    const questions = items.map((item, index) =>
+      toQuestion(validateRawQuestion(item, index, domains), domains, fallbackDifficulty),
+    );
+
+    console.log("[QuestionSchema] Parsed", questions.length, "structured questions");
+    return questions;
+  } catch (error) {
+    console.warn(
+      "[QuestionSchema] Structured parsing failed, falling back to prompt-based parsing:",
+      error instanceof Error ? error.message : error,
+    );
+    return null;
+  }
+}
+
+/**
+ * Recover the fully-formed, valid questions of a truncated or malformed
+ * response. Invalid objects are dropped; `salvagedCount` is what was kept.
+ */
+export function salvageQuestions(
+  content: string,
+  domains: Domain[],
+  fallbackDifficulty?: Difficulty,
+): { questions: Question[]; salvagedCount: number; complete: boolean } {
+  const { items, complete } = salvageJsonArray(content);
+  const questions: Question[] = [];
+
+  items.forEach((item, index) => {
+    try {
+      questions.push(
+        toQuestion(validateRawQuestion(item, index, domains), domains, fallbackDifficulty),
+      );
+    } catch (error) {
+      console.warn(
+        "[QuestionSchema] Dropping invalid salvaged question:",
+        error instanceof Error ? error.message : error,
+      );
+    }
+  });
+
+  return { questions, salvagedCount: questions.length, complete };
+}
+
+// ============================================
+// MODEL SUPPORT TRACKING
+// ============================================
+
+// "provider:model" pairs that rejected structured output (kept for the session)
+const structuredOutputUnsupported = new Set<string>();
+
+/**
+ * Whether structured output should be requested for this model
+ */
+export function supportsStructuredOutput(provider: string, model: string): boolean {
+  return !structuredOutputUnsupported.has(`${provider}:${model}`);
+}
+
+/**
+ * Remember that a model rejected structured output
+ */
+export function markStructuredOutputUnsupported(provider: string, model: string): void {
+  console.warn(`[QuestionSchema] ${provider}:${model} does not support structured output`);
+  structuredOutputUnsupported.add(`${provider}:${model}`);
+}
+
+/**
+ * Detect an API error caused by the structured-output parameters
+ */
+export function isStructuredOutputUnsupported(status: number, errorBody: unknown): boolean {
+  if (status !== 400 && status !== 404 && status !== 422) {
+    return false;
+  }
+  const text = JSON.stringify(errorBody ?? "").toLowerCase();
+  return /response_format|json_schema|structured|response_?schema|response_?mime_?type|json mode|require_parameters|no endpoints found/.test(
+    text,
+  );
+}
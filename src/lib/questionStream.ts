@@ -0,0 +1,153 @@
+import { Difficulty, Domain, Question } from "@/types";
+import { JsonArrayScanner } from "./partialJson";
+import { toQuestion, validateRawQuestion } from "./questionSchema";
+
+// ============================================
+// QUESTION STREAM
+// Server-sent events reader and incremental parser
+// handing each question over as soon as it is complete
+// ============================================
+
+/**
+ * Read a server-sent events body, yielding the data payload of each event.
+ * Comment lines (e.g. OpenRouter keep-alives) are ignored; stops at [DONE].
+ */
+export async function* readEventStream(response: Response): AsyncGenerator<string> {
+  if (!response.body) {
+    throw new Error("Streaming not supported by this response");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let pending = "";
+  let data: string[] = [];
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      pending += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      const lines = pending.split(/\r?\n/);
+      pending = done ? "" : lines.pop() || "";
+
+      for (const line of lines) {
+        if (line === "") {
+          // Blank line ends the event
+          if (data.length > 0) {
+            const payload = data.join("\n");
+            data = [];
+            if (payload === "[DONE]") return;
+            yield payload;
+          }
+        } else if (line.startsWith("data:")) {
+          data.push(line.slice(5).trimStart());
+        }
+      }
+
+      if (done) {
+        if (data.length > 0 && data.join("\n") !== "[DONE]") {
+          yield data.join("\n");
+        }
+        return;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Accumulates streamed text and emits every question whose JSON object
+ * is complete, validated against the schema
+ */
+export class QuestionStreamParser {
+  private scanner = new JsonArrayScanner();
+  private text = "";
+  private index = 0;
+  readonly questions: Question[] = [];
+
+  constructor(
+    private domains: Domain[],
+    private onQuestion: (question: Question) => void,
+    private fallbackDifficulty?: Difficulty,
+  ) {}
+
+  /**
+   * Full text received so far
+   */
+  get content(): string {
+    return this.text;
+  }
+
+  /**
+   * Feed a text delta, emitting the questions it completed
+   */
+  push(delta: string): void {
+    this.text += delta;
+
+    for (const item of this.scanner.push(delta)) {
+      let question: Question;
+      try {
+        question = toQuestion(
+          validateRawQuestion(item, this.index++, this.domains),
+          this.domains,
+          this.fallbackDifficulty,
+        );
+      } catch (error) {
+        console.warn(
+          "[QuestionStream] Dropping invalid streamed question:",
+          error instanceof Error ? error.message : error,
+        );
+        continue;
+      }
+      this.questions.push(question);
+      this.onQuestion(question);
+    }
+  }
+
+  /**
+   * Read a whole event stream, extracting the text delta of each event.
+   * If the stream breaks after some questions were emitted, they are kept
+   * (the caller tops up the remainder); otherwise the error is rethrown.
+   */
+  async consume<T>(
+    response: Response,
+    extractDelta: (event: T) => string | undefined,
+  ): Promise<void> {
+    try {
+      for await (const payload of readEventStream(response)) {
+        const event = JSON.parse(payload);
+        if (event.error) {
+          throw new Error(event.error.message || "Stream error");
+        }
+        const delta = extractDelta(event);
+        if (delta) {
+          this.push(delta);
+        }
+      }
+    } catch (error) {
+      if (this.questions.length === 0) {
+        throw error;
+      }
+      console.warn(
+        `[QuestionStream] Stream interrupted, keeping ${this.questions.length} streamed questions:`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Questions of the finished stream. Falls back to parsing the full text
+   * when nothing could be parsed incrementally.
+   */
+  finish(parseContent: (content: string) => Question[]): Question[] {
+    if (this.questions.length > 0) {
+      console.log("[QuestionStream] Streamed", this.questions.length, "questions");
+      return this.questions;
+    }
+    if (!this.text) {
+      throw new Error("Empty response from API");
+    }
+    return parseContent(this.text);
+  }
+}
@@ -0,0 +1,107 @@
+import { Question } from "@/types";
+import { JSONSchema } from "./questionSchema";
+import { salvageJsonArray } from "./partialJson";
+import { isChoiceQuestion } from "./scoring";
+import { buildReplyLanguageInstruction, getQuestionLanguage } from "./i18n";
+
+// ============================================
+// ANSWER RATIONALES
+// Why each option is right or wrong: generated with
+// new questions, backfilled on demand for older
+// and preloaded ones
+// ============================================
+
+export const RATIONALE_SYSTEM_PROMPT =
+  "Tu es un expert pédagogique en IA et Big Data. Tu expliques précisément pourquoi chaque option d'un QCM est correcte ou fausse, sans contredire le corrigé.";
+
+/**
+ * Whether some option of the question has no rationale yet
+ * (only options that can be picked have one)
+ */
+export function needsRationales(question: Question): boolean {
+  return isChoiceQuestion(question) && question.answers.some((a) => !a.rationale);
+}
+
+/**
+ * Prompt listing the questions with their answer key.
+ * Questions and options are numbered from 1; rationales are
+ * written in the language of the first question.
+ */
+export function buildRationalePrompt(questions: Question[]): string {
+  const list = questions
+    .map((q, i) => {
+      const options = q.answers
+        .map((a, j) => `   ${j + 1}) ${a.text} [${a.isCorrect ? "correcte" : "fausse"}]`)
+        .join("\n");
+      return `Q${i + 1}\n${q.question}\n${options}`;
+    })
+    .join("\n\n");
+
+  return `Pour chacune des ${questions.length} questions suivantes, le corrigé est indiqué entre crochets.
+
+${list}
+
+Pour chaque question, renvoie:
+- "question": son numéro
+- "rationales": une phrase par option, dans l'ordre des options: pourquoi elle est correcte, ou précisément en quoi elle est fausse${buildReplyLanguageInstruction(questions[0] && getQuestionLanguage(questions[0]))}
+
+Format: {"rationales": [{"question": 1, "rationales": ["...", "...", "...", "..."]}]}
+Retourne UNIQUEMENT le JSON, sans texte avant ou après.`;
+}
+
+/**
+ * Response schema: { rationales: [{question, rationales}] }
+ */
+export function buildRationaleSchema(): JSONSchema {
+  return {
+    type: "object",
+    properties: {
+      rationales: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            question: { type: "integer" },
+            rationales: { type: "array", items: { type: "string" } },
+          },
+          required: ["question", "rationales"],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ["rationales"],
+    additionalProperties: false,
+  };
+}
+
+/**
+ * Fill in the rationales returned by the model. Existing rationales are kept,
+ * malformed or out-of-range items are skipped.
+ */
+export function parseRationales(content: string, questions: Question[]): Question[] {
+  const { items } = salvageJsonArray(content);
+  const result = [...questions];
+  let parsed = 0;
+
+  for (const item of items) {
+    const r = item as { question?: unknown; rationales?: unknown };
+    const index = typeof r.question === "number" ? r.question - 1 : -1;
+    const question = result[index];
+    if (!question || !Array.isArray(r.rationales)) continue;
+
+    const rationales = r.rationales as unknown[];
+    result[index] = {
+      ...question,
+      answers: question.answers.map((a, j) => {
+        const rationale = rationales[j];
+        return a.rationale || typeof rationale !== "string" || !rationale.trim()
+          ? a
+          : { ...a, rationale: rationale.trim() };
+      }),
+    };
+    parsed++;
+  }
+
+  console.log("[Rationale] Parsed", parsed, "/", questions.length, "questions");
+  return result;
+}
@@ -0,0 +1,193 @@
+import { Answer, AnswerGrade, Question, QuestionType, ScoringMode, UserAnswer } from "@/types";
+import { normalizeText } from "./similarity";
+
+// ============================================
+// SCORING
+// Credit earned per question: single choice,
+// "select all that apply", true/false, fill-in-the-blank,
+// ordering, numeric and AI-graded open-ended answers
+// ============================================
+
+export const DEFAULT_SCORING_MODE: ScoringMode = "all-or-nothing";
+
+// AI grade from which an open-ended answer counts as correct
+export const OPEN_ANSWER_PASS_SCORE = 0.7;
+
+/**
+ * Question type implied by its answers: several correct answers make it multiple choice
+ */
+export function inferQuestionType(answers: Pick<Answer, "isCorrect">[]): QuestionType {
+  return answers.filter((a) => a.isCorrect).length > 1
+    ? QuestionType.MULTIPLE_CHOICE
+    : QuestionType.SINGLE_CHOICE;
+}
+
+/**
+ * Whether the question is answered by picking options (QCM, true/false)
+ */
+export function isChoiceQuestion(question: Question): boolean {
+  return (
+    question.type !== QuestionType.FILL_BLANK &&
+    question.type !== QuestionType.ORDERING &&
+    question.type !== QuestionType.NUMERIC &&
+    question.type !== QuestionType.OPEN_ENDED
+  );
+}
+
+/**
+ * Whether the user may select several answers
+ */
+export function isMultipleChoice(question: Question): boolean {
+  return question.type === QuestionType.MULTIPLE_CHOICE;
+}
+
+/**
+ * Next selection after clicking an answer: replaces it for single choice,
+ * toggles it for multiple choice
+ */
+export function selectAnswer(
+  question: Question,
+  selectedIds: string[],
+  answerId: string,
+): string[] {
+  if (!isMultipleChoice(question)) return [answerId];
+  return selectedIds.includes(answerId)
+    ? selectedIds.filter((id) => id !== answerId)
+    : [...selectedIds, answerId];
+}
+
+/**
+ * IDs of the correct answers of a question
+ */
+export function getCorrectAnswerIds(question: Question): string[] {
+  return question.answers.filter((a) => a.isCorrect).map((a) => a.id);
+}
+
+/**
+ * A correct response, in the shape of UserAnswer.selectedAnswerIds
+ */
+export function getCorrectResponse(question: Question): string[] {
+  switch (question.type) {
+    case QuestionType.ORDERING:
+      return question.answers.map((a) => a.id);
+    case QuestionType.FILL_BLANK:
+    case QuestionType.NUMERIC:
+    case QuestionType.OPEN_ENDED:
+      return question.answers.slice(0, 1).map((a) => a.text);
+    default:
+      return getCorrectAnswerIds(question);
+  }
+}
+
+/**
+ * Values a number typed by the user stands for ("0,75", "75 %", "1e-3"),
+ * or null if it is not a number. Percentages are also read as ratios
+ * ("75 %" matches 0.75).
+ */
+export function parseNumericResponse(text: string): number[] | null {
+  const cleaned = text.trim().replace(/\s/g, "").replace(",", ".");
+  const isPercent = cleaned.endsWith("%");
+  const value = Number(isPercent ? cleaned.slice(0, -1) : cleaned);
+  if (!cleaned || !Number.isFinite(value)) return null;
+  return isPercent ? [value, value / 100] : [value];
+}
+
+/**
+ * Exact match: every correct answer selected and nothing else
+ * (ordering: every step in place; fill-in: an accepted word;
+ * numeric: within the tolerance; open-ended: graded at least OPEN_ANSWER_PASS_SCORE)
+ */
+export function isAnswerCorrect(
+  question: Question,
+  selectedIds: string[],
+  grade?: AnswerGrade,
+): boolean {
+  switch (question.type) {
+    case QuestionType.OPEN_ENDED:
+      return !!grade && grade.score >= OPEN_ANSWER_PASS_SCORE;
+    case QuestionType.ORDERING:
+      return (
+        selectedIds.length === question.answers.length &&
+        question.answers.every((a, i) => selectedIds[i] === a.id)
+      );
+    case QuestionType.FILL_BLANK: {
+      const typed = normalizeText(selectedIds[0] || "");
+      return !!typed && question.answers.some((a) => normalizeText(a.text) === typed);
+    }
+    case QuestionType.NUMERIC: {
+      // Expected values are read like answers ("75 %", "1 000")
+      const expected = parseNumericResponse(question.answers[0]?.text || "");
+      const values = parseNumericResponse(selectedIds[0] || "");
+      if (!values || !expected) return false;
+      // Floating-point slack so that a 0 tolerance still accepts the exact value
+      const tolerance = (question.tolerance ?? 0) + 1e-9;
+      return values.some((v) => expected.some((e) => Math.abs(v - e) <= tolerance));
+    }
+  }
+
+  const correctIds = getCorrectAnswerIds(question);
+  return (
+    selectedIds.length === correctIds.length &&
+    correctIds.every((id) => selectedIds.includes(id))
+  );
+}
+
+/**
+ * Credit in [0, 1] for a selection.
+ * Partial credit (multiple choice): +1/k per correct answer selected,
+ * -1/(n-k) per wrong answer selected, floored at 0 — selecting everything earns nothing.
+ * Partial credit (ordering): share of the steps in their place.
+ * Open-ended answers earn their AI grade in both modes (0 until graded).
+ */
+export function scoreAnswer(
+  question: Question,
+  selectedIds: string[],
+  mode: ScoringMode = DEFAULT_SCORING_MODE,
+  grade?: AnswerGrade,
+): number {
+  if (question.type === QuestionType.OPEN_ENDED) return grade?.score ?? 0;
+  if (isAnswerCorrect(question, selectedIds)) return 1;
+  if (mode !== "partial") return 0;
+
+  if (question.type === QuestionType.ORDERING) {
+    const inPlace = question.answers.filter((a, i) => selectedIds[i] === a.id).length;
+    return Math.round((inPlace / question.answers.length) * 100) / 100;
+  }
+  if (!isMultipleChoice(question)) return 0;
+
+  const correctIds = getCorrectAnswerIds(question);
+  const wrongCount = question.answers.length - correctIds.length;
+  const hits = selectedIds.filter((id) => correctIds.includes(id)).length;
+  const misses = selectedIds.length - hits;
+
+  const credit = hits / correctIds.length - (wrongCount > 0 ? misses / wrongCount : 0);
+  return Math.max(0, Math.round(credit * 100) / 100);
+}
+
+/**
+ * Credit recorded for a user answer (answers saved before partial credit count 0 or 1)
+ */
+export function getAnswerCredit(userAnswer: UserAnswer): number {
+  return userAnswer.score ?? (userAnswer.isCorrect ? 1 : 0);
+}
+
+/**
+ * Build the UserAnswer stored for a selection
+ */
+export function buildUserAnswer(
+  question: Question,
+  selectedIds: string[],
+  mode: ScoringMode,
+  isFavorite: boolean,
+  grade?: AnswerGrade,
+): UserAnswer {
+  return {
+    questionId: question.id,
+    selectedAnswerIds: selectedIds,
+    isCorrect: isAnswerCorrect(question, selectedIds, grade),
+    score: scoreAnswer(question, selectedIds, mode, grade),
+    ...(grade && { grade }),
+    timeSpent: 0,
+    isFavorite,
+  };
+}
@@ -0,0 +1,217 @@
+// ============================================
+// SIMILARITY
+// Offline near-duplicate detection of question texts
+// (MinHash over meaningful words, LSH buckets) and the
+// compact topic summary sent to the model instead of
+// the full list of previous questions
+// ============================================
+
+// Estimated Jaccard similarity (of meaningful words) above which a question is a duplicate
+export const DUPLICATE_THRESHOLD = 0.65;
+
+// 32 bands of 2 rows: pairs around the threshold almost always share a bucket
+const NUM_HASHES = 64;
+const BAND_ROWS = 2;
+
+const MAX_TOPICS = 30;
+
+// Words that say nothing about the topic of a question (compared without accents)
+const STOPWORDS = new Set(
+  (
+    "le la les l un une des du de d et ou a au aux en dans par pour sur avec sans sous entre " +
+    "ce cet cette ces c qui que qu quoi dont ou est sont etre ont avoir fait faire peut peuvent " +
+    "se s ne n pas plus moins tres son sa ses leur leurs il elle ils elles on nous vous je " +
+    "quel quelle quels quelles comment pourquoi quand parmi suivant suivante suivants suivantes " +
+    "affirmation affirmations principal principale principaux lors afin ainsi donc " +
+    "utilise utilisee utilises utilisees permet permettent consiste definit " +
+    "correct correcte correctes vrai fausse faux question questions reponse reponses " +
+    "the of and or to in on for with is are what which how why when an by as at from"
+  ).split(" ")
+);
+
+/**
+ * Lowercase, strip accents and punctuation
+ */
+export function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/**
+ * Meaningful words of a text, lightly stemmed (plural "s"/"x" dropped)
+ */
+function tokenize(text: string): string[] {
+  return normalizeText(text)
+    .split(" ")
+    .filter((word) => word.length > 1 && !STOPWORDS.has(word))
+    .map((word) => (word.length > 3 && /[sx]$/.test(word) ? word.slice(0, -1) : word));
+}
+
+/**
+ * FNV-1a hash of a string
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Murmur3 finalizer, used to derive the independent hash functions
+ */
+function mix(value: number): number {
+  let x = value;
+  x ^= x >>> 16;
+  x = Math.imul(x, 0x85ebca6b);
+  x ^= x >>> 13;
+  x = Math.imul(x, 0xc2b2ae35);
+  x ^= x >>> 16;
+  return x >>> 0;
+}
+
+const SEEDS = Array.from({ length: NUM_HASHES }, (_, i) => mix(i + 1));
+
+/**
+ * MinHash signature: for each hash function, the smallest hash of any shingle
+ */
+function minHash(words: Set<string>): Uint32Array {
+  const signature = new Uint32Array(NUM_HASHES).fill(0xffffffff);
+  for (const word of words) {
+    const base = hashString(word);
+    for (let i = 0; i < NUM_HASHES; i++) {
+      const h = mix(base ^ SEEDS[i]);
+      if (h < signature[i]) signature[i] = h;
+    }
+  }
+  return signature;
+}
+
+/**
+ * Fraction of matching signature slots (estimates the Jaccard similarity)
+ */
+function compareSignatures(a: Uint32Array, b: Uint32Array): number {
+  let same = 0;
+  for (let i = 0; i < NUM_HASHES; i++) {
+    if (a[i] === b[i]) same++;
+  }
+  return same / NUM_HASHES;
+}
+
+function bandKeys(signature: Uint32Array): string[] {
+  const keys: string[] = [];
+  for (let band = 0; band < NUM_HASHES / BAND_ROWS; band++) {
+    const rows = signature.subarray(band * BAND_ROWS, (band + 1) * BAND_ROWS);
+    keys.push(`${band}:${rows.join(",")}`);
+  }
+  return keys;
+}
+
+/**
+ * In-memory index of question texts answering "is this a near-duplicate?"
+ * without comparing against every stored question
+ */
+export class SimilarityIndex {
+  private signatures: Uint32Array[] = [];
+  private texts: string[] = [];
+  private buckets = new Map<string, number[]>();
+
+  get size(): number {
+    return this.texts.length;
+  }
+
+  add(text: string): void {
+    const words = new Set(tokenize(text));
+    if (words.size === 0) return;
+
+    const signature = minHash(words);
+    const id = this.texts.length;
+    this.signatures.push(signature);
+    this.texts.push(text);
+
+    for (const key of bandKeys(signature)) {
+      const bucket = this.buckets.get(key);
+      if (bucket) bucket.push(id);
+      else this.buckets.set(key, [id]);
+    }
+  }
+
+  /**
+   * Most similar indexed text at or above the threshold, if any
+   */
+  findSimilar(
+    text: string,
+    threshold = DUPLICATE_THRESHOLD,
+  ): { text: string; similarity: number } | null {
+    const words = new Set(tokenize(text));
+    if (words.size === 0) return null;
+
+    const signature = minHash(words);
+    const candidates = new Set<number>();
+    for (const key of bandKeys(signature)) {
+      this.buckets.get(key)?.forEach((id) => candidates.add(id));
+    }
+
+    let best: { text: string; similarity: number } | null = null;
+    for (const id of candidates) {
+      const similarity = compareSignatures(signature, this.signatures[id]);
+      if (similarity >= threshold && (!best || similarity > best.similarity)) {
+        best = { text: this.texts[id], similarity };
+      }
+    }
+    return best;
+  }
+}
+
+/**
+ * Most frequent concepts across questions: recurring word pairs
+ * ("machine learning"), then words, by number of questions using them
+ */
+export function summarizeTopics(texts: string[], maxTopics = MAX_TOPICS): string[] {
+  const frequency = new Map<string, number>();
+  for (const text of texts) {
+    const tokens = tokenize(text).filter((word) => word.length > 2);
+    const terms = new Set(tokens);
+    for (let i = 0; i < tokens.length - 1; i++) {
+      terms.add(`${tokens[i]} ${tokens[i + 1]}`);
+    }
+    terms.forEach((term) => frequency.set(term, (frequency.get(term) || 0) + 1));
+  }
+
+  const isPair = (term: string) => term.includes(" ");
+  const ranked = [...frequency.entries()]
+    .filter(([term, count]) => !isPair(term) || count > 1)
+    .sort(([a, countA], [b, countB]) => countB - countA || Number(isPair(b)) - Number(isPair(a)));
+
+  const topics: string[] = [];
+  for (const [term] of ranked) {
+    if (topics.length >= maxTopics) break;
+    // A word already covered by a chosen pair adds nothing
+    if (!isPair(term) && topics.some((t) => t.split(" ").includes(term))) continue;
+    topics.push(term);
+  }
+  return topics;
+}
+
+/**
+ * Prompt instruction steering away from topics already covered
+ * (replaces pasting every previous question)
+ */
+export function buildCoveredTopicsInstruction(previousQuestions?: string[]): string {
+  if (!previousQuestions || previousQuestions.length === 0) {
+    return "";
+  }
+
+  const topics = summarizeTopics(previousQuestions);
+  if (topics.length === 0) {
+    return "";
+  }
+
+  return `\n\nIMPORTANT: ${previousQuestions.length} questions ont déjà été générées. Notions déjà couvertes: ${topics.join(", ")}. Tu DOIS générer des questions DIFFÉRENTES qui abordent d'autres notions ou d'autres angles.\n\n`;
+}
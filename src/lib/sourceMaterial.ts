@@ -0,0 +1,148 @@
+import { Question, SourceDocument, SourcePassage } from "@/types";
+import { normalizeText } from "./similarity";
+
+// ============================================
+// SOURCE MATERIAL
+// The user's course material ("Mes supports"):
+// passages small enough for one prompt, grounded
+// prompt context, and the excerpt each question quotes
+// ============================================
+
+// Characters of course material sent per request (~1.5k tokens)
+export const MAX_PASSAGE_LENGTH = 6000;
+
+const MAX_EXCERPT_LENGTH = 400;
+
+/**
+ * Cut a text longer than a passage at sentence ends (hard cut as a last resort)
+ */
+function splitLongText(text: string): string[] {
+  if (text.length <= MAX_PASSAGE_LENGTH) return [text];
+
+  const pieces: string[] = [];
+  let piece = "";
+  for (const sentence of text.split(/(?<=[.!?])\s+/)) {
+    if (piece && piece.length + sentence.length + 1 > MAX_PASSAGE_LENGTH) {
+      pieces.push(piece);
+      piece = "";
+    }
+    piece = piece ? `${piece} ${sentence}` : sentence;
+    while (piece.length > MAX_PASSAGE_LENGTH) {
+      pieces.push(piece.slice(0, MAX_PASSAGE_LENGTH));
+      piece = piece.slice(MAX_PASSAGE_LENGTH);
+    }
+  }
+  if (piece) pieces.push(piece);
+  return pieces;
+}
+
+/**
+ * Split a document into passages at paragraph boundaries.
+ * A Markdown heading starts a new passage (unless the current one is
+ * still short) and names the passages that follow it.
+ */
+export function splitPassages(document: SourceDocument): SourcePassage[] {
+  const paragraphs = document.content
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean);
+
+  const passages: SourcePassage[] = [];
+  let heading: string | undefined;
+  let passageHeading: string | undefined;
+  let current: string[] = [];
+  let length = 0;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    passages.push({
+      documentId: document.id,
+      title: passageHeading ? `${document.title} — ${passageHeading}` : document.title,
+      text: current.join("\n\n"),
+    });
+    current = [];
+    length = 0;
+  };
+
+  for (const paragraph of paragraphs) {
+    const headingMatch = document.format === "markdown" && paragraph.match(/^#{1,3}\s+(.+)/);
+    if (headingMatch) {
+      if (length > MAX_PASSAGE_LENGTH / 3) flush();
+      heading = headingMatch[1].trim();
+    }
+
+    for (const piece of splitLongText(paragraph)) {
+      if (length + piece.length > MAX_PASSAGE_LENGTH) flush();
+      if (current.length === 0) passageHeading = heading;
+      current.push(piece);
+      length += piece.length + 2;
+    }
+  }
+  flush();
+
+  return passages;
+}
+
+/**
+ * Prompt context replacing the domain syllabus: the model may only
+ * use the passage, and quotes the sentence backing each answer
+ */
+export function buildSourceContext(source: SourcePassage): string {
+  return `à partir du support de cours « ${source.title} » fourni par l'étudiant. Base-toi UNIQUEMENT sur ce support: chaque question, sa bonne réponse et son explication doivent être justifiées par le texte ci-dessous, sans connaissances extérieures.
+
+---DÉBUT DU SUPPORT---
+${source.text}
+---FIN DU SUPPORT---
+
+Ajoute à chaque question le champ "sourceExcerpt": la phrase du support (une ou deux au plus) qui justifie la bonne réponse, citée mot pour mot.`;
+}
+
+/**
+ * Sentence of the passage sharing the most words with the reference text
+ */
+function findClosestSentence(text: string, reference: string): string {
+  const words = new Set(
+    normalizeText(reference)
+      .split(" ")
+      .filter((word) => word.length > 3)
+  );
+
+  let best = "";
+  let bestScore = -1;
+  for (const sentence of text.split(/(?<=[.!?])\s+|\n+/)) {
+    const candidate = sentence.trim();
+    if (candidate.length < 20) continue;
+
+    const score = normalizeText(candidate)
+      .split(" ")
+      .filter((word) => words.has(word)).length;
+    if (score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+  return best || text.trim();
+}
+
+/**
+ * Link a grounded question to its passage. The excerpt quoted by the model
+ * is kept when it really is in the passage; otherwise (missing, paraphrased)
+ * the passage sentence closest to the question and explanation is quoted.
+ */
+export function linkQuestionSource(question: Question, passage: SourcePassage): Question {
+  const quoted = question.source?.excerpt.trim();
+  const isQuoted = !!quoted && normalizeText(passage.text).includes(normalizeText(quoted));
+  const excerpt = isQuoted
+    ? quoted
+    : findClosestSentence(passage.text, `${quoted || ""} ${question.question} ${question.explanation}`);
+
+  return {
+    ...question,
+    source: {
+      excerpt:
+        excerpt.length > MAX_EXCERPT_LENGTH ? `${excerpt.slice(0, MAX_EXCERPT_LENGTH)}…` : excerpt,
+      documentId: passage.documentId,
+      documentTitle: passage.title,
+    },
+  };
+}
@@ -0,0 +1,260 @@
+import { BuiltInDomain, Domain, Question } from "@/types";
+import { getCustomDomain } from "./customDomains";
+import { normalizeText } from "./similarity";
+
+// ============================================
+// SUBTOPICS
+// Structured syllabus of each domain: the prompt
+// sent to the model, subtopic targeting, and the
+// subtopic each question is tagged with
+// ============================================
+
+interface DomainSyllabus {
+  name: string; // Name used in prompts
+  subtopics: string[];
+}
+
+export const DOMAIN_SYLLABUS: Record<BuiltInDomain, DomainSyllabus> = {
+  [BuiltInDomain.MACHINE_LEARNING]: {
+    name: "Machine Learning Fondamental",
+    subtopics: [
+      "algorithmes supervisés",
+      "non supervisés",
+      "régression",
+      "classification",
+      "clustering",
+      "evaluation de modèles",
+      "biais/variance",
+      "overfitting/underfitting",
+    ],
+  },
+  [BuiltInDomain.IA_SYMBOLIQUE]: {
+    name: "IA Symbolique",
+    subtopics: [
+      "systèmes experts",
+      "logique propositionnelle",
+      "SAT",
+      "planification",
+      "représentation des connaissances",
+      "raisonnement",
+      "graphes de recherche",
+    ],
+  },
+  [BuiltInDomain.DATA_WAREHOUSING]: {
+    name: "Data Warehousing",
+    subtopics: [
+      "ETL",
+      "architecture en étoile/flacon",
+      "schémas dimensionnels",
+      "modélisation",
+      "data marts",
+      "SCD",
+      "optimisation de requêtes",
+    ],
+  },
+  [BuiltInDomain.BIG_DATA]: {
+    name: "Big Data",
+    subtopics: [
+      "frameworks distribués (Hadoop, Spark)",
+      "NoSQL",
+      "streaming",
+      "MapReduce",
+      "scalabilité",
+      "partitionnement",
+      "sharding",
+      "CAP theorem",
+    ],
+  },
+  [BuiltInDomain.SYSTEMES_RECOMMANDATION]: {
+    name: "Systèmes de Recommandation",
+    subtopics: [
+      "filtrage collaboratif",
+      "contenu",
+      "hybride",
+      "matrix factorization",
+      "cold start",
+      "évaluation",
+      "biais",
+      "fairité",
+    ],
+  },
+  [BuiltInDomain.DATA_MINING]: {
+    name: "Data Mining",
+    subtopics: [
+      "pattern discovery",
+      "association rules",
+      "sequential pattern mining",
+      "outlier detection",
+      "preprocessing",
+      "feature engineering",
+      "validation",
+    ],
+  },
+  [BuiltInDomain.DEEP_LEARNING]: {
+    name: "Deep Learning",
+    subtopics: [
+      "réseaux de neurones",
+      "CNN",
+      "RNN",
+      "LSTM",
+      "Transformer",
+      "backpropagation",
+      "activation functions",
+      "optimisation",
+      "regularisation",
+    ],
+  },
+  [BuiltInDomain.VISUALISATION_DONNEES]: {
+    name: "Visualisation de Données",
+    subtopics: [
+      "principes de perception",
+      "types de graphiques",
+      "interaction",
+      "dashboards",
+      "storytelling",
+      "outils (D3.js, matplotlib)",
+      "best practices",
+    ],
+  },
+  [BuiltInDomain.ETHIQUE_IA]: {
+    name: "Éthique de l'IA",
+    subtopics: [
+      "biais algorithmiques",
+      "équité",
+      "accountability",
+      "transparence",
+      "vie privée",
+      "impact social",
+      "régulation",
+      "AI act",
+      "responsible AI",
+    ],
+  },
+  [BuiltInDomain.NLP]: {
+    name: "Traitement du Langage Naturel",
+    subtopics: [
+      "tokenization",
+      "embeddings",
+      "attention",
+      "transformers",
+      "BERT",
+      "GPT",
+      "sentiment analysis",
+      "traduction",
+      "NER",
+      "langage vs parole",
+    ],
+  },
+};
+
+// Custom domain syllabi are free text: long entries are not treated as subtopics
+const MAX_CUSTOM_SUBTOPIC_LENGTH = 60;
+
+/**
+ * Subtopics of a domain (custom domains: the comma-separated items of their syllabus)
+ */
+export function getDomainSubtopics(domain: Domain): string[] {
+  const builtIn = DOMAIN_SYLLABUS[domain as BuiltInDomain];
+  if (builtIn) return builtIn.subtopics;
+
+  const custom = getCustomDomain(domain);
+  if (!custom) return [];
+  return custom.prompt
+    .split(/[,;\n]/)
+    .map((item) => item.trim().replace(/\.$/, ""))
+    .filter((item) => item && item.length <= MAX_CUSTOM_SUBTOPIC_LENGTH);
+}
+
+/**
+ * Syllabus line sent to the model. When subtopics are picked,
+ * the questions are restricted to them.
+ */
+export function getDomainPrompt(domain: Domain, subtopics?: string[]): string {
+  const builtIn = DOMAIN_SYLLABUS[domain as BuiltInDomain];
+  const custom = getCustomDomain(domain);
+  const name = builtIn?.name ?? custom?.label ?? domain;
+
+  if (subtopics && subtopics.length > 0) {
+    return `${name}, UNIQUEMENT sur les sous-thèmes suivants: ${subtopics.join(", ")}.`;
+  }
+  if (builtIn) return `${name}: ${builtIn.subtopics.join(", ")}.`;
+  return custom?.prompt ? `${name}: ${custom.prompt}` : name;
+}
+
+/**
+ * Words a subtopic is recognized by ("biais/variance" -> "biais", "variance")
+ */
+function getSubtopicTerms(subtopic: string): string[] {
+  return subtopic
+    .split(/[/(),]|\bvs\b/)
+    .map((term) => normalizeText(term))
+    .filter((term) => term.length >= 3);
+}
+
+/**
+ * Canonical subtopic of a domain matching a label written by the model
+ */
+export function matchSubtopic(domain: Domain, label: string | undefined): string | undefined {
+  if (!label) return undefined;
+  const normalized = normalizeText(label);
+  if (!normalized) return undefined;
+  const subtopics = getDomainSubtopics(domain);
+  return (
+    subtopics.find((s) => normalizeText(s) === normalized) ??
+    subtopics.find((s) => normalized.includes(normalizeText(s)) || normalizeText(s).includes(normalized))
+  );
+}
+
+/**
+ * Subtopic of a question without one (bundled packs, older questions):
+ * the subtopic whose terms appear most often in its text
+ */
+export function inferSubtopic(question: Question): string | undefined {
+  const text = ` ${normalizeText(
+    [question.question, ...question.answers.map((a) => a.text), question.explanation, ...question.tags].join(" ")
+  )} `;
+
+  let best: string | undefined;
+  let bestScore = 0;
+  for (const subtopic of getDomainSubtopics(question.domain)) {
+    const score = getSubtopicTerms(subtopic).filter((term) => text.includes(` ${term} `)).length;
+    if (score > bestScore) {
+      best = subtopic;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Subtopic of a question: the one it was tagged with, or the inferred one
+ */
+export function getQuestionSubtopic(question: Question): string | undefined {
+  return question.subtopic ?? inferSubtopic(question);
+}
+
+/**
+ * Tag a generated question with its subtopic (the model's label when it
+ * names one of the domain's subtopics, otherwise inferred from the text)
+ */
+export function tagSubtopic(question: Question, label?: string): Question {
+  const subtopic = matchSubtopic(question.domain, label) ?? inferSubtopic(question);
+  if (!subtopic) return question;
+  return {
+    ...question,
+    subtopic,
+    tags: [...question.tags.filter((tag) => tag !== subtopic), subtopic],
+  };
+}
+
+/**
+ * Number of questions per subtopic (questions without a known subtopic are skipped)
+ */
+export function countSubtopics(questions: Question[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  questions.forEach((question) => {
+    const subtopic = getQuestionSubtopic(question);
+    if (subtopic) counts[subtopic] = (counts[subtopic] || 0) + 1;
+  });
+  return counts;
+}
@@ -0,0 +1,144 @@
+import { Language, Question } from "@/types";
+import { JSONSchema } from "./questionSchema";
+import { salvageJsonArray } from "./partialJson";
+import { generateId } from "./utils";
+
+// ============================================
+// QUESTION TRANSLATION
+// Existing questions rewritten in another language,
+// saved as new questions next to the originals
+// ============================================
+
+export const TRANSLATION_SYSTEM_PROMPT =
+  "Tu es un traducteur technique spécialisé en IA et Big Data. Tu traduis fidèlement des questions de révision sans changer leur sens ni leur corrigé, en gardant les termes techniques usuels de la langue cible.";
+
+// Target language names as written in the prompt
+const TARGET_NAMES: Record<Language, string> = {
+  fr: "français",
+  en: "anglais (English)",
+};
+
+/**
+ * Prompt listing the questions to translate, numbered from 1
+ */
+export function buildTranslationPrompt(questions: Question[], language: Language): string {
+  const list = questions
+    .map((q, i) => {
+      const answers = q.answers.map((a, j) => `   ${j + 1}) ${a.text}`).join("\n");
+      const rationales = q.answers.some((a) => a.rationale)
+        ? `\n   Justifications: ${JSON.stringify(q.answers.map((a) => a.rationale || ""))}`
+        : "";
+      const rubric = q.rubric?.length ? `\n   Barème: ${JSON.stringify(q.rubric)}` : "";
+      return `Q${i + 1}\n${q.question}\n${answers}\n   Explication: ${q.explanation}${rationales}${rubric}`;
+    })
+    .join("\n\n");
+
+  return `Traduis les ${questions.length} questions suivantes en ${TARGET_NAMES[language]}.
+
+${list}
+
+Pour chaque question, renvoie:
+- "question": son numéro
+- "text": l'énoncé traduit (garde "___" tel quel s'il est présent)
+- "answers": les réponses traduites, dans le même ordre (les nombres restent inchangés)
+- "explanation": l'explication traduite
+- "rationales": les justifications traduites dans le même ordre (liste vide s'il n'y en a pas)
+- "rubric": le barème traduit (liste vide s'il n'y en a pas)
+
+Format: {"translations": [{"question": 1, "text": "...", "answers": ["..."], "explanation": "...", "rationales": [], "rubric": []}]}
+Retourne UNIQUEMENT le JSON, sans texte avant ou après.`;
+}
+
+/**
+ * Response schema: { translations: [{question, text, answers, explanation, rationales, rubric}] }
+ */
+export function buildTranslationSchema(): JSONSchema {
+  const strings: JSONSchema = { type: "array", items: { type: "string" } };
+  return {
+    type: "object",
+    properties: {
+      translations: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            question: { type: "integer" },
+            text: { type: "string" },
+            answers: strings,
+            explanation: { type: "string" },
+            rationales: strings,
+            rubric: strings,
+          },
+          required: ["question", "text", "answers", "explanation", "rationales", "rubric"],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ["translations"],
+    additionalProperties: false,
+  };
+}
+
+/**
+ * Translated copies of the questions (new IDs, same answer key).
+ * Items whose answers do not line up with the original are skipped.
+ */
+export function parseTranslations(
+  content: string,
+  questions: Question[],
+  language: Language,
+): Question[] {
+  const { items } = salvageJsonArray(content);
+  const translated: Question[] = [];
+
+  for (const item of items) {
+    const r = item as {
+      question?: unknown;
+      text?: unknown;
+      answers?: unknown;
+      explanation?: unknown;
+      rationales?: unknown;
+      rubric?: unknown;
+    };
+    const original = typeof r.question === "number" ? questions[r.question - 1] : undefined;
+    if (!original || typeof r.text !== "string" || !r.text.trim()) continue;
+
+    const answers = Array.isArray(r.answers) ? (r.answers as unknown[]) : [];
+    if (
+      answers.length !== original.answers.length ||
+      answers.some((a) => typeof a !== "string" || !a.trim())
+    ) {
+      continue;
+    }
+    const rationales = Array.isArray(r.rationales) ? (r.rationales as unknown[]) : [];
+    const rubric = Array.isArray(r.rubric)
+      ? (r.rubric as unknown[]).filter((p): p is string => typeof p === "string" && !!p.trim())
+      : [];
+
+    const id = generateId();
+    translated.push({
+      ...original,
+      id,
+      question: r.text.trim(),
+      answers: original.answers.map((a, j) => {
+        const rationale = rationales[j];
+        return {
+          id: `${id}-${j}`,
+          text: (answers[j] as string).trim(),
+          isCorrect: a.isCorrect,
+          ...(a.rationale && typeof rationale === "string" && rationale.trim()
+            ? { rationale: rationale.trim() }
+            : {}),
+        };
+      }),
+      explanation: typeof r.explanation === "string" ? r.explanation.trim() : original.explanation,
+      rubric: original.rubric && rubric.length > 0 ? rubric : original.rubric,
+      language,
+      tutorChat: undefined,
+      createdAt: new Date(),
+    });
+  }
+
+  console.log("[Translation] Translated", translated.length, "/", questions.length, "questions");
+  return translated;
+}
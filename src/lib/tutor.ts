@@ -0,0 +1,83 @@
+import { Question, TutorChatRequest, TutorMessage } from "@/types";
+import { getDomainLabel } from "./utils";
+import { buildReplyLanguageInstruction, getQuestionLanguage } from "./i18n";
+import { isChoiceQuestion } from "./scoring";
+import {
+  QUESTION_FORMAT_LABELS,
+  describeCorrectResponse,
+  describeResponse,
+} from "./questionFormats";
+
+// ============================================
+// TUTOR
+// "Approfondir" conversation about an answered
+// question: the question, its options, the user's
+// answer and the explanation are sent as context
+// ============================================
+
+export const TUTOR_SYSTEM_PROMPT =
+  "Tu es un tuteur expert en IA et Big Data. Tu aides un étudiant à comprendre une question de QCM qu'il vient de corriger: tu expliques clairement, avec des exemples concrets, dans la langue de la question et sans remettre en cause le corrigé sans raison solide.";
+
+// Follow-ups offered before the user types their own
+// Earlier messages beyond this are left out of the prompt
+const MAX_TUTOR_HISTORY = 12;
+
+/**
+ * Context block describing the question and how the user answered it.
+ * Options are lettered like in QuestionCard (A, B, C...).
+ */
+export function buildTutorContext(question: Question, selectedAnswerIds: string[]): string {
+  const header = `Domaine: ${getDomainLabel(question.domain)}${question.subtopic ? ` (${question.subtopic})` : ""}`;
+
+  // Typed or ordered answers: the answer key and the response in words
+  if (!isChoiceQuestion(question)) {
+    return `${header}
+
+Question (${QUESTION_FORMAT_LABELS[question.type]}): ${question.question}
+Réponse attendue: ${describeCorrectResponse(question)}
+
+Réponse de l'étudiant: ${describeResponse(question, selectedAnswerIds) || "aucune"}
+Explication du corrigé: ${question.explanation || "(aucune)"}`;
+  }
+
+  const letter = (index: number) => String.fromCharCode(65 + index);
+  const options = question.answers
+    .map((a, i) => `${letter(i)}) ${a.text}${a.isCorrect ? " [correcte]" : ""}`)
+    .join("\n");
+  const chosen = question.answers
+    .map((a, i) => (selectedAnswerIds.includes(a.id) ? letter(i) : null))
+    .filter(Boolean);
+
+  return `${header}
+
+Question: ${question.question}
+${options}
+
+Réponse de l'étudiant: ${chosen.length > 0 ? chosen.join(", ") : "aucune"}
+Explication du corrigé: ${question.explanation || "(aucune)"}`;
+}
+
+/**
+ * Prompt for the tutor's next reply: the question context followed by
+ * the conversation so far (which ends with the student's message)
+ */
+export function buildTutorPrompt(request: TutorChatRequest): string {
+  const transcript = request.messages
+    .slice(-MAX_TUTOR_HISTORY)
+    .map((m) => `${m.role === "user" ? "Étudiant" : "Tuteur"}: ${m.content}`)
+    .join("\n\n");
+
+  return `${buildTutorContext(request.question, request.selectedAnswerIds)}
+
+Conversation:
+${transcript}
+
+Réponds au dernier message de l'étudiant en quelques paragraphes courts, sans répéter le contexte. Texte brut, sans JSON.${buildReplyLanguageInstruction(getQuestionLanguage(request.question))}`;
+}
+
+/**
+ * Tutor message stamped with the current date
+ */
+export function createTutorMessage(role: TutorMessage["role"], content: string): TutorMessage {
+  return { role, content: content.trim(), createdAt: new Date() };
+}
@@ -1,6 +1,8 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
-import { Domain, DOMAIN_LABELS } from "@/types";
+import { BuiltInDomain, Domain } from "@/types";
+import { getCustomDomain, getCustomDomains, getCustomDomainShortLabel } from "./customDomains";
+import { getLocale, t } from "./i18n";
 
 // ============================================
 // UTILITY FUNCTIONS
@@ -35,7 +37,7 @@ export function formatTime(seconds: number): string {
  * Format date to readable string
  */
 export function formatDate(date: Date): string {
-  return new Intl.DateTimeFormat("fr-FR", {
+  return new Intl.DateTimeFormat(getLocale(), {
     year: "numeric",
     month: "long",
     day: "numeric",
@@ -48,7 +50,7 @@ export function formatDate(date: Date): string {
  * Format date to short string (DD/MM/YYYY)
  */
 export function formatShortDate(date: Date): string {
-  return new Intl.DateTimeFormat("fr-FR", {
+  return new Intl.DateTimeFormat(getLocale(), {
     year: "numeric",
     month: "2-digit",
     day: "2-digit",
@@ -78,7 +80,7 @@ export function calculateScore(
  * Get domain color CSS variable
  */
 export function getDomainColor(domain: Domain): string {
-  const colors: Record<Domain, string> = {
+  const colors: Record<BuiltInDomain, string> = {
     [Domain.MACHINE_LEARNING]: "var(--domain-ml)",
     [Domain.IA_SYMBOLIQUE]: "var(--domain-ai)",
     [Domain.DATA_WAREHOUSING]: "var(--domain-dw)",
@@ -90,21 +92,26 @@ export function getDomainColor(domain: Domain): string {
     [Domain.ETHIQUE_IA]: "var(--domain-ethics)",
     [Domain.NLP]: "var(--domain-nlp)",
   };
-  return colors[domain] || "var(--accent-vivid)";
+  return (
+    colors[domain as BuiltInDomain] || getCustomDomain(domain)?.color || "var(--accent-vivid)"
+  );
 }
 
 /**
  * Get domain label
  */
 export function getDomainLabel(domain: Domain): string {
-  return DOMAIN_LABELS[domain] || domain;
+  if ((Object.values(Domain) as string[]).includes(domain)) {
+    return t(`domain.${domain as BuiltInDomain}`);
+  }
+  return getCustomDomain(domain)?.label || domain;
 }
 
 /**
  * Get domain short label (first 2-3 letters)
  */
 export function getDomainShortLabel(domain: Domain): string {
-  const labels: Record<Domain, string> = {
+  const labels: Record<BuiltInDomain, string> = {
     [Domain.MACHINE_LEARNING]: "ML",
     [Domain.IA_SYMBOLIQUE]: "IA",
     [Domain.DATA_WAREHOUSING]: "DW",
@@ -116,14 +123,16 @@ export function getDomainShortLabel(domain: Domain): string {
     [Domain.ETHIQUE_IA]: "ETH",
     [Domain.NLP]: "NLP",
   };
-  return labels[domain] || domain.substring(0, 3);
+  const custom = getCustomDomain(domain);
+  if (custom) return getCustomDomainShortLabel(custom.label);
+  return labels[domain as BuiltInDomain] || domain.substring(0, 3);
 }
 
 /**
- * Get all domains as array
+ * Get all domains as array (built-in first, then the user's custom domains)
  */
 export function getAllDomains(): Domain[] {
-  return Object.values(Domain);
+  return [...Object.values(Domain), ...getCustomDomains().map((d) => d.id)];
 }
 
 /**
@@ -146,27 +155,49 @@ export function generateId(): string {
 }
 
 /**
- * Sleep/delay function
+ * Sleep/delay function (rejects with the abort reason when signal fires)
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Whether an error comes from an aborted fetch/sleep
  */
-export function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+export function isAbortError(error: unknown): boolean {
+  return (error as { name?: string })?.name === "AbortError";
 }
 
 /**
- * Retry with exponential backoff
+ * Retry with exponential backoff (no further attempt once signal fires)
  */
 export async function retryWithBackoff<T>(
   fn: () => Promise<T>,
   maxRetries = 3,
-  baseDelay = 1000
+  baseDelay = 1000,
+  signal?: AbortSignal
 ): Promise<T> {
   for (let i = 0; i < maxRetries; i++) {
     try {
       return await fn();
     } catch (error) {
-      if (i === maxRetries - 1) throw error;
+      if (i === maxRetries - 1 || signal?.aborted) throw error;
       const delay = baseDelay * Math.pow(2, i);
-      await sleep(delay);
+      await sleep(delay, signal);
     }
   }
   throw new Error("Max retries reached");
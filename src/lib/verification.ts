@@ -0,0 +1,148 @@
+import {
+  Question,
+  QuestionVerdict,
+  QuestionVerification,
+  VerificationAction,
+  VerificationSettings,
+} from "@/types";
+import { JSONSchema } from "./questionSchema";
+import { salvageJsonArray } from "./partialJson";
+import { isAnswerCorrect, isMultipleChoice } from "./scoring";
+
+// ============================================
+// VERIFICATION
+// "Second opinion" pass: a model answers generated
+// questions blind, disagreements flag the question
+// ============================================
+
+export const DEFAULT_VERIFICATION: VerificationSettings = {
+  enabled: false,
+  onFlagged: "badge",
+};
+
+export const VERIFICATION_ACTIONS: VerificationAction[] = ["regenerate", "drop", "badge"];
+
+export const VERIFIER_SYSTEM_PROMPT =
+  "Tu es un examinateur expert en IA et Big Data. Tu réponds à des QCM avec rigueur et signales toute question ambiguë.";
+
+/**
+ * Prompt listing the questions without their answer key.
+ * Questions and options are numbered from 1.
+ */
+export function buildVerificationPrompt(questions: Question[]): string {
+  const list = questions
+    .map((q, i) => {
+      const kind = isMultipleChoice(q) ? "plusieurs réponses correctes" : "une seule réponse correcte";
+      const options = q.answers.map((a, j) => `   ${j + 1}) ${a.text}`).join("\n");
+      return `Q${i + 1} (${kind})\n${q.question}\n${options}`;
+    })
+    .join("\n\n");
+
+  return `Réponds à chacune des ${questions.length} questions suivantes.
+
+${list}
+
+Pour chaque question, renvoie:
+- "question": son numéro
+- "answers": les numéros de TOUTES les options correctes
+- "ambiguous": true si l'énoncé ou les options permettent plusieurs interprétations, si aucune option n'est correcte ou si une option correcte est discutable
+- "comment": une phrase justifiant ta réponse (ou l'ambiguïté)
+
+Format: {"verdicts": [{"question": 1, "answers": [2], "ambiguous": false, "comment": "..."}]}
+Retourne UNIQUEMENT le JSON, sans texte avant ou après.`;
+}
+
+/**
+ * Response schema: { verdicts: [{question, answers, ambiguous, comment}] }
+ */
+export function buildVerificationSchema(): JSONSchema {
+  return {
+    type: "object",
+    properties: {
+      verdicts: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            question: { type: "integer" },
+            answers: { type: "array", items: { type: "integer" } },
+            ambiguous: { type: "boolean" },
+            comment: { type: "string" },
+          },
+          required: ["question", "answers", "ambiguous", "comment"],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ["verdicts"],
+    additionalProperties: false,
+  };
+}
+
+/**
+ * Map the verifier's numbered answers back to question/answer IDs.
+ * Malformed or out-of-range verdicts are skipped; a response without any
+ * usable verdict is a verifier failure, not a batch of skipped questions.
+ */
+export function parseVerdicts(content: string, questions: Question[]): QuestionVerdict[] {
+  const { items } = salvageJsonArray(content);
+  const verdicts: QuestionVerdict[] = [];
+
+  for (const item of items) {
+    const v = item as { question?: unknown; answers?: unknown; ambiguous?: unknown; comment?: unknown };
+    const question = typeof v.question === "number" ? questions[v.question - 1] : undefined;
+    if (!question || !Array.isArray(v.answers)) continue;
+
+    verdicts.push({
+      questionId: question.id,
+      selectedAnswerIds: v.answers
+        .filter((n): n is number => typeof n === "number")
+        .map((n) => question.answers[n - 1]?.id)
+        .filter((id): id is string => !!id),
+      ambiguous: v.ambiguous === true,
+      comment: typeof v.comment === "string" ? v.comment : undefined,
+    });
+  }
+
+  console.log("[Verification] Parsed", verdicts.length, "/", questions.length, "verdicts");
+  if (verdicts.length === 0 && questions.length > 0) {
+    throw new Error("Invalid verification response: no verdicts");
+  }
+  return verdicts;
+}
+
+/**
+ * Compare the verifier's blind answer with the answer key.
+ * A question the verifier skipped is flagged too.
+ */
+export function judgeQuestion(
+  question: Question,
+  verdict: QuestionVerdict | undefined,
+  model: string,
+): QuestionVerification {
+  if (!verdict) {
+    return { status: "flagged", reason: { key: "verification.noAnswer" }, model };
+  }
+  if (verdict.ambiguous) {
+    return {
+      status: "flagged",
+      reason: verdict.comment || { key: "verification.ambiguous" },
+      model,
+    };
+  }
+  if (!isAnswerCorrect(question, verdict.selectedAnswerIds)) {
+    const chosen = question.answers
+      .filter((a) => verdict.selectedAnswerIds.includes(a.id))
+      .map((a) => `« ${a.text} »`)
+      .join(", ");
+    return {
+      status: "flagged",
+      reason: {
+        key: chosen ? "verification.answered" : "verification.answeredNone",
+        params: { chosen, comment: verdict.comment || "" },
+      },
+      model,
+    };
+  }
+  return { status: "verified", model };
+}
@@ -0,0 +1,606 @@
+import { MessageKey } from "./fr";
+
+// ============================================
+// ENGLISH MESSAGES
+// Same keys as the French catalog
+// ============================================
+
+export const en: Record<MessageKey, string> = {
+  // Domains
+  "domain.MACHINE_LEARNING": "Machine Learning Fundamentals",
+  "domain.IA_SYMBOLIQUE": "Symbolic AI",
+  "domain.DATA_WAREHOUSING": "Data Warehousing",
+  "domain.BIG_DATA": "Big Data",
+  "domain.SYSTEMES_RECOMMANDATION": "Recommender Systems",
+  "domain.DATA_MINING": "Data Mining",
+  "domain.DEEP_LEARNING": "Deep Learning",
+  "domain.VISUALISATION_DONNEES": "Data Visualization",
+  "domain.ETHIQUE_IA": "AI Ethics",
+  "domain.NLP": "Natural Language Processing (NLP)",
+
+  // Difficulty
+  "difficulty.easy": "Easy",
+  "difficulty.medium": "Medium",
+  "difficulty.hard": "Hard",
+  "difficulty.mixed": "Mixed",
+
+  // Question formats
+  "format.SINGLE_CHOICE": "Multiple choice",
+  "format.MULTIPLE_CHOICE": "Multiple answers",
+  "format.TRUE_FALSE": "True / False",
+  "format.FILL_BLANK": "Fill in the blank",
+  "format.ORDERING": "Ordering",
+  "format.NUMERIC": "Numeric",
+  "format.OPEN_ENDED": "Open-ended",
+
+  // Verification actions
+  "verification.regenerate": "Regenerate",
+  "verification.drop": "Remove",
+  "verification.badge": "Keep with an “unverified” badge",
+
+  // Common
+  "common.loading": "Loading...",
+  "common.save": "Save",
+  "common.cancel": "Cancel",
+  "common.errorWithMessage": "Error: {message}",
+  "common.unknownError": "Unknown error",
+  "common.continue": "Continue",
+  "common.restart": "Start over",
+  "common.createdOn": "Created on {date}",
+  "common.questions.one": "{count} question",
+  "common.questions.other": "{count} questions",
+  "common.generationError": "Generation failed: {message}",
+  "common.deleteItem": "Delete {name}",
+  "common.generatedQuestions": "Questions generated",
+  "common.stop": "Stop",
+  "common.generateAndStart": "Generate and start",
+  "common.delete": "Delete",
+
+  // Favorites page
+  "favorites.loading": "Loading favorites...",
+  "favorites.title": "Favorite questions",
+  "favorites.count": "{count} starred questions",
+  "favorites.filterByDomain": "Filter by domain",
+  "favorites.empty": "No favorite question yet",
+  "favorites.emptyDomain": "No favorite question in this domain",
+  "favorites.start": "Start revising",
+
+  // Exam history page
+  "exams.loading": "Loading history...",
+  "exams.title": "Exam history",
+  "exams.created.one": "{count} exam created",
+  "exams.created.other": "{count} exams created",
+  "exams.attempts.one": "{count} attempt",
+  "exams.attempts.other": "{count} attempts",
+  "exams.inProgress": "Exam in progress",
+  "exams.answered": "{answered} / {total} questions answered",
+  "exams.stats.exams": "EXAMS",
+  "exams.stats.attempts": "ATTEMPTS",
+  "exams.stats.average": "AVERAGE",
+  "exams.stats.best": "BEST",
+  "exams.empty": "No exam created yet",
+  "exams.emptyHint": "Create your first exam to see your history",
+  "exams.create": "Create an exam",
+  "exams.type.full": "FULL",
+  "exams.type.domain": "DOMAIN",
+  "exams.bestScore": "Best score",
+  "exams.viewDetails": "View details",
+  "exams.retake": "Retake",
+  "common.retry": "Retry",
+  "common.back": "Back",
+  "common.allCount": "All ({count})",
+
+  // Navigation
+  "nav.home": "Home",
+  "nav.practice": "Practice",
+  "nav.exam": "Exam",
+  "nav.favorites": "Favorites",
+  "nav.documents": "My materials",
+  "nav.offline": "Offline",
+  "nav.history": "History",
+  "nav.settings": "Settings",
+  "nav.onboardingFirst": "Complete the onboarding first",
+  "nav.toggleMenu": "Toggle menu",
+
+  // Difficulty selector
+  "difficulty.label": "Difficulty",
+  "difficulty.pickOne": "Pick at least one level",
+
+  // Subtopic selector
+  "subtopics.label": "Subtopics",
+  "subtopics.all": "All",
+
+  // Batch size slider
+  "batchSize.label": "Questions per batch (API)",
+  "batchSize.description": "Number of questions generated per API call.",
+  "batchSize.free": "Free providers: 5-10 recommended",
+  "batchSize.paid": "Paid providers: 10-20 possible",
+
+  // Question counter
+  "questionCounter.label": "Number of questions",
+
+  // Timer
+  "timer.resume": "Resume",
+  "timer.pause": "Pause",
+
+  // Question card
+  "question.number": "Question {number}",
+  "question.hint.fillBlank": "Fill in the missing term",
+  "question.hint.ordering": "Put the steps in order",
+  "question.hint.numeric": "Work out and enter the result",
+  "question.hint.openEnded": "Written answer, graded by the AI",
+  "question.hint.multiple": "Several answers possible — tick all the correct ones",
+  "question.unverified": "Unverified",
+  "question.addFavorite": "Add to favorites",
+  "question.removeFavorite": "Remove from favorites",
+  "question.correct": "✓ CORRECT",
+  "question.missed": "✓ MISSED",
+  "question.wrong": "✗ WRONG",
+  "question.explanation": "Explanation",
+  "question.disputedBy": "Answer key disputed by {model}",
+  "question.verifier": "the verifier",
+
+  // Question formats
+  "formats.yourAnswer": "Your answer",
+  "formats.numericPlaceholder": "Your result (e.g. 0.75)",
+  "formats.moveUp": "Move up",
+  "formats.moveDown": "Move down",
+  "formats.openPlaceholder": "Write your answer in a few sentences",
+  "formats.grading": "Grading...",
+  "formats.gradingUnavailable": "Grading unavailable (offline or provider error)",
+  "formats.grade": "Score: {score}%",
+  "formats.gradedBy": "graded by {model}",
+  "formats.missingPoints": "Missing points",
+  "formats.modelAnswer": "Model answer",
+  "formats.expected": "Expected answer: {answer}",
+
+  // Tutor chat
+  "tutor.open": "Dig deeper",
+  "tutor.title": "Dig deeper with the tutor",
+  "tutor.offline": "Offline: the conversation will resume once you are back online.",
+  "tutor.failed": "The tutor could not reply.",
+  "tutor.placeholder": "Why is option C wrong?",
+  "tutor.stop": "Stop",
+  "tutor.send": "Send",
+  "tutor.suggestion.wrongOptions": "Why are the other options wrong?",
+  "tutor.suggestion.example": "Give me a concrete example.",
+  "tutor.suggestion.simple": "Explain the concept in simple terms.",
+
+  // Usage report
+  "usage.calls": "Calls",
+  "usage.input": "Input",
+  "usage.output": "Output",
+  "usage.cost": "Cost",
+  "usage.clearConfirm": "Clear the usage history?",
+  "usage.empty": "No API call recorded in the last {days} days.",
+  "usage.failures": "{count} failed",
+  "usage.latency": "Avg. latency",
+  "usage.estimatedCost": "Estimated cost",
+  "usage.unknownCost": "≥: some paid models have no price, enter it below.",
+  "usage.byDay": "Per day",
+  "usage.byModel": "Per model",
+  "usage.byDomain": "Per domain",
+  "usage.prices": "Prices ($ / million tokens, input · output)",
+  "usage.inputPrice": "Input price {model}",
+  "usage.outputPrice": "Output price {model}",
+  "usage.clear": "Clear history",
+
+  // Fallback chain
+  "fallback.remove": "Remove",
+  "fallback.add": "Add a fallback model",
+
+  // Custom domains
+  "customDomains.deleteConfirm": "Delete the “{label}” domain and its question pack? Quizzes already generated are kept.",
+  "customDomains.empty": "No custom domain. Add the subjects of your curriculum that are not part of the IABD syllabus (MLOps, Cloud, Statistics...).",
+  "customDomains.offlineCount": "{count} offline questions",
+  "customDomains.edit": "Edit {label}",
+  "customDomains.delete": "Delete {label}",
+  "customDomains.name": "Domain name",
+  "customDomains.namePlaceholder": "e.g. MLOps",
+  "customDomains.color": "Color",
+  "customDomains.otherColor": "Other color",
+  "customDomains.syllabus": "Syllabus (sent to the model)",
+  "customDomains.syllabusPlaceholder": "e.g. model CI/CD, data versioning, monitoring, drift, deployment, MLflow, Kubeflow.",
+  "customDomains.pack": "Question pack (JSON, optional)",
+  "customDomains.packHelp": "Same format as the built-in question files. The pack is used for offline exercises.",
+  "customDomains.packHelpReplace": "Same format as the built-in question files. The pack is used for offline exercises and replaces the current one.",
+  "customDomains.create": "Create domain",
+  "customDomains.add": "Add a domain",
+
+  // Documents page
+  "documents.importError": "Import failed: {message}",
+  "documents.deleteConfirm": "Delete “{title}”? Quizzes already generated are kept.",
+  "documents.title": "My materials",
+  "documents.description": "Import your course notes and generate quizzes based only on their content",
+  "documents.importFile": "Import a file (text, Markdown, PDF)",
+  "documents.paste": "Or paste your notes",
+  "documents.titlePlaceholder": "Title (e.g. Chapter 3 - Decision trees)",
+  "documents.contentPlaceholder": "Material content...",
+  "documents.addToLibrary": "Add to library",
+  "documents.library": "Library",
+  "documents.empty": "No material yet.",
+  "documents.format.text": "Text",
+  "documents.format.markdown": "Markdown",
+  "documents.format.pdf": "PDF",
+  "documents.characters": "{count}k characters",
+  "documents.passages.one": "{count} passage",
+  "documents.passages.other": "{count} passages",
+  "documents.content": "Content used",
+  "documents.wholeDocument": "Whole document",
+
+  // Home page
+  "home.mode.practice": "Revise domain by domain with questions generated on demand",
+  "home.mode.exam": "Take a timed mock exam, full or for one domain",
+  "home.mode.favorites": "Find your starred questions to revise them",
+  "home.mode.offline": "Use downloaded exercises without a connection",
+  "home.title": "Dashboard",
+  "home.subtitle": "Welcome to Review IABD - Your revision app",
+  "home.stats": "Overall statistics",
+  "home.stats.answered": "Questions answered",
+  "home.stats.exams": "Exams taken",
+  "home.stats.average": "Average score",
+  "home.stats.studyTime": "Study time",
+  "home.stats.scoreFor": "{label} score ({count} q.)",
+  "home.weakSubtopics": "Subtopics to work on",
+  "home.modes": "Revision modes",
+  "home.recent": "Recent activity",
+  "home.recentEmpty": "Start by generating your first questions in Practice mode",
+  "home.session.exam": "EXAM",
+  "home.session.practice": "PRACTICE",
+
+  // Offline page
+  "offline.generated": "{count} questions generated and ready to use offline!",
+  "offline.notFound": "Exercise not found",
+  "offline.startError": "Could not start the exercise",
+  "offline.restartError": "Could not restart the exercise",
+  "offline.deleteConfirm": "Delete this offline exercise?",
+  "offline.deleteError": "Could not delete the exercise",
+  "offline.translateError": "Translation failed: {message}",
+  "offline.loading": "Loading exercises...",
+  "offline.title": "Offline mode",
+  "offline.description": "Generate exercises to revise without a connection",
+  "offline.online": "Connected to the Internet",
+  "offline.onlineHint": "You can generate new exercises",
+  "offline.offlineHint": "Use the downloaded exercises",
+  "offline.generate": "Generate exercises",
+  "offline.generateHint": "Pick a domain to generate {count} questions usable offline",
+  "offline.generateButton": "Generate for offline use",
+  "offline.unavailable": "Offline - Unavailable",
+  "offline.available": "Available exercises ({count})",
+  "offline.allLanguages": "All languages",
+  "offline.empty": "No offline exercise yet",
+  "offline.emptyHint": "Generate exercises to use them without an Internet connection",
+  "offline.used": "Used",
+  "offline.ready": "Ready",
+  "offline.addedOn": "Added on {date}",
+  "offline.allSubtopics": "All subtopics ({count})",
+  "offline.resume": "Continue ({answered}/{total})",
+  "offline.start": "Start",
+  "offline.translateTo": "Translate to {language}",
+  "offline.translating": "Translating... {done}/{total}",
+
+  // Languages
+  "language.fr": "French",
+  "language.en": "English",
+
+  // Generation
+  "generation.interrupted": "Generation interrupted",
+  "generation.interruptedHint": "The generation was interrupted.",
+  "generation.ready": "{saved} / {total} questions are already ready.",
+  "generation.saved": "{saved} / {total} questions were saved.",
+  "generation.resume": "Resume",
+  "generation.startWith": "Start with {count} questions",
+  "generation.dismiss": "Dismiss",
+  "generation.sourceNotFound": "The course material of this quiz was deleted.",
+  "generation.stopped": "Generation stopped",
+  "generation.noDemoQuestions": "No demo questions for the {domain} domain.",
+
+  // Exam page
+  "exam.title": "Exam mode",
+  "exam.description": "Take a realistic timed exam",
+  "exam.full": "Full exam",
+  "exam.fullHint": "All IABD domains",
+  "exam.recommended": "RECOMMENDED",
+  "exam.domain": "Domain exam",
+  "exam.domainHint": "Focus on a single domain",
+  "exam.questions": "Questions",
+  "exam.duration": "Duration",
+  "exam.domains": "Domains",
+  "exam.selectDomain": "Domain selection",
+  "exam.questionLevel": "Question level",
+  "exam.summary": "Exam summary",
+  "exam.type": "Type",
+  "exam.type.full": "Full",
+  "exam.type.domain": "Domain",
+  "exam.preparing": "Preparing...",
+  "exam.start": "Start the exam",
+  "exam.previous": "Previous exams",
+  "exam.previousEmpty": "No previous exam",
+  "exam.previousEmptyHint": "The exams you create are saved here so you can retake them",
+  "exam.retake": "Retake this exam",
+  "exam.name.domain": "{domain} exam",
+  "exam.name.domainPartial": "{domain} exam (partial)",
+  "exam.name.fullPartial": "Full exam (partial)",
+
+  // Practice page
+  "practice.title": "Practice mode",
+  "practice.description": "Set up your revision session",
+  "practice.deleteConfirm": "Delete this quiz? This cannot be undone.",
+  "practice.resumeGeneration": "Resume generation",
+  "practice.savedUsable": "{saved} / {total} questions were saved and can be used.",
+  "practice.step.domain": "01. IABD domain",
+  "practice.step.count": "02. Number of questions",
+  "practice.step.difficulty": "03. Difficulty",
+  "practice.step.openEnded": "04. Open-ended answers",
+  "practice.openEndedHint": "Mix written-answer questions into the MCQs, graded by the AI against a rubric (connection required)",
+  "practice.openEndedToggle": "Include open-ended questions",
+  "practice.summary": "Summary",
+  "practice.summary.domain": "Domain",
+  "practice.summary.questions": "Questions",
+  "practice.summary.batches": "Batches",
+  "practice.summary.duration": "Estimated time",
+  "practice.summary.minutes": "{count} min",
+  "practice.generating": "Generating...",
+  "practice.modelSwitch": "{from} unavailable, switching to {to}",
+  "practice.generatingShort": "Generating...",
+  "practice.how": "How does it work?",
+  "practice.how.batches": "Questions are generated in batches of {size}",
+  "practice.how.firstBatch": "Start the quiz as soon as the first batch is ready",
+  "practice.how.partial": "If generation fails, the questions already generated can be used",
+  "practice.how.noTimer": "No time limit in practice mode",
+  "practice.previous": "Previous quizzes",
+  "practice.previousEmpty": "No previous quiz",
+  "practice.previousEmptyHint": "The quizzes you generate are saved here so you can retake them",
+  "practice.mode": "Practice",
+  "practice.continue": "Continue ({answered}/{total})",
+
+  // Settings page
+  "settings.scoring.allOrNothing": "All or nothing",
+  "settings.scoring.allOrNothingHint": "The point is only awarded when every correct answer is checked",
+  "settings.scoring.partial": "Partial credit",
+  "settings.scoring.partialHint": "Each correct answer checked earns points, each wrong answer checked takes some away",
+  "settings.saved": "Settings saved!",
+  "settings.saveError": "Failed to save the settings",
+  "settings.noModelFound": "No model found on this server",
+  "settings.serverUnreachable": "Server unreachable. Check the URL and that the server allows CORS requests.",
+  "settings.notificationPermission": "Notifications need your permission to work. You can enable them in your browser settings.",
+  "settings.exported": "Data exported successfully!",
+  "settings.exportError": "Failed to export the data",
+  "settings.imported": "Data imported successfully!",
+  "settings.importError": "Failed to import the data",
+  "settings.clearConfirm": "Are you sure you want to delete all local data?",
+  "settings.cleared": "Data deleted. You will be redirected to the onboarding.",
+  "settings.clearError": "Failed to delete the data",
+  "settings.loading": "Loading settings...",
+  "settings.title": "Settings",
+  "settings.description": "Configure the application",
+  "settings.language": "Language",
+  "settings.languageHint": "Language of the interface and of the generated questions",
+  "settings.providerKeys": "AI provider & API keys",
+  "settings.provider": "AI provider",
+  "settings.currentKey": "Current: {key}",
+  "settings.keyNotSet": "Not set",
+  "settings.model": "AI model",
+  "settings.free": "FREE",
+  "settings.detectModels": "Detect models",
+  "settings.customModel": "Custom model (optional)",
+  "settings.customModelHint": "Enter the ID of a custom {provider} model.",
+  "settings.customModelDocs": "See the full list",
+  "settings.useCustomModel": "Use this custom model",
+  "settings.noModels": "No model available for this provider",
+  "settings.fallback": "Fallback models",
+  "settings.fallbackHint": "Tried in order when the selected model is rate-limited (429) or unavailable. The provider must be configured.",
+  "settings.verification": "Answer verification",
+  "settings.verification.secondOpinion": "AI second opinion",
+  "settings.verification.secondOpinionHint": "After each batch, a model answers the questions without the answer key; any disagreement flags the question",
+  "settings.verification.flagged": "Flagged questions",
+  "settings.verification.otherModel": "Verify with another model",
+  "settings.verification.otherModelHint": "By default, the model that generated the batch reviews it itself",
+  "settings.preferences": "Preferences",
+  "settings.notifications": "Notifications",
+  "settings.notificationsHint": "Get a notification when generation is complete",
+  "settings.offlineQuestions": "Offline questions per domain",
+  "settings.concurrency": "Parallel batches",
+  "settings.concurrencyHint": "Number of batches generated at the same time (after the first one).",
+  "settings.concurrencyFree": "Free providers: 1 (rate limits)",
+  "settings.concurrencyPaid": "Paid providers: 2-4 for faster exams",
+  "settings.adaptiveBatch": "Adaptive batch size",
+  "settings.adaptiveBatch.hint": "Learns the batch size of each model: reduced after a truncated, unreadable or slow response, increased after a fast, complete batch",
+  "settings.adaptiveBatch.start": "Starting batch size",
+  "settings.adaptiveBatch.min": "Minimum size",
+  "settings.adaptiveBatch.minHint": "Fewest questions requested per API call.",
+  "settings.adaptiveBatch.max": "Maximum size",
+  "settings.adaptiveBatch.maxHint": "Most questions requested per API call.",
+  "settings.adaptiveBatch.reset": "Forget learned sizes",
+  "settings.adaptiveBatch.resetDone": "Learned sizes reset",
+  "settings.scoring": "Scoring of multiple-answer questions",
+  "settings.scoringHint": "“Check all the correct answers” questions",
+  "settings.formats": "Question formats",
+  "settings.formatsHint": "Formats generated in addition to MCQs (none: MCQs only)",
+  "settings.customDomains": "Custom domains",
+  "settings.usage": "API usage",
+  "settings.data": "Data management",
+  "settings.export": "Export",
+  "settings.import": "Import",
+  "settings.clearAll": "Delete all data",
+  "settings.save": "Save settings",
+
+  // Onboarding page
+  "onboarding.invalidConfig": "Please enter a valid configuration",
+  "onboarding.chooseModel": "Please choose or enter a model",
+  "onboarding.saveFailed": "Failed to save the settings. Please try again.",
+  "onboarding.saveError": "Error while saving. Please try again.",
+  "onboarding.title": "Initial setup",
+  "onboarding.description": "Set up the application to start revising. You will only see this page once.",
+  "onboarding.providerHint": "Choose the service that generates your questions",
+  "onboarding.validConfig": "Valid configuration",
+  "onboarding.howToGetKey": "How do I get my key?",
+  "onboarding.selectModel": "Model selection",
+  "onboarding.selectModelHint": "Choose the AI model that generates your questions",
+  "onboarding.finish": "Finish",
+  "onboarding.skipHint": "You already have access to 1000 offline questions (10 domains × 100 questions). You can set up your API key later in the Settings to generate custom questions.",
+  "onboarding.skip": "Continue later →",
+  "onboarding.help.openrouter.title": "Get your OpenRouter API key",
+  "onboarding.help.openrouter.intro": "OpenRouter is a free service that gives you access to several AI models. Follow these steps to get your API key:",
+  "onboarding.help.openrouter.step1": "Create an OpenRouter account",
+  "onboarding.help.openrouter.step1Detail": "Go to openrouter.ai and sign up for free.",
+  "onboarding.help.openrouter.step2": "Open the Settings",
+  "onboarding.help.openrouter.step2Detail": "Click “Settings” at the top right of the page.",
+  "onboarding.help.openrouter.step3": "Go to “API Keys”",
+  "onboarding.help.openrouter.step3Detail": "In the left sidebar, click “API Keys”.",
+  "onboarding.help.openrouter.step4": "Create a new key",
+  "onboarding.help.openrouter.step4Detail": "Click “Create Key”, give it a name and confirm.",
+  "onboarding.help.openrouter.link": "Go to OpenRouter →",
+  "onboarding.help.gemini.title": "Get your Google API key",
+  "onboarding.help.gemini.intro": "Google AI Studio gives you free access to the Gemini models. Follow these steps to get your API key:",
+  "onboarding.help.gemini.step1": "Go to Google AI Studio",
+  "onboarding.help.gemini.step1Detail": "Visit aistudio.google.com and sign in with your Google account.",
+  "onboarding.help.gemini.step2": "Click “Get API Key”",
+  "onboarding.help.gemini.step2Detail": "In the left menu, click “Get API Key”.",
+  "onboarding.help.gemini.step3": "Select a Google Cloud project",
+  "onboarding.help.gemini.step3Detail": "Pick an existing project or create a new one.",
+  "onboarding.help.gemini.link": "Go to Google AI Studio →",
+  "onboarding.help.copyKey": "Copy your key",
+  "onboarding.help.copyKeyDetail": "Paste it in the field above. It starts with",
+
+  // Quiz page
+  "quiz.noSession": "No session found. Please start a new quiz.",
+  "quiz.sessionNotFound": "Session not found. Please start again.",
+  "quiz.loadError": "Failed to load the session.",
+  "quiz.loading": "Loading quiz...",
+  "quiz.backHome": "Back to home",
+  "quiz.examDone": "Exam complete!",
+  "quiz.quizDone": "Quiz complete!",
+  "quiz.results": "Here are your results",
+  "quiz.correctCount": "{correct} / {total} correct answers",
+  "quiz.partialCredit": "Partial credit included for multiple-answer questions",
+  "quiz.favorited": "Questions marked as favorites",
+  "quiz.review": "Answer review",
+  "quiz.review.correct": "✓ Correct",
+  "quiz.review.partial": "◐ Partial ({percent}%)",
+  "quiz.review.incorrect": "✗ Incorrect",
+  "quiz.review.yourAnswer": "Your answer: {answer}",
+  "quiz.review.correctAnswer": "Correct answer: {answer}",
+  "quiz.unanswered": "Not answered",
+  "quiz.anotherExam": "Another exam",
+  "quiz.newQuiz": "New quiz",
+  "quiz.generating": "{available} / {requested} questions",
+  "quiz.pending": "{count} in progress...",
+  "quiz.modelUnavailable": "{model} unavailable →",
+  "quiz.batchSize": "batches of {size}",
+  "quiz.exam": "Exam",
+  "quiz.practice": "Practice",
+  "quiz.examMode": "Exam mode",
+  "quiz.practiceMode": "Practice mode",
+  "quiz.quit": "Quit",
+  "quiz.quickNav": "Quick navigation",
+  "quiz.position": "Question {current} / {total}",
+  "quiz.answeredCount": " • {answered}/{total} answered",
+  "quiz.answered": "Answered",
+  "quiz.legend.correct": "Correct",
+  "quiz.legend.incorrect": "Incorrect",
+  "quiz.previous": "Previous",
+  "quiz.next": "Next",
+  "quiz.waiting": "Waiting...",
+  "quiz.finishExam": "Finish the exam",
+  "quiz.finish": "Finish",
+  "quiz.validate": "Submit",
+  "quiz.remaining.one": "{count} unanswered question",
+  "quiz.remaining.other": "{count} unanswered questions",
+  "quiz.finishGrading": "Grading open-ended answers...",
+  "quiz.finishGradingFailed": "Some open-ended answers could not be graded: retry to finish.",
+
+  // Service worker update
+  "update.available": "Update available",
+  "update.hint": "A new version of the application is available. Click to update.",
+  "update.close": "Close",
+  "update.now": "Update now",
+
+  // Model catalog
+  "catalog.title": "{provider} catalog",
+  "catalog.refresh": "Refresh catalog",
+  "catalog.updatedAt": "Updated {date}",
+  "catalog.empty": "Catalog not downloaded yet",
+  "catalog.fetchError": "Could not fetch the catalog",
+  "catalog.search": "Search a model...",
+  "catalog.freeOnly": "Free only",
+  "catalog.minContext": "Minimum context",
+  "catalog.anyContext": "Any",
+  "catalog.context": "{size} context",
+  "catalog.noMatch": "No model matches the filters",
+  "catalog.more": "+{count} more models, refine the search",
+  "catalog.missing.title": "Model not found",
+  "catalog.missing.hint": "{provider} no longer offers the model {model}. Pick another one in the settings.",
+  "catalog.missing.open": "Open settings",
+
+  // Diagnostics page
+  "diagnostics.title": "Diagnostics",
+  "diagnostics.description": "Latest generation attempts: prompt, raw response, parsing and errors",
+  "diagnostics.loading": "Loading logs...",
+  "diagnostics.empty": "No generation logged yet.",
+  "diagnostics.exportAll": "Export all",
+  "diagnostics.clear": "Clear",
+  "diagnostics.clearConfirm": "Delete all generation logs?",
+  "diagnostics.questions.one": "{count} question",
+  "diagnostics.questions.other": "{count} questions",
+  "diagnostics.failed": "Failed",
+  "diagnostics.streamed": "streaming",
+  "diagnostics.systemPrompt": "System prompt",
+  "diagnostics.prompt": "Prompt",
+  "diagnostics.response": "Raw response",
+  "diagnostics.noResponse": "No response received",
+  "diagnostics.copy": "Copy",
+  "diagnostics.copied": "Log copied to the clipboard",
+  "diagnostics.export": "Export",
+  "diagnostics.replay": "Replay parse",
+  "diagnostics.replayOk": "Parse succeeded: {count} question(s)",
+  "diagnostics.replayError": "Parse fails: {error}",
+
+  // Verification reasons
+  "verification.noAnswer": "The verifier did not answer this question.",
+  "verification.ambiguous": "Question judged ambiguous.",
+  "verification.answered": "The verifier answered {chosen}. {comment}",
+  "verification.answeredNone": "The verifier chose no option. {comment}",
+
+  // Providers
+  "provider.openrouter.label": "OpenRouter",
+  "provider.openrouter.description": "Many models available",
+  "provider.openrouter.setupHint": "Get your free key at openrouter.ai",
+  "provider.openrouter.apiKey": "OpenRouter API key",
+  "provider.openrouter.apiKeyPlaceholder": "sk-or-v1-...",
+  "provider.openrouter.apiKeyHelp": "Get an OpenRouter API key →",
+  "provider.openrouter.customModelPlaceholder": "e.g. anthropic/claude-3-5-sonnet",
+  "provider.gemini.label": "Google Gemini",
+  "provider.gemini.description": "Gemini/Gemma",
+  "provider.gemini.setupHint": "Get your key at aistudio.google.com",
+  "provider.gemini.apiKey": "Google API key",
+  "provider.gemini.apiKeyPlaceholder": "AIza...",
+  "provider.gemini.apiKeyHelp": "Get a Google API key →",
+  "provider.gemini.customModelPlaceholder": "e.g. gemini-1.5-pro",
+  "provider.local.label": "Local",
+  "provider.local.description": "Ollama, llama.cpp, LM Studio",
+  "provider.local.setupHint": "Any OpenAI-compatible server (/v1/chat/completions)",
+  "provider.local.baseUrl": "Server URL",
+  "provider.local.apiKey": "API key (optional)",
+  "provider.local.apiKeyPlaceholder": "Leave empty if the server does not need one",
+  "provider.local.customModelPlaceholder": "e.g. llama3.1:8b",
+  "provider.demo.label": "Demo (offline)",
+  "provider.demo.description": "Preloaded banks, no network",
+  "provider.demo.setupHint": "No key needed: simulates generation for demos and development",
+  "provider.demo.latencyMs": "Latency per question (ms)",
+  "provider.demo.failAfter": "Successful calls before the simulated failure (per session)",
+  "provider.demo.customModelPlaceholder": "e.g. demo-partial",
+  "provider.demo.model.nominal": "Demo",
+  "provider.demo.model.partial": "Demo — partial batches",
+  "provider.demo.model.truncated": "Demo — truncated responses",
+  "provider.demo.model.rateLimited": "Demo — rate limited (429)",
+  "provider.demo.model.unauthorized": "Demo — invalid key (401)",
+  "provider.demo.rationaleCorrect": "Correct option: {explanation}",
+  "provider.demo.rationaleCorrectNoExplanation": "Correct option: see the explanation.",
+  "provider.demo.rationaleIncorrect": "Incorrect option according to the answer key.",
+  "provider.demo.gradeComplete": "Demo grading: every rubric point is covered.",
+  "provider.demo.gradeMissing.one": "Demo grading: {count} rubric point missing.",
+  "provider.demo.gradeMissing.other": "Demo grading: {count} rubric points missing.",
+  "provider.demo.tutorUnavailable": "Demo mode (offline): the tutor is not available.",
+  "provider.demo.tutorExpected": "Expected answer: {answer}",
+};
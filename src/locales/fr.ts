@@ -0,0 +1,607 @@
+// ============================================
+// FRENCH MESSAGES
+// Reference catalog: every key passed to t() is
+// declared here ({name} placeholders are filled by t)
+// ============================================
+
+export const fr = {
+  // Domains
+  "domain.MACHINE_LEARNING": "Machine Learning Fondamental",
+  "domain.IA_SYMBOLIQUE": "IA Symbolique",
+  "domain.DATA_WAREHOUSING": "Data Warehousing",
+  "domain.BIG_DATA": "Big Data",
+  "domain.SYSTEMES_RECOMMANDATION": "Systèmes de Recommandation",
+  "domain.DATA_MINING": "Data Mining",
+  "domain.DEEP_LEARNING": "Deep Learning",
+  "domain.VISUALISATION_DONNEES": "Visualisation de Données",
+  "domain.ETHIQUE_IA": "Éthique de l'IA",
+  "domain.NLP": "Traitement du Langage Naturel (NLP)",
+
+  // Difficulty
+  "difficulty.easy": "Facile",
+  "difficulty.medium": "Moyen",
+  "difficulty.hard": "Difficile",
+  "difficulty.mixed": "Mixte",
+
+  // Question formats
+  "format.SINGLE_CHOICE": "QCM",
+  "format.MULTIPLE_CHOICE": "QCM à réponses multiples",
+  "format.TRUE_FALSE": "Vrai / Faux",
+  "format.FILL_BLANK": "Texte à trous",
+  "format.ORDERING": "Remise en ordre",
+  "format.NUMERIC": "Calcul numérique",
+  "format.OPEN_ENDED": "Réponse libre",
+
+  // Verification actions
+  "verification.regenerate": "Régénérer",
+  "verification.drop": "Supprimer",
+  "verification.badge": "Garder avec un badge « non vérifiée »",
+
+  // Common
+  "common.loading": "Chargement...",
+  "common.save": "Enregistrer",
+  "common.cancel": "Annuler",
+  "common.errorWithMessage": "Erreur: {message}",
+  "common.unknownError": "Erreur inconnue",
+  "common.continue": "Continuer",
+  "common.restart": "Recommencer",
+  "common.createdOn": "Créé le {date}",
+  "common.questions.one": "{count} question",
+  "common.questions.other": "{count} questions",
+  "common.generationError": "Erreur lors de la génération: {message}",
+  "common.deleteItem": "Supprimer {name}",
+  "common.generatedQuestions": "Questions générées",
+  "common.stop": "Arrêter",
+  "common.generateAndStart": "Générer et Commencer",
+  "common.delete": "Supprimer",
+
+  // Favorites page
+  "favorites.loading": "Chargement des favoris...",
+  "favorites.title": "Questions Favorites",
+  "favorites.count": "{count} questions marquées",
+  "favorites.filterByDomain": "Filtrer par Domaine",
+  "favorites.empty": "Aucune question favorite pour le moment",
+  "favorites.emptyDomain": "Aucune question favorite dans ce domaine",
+  "favorites.start": "Commencer à Réviser",
+
+  // Exam history page
+  "exams.loading": "Chargement de l'historique...",
+  "exams.title": "Historique des Examens",
+  "exams.created.one": "{count} examen créé",
+  "exams.created.other": "{count} examens créés",
+  "exams.attempts.one": "{count} tentative",
+  "exams.attempts.other": "{count} tentatives",
+  "exams.inProgress": "Examen en cours",
+  "exams.answered": "{answered} / {total} questions répondues",
+  "exams.stats.exams": "EXAMENS",
+  "exams.stats.attempts": "TENTATIVES",
+  "exams.stats.average": "MOYENNE",
+  "exams.stats.best": "MEILLEUR",
+  "exams.empty": "Aucun examen créé pour le moment",
+  "exams.emptyHint": "Créez votre premier examen pour voir votre historique",
+  "exams.create": "Créer un Examen",
+  "exams.type.full": "COMPLET",
+  "exams.type.domain": "DOMAINE",
+  "exams.bestScore": "Meilleur score",
+  "exams.viewDetails": "Voir Détails",
+  "exams.retake": "Refaire",
+  "common.retry": "Réessayer",
+  "common.back": "Retour",
+  "common.allCount": "Tous ({count})",
+
+  // Navigation
+  "nav.home": "Accueil",
+  "nav.practice": "Pratique",
+  "nav.exam": "Examen",
+  "nav.favorites": "Favoris",
+  "nav.documents": "Mes supports",
+  "nav.offline": "Hors Ligne",
+  "nav.history": "Historique",
+  "nav.settings": "Paramètres",
+  "nav.onboardingFirst": "Complétez l'onboarding d'abord",
+  "nav.toggleMenu": "Ouvrir le menu",
+
+  // Difficulty selector
+  "difficulty.label": "Difficulté",
+  "difficulty.pickOne": "Choisissez au moins un niveau",
+
+  // Subtopic selector
+  "subtopics.label": "Sous-thèmes",
+  "subtopics.all": "Tous",
+
+  // Batch size slider
+  "batchSize.label": "Questions par Batch (API)",
+  "batchSize.description": "Nombre de questions générées par appel API.",
+  "batchSize.free": "Providers gratuits : 5-10 recommandé",
+  "batchSize.paid": "Providers payants : 10-20 possible",
+
+  // Question counter
+  "questionCounter.label": "Nombre de questions",
+
+  // Timer
+  "timer.resume": "Reprendre",
+  "timer.pause": "Pause",
+
+  // Question card
+  "question.number": "Question {number}",
+  "question.hint.fillBlank": "Complétez le terme manquant",
+  "question.hint.ordering": "Remettez les étapes dans l'ordre",
+  "question.hint.numeric": "Calculez et saisissez le résultat",
+  "question.hint.openEnded": "Réponse rédigée, corrigée par l'IA",
+  "question.hint.multiple": "Plusieurs réponses possibles — cochez toutes les bonnes réponses",
+  "question.unverified": "Non vérifiée",
+  "question.addFavorite": "Ajouter aux favoris",
+  "question.removeFavorite": "Retirer des favoris",
+  "question.correct": "✓ CORRECT",
+  "question.missed": "✓ OUBLIÉE",
+  "question.wrong": "✗ WRONG",
+  "question.explanation": "Explication",
+  "question.disputedBy": "Corrigé contesté par {model}",
+  "question.verifier": "le vérificateur",
+
+  // Question formats
+  "formats.yourAnswer": "Votre réponse",
+  "formats.numericPlaceholder": "Votre résultat (ex. 0,75)",
+  "formats.moveUp": "Monter",
+  "formats.moveDown": "Descendre",
+  "formats.openPlaceholder": "Rédigez votre réponse en quelques phrases",
+  "formats.grading": "Correction en cours...",
+  "formats.gradingUnavailable": "Correction indisponible (hors ligne ou erreur du fournisseur)",
+  "formats.grade": "Note : {score}%",
+  "formats.gradedBy": "corrigé par {model}",
+  "formats.missingPoints": "Points manquants",
+  "formats.modelAnswer": "Réponse modèle",
+  "formats.expected": "Réponse attendue : {answer}",
+
+  // Tutor chat
+  "tutor.open": "Approfondir",
+  "tutor.title": "Approfondir avec le tuteur",
+  "tutor.offline": "Hors ligne : la conversation reprendra une fois la connexion rétablie.",
+  "tutor.failed": "Le tuteur n'a pas pu répondre.",
+  "tutor.placeholder": "Pourquoi l'option C est-elle fausse ?",
+  "tutor.stop": "Arrêter",
+  "tutor.send": "Envoyer",
+  "tutor.suggestion.wrongOptions": "Pourquoi les autres options sont-elles fausses ?",
+  "tutor.suggestion.example": "Donne-moi un exemple concret.",
+  "tutor.suggestion.simple": "Explique-moi la notion en termes simples.",
+
+  // Usage report
+  "usage.calls": "Appels",
+  "usage.input": "Entrée",
+  "usage.output": "Sortie",
+  "usage.cost": "Coût",
+  "usage.clearConfirm": "Effacer l'historique de consommation ?",
+  "usage.empty": "Aucun appel API enregistré sur les {days} derniers jours.",
+  "usage.failures": "{count} en échec",
+  "usage.latency": "Latence moy.",
+  "usage.estimatedCost": "Coût estimé",
+  "usage.unknownCost": "≥ : certains modèles payants n'ont pas de prix, renseignez-le ci-dessous.",
+  "usage.byDay": "Par jour",
+  "usage.byModel": "Par modèle",
+  "usage.byDomain": "Par domaine",
+  "usage.prices": "Prix ($ / million de tokens, entrée · sortie)",
+  "usage.inputPrice": "Prix entrée {model}",
+  "usage.outputPrice": "Prix sortie {model}",
+  "usage.clear": "Effacer l'historique",
+
+  // Fallback chain
+  "fallback.remove": "Retirer",
+  "fallback.add": "Ajouter un modèle de secours",
+
+  // Custom domains
+  "customDomains.deleteConfirm": "Supprimer le domaine « {label} » et son pack de questions ? Les quiz déjà générés sont conservés.",
+  "customDomains.empty": "Aucun domaine personnalisé. Ajoutez les matières de votre cursus qui ne font pas partie du programme IABD (MLOps, Cloud, Statistiques...).",
+  "customDomains.offlineCount": "{count} questions hors ligne",
+  "customDomains.edit": "Modifier {label}",
+  "customDomains.delete": "Supprimer {label}",
+  "customDomains.name": "Nom du domaine",
+  "customDomains.namePlaceholder": "ex. MLOps",
+  "customDomains.color": "Couleur",
+  "customDomains.otherColor": "Autre couleur",
+  "customDomains.syllabus": "Programme (envoyé au modèle)",
+  "customDomains.syllabusPlaceholder": "ex. CI/CD de modèles, versioning des données, monitoring, drift, déploiement, MLflow, Kubeflow.",
+  "customDomains.pack": "Pack de questions (JSON, optionnel)",
+  "customDomains.packHelp": "Même format que les fichiers de questions intégrés. Le pack est utilisé pour les exercices hors ligne.",
+  "customDomains.packHelpReplace": "Même format que les fichiers de questions intégrés. Le pack est utilisé pour les exercices hors ligne et remplace le pack actuel.",
+  "customDomains.create": "Créer le domaine",
+  "customDomains.add": "Ajouter un domaine",
+
+  // Documents page
+  "documents.importError": "Erreur lors de l'import : {message}",
+  "documents.deleteConfirm": "Supprimer « {title} » ? Les quiz déjà générés sont conservés.",
+  "documents.title": "Mes supports",
+  "documents.description": "Importez vos notes de cours et générez des quiz basés uniquement sur leur contenu",
+  "documents.importFile": "Importer un fichier (texte, Markdown, PDF)",
+  "documents.paste": "Ou collez vos notes",
+  "documents.titlePlaceholder": "Titre (ex. Chapitre 3 - Arbres de décision)",
+  "documents.contentPlaceholder": "Contenu du support...",
+  "documents.addToLibrary": "Ajouter à la bibliothèque",
+  "documents.library": "Bibliothèque",
+  "documents.empty": "Aucun support pour le moment.",
+  "documents.format.text": "Texte",
+  "documents.format.markdown": "Markdown",
+  "documents.format.pdf": "PDF",
+  "documents.characters": "{count}k caractères",
+  "documents.passages.one": "{count} passage",
+  "documents.passages.other": "{count} passages",
+  "documents.content": "Contenu utilisé",
+  "documents.wholeDocument": "Document entier",
+
+  // Home page
+  "home.mode.practice": "Révisez domaine par domaine avec des QCM générés à la demande",
+  "home.mode.exam": "Simulez un examen complet ou par domaine avec limite de temps",
+  "home.mode.favorites": "Retrouvez vos questions marquées pour les réviser",
+  "home.mode.offline": "Accédez aux exercices téléchargés sans connexion",
+  "home.title": "Tableau de Bord",
+  "home.subtitle": "Bienvenue sur Review IABD - Votre application de révision",
+  "home.stats": "Statistiques Globales",
+  "home.stats.answered": "Questions Répondues",
+  "home.stats.exams": "Examens Passés",
+  "home.stats.average": "Score Moyen",
+  "home.stats.studyTime": "Temps d'Étude",
+  "home.stats.scoreFor": "Score {label} ({count} q.)",
+  "home.weakSubtopics": "Sous-thèmes à retravailler",
+  "home.modes": "Modes de Révision",
+  "home.recent": "Activité Récente",
+  "home.recentEmpty": "Commencez par générer vos premières questions en mode Pratique",
+  "home.session.exam": "EXAMEN",
+  "home.session.practice": "PRATIQUE",
+
+  // Offline page
+  "offline.generated": "{count} questions générées et prêtes à être utilisées hors ligne !",
+  "offline.notFound": "Exercice introuvable",
+  "offline.startError": "Erreur lors du démarrage de l'exercice",
+  "offline.restartError": "Erreur lors du redémarrage",
+  "offline.deleteConfirm": "Supprimer cet exercice hors ligne ?",
+  "offline.deleteError": "Erreur lors de la suppression",
+  "offline.translateError": "Erreur lors de la traduction: {message}",
+  "offline.loading": "Chargement des exercices...",
+  "offline.title": "Mode Hors Ligne",
+  "offline.description": "Générez des exercices pour réviser sans connexion",
+  "offline.online": "Connecté à Internet",
+  "offline.onlineHint": "Vous pouvez générer de nouveaux exercices",
+  "offline.offlineHint": "Utilisez les exercices téléchargés",
+  "offline.generate": "Générer des Exercices",
+  "offline.generateHint": "Sélectionnez un domaine pour générer {count} questions utilisables hors ligne",
+  "offline.generateButton": "Générer pour Hors Ligne",
+  "offline.unavailable": "Hors Ligne - Non disponible",
+  "offline.available": "Exercices Disponibles ({count})",
+  "offline.allLanguages": "Toutes les langues",
+  "offline.empty": "Aucun exercice hors ligne pour le moment",
+  "offline.emptyHint": "Générez des exercices pour les utiliser sans connexion Internet",
+  "offline.used": "Utilisé",
+  "offline.ready": "Prêt",
+  "offline.addedOn": "Ajouté le {date}",
+  "offline.allSubtopics": "Tous les sous-thèmes ({count})",
+  "offline.resume": "Continuer ({answered}/{total})",
+  "offline.start": "Commencer",
+  "offline.translateTo": "Traduire en {language}",
+  "offline.translating": "Traduction... {done}/{total}",
+
+  // Languages
+  "language.fr": "français",
+  "language.en": "anglais",
+
+  // Generation
+  "generation.interrupted": "Génération interrompue",
+  "generation.interruptedHint": "La génération a été interrompue.",
+  "generation.ready": "{saved} / {total} questions sont déjà prêtes.",
+  "generation.saved": "{saved} / {total} questions ont été sauvegardées.",
+  "generation.resume": "Reprendre",
+  "generation.startWith": "Commencer avec {count} questions",
+  "generation.dismiss": "Ignorer",
+  "generation.sourceNotFound": "Le support de cours de ce quiz a été supprimé.",
+  "generation.stopped": "Génération arrêtée",
+  "generation.noDemoQuestions": "Aucune question de démonstration pour le domaine {domain}.",
+
+  // Exam page
+  "exam.title": "Mode Examen",
+  "exam.description": "Simulez un examen réel avec limite de temps",
+  "exam.full": "Examen Complet",
+  "exam.fullHint": "Tous les domaines IABD",
+  "exam.recommended": "RECOMMANDÉ",
+  "exam.domain": "Examen par Domaine",
+  "exam.domainHint": "Focus sur un domaine spécifique",
+  "exam.questions": "Questions",
+  "exam.duration": "Durée",
+  "exam.domains": "Domaines",
+  "exam.selectDomain": "Sélection du Domaine",
+  "exam.questionLevel": "Niveau des questions",
+  "exam.summary": "Résumé de l'Examen",
+  "exam.type": "Type",
+  "exam.type.full": "Complet",
+  "exam.type.domain": "Domaine",
+  "exam.preparing": "Préparation...",
+  "exam.start": "Commencer l'Examen",
+  "exam.previous": "Examens Précédents",
+  "exam.previousEmpty": "Aucun examen précédent",
+  "exam.previousEmptyHint": "Les examens que vous créerez seront sauvegardés ici pour pouvoir les refaire",
+  "exam.retake": "Refaire cet Examen",
+  "exam.name.domain": "Examen {domain}",
+  "exam.name.domainPartial": "Examen {domain} (partiel)",
+  "exam.name.fullPartial": "Examen Complet (partiel)",
+
+  // Practice page
+  "practice.title": "Mode Pratique",
+  "practice.description": "Configurez votre session de révision",
+  "practice.deleteConfirm": "Supprimer ce quiz ? Cette action est irréversible.",
+  "practice.resumeGeneration": "Reprendre la génération",
+  "practice.savedUsable": "{saved} / {total} questions ont été sauvegardées et sont utilisables.",
+  "practice.step.domain": "01. Domaine IABD",
+  "practice.step.count": "02. Nombre de Questions",
+  "practice.step.difficulty": "03. Difficulté",
+  "practice.step.openEnded": "04. Réponses libres",
+  "practice.openEndedHint": "Mélanger aux QCM des questions à rédiger, corrigées par l'IA selon un barème (connexion requise)",
+  "practice.openEndedToggle": "Inclure des questions à réponse libre",
+  "practice.summary": "Résumé",
+  "practice.summary.domain": "Domaine",
+  "practice.summary.questions": "Questions",
+  "practice.summary.batches": "Batches",
+  "practice.summary.duration": "Durée estimée",
+  "practice.summary.minutes": "{count} min",
+  "practice.generating": "Génération en cours...",
+  "practice.modelSwitch": "{from} indisponible, bascule sur {to}",
+  "practice.generatingShort": "Génération...",
+  "practice.how": "Comment ça marche ?",
+  "practice.how.batches": "Les questions sont générées par lots de {size}",
+  "practice.how.firstBatch": "Commencez le quiz dès que le 1er lot est prêt",
+  "practice.how.partial": "Si la génération échoue, les questions déjà prêtes sont utilisables",
+  "practice.how.noTimer": "Pas de limite de temps en mode Pratique",
+  "practice.previous": "Quiz Précédents",
+  "practice.previousEmpty": "Aucun quiz précédent",
+  "practice.previousEmptyHint": "Les quiz que vous générerez seront sauvegardés ici pour pouvoir les refaire",
+  "practice.mode": "Pratique",
+  "practice.continue": "Continuer ({answered}/{total})",
+
+  // Settings page
+  "settings.scoring.allOrNothing": "Tout ou rien",
+  "settings.scoring.allOrNothingHint": "Le point n'est accordé que si toutes les bonnes réponses sont cochées",
+  "settings.scoring.partial": "Crédit partiel",
+  "settings.scoring.partialHint": "Chaque bonne réponse cochée rapporte, chaque mauvaise réponse cochée retire",
+  "settings.saved": "Paramètres sauvegardés !",
+  "settings.saveError": "Erreur lors de la sauvegarde des paramètres",
+  "settings.noModelFound": "Aucun modèle trouvé sur ce serveur",
+  "settings.serverUnreachable": "Serveur injoignable. Vérifiez l'URL et que le serveur autorise les requêtes CORS.",
+  "settings.notificationPermission": "Les notifications nécessitent votre permission pour fonctionner. Vous pouvez les activer dans les paramètres de votre navigateur.",
+  "settings.exported": "Données exportées avec succès !",
+  "settings.exportError": "Erreur lors de l'export des données",
+  "settings.imported": "Données importées avec succès !",
+  "settings.importError": "Erreur lors de l'import des données",
+  "settings.clearConfirm": "Êtes-vous sûr de vouloir supprimer toutes les données locales ?",
+  "settings.cleared": "Données supprimées. Vous allez être redirigé vers l'onboarding.",
+  "settings.clearError": "Erreur lors de la suppression des données",
+  "settings.loading": "Chargement des paramètres...",
+  "settings.title": "Paramètres",
+  "settings.description": "Configurez votre application",
+  "settings.language": "Langue",
+  "settings.languageHint": "Langue de l'interface et des questions générées",
+  "settings.providerKeys": "Fournisseur IA & Clés API",
+  "settings.provider": "Fournisseur IA",
+  "settings.currentKey": "Actuel : {key}",
+  "settings.keyNotSet": "Non configurée",
+  "settings.model": "Modèle IA",
+  "settings.free": "GRATUIT",
+  "settings.detectModels": "Détecter les modèles",
+  "settings.customModel": "Modèle Custom (optionnel)",
+  "settings.customModelHint": "Entrez l'ID d'un modèle {provider} custom.",
+  "settings.customModelDocs": "Voir la liste complète",
+  "settings.useCustomModel": "Utiliser ce modèle custom",
+  "settings.noModels": "Aucun modèle disponible pour ce fournisseur",
+  "settings.fallback": "Modèles de secours",
+  "settings.fallbackHint": "Essayés dans l'ordre quand le modèle sélectionné est limité (429) ou indisponible. Le fournisseur doit être configuré.",
+  "settings.verification": "Vérification des réponses",
+  "settings.verification.secondOpinion": "Second avis IA",
+  "settings.verification.secondOpinionHint": "Après chaque lot, un modèle répond aux questions sans le corrigé ; tout désaccord signale la question",
+  "settings.verification.flagged": "Questions signalées",
+  "settings.verification.otherModel": "Vérifier avec un autre modèle",
+  "settings.verification.otherModelHint": "Par défaut, le modèle qui a généré le lot se relit lui-même",
+  "settings.preferences": "Préférences",
+  "settings.notifications": "Notifications",
+  "settings.notificationsHint": "Recevoir une notification quand la génération est terminée",
+  "settings.offlineQuestions": "Questions hors ligne par domaine",
+  "settings.concurrency": "Batches en parallèle",
+  "settings.concurrencyHint": "Nombre de batches générés simultanément (après le premier).",
+  "settings.concurrencyFree": "Providers gratuits : 1 (limites de requêtes)",
+  "settings.concurrencyPaid": "Providers payants : 2-4 pour des examens plus rapides",
+  "settings.adaptiveBatch": "Taille de batch adaptative",
+  "settings.adaptiveBatch.hint": "Apprend la taille de batch de chaque modèle : réduite après une réponse tronquée, illisible ou lente, augmentée après un batch rapide et complet",
+  "settings.adaptiveBatch.start": "Taille de batch initiale",
+  "settings.adaptiveBatch.min": "Taille minimale",
+  "settings.adaptiveBatch.minHint": "Questions demandées au minimum par appel API.",
+  "settings.adaptiveBatch.max": "Taille maximale",
+  "settings.adaptiveBatch.maxHint": "Questions demandées au maximum par appel API.",
+  "settings.adaptiveBatch.reset": "Oublier les tailles apprises",
+  "settings.adaptiveBatch.resetDone": "Tailles apprises réinitialisées",
+  "settings.scoring": "Notation des questions à réponses multiples",
+  "settings.scoringHint": "Questions « cochez toutes les bonnes réponses »",
+  "settings.formats": "Formats de questions",
+  "settings.formatsHint": "Formats générés en plus des QCM (aucun : QCM uniquement)",
+  "settings.customDomains": "Domaines personnalisés",
+  "settings.usage": "Consommation API",
+  "settings.data": "Gestion des Données",
+  "settings.export": "Exporter",
+  "settings.import": "Importer",
+  "settings.clearAll": "Supprimer Toutes les Données",
+  "settings.save": "Sauvegarder les Paramètres",
+
+  // Onboarding page
+  "onboarding.invalidConfig": "Veuillez saisir une configuration valide",
+  "onboarding.chooseModel": "Veuillez choisir ou saisir un modèle",
+  "onboarding.saveFailed": "Échec de la sauvegarde des paramètres. Réessayez.",
+  "onboarding.saveError": "Erreur lors de la sauvegarde. Réessayez.",
+  "onboarding.title": "Configuration Initiale",
+  "onboarding.description": "Configurez votre application pour commencer à réviser. Vous ne verrez cette page qu'une seule fois.",
+  "onboarding.providerHint": "Choisissez le service pour générer vos questions",
+  "onboarding.validConfig": "Configuration valide",
+  "onboarding.howToGetKey": "Comment obtenir ma clé ?",
+  "onboarding.selectModel": "Sélection du Modèle",
+  "onboarding.selectModelHint": "Choisissez le modèle IA pour générer vos questions",
+  "onboarding.finish": "Terminer",
+  "onboarding.skipHint": "Vous avez déjà accès à 1000 questions offline (10 domaines × 100 questions). Vous pourrez configurer votre clé API plus tard dans les Paramètres pour générer des questions personnalisées.",
+  "onboarding.skip": "Continuer plus tard →",
+  "onboarding.help.openrouter.title": "Obtenir votre clé API OpenRouter",
+  "onboarding.help.openrouter.intro": "OpenRouter est un service gratuit qui vous permet d'utiliser plusieurs modèles IA. Suivez ces étapes pour obtenir votre clé API :",
+  "onboarding.help.openrouter.step1": "Créez un compte sur OpenRouter",
+  "onboarding.help.openrouter.step1Detail": "Allez sur openrouter.ai et inscrivez-vous gratuitement.",
+  "onboarding.help.openrouter.step2": "Ouvrez les Settings",
+  "onboarding.help.openrouter.step2Detail": "Cliquez sur « Settings » en haut à droite de la page.",
+  "onboarding.help.openrouter.step3": "Allez dans « API Keys »",
+  "onboarding.help.openrouter.step3Detail": "Dans la sidebar à gauche, cliquez sur « API Keys ».",
+  "onboarding.help.openrouter.step4": "Créez une nouvelle clé",
+  "onboarding.help.openrouter.step4Detail": "Cliquez sur « Create Key », donnez-lui un nom et validez.",
+  "onboarding.help.openrouter.link": "Aller sur OpenRouter →",
+  "onboarding.help.gemini.title": "Obtenir votre clé API Google",
+  "onboarding.help.gemini.intro": "Google AI Studio vous donne accès gratuitement aux modèles Gemini. Suivez ces étapes pour obtenir votre clé API :",
+  "onboarding.help.gemini.step1": "Allez sur Google AI Studio",
+  "onboarding.help.gemini.step1Detail": "Visitez aistudio.google.com et connectez-vous avec votre compte Google.",
+  "onboarding.help.gemini.step2": "Cliquez sur « Get API Key »",
+  "onboarding.help.gemini.step2Detail": "Dans le menu de gauche, cliquez sur « Get API Key ».",
+  "onboarding.help.gemini.step3": "Sélectionnez un projet Google Cloud",
+  "onboarding.help.gemini.step3Detail": "Choisissez un projet existant ou créez-en un nouveau.",
+  "onboarding.help.gemini.link": "Aller sur Google AI Studio →",
+  "onboarding.help.copyKey": "Copiez votre clé",
+  "onboarding.help.copyKeyDetail": "Collez-la dans le champ ci-dessus. Elle commence par",
+
+  // Quiz page
+  "quiz.noSession": "Aucune session trouvée. Veuillez commencer un nouveau quiz.",
+  "quiz.sessionNotFound": "Session introuvable. Veuillez recommencer.",
+  "quiz.loadError": "Erreur lors du chargement de la session.",
+  "quiz.loading": "Chargement du quiz...",
+  "quiz.backHome": "Retour à l'Accueil",
+  "quiz.examDone": "Examen Terminé !",
+  "quiz.quizDone": "Quiz Terminé !",
+  "quiz.results": "Voici vos résultats",
+  "quiz.correctCount": "{correct} / {total} réponses correctes",
+  "quiz.partialCredit": "Crédit partiel inclus pour les questions à réponses multiples",
+  "quiz.favorited": "Questions marquées comme favoris",
+  "quiz.review": "Révision des réponses",
+  "quiz.review.correct": "✓ Correct",
+  "quiz.review.partial": "◐ Partiel ({percent}%)",
+  "quiz.review.incorrect": "✗ Incorrect",
+  "quiz.review.yourAnswer": "Votre réponse : {answer}",
+  "quiz.review.correctAnswer": "Bonne réponse : {answer}",
+  "quiz.unanswered": "Non répondu",
+  "quiz.anotherExam": "Autre Examen",
+  "quiz.newQuiz": "Nouveau Quiz",
+  "quiz.generating": "{available} / {requested} questions",
+  "quiz.pending": "{count} en cours...",
+  "quiz.modelUnavailable": "{model} indisponible →",
+  "quiz.batchSize": "batches de {size}",
+  "quiz.exam": "Examen",
+  "quiz.practice": "Pratique",
+  "quiz.examMode": "Mode Examen",
+  "quiz.practiceMode": "Mode Pratique",
+  "quiz.quit": "Quitter",
+  "quiz.quickNav": "Navigation rapide",
+  "quiz.position": "Question {current} / {total}",
+  "quiz.answeredCount": " • {answered}/{total} répondues",
+  "quiz.answered": "Répondu",
+  "quiz.legend.correct": "Correcte",
+  "quiz.legend.incorrect": "Incorrecte",
+  "quiz.previous": "Précédent",
+  "quiz.next": "Suivant",
+  "quiz.waiting": "En attente...",
+  "quiz.finishExam": "Terminer l'Examen",
+  "quiz.finish": "Terminer",
+  "quiz.validate": "Valider",
+  "quiz.remaining.one": "{count} question non répondue",
+  "quiz.remaining.other": "{count} questions non répondues",
+  "quiz.finishGrading": "Correction des réponses ouvertes...",
+  "quiz.finishGradingFailed": "Certaines réponses ouvertes n'ont pas pu être corrigées : réessayez pour terminer.",
+
+  // Service worker update
+  "update.available": "Mise à jour disponible",
+  "update.hint": "Une nouvelle version de l'application est disponible. Cliquez pour mettre à jour.",
+  "update.close": "Fermer",
+  "update.now": "Mettre à jour maintenant",
+
+  // Model catalog
+  "catalog.title": "Catalogue {provider}",
+  "catalog.refresh": "Actualiser le catalogue",
+  "catalog.updatedAt": "Mis à jour le {date}",
+  "catalog.empty": "Catalogue pas encore téléchargé",
+  "catalog.fetchError": "Impossible de récupérer le catalogue",
+  "catalog.search": "Rechercher un modèle...",
+  "catalog.freeOnly": "Gratuits uniquement",
+  "catalog.minContext": "Contexte minimum",
+  "catalog.anyContext": "Tous",
+  "catalog.context": "{size} de contexte",
+  "catalog.noMatch": "Aucun modèle ne correspond aux filtres",
+  "catalog.more": "+{count} modèles, affinez la recherche",
+  "catalog.missing.title": "Modèle introuvable",
+  "catalog.missing.hint": "{provider} ne propose plus le modèle {model}. Choisissez-en un autre dans les paramètres.",
+  "catalog.missing.open": "Ouvrir les paramètres",
+
+  // Diagnostics page
+  "diagnostics.title": "Diagnostics",
+  "diagnostics.description": "Dernières tentatives de génération : prompt, réponse brute, analyse et erreurs",
+  "diagnostics.loading": "Chargement des journaux...",
+  "diagnostics.empty": "Aucune génération enregistrée pour l'instant.",
+  "diagnostics.exportAll": "Tout exporter",
+  "diagnostics.clear": "Vider",
+  "diagnostics.clearConfirm": "Supprimer tous les journaux de génération ?",
+  "diagnostics.questions.one": "{count} question",
+  "diagnostics.questions.other": "{count} questions",
+  "diagnostics.failed": "Échec",
+  "diagnostics.streamed": "streaming",
+  "diagnostics.systemPrompt": "Prompt système",
+  "diagnostics.prompt": "Prompt",
+  "diagnostics.response": "Réponse brute",
+  "diagnostics.noResponse": "Aucune réponse reçue",
+  "diagnostics.copy": "Copier",
+  "diagnostics.copied": "Journal copié dans le presse-papiers",
+  "diagnostics.export": "Exporter",
+  "diagnostics.replay": "Rejouer l'analyse",
+  "diagnostics.replayOk": "Analyse réussie : {count} question(s)",
+  "diagnostics.replayError": "L'analyse échoue : {error}",
+
+  // Verification reasons
+  "verification.noAnswer": "Le vérificateur n'a pas répondu à cette question.",
+  "verification.ambiguous": "Question jugée ambiguë.",
+  "verification.answered": "Le vérificateur a répondu {chosen}. {comment}",
+  "verification.answeredNone": "Le vérificateur n'a choisi aucune option. {comment}",
+
+  // Providers
+  "provider.openrouter.label": "OpenRouter",
+  "provider.openrouter.description": "Plusieurs modèles disponibles",
+  "provider.openrouter.setupHint": "Obtenez votre clé gratuitement sur openrouter.ai",
+  "provider.openrouter.apiKey": "Clé API OpenRouter",
+  "provider.openrouter.apiKeyPlaceholder": "sk-or-v1-...",
+  "provider.openrouter.apiKeyHelp": "Obtenir une clé API OpenRouter →",
+  "provider.openrouter.customModelPlaceholder": "ex: anthropic/claude-3-5-sonnet",
+  "provider.gemini.label": "Google Gemini",
+  "provider.gemini.description": "Gemini/Gemma",
+  "provider.gemini.setupHint": "Obtenez votre clé sur aistudio.google.com",
+  "provider.gemini.apiKey": "Clé API Google",
+  "provider.gemini.apiKeyPlaceholder": "AIza...",
+  "provider.gemini.apiKeyHelp": "Obtenir une clé API Google →",
+  "provider.gemini.customModelPlaceholder": "ex: gemini-1.5-pro",
+  "provider.local.label": "Local",
+  "provider.local.description": "Ollama, llama.cpp, LM Studio",
+  "provider.local.setupHint": "Tout serveur compatible OpenAI (/v1/chat/completions)",
+  "provider.local.baseUrl": "URL du serveur",
+  "provider.local.apiKey": "Clé API (optionnelle)",
+  "provider.local.apiKeyPlaceholder": "Laisser vide si le serveur n'en demande pas",
+  "provider.local.customModelPlaceholder": "ex: llama3.1:8b",
+  "provider.demo.label": "Démo (hors ligne)",
+  "provider.demo.description": "Banques préchargées, sans réseau",
+  "provider.demo.setupHint": "Aucune clé requise : simule la génération pour les démos et le développement",
+  "provider.demo.latencyMs": "Latence par question (ms)",
+  "provider.demo.failAfter": "Appels réussis avant l'échec simulé (par session)",
+  "provider.demo.customModelPlaceholder": "ex: demo-partial",
+  "provider.demo.model.nominal": "Démo",
+  "provider.demo.model.partial": "Démo — lots partiels",
+  "provider.demo.model.truncated": "Démo — réponses tronquées",
+  "provider.demo.model.rateLimited": "Démo — limite de débit (429)",
+  "provider.demo.model.unauthorized": "Démo — clé invalide (401)",
+  "provider.demo.rationaleCorrect": "Option correcte : {explanation}",
+  "provider.demo.rationaleCorrectNoExplanation": "Option correcte : voir l'explication.",
+  "provider.demo.rationaleIncorrect": "Option incorrecte d'après le corrigé.",
+  "provider.demo.gradeComplete": "Correction de démonstration : tous les points du barème sont abordés.",
+  "provider.demo.gradeMissing.one": "Correction de démonstration : {count} point du barème manquant.",
+  "provider.demo.gradeMissing.other": "Correction de démonstration : {count} points du barème manquants.",
+  "provider.demo.tutorUnavailable": "Mode démo (hors ligne) : le tuteur n'est pas disponible.",
+  "provider.demo.tutorExpected": "Réponse attendue : {answer}",
+};
+
+export type MessageKey = keyof typeof fr;
@@ -1,6 +1,5 @@
 import { AIProvider } from "@/types";
-import { openRouterService } from "./OpenRouterService";
-import { geminiService } from "./GeminiService";
+import { providerRegistry } from "./ProviderRegistry";
 
 // ============================================
 // AI SERVICE FACTORY
@@ -12,15 +11,9 @@ class AIServiceFactory {
    * Get the AI service based on the provider setting
    */
   getService(provider: AIProvider) {
-    switch (provider) {
-      case 'gemini':
-        console.log("[AIServiceFactory] Using Gemini service");
-        return geminiService;
-      case 'openrouter':
-      default:
-        console.log("[AIServiceFactory] Using OpenRouter service");
-        return openRouterService;
-    }
+    const definition = providerRegistry.get(provider);
+    console.log(`[AIServiceFactory] Using ${definition.id} service`);
+    return definition.createService();
   }
 }
 
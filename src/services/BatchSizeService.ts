@@ -0,0 +1,86 @@
+import { AdaptiveBatchSettings, ModelChoice, UserSettings } from "@/types";
+import { BatchOutcome, DEFAULT_ADAPTIVE_BATCH, clampBatchSize, nextBatchSize } from "@/lib/batchSizing";
+import { storageService } from "./StorageService";
+
+// ============================================
+// BATCH SIZE SERVICE
+// Effective batch size learned per model from
+// the outcome of its batches, kept in settings
+// ============================================
+
+const DEFAULT_BATCH_SIZE = 10;
+
+/**
+ * Key of a model in the learned sizes
+ */
+function modelKey({ provider, model }: ModelChoice): string {
+  return `${provider}/${model}`;
+}
+
+class BatchSizeService {
+  // Outcomes are recorded one at a time (concurrent batches share the settings)
+  private pending: Promise<unknown> = Promise.resolve();
+
+  private getBounds(settings: UserSettings): AdaptiveBatchSettings {
+    return { ...DEFAULT_ADAPTIVE_BATCH, ...settings.adaptiveBatchSize };
+  }
+
+  /**
+   * Questions to request per batch from a model: its learned size within
+   * the user bounds, else the configured batch size
+   */
+  async getBatchSize(choice: ModelChoice): Promise<number> {
+    const settings = await storageService.getSettings();
+    const configured = settings.batchSize || DEFAULT_BATCH_SIZE;
+    const bounds = this.getBounds(settings);
+    if (!bounds.enabled) {
+      return configured;
+    }
+
+    const learned = settings.learnedBatchSizes?.[modelKey(choice)];
+    return clampBatchSize(learned?.size ?? configured, bounds);
+  }
+
+  /**
+   * Learn from a batch of a model. Returns the size for its next batches.
+   */
+  async recordOutcome(choice: ModelChoice, outcome: BatchOutcome): Promise<number> {
+    const run = this.pending.then(async () => {
+      const settings = await storageService.getSettings();
+      const bounds = this.getBounds(settings);
+      if (!bounds.enabled) {
+        return settings.batchSize || DEFAULT_BATCH_SIZE;
+      }
+
+      const key = modelKey(choice);
+      const learned = settings.learnedBatchSizes?.[key];
+      const current = clampBatchSize(learned?.size ?? (settings.batchSize || DEFAULT_BATCH_SIZE), bounds);
+      const size = nextBatchSize(current, outcome, bounds);
+
+      await storageService.updateSettings({
+        learnedBatchSizes: {
+          ...settings.learnedBatchSizes,
+          [key]: { size, samples: (learned?.samples ?? 0) + 1, updatedAt: new Date() },
+        },
+      });
+
+      if (size !== current) {
+        console.log("[BatchSize]", key, "batch size", current, "->", size, outcome);
+      }
+      return size;
+    });
+
+    this.pending = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Forget every learned size (next batches start from the configured size)
+   */
+  async reset(): Promise<void> {
+    await storageService.updateSettings({ learnedBatchSizes: {} });
+  }
+}
+
+// Singleton instance
+export const batchSizeService = new BatchSizeService();
@@ -0,0 +1,85 @@
+import { Question } from "@/types";
+import { indexedDBService } from "./IndexedDBService";
+import { SimilarityIndex } from "@/lib/similarity";
+
+// ============================================
+// DEDUPLICATION SERVICE
+// Rejects generated questions too similar to any
+// stored question (sessions, saved quizzes and exams,
+// preloaded bank) or to one accepted earlier in the run
+// ============================================
+
+// Accept/reject decisions of a generation run
+export interface DuplicateFilter {
+  accept: (question: Question) => boolean;
+}
+
+class DeduplicationService {
+  /**
+   * Index every stored question text (built offline, from IndexedDB)
+   */
+  async buildIndex(): Promise<SimilarityIndex> {
+    const startTime = Date.now();
+    const [sessions, practiceQuizzes, exams, exercises, questions] = await Promise.all([
+      indexedDBService.getAllSessions(),
+      indexedDBService.getAllPracticeQuizzes(),
+      indexedDBService.getAllExams(),
+      indexedDBService.getAllExercises(), // Includes the preloaded bank
+      indexedDBService.getAllQuestions(),
+    ]);
+
+    // The same question is usually stored several times (session + saved quiz)
+    const texts = new Set<string>([
+      ...sessions.flatMap((s) => s.questions.map((q) => q.question)),
+      ...practiceQuizzes.flatMap((p) => p.questions.map((q) => q.question)),
+      ...exams.flatMap((e) => e.questions.map((q) => q.question)),
+      ...exercises.flatMap((e) => e.questions.map((q) => q.question)),
+      ...questions.map((q) => q.question),
+    ]);
+
+    const index = new SimilarityIndex();
+    texts.forEach((text) => index.add(text));
+
+    console.log(
+      `[Dedup] Indexed ${index.size} questions in ${Date.now() - startTime}ms`
+    );
+    return index;
+  }
+
+  /**
+   * Filter for one generation run. Each question is judged once (streamed
+   * questions are checked again in the final batch) and accepted questions
+   * join the index, so duplicates within the run are caught too.
+   * Without indexStored, only duplicates within the run are rejected (the
+   * demo provider replays the stored bank word for word).
+   */
+  async createFilter(indexStored = true): Promise<DuplicateFilter> {
+    const index = indexStored ? await this.buildIndex() : new SimilarityIndex();
+    const decisions = new Map<string, boolean>();
+
+    return {
+      accept: (question) => {
+        const known = decisions.get(question.id);
+        if (known !== undefined) return known;
+
+        const match = index.findSimilar(question.question);
+        if (match) {
+          console.log(
+            `[Dedup] Rejected (${Math.round(match.similarity * 100)}% similar):`,
+            question.question,
+            "≈",
+            match.text
+          );
+        } else {
+          index.add(question.question);
+        }
+
+        decisions.set(question.id, !match);
+        return !match;
+      },
+    };
+  }
+}
+
+// Singleton instance
+export const deduplicationService = new DeduplicationService();
@@ -0,0 +1,480 @@
+import {
+  Question,
+  QuestionType,
+  Domain,
+  Difficulty,
+  QuestionGenerationRequest,
+  MultiDomainQuestionRequest,
+  GenerationProgressCallback,
+  IAIService,
+  APIError,
+  QuestionVerificationRequest,
+  QuestionVerdict,
+  TutorChatRequest,
+  AnswerGradingRequest,
+  AnswerGrade,
+  QuestionTranslationRequest,
+  AnswerRationaleRequest,
+  AIProviderDefinition,
+  ProviderCredentials,
+  ProviderModel,
+} from "@/types";
+import type { MessageKey } from "@/locales/fr";
+import { getDomainLabel, retryWithBackoff, sleep } from "@/lib/utils";
+import { t, tn } from "@/lib/i18n";
+import { storageService } from "./StorageService";
+import { indexedDBService } from "./IndexedDBService";
+import {
+  generatePrompt,
+  generateMultiDomainPrompt,
+  handleAPIError,
+  parseQuestionsFromResponse,
+  parseMultiDomainQuestions,
+} from "./OpenRouterService";
+import { QuestionStreamParser } from "@/lib/questionStream";
+import { getFallbackDifficulty } from "@/lib/difficulty";
+import { describeCorrectResponse } from "@/lib/questionFormats";
+import { isChoiceQuestion, getCorrectResponse } from "@/lib/scoring";
+import { parseTranslations } from "@/lib/translation";
+import { normalizeText } from "@/lib/similarity";
+import { generationLogService } from "./GenerationLogService";
+
+// ============================================
+// DEMO SERVICE
+// Offline mock provider: "generates" questions from
+// the preloaded banks, streamed with a fixed latency,
+// with optional injected failures (429, 401,
+// truncated responses, partial batches)
+// ============================================
+
+const MAX_RETRIES = 3;
+const BASE_DELAY = 1000;
+const DEFAULT_LATENCY_MS = 400;
+const DEFAULT_FAIL_AFTER = 1;
+
+// Demo models: each one is a behaviour of the mock
+export const DEMO_MODELS = {
+  nominal: "demo",
+  partial: "demo-partial",
+  truncated: "demo-truncated",
+  rateLimited: "demo-429",
+  unauthorized: "demo-401",
+} as const;
+
+type DemoModel = (typeof DEMO_MODELS)[keyof typeof DEMO_MODELS];
+
+// Formats a bank question can always be served as (the others need request.formats)
+const QCM_TYPES = [QuestionType.SINGLE_CHOICE, QuestionType.MULTIPLE_CHOICE];
+
+/**
+ * Read a non-negative integer credential (empty: the default)
+ */
+function readCount(value: string | undefined, fallback: number): number {
+  if (!value?.trim()) return fallback;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * Declared demo model, named in the current interface language
+ * (read each time the name is displayed)
+ */
+function demoModel(id: DemoModel, name: MessageKey): ProviderModel {
+  return {
+    id,
+    get name() {
+      return t(name);
+    },
+    free: true,
+  };
+}
+
+/**
+ * Question as a model would write it (generation schema)
+ */
+function toRawQuestion(question: Question) {
+  return {
+    question: question.question,
+    type: question.type,
+    domain: question.domain,
+    difficulty: question.difficulty,
+    subtopic: question.subtopic,
+    answers: question.answers.map((a) => ({
+      text: a.text,
+      isCorrect: a.isCorrect,
+      ...(a.rationale && { rationale: a.rationale }),
+    })),
+    explanation: question.explanation,
+    ...(question.tolerance !== undefined && { tolerance: question.tolerance }),
+    ...(question.rubric && { rubric: question.rubric }),
+  };
+}
+
+/**
+ * Words of a text that carry meaning (5+ letters, normalized)
+ */
+function keywords(text: string): string[] {
+  return normalizeText(text)
+    .split(" ")
+    .filter((word) => word.length >= 5);
+}
+
+class DemoService implements IAIService {
+  // Successful generation calls per session (injected failures start after failAfter of them)
+  private calls = new Map<string, number>();
+
+  /**
+   * Latency and failure threshold from the demo credentials
+   */
+  private async getConfig(): Promise<{ latencyMs: number; failAfter: number }> {
+    const settings = await storageService.getSettings();
+    const credentials = settings.credentials?.demo || {};
+    return {
+      latencyMs: readCount(credentials.latencyMs, DEFAULT_LATENCY_MS),
+      failAfter: readCount(credentials.failAfter, DEFAULT_FAIL_AFTER),
+    };
+  }
+
+  /**
+   * Questions of the domain's preloaded bank (or custom domain pack)
+   */
+  private async getBank(domain: Domain): Promise<Question[]> {
+    await indexedDBService.init();
+    const exercise = await indexedDBService.getExercise(`preloaded-${domain}`);
+    if (!exercise || exercise.questions.length === 0) {
+      throw {
+        message: t("generation.noDemoQuestions", { domain: getDomainLabel(domain) }),
+        code: "NO_DEMO_QUESTIONS",
+        isRetryable: false,
+      };
+    }
+    return exercise.questions;
+  }
+
+  /**
+   * Pick the next bank questions for a request: in bank order, skipping
+   * those already generated, allowed formats only, requested difficulty first
+   */
+  private async pickQuestions(
+    domain: Domain,
+    count: number,
+    request: Pick<QuestionGenerationRequest, "difficulty" | "formats" | "previousQuestions">,
+  ): Promise<Question[]> {
+    const seen = new Set(request.previousQuestions);
+    const formats = [...QCM_TYPES, ...(request.formats || [])];
+    const candidates = (await this.getBank(domain)).filter(
+      (q) => !seen.has(q.question) && formats.includes(q.type),
+    );
+
+    const level = request.difficulty && request.difficulty !== "mixed" ? request.difficulty : undefined;
+    const ordered = level
+      ? [...candidates.filter((q) => q.difficulty === level), ...candidates.filter((q) => q.difficulty !== level)]
+      : candidates;
+    return ordered.slice(0, count);
+  }
+
+  /**
+   * Fail like a real provider would once the session has had its
+   * failAfter successful calls (429 and 401 models only)
+   */
+  private checkInjectedFailure(model: DemoModel, misbehaving: boolean): void {
+    if (!misbehaving) return;
+    if (model === DEMO_MODELS.rateLimited) {
+      throw { response: { status: 429, data: { error: { message: "Rate limit exceeded (demo)" } } } };
+    }
+    if (model === DEMO_MODELS.unauthorized) {
+      throw { response: { status: 401, data: { error: { message: "Invalid API key (demo)" } } } };
+    }
+  }
+
+  /**
+   * "Generate" questions: serialize them as the model's JSON array and
+   * stream it through the real parser, one question per latency tick.
+   * Partial batches drop half of the questions; truncated responses
+   * stop in the middle of the last question.
+   * Logged with the prompt a real provider would have received.
+   */
+  private async respond(
+    questions: Question[],
+    domains: Domain[],
+    request: Pick<QuestionGenerationRequest, "model" | "sessionId" | "signal" | "onQuestion" | "difficulty">,
+    prompt: string,
+    multiDomain: boolean,
+  ): Promise<Question[]> {
+    const { latencyMs, failAfter } = await this.getConfig();
+    const model = (request.model || (await storageService.getModel()) || DEMO_MODELS.nominal) as DemoModel;
+    const key = request.sessionId || "";
+    const misbehaving = (this.calls.get(key) || 0) >= failAfter;
+    const fallbackDifficulty = getFallbackDifficulty(request.difficulty);
+
+    // One question per latency tick, like a model streaming its answer
+    const stream = new QuestionStreamParser(
+      domains,
+      (question) => request.onQuestion?.(question),
+      fallbackDifficulty,
+    );
+    const log = generationLogService.start({
+      provider: "demo",
+      model,
+      sessionId: request.sessionId,
+      domains,
+      multiDomain,
+      fallbackDifficulty,
+      streamed: !!request.onQuestion,
+      prompt,
+    });
+
+    try {
+      // Time to first token, then the injected failure if any
+      await retryWithBackoff(
+        async () => {
+          await sleep(latencyMs, request.signal);
+          this.checkInjectedFailure(model, misbehaving);
+        },
+        MAX_RETRIES,
+        BASE_DELAY,
+        request.signal,
+      );
+
+      const served =
+        misbehaving && model === DEMO_MODELS.partial
+          ? questions.slice(0, Math.ceil(questions.length / 2))
+          : questions;
+      const items = served.map((q) => JSON.stringify(toRawQuestion(q)));
+      const truncated = misbehaving && model === DEMO_MODELS.truncated && items.length > 0;
+      if (truncated) {
+        const last = items.length - 1;
+        items[last] = items[last].slice(0, Math.floor(items[last].length / 2));
+      }
+
+      stream.push("[");
+      for (let i = 0; i < items.length; i++) {
+        if (i > 0) await sleep(latencyMs, request.signal);
+        stream.push(`${i > 0 ? "," : ""}${items[i]}`);
+      }
+      if (!truncated) stream.push("]");
+
+      this.calls.set(key, (this.calls.get(key) || 0) + 1);
+      const generated = stream.finish((text) =>
+        parseQuestionsFromResponse(text, domains[0], fallbackDifficulty),
+      );
+      log.succeed(stream.content, generated);
+      return generated;
+    } catch (error) {
+      const apiError = (error as APIError)?.code ? error : handleAPIError(error);
+      log.fail(apiError, stream.content || undefined);
+      throw apiError;
+    }
+  }
+
+  /**
+   * Generate a batch of questions from the domain's bank
+   */
+  async generateQuestions(
+    request: QuestionGenerationRequest,
+    onProgress?: GenerationProgressCallback,
+  ): Promise<Question[]> {
+    try {
+      const picked = await this.pickQuestions(request.domain, request.count, request);
+      const prompt = generatePrompt(
+        request.domain,
+        request.count,
+        request.difficulty,
+        request.previousQuestions,
+        request.difficultyMix,
+        request.source,
+        request.subtopics,
+        request.formats,
+        request.language,
+      );
+      const questions = await this.respond(picked, [request.domain], request, prompt, false);
+
+      onProgress?.({
+        current: questions.length,
+        total: request.count,
+        batch: questions,
+      });
+      return questions;
+    } catch (error) {
+      throw (error as APIError)?.code ? error : handleAPIError(error);
+    }
+  }
+
+  /**
+   * Generate questions for multiple domains in a single "request"
+   */
+  async generateMultiDomainQuestions(
+    request: MultiDomainQuestionRequest,
+    onProgress?: GenerationProgressCallback,
+  ): Promise<Question[]> {
+    const totalCount = request.domains.length * request.countPerDomain;
+
+    try {
+      const picked: Question[] = [];
+      for (const domain of request.domains) {
+        picked.push(...(await this.pickQuestions(domain, request.countPerDomain, request)));
+      }
+      const prompt = generateMultiDomainPrompt(request);
+      const questions = await this.respond(picked, request.domains, request, prompt, true);
+
+      onProgress?.({
+        current: questions.length,
+        total: totalCount,
+        batch: questions,
+      });
+      return questions;
+    } catch (error) {
+      throw (error as APIError)?.code ? error : handleAPIError(error);
+    }
+  }
+
+  /**
+   * Answer questions "blind" with the answer key (the demo verifier always agrees)
+   */
+  async verifyQuestions(request: QuestionVerificationRequest): Promise<QuestionVerdict[]> {
+    return request.questions.map((question) => ({
+      questionId: question.id,
+      selectedAnswerIds: getCorrectResponse(question),
+      ambiguous: false,
+    }));
+  }
+
+  /**
+   * Fill in missing rationales from the answer key
+   */
+  async explainAnswers(request: AnswerRationaleRequest): Promise<Question[]> {
+    return request.questions.map((question) => ({
+      ...question,
+      answers: question.answers.map((a) => ({
+        ...a,
+        rationale:
+          a.rationale ||
+          (isChoiceQuestion(question)
+            ? a.isCorrect
+              ? question.explanation
+                ? t("provider.demo.rationaleCorrect", { explanation: question.explanation })
+                : t("provider.demo.rationaleCorrectNoExplanation")
+              : t("provider.demo.rationaleIncorrect")
+            : undefined),
+      })),
+    }));
+  }
+
+  /**
+   * "Translate" questions by tagging their text with the target language
+   * (round-trips through the real translation parser)
+   */
+  async translateQuestions(request: QuestionTranslationRequest): Promise<Question[]> {
+    const tag = `[${request.language.toUpperCase()}]`;
+    const content = JSON.stringify({
+      translations: request.questions.map((q, i) => ({
+        question: i + 1,
+        text: `${tag} ${q.question}`,
+        answers: q.answers.map((a) => a.text),
+        explanation: q.explanation,
+        rationales: q.answers.map((a) => a.rationale || ""),
+        rubric: q.rubric || [],
+      })),
+    });
+    return parseTranslations(content, request.questions, request.language);
+  }
+
+  /**
+   * Grade an open-ended answer by the rubric points whose keywords it mentions
+   */
+  async gradeAnswer(request: AnswerGradingRequest): Promise<AnswerGrade> {
+    const { question, response } = request;
+    const written = new Set(keywords(response));
+    const points = question.rubric?.length ? question.rubric : [question.answers[0]?.text || ""];
+    const missingPoints = points.filter((point) => {
+      const words = keywords(point);
+      const found = words.filter((word) => written.has(word)).length;
+      return words.length > 0 && found * 2 < words.length;
+    });
+    const score = points.length > 0 ? (points.length - missingPoints.length) / points.length : 0;
+
+    return {
+      score,
+      missingPoints,
+      feedback:
+        missingPoints.length === 0
+          ? t("provider.demo.gradeComplete")
+          : tn("provider.demo.gradeMissing", missingPoints.length),
+      model: request.model || DEMO_MODELS.nominal,
+      gradedAt: new Date(),
+    };
+  }
+
+  /**
+   * Reply to a follow-up with the answer key and explanation
+   */
+  async explainQuestion(request: TutorChatRequest): Promise<string> {
+    const { question } = request;
+    return `${t("provider.demo.tutorUnavailable")}
+
+${t("provider.demo.tutorExpected", { answer: describeCorrectResponse(question) })}
+${question.explanation || ""}`.trim();
+  }
+
+  /**
+   * Parse a raw generation response as generation does (diagnostics replay)
+   */
+  parseGeneratedQuestions(
+    content: string,
+    domains: Domain[],
+    fallbackDifficulty: Difficulty,
+    multiDomain: boolean,
+  ): Question[] {
+    return multiDomain
+      ? parseMultiDomainQuestions(content, domains, fallbackDifficulty)
+      : parseQuestionsFromResponse(content, domains[0], fallbackDifficulty);
+  }
+
+  /**
+   * The demo provider needs no key
+   */
+  async validateApiKey(): Promise<boolean> {
+    return true;
+  }
+}
+
+// Singleton instance
+export const demoService = new DemoService();
+
+// Provider declaration (registered in ProviderRegistry)
+export const demoProvider: AIProviderDefinition = {
+  id: "demo",
+  free: true,
+  label: "provider.demo.label",
+  description: "provider.demo.description",
+  setupHint: "provider.demo.setupHint",
+  credentialFields: [
+    {
+      key: "latencyMs",
+      label: "provider.demo.latencyMs",
+      type: "text",
+      required: false,
+      defaultValue: String(DEFAULT_LATENCY_MS),
+    },
+    {
+      key: "failAfter",
+      label: "provider.demo.failAfter",
+      type: "text",
+      required: false,
+      defaultValue: String(DEFAULT_FAIL_AFTER),
+    },
+  ],
+  models: [
+    demoModel(DEMO_MODELS.nominal, "provider.demo.model.nominal"),
+    demoModel(DEMO_MODELS.partial, "provider.demo.model.partial"),
+    demoModel(DEMO_MODELS.truncated, "provider.demo.model.truncated"),
+    demoModel(DEMO_MODELS.rateLimited, "provider.demo.model.rateLimited"),
+    demoModel(DEMO_MODELS.unauthorized, "provider.demo.model.unauthorized"),
+  ],
+  defaultModel: DEMO_MODELS.nominal,
+  customModelPlaceholder: "provider.demo.customModelPlaceholder",
+  // Both settings are optional non-negative integers
+  validateCredentials: ({ latencyMs, failAfter }: ProviderCredentials) =>
+    [latencyMs, failAfter].every((value) => !value?.trim() || /^\d+$/.test(value.trim())),
+  createService: () => demoService,
+};
@@ -0,0 +1,113 @@
+import { Domain, QuizSource, SourceDocument, SourceDocumentFormat, SourcePassage } from "@/types";
+import { indexedDBService } from "./IndexedDBService";
+import { generateId } from "@/lib/utils";
+import { detectDocumentFormat, extractDocumentText, cleanDocumentText } from "@/lib/documentImport";
+import { splitPassages } from "@/lib/sourceMaterial";
+
+// ============================================
+// DOCUMENT SERVICE
+// "Mes supports" library: course material pasted
+// or imported by the user, stored in IndexedDB,
+// that quizzes can be grounded in
+// ============================================
+
+class DocumentService {
+  /**
+   * Import a text, Markdown or PDF file
+   */
+  async importFile(file: File, domain: Domain): Promise<SourceDocument> {
+    const format = detectDocumentFormat(file);
+    if (!format) {
+      throw new Error("Format non pris en charge (texte, Markdown ou PDF uniquement).");
+    }
+
+    const content = await extractDocumentText(file, format);
+    if (!content) {
+      throw new Error(
+        format === "pdf"
+          ? "Aucun texte trouvé dans ce PDF (document scanné ?)."
+          : "Le fichier est vide."
+      );
+    }
+
+    return this.create({
+      title: file.name.replace(/\.[^.]+$/, ""),
+      format,
+      content,
+      domain,
+    });
+  }
+
+  /**
+   * Add pasted or extracted material to the library
+   */
+  async create(input: {
+    title: string;
+    format: SourceDocumentFormat;
+    content: string;
+    domain: Domain;
+  }): Promise<SourceDocument> {
+    const content = cleanDocumentText(input.content);
+    if (!content) {
+      throw new Error("Le support est vide.");
+    }
+
+    const document: SourceDocument = {
+      id: `doc-${generateId()}`,
+      title: input.title.trim() || "Support sans titre",
+      format: input.format,
+      domain: input.domain,
+      content,
+      createdAt: new Date(),
+    };
+    await indexedDBService.saveDocument(document);
+
+    console.log(
+      "[Documents] Added",
+      document.id,
+      `"${document.title}" (${content.length} chars)`
+    );
+    return document;
+  }
+
+  /**
+   * Library, most recent first
+   */
+  async getAll(): Promise<SourceDocument[]> {
+    const documents = await indexedDBService.getAllDocuments();
+    return documents.sort(
+      (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    );
+  }
+
+  async get(id: string): Promise<SourceDocument | undefined> {
+    return indexedDBService.getDocument(id);
+  }
+
+  async delete(id: string): Promise<void> {
+    await indexedDBService.deleteDocument(id);
+    console.log("[Documents] Deleted", id);
+  }
+
+  /**
+   * Passages of a document, in reading order
+   */
+  getPassages(document: SourceDocument): SourcePassage[] {
+    return splitPassages(document);
+  }
+
+  /**
+   * Passages a generation is grounded in (empty when the document was deleted)
+   */
+  async resolvePassages(source: QuizSource): Promise<SourcePassage[]> {
+    const document = await this.get(source.documentId);
+    if (!document) return [];
+
+    const passages = this.getPassages(document);
+    if (source.passageIndex === undefined) return passages;
+    return passages[source.passageIndex] ? [passages[source.passageIndex]] : [];
+  }
+}
+
+// Singleton instance
+export const documentService = new DocumentService();
@@ -0,0 +1,122 @@
+import { CustomDomain, Domain } from "@/types";
+import { indexedDBService } from "./IndexedDBService";
+import { preloadedQuestionsService } from "./PreloadedQuestionsService";
+import { generateId } from "@/lib/utils";
+import {
+  CUSTOM_DOMAIN_PREFIX,
+  getCustomDomain,
+  getCustomDomains,
+  setCustomDomains,
+} from "@/lib/customDomains";
+
+// ============================================
+// DOMAIN SERVICE
+// User-defined domains (label, color, syllabus prompt,
+// optional offline question pack) stored in IndexedDB
+// and mirrored in the synchronous registry
+// ============================================
+
+export interface CustomDomainInput {
+  label: string;
+  color: string;
+  prompt: string;
+  questionPack?: string; // JSON contents of a question pack file
+}
+
+class DomainService {
+  private loading: Promise<void> | null = null;
+
+  /**
+   * Load the custom domains into the registry (once per page load)
+   */
+  async init(): Promise<void> {
+    if (typeof window === "undefined") return;
+    if (!this.loading) {
+      this.loading = (async () => {
+        await indexedDBService.init();
+        setCustomDomains(await indexedDBService.getAllCustomDomains());
+        console.log("[Domains] Loaded", getCustomDomains().length, "custom domains");
+      })().catch((error) => {
+        this.loading = null;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  /**
+   * Create a custom domain (and import its question pack, if any)
+   */
+  async create(input: CustomDomainInput): Promise<CustomDomain> {
+    await this.init();
+    const now = new Date();
+    const domain: CustomDomain = {
+      id: `${CUSTOM_DOMAIN_PREFIX}${generateId()}`,
+      label: "",
+      color: input.color,
+      prompt: "",
+      createdAt: now,
+      updatedAt: now,
+    };
+    return this.save(domain, input);
+  }
+
+  /**
+   * Edit a custom domain. A new question pack replaces the previous one.
+   */
+  async update(id: Domain, input: CustomDomainInput): Promise<CustomDomain> {
+    await this.init();
+    const existing = getCustomDomain(id);
+    if (!existing) {
+      throw new Error("Ce domaine n'existe plus.");
+    }
+    return this.save({ ...existing, updatedAt: new Date() }, input);
+  }
+
+  /**
+   * Delete a custom domain and its question pack. Questions already
+   * generated for it are kept and still show its id.
+   */
+  async delete(id: Domain): Promise<void> {
+    await this.init();
+    await indexedDBService.deleteCustomDomain(id);
+    await preloadedQuestionsService.removeQuestionPack(id);
+    setCustomDomains(getCustomDomains().filter((d) => d.id !== id));
+    console.log("[Domains] Deleted", id);
+  }
+
+  private async save(domain: CustomDomain, input: CustomDomainInput): Promise<CustomDomain> {
+    const label = input.label.trim();
+    if (!label) {
+      throw new Error("Le nom du domaine est obligatoire.");
+    }
+    const duplicate = getCustomDomains().find(
+      (d) => d.id !== domain.id && d.label.toLowerCase() === label.toLowerCase()
+    );
+    if (duplicate) {
+      throw new Error(`Un domaine « ${duplicate.label} » existe déjà.`);
+    }
+
+    const updated: CustomDomain = {
+      ...domain,
+      label,
+      color: input.color,
+      prompt: input.prompt.trim(),
+    };
+    if (input.questionPack) {
+      updated.questionCount = await preloadedQuestionsService.importQuestionPack(
+        updated.id,
+        input.questionPack
+      );
+    }
+
+    await indexedDBService.saveCustomDomain(updated);
+    setCustomDomains([...getCustomDomains().filter((d) => d.id !== updated.id), updated]);
+
+    console.log("[Domains] Saved", updated.id, `"${updated.label}"`);
+    return updated;
+  }
+}
+
+// Singleton instance
+export const domainService = new DomainService();
@@ -1,15 +1,84 @@
 import {
   Question,
+  Language,
   Domain,
-  QuestionType,
   QuestionGenerationRequest,
   MultiDomainQuestionRequest,
   GenerationProgressCallback,
   APIError,
   IAIService,
+  Difficulty,
+  DifficultySetting,
+  DifficultyMix,
+  AIProviderDefinition,
+  QuestionVerificationRequest,
+  QuestionVerdict,
+  TutorChatRequest,
+  AnswerGradingRequest,
+  AnswerGrade,
+  QuestionTranslationRequest,
+  AnswerRationaleRequest,
+  SourcePassage,
+  QuestionType,
+  ProviderModel,
 } from "@/types";
 import { generateId, retryWithBackoff, sleep, batchArray } from "@/lib/utils";
 import { storageService } from "./StorageService";
+import {
+  JSONSchema,
+  buildQuestionsSchema,
+  toGeminiSchema,
+  parseStructuredQuestions,
+  supportsStructuredOutput,
+  markStructuredOutputUnsupported,
+  isStructuredOutputUnsupported,
+  salvageQuestions,
+} from "@/lib/questionSchema";
+import { inferQuestionType } from "@/lib/scoring";
+import {
+  buildDifficultyInstruction,
+  getFallbackDifficulty,
+  parseDifficulty,
+} from "@/lib/difficulty";
+import { QuestionStreamParser } from "@/lib/questionStream";
+import { buildCoveredTopicsInstruction } from "@/lib/similarity";
+import { buildSourceContext } from "@/lib/sourceMaterial";
+import { getDomainPrompt, tagSubtopic } from "@/lib/subtopics";
+import { applyQuestionFormat, buildFormatInstruction } from "@/lib/questionFormats";
+import { buildLanguageInstruction } from "@/lib/i18n";
+import { maxTokensFor } from "@/lib/batchSizing";
+import {
+  VERIFIER_SYSTEM_PROMPT,
+  buildVerificationPrompt,
+  buildVerificationSchema,
+  parseVerdicts,
+} from "@/lib/verification";
+import { TUTOR_SYSTEM_PROMPT, buildTutorPrompt } from "@/lib/tutor";
+import {
+  TRANSLATION_SYSTEM_PROMPT,
+  buildTranslationPrompt,
+  buildTranslationSchema,
+  parseTranslations,
+} from "@/lib/translation";
+import {
+  GRADING_SYSTEM_PROMPT,
+  buildGradingPrompt,
+  buildGradingSchema,
+  parseGrade,
+} from "@/lib/grading";
+import {
+  RATIONALE_SYSTEM_PROMPT,
+  buildRationalePrompt,
+  buildRationaleSchema,
+  parseRationales,
+} from "@/lib/rationale";
+import {
+  usageService,
+  ApiCallContext,
+  TokenUsage,
+  readGeminiUsage,
+} from "./UsageService";
+import { generationLogService, GenerationLogger } from "./GenerationLogService";
 
 // ============================================
 // GEMINI SERVICE
@@ -19,69 +88,55 @@ import { storageService } from "./StorageService";
 const MAX_RETRIES = 3;
 const BASE_DELAY = 1000;
 
-// Domain prompts for question generation (same as OpenRouter)
-const DOMAIN_PROMPTS: Record<Domain, string> = {
-  [Domain.MACHINE_LEARNING]:
-    "Machine Learning Fondamental: algorithmes supervisés, non supervisés, régression, classification, clustering, evaluation de modèles, biais/variance, overfitting/underfitting.",
-  [Domain.IA_SYMBOLIQUE]:
-    "IA Symbolique: systèmes experts, logique propositionnelle, SAT, planification, représentation des connaissances, raisonnement, graphes de recherche.",
-  [Domain.DATA_WAREHOUSING]:
-    "Data Warehousing: ETL, architecture en étoile/flacon, schémas dimensionnels, modélisation, data marts, SCD, optimisation de requêtes.",
-  [Domain.BIG_DATA]:
-    "Big Data: frameworks distribués (Hadoop, Spark), NoSQL, streaming, MapReduce, scalabilité, partitionnement, sharding, CAP theorem.",
-  [Domain.SYSTEMES_RECOMMANDATION]:
-    "Systèmes de Recommandation: filtrage collaboratif, contenu, hybride, matrix factorization, cold start, évaluation, biais, fairité.",
-  [Domain.DATA_MINING]:
-    "Data Mining: pattern discovery, association rules, sequential pattern mining, outlier detection, preprocessing, feature engineering, validation.",
-  [Domain.DEEP_LEARNING]:
-    "Deep Learning: réseaux de neurones, CNN, RNN, LSTM, Transformer, backpropagation, activation functions, optimisation, regularisation.",
-  [Domain.VISUALISATION_DONNEES]:
-    "Visualisation de Données: principes de perception, types de graphiques, interaction, dashboards, storytelling, outils (D3.js, matplotlib), best practices.",
-  [Domain.ETHIQUE_IA]:
-    "Éthique de l'IA: biais algorithmiques, équité, accountability, transparence, vie privée, impact social, régulation, AI act, responsible AI.",
-  [Domain.NLP]:
-    "Traitement du Langage Naturel: tokenization, embeddings, attention, transformers, BERT, GPT, sentiment analysis, traduction, NER, langage vs parole.",
-};
-
 // Prompt template for question generation (adapted for Gemini)
 function generatePrompt(
   domain: Domain,
   count: number,
-  difficulty?: "easy" | "medium" | "hard",
+  difficulty?: DifficultySetting,
   previousQuestions?: string[],
+  difficultyMix?: DifficultyMix,
+  source?: SourcePassage,
+  subtopics?: string[],
+  formats?: QuestionType[],
+  language?: Language,
 ): string {
-  const domainContext = DOMAIN_PROMPTS[domain];
-  const difficultyText = difficulty
-    ? ` Niveau de difficulté: ${difficulty}.`
-    : "";
-
-  // Add previous questions to avoid duplicates
-  const previousQuestionsText = previousQuestions && previousQuestions.length > 0
-    ? `\n\nIMPORTANT: Les questions suivantes ont déjà été générées. Tu DOIS générer des questions DIFFÉRENTES qui ne traitent PAS des mêmes sujets:\n\n${previousQuestions.map(q => `- ${q}`).join('\n')}\n\n`
-    : "";
-
-  return `Tu es un expert pédagogique en Intelligence Artificielle et Big Data. Génère ${count} questions à choix multiple (QCM) sur le domaine suivant:
-
-${domainContext}${difficultyText}${previousQuestionsText}
+  // Course material replaces the domain syllabus as the only content source
+  const domainContext = source
+    ? buildSourceContext(source)
+    : `sur le domaine suivant:\n\n${getDomainPrompt(domain, subtopics)}`;
+  const difficultyText = buildDifficultyInstruction(count, difficulty, difficultyMix);
+
+  // Steer away from topics already covered (compact summary, not full texts)
+  const previousQuestionsText = buildCoveredTopicsInstruction(previousQuestions);
+  const formatText = buildFormatInstruction(formats);
+  const languageText = buildLanguageInstruction(language);
+
+  return `Tu es un expert pédagogique en Intelligence Artificielle et Big Data. Génère ${count} questions à choix multiple (QCM) ${domainContext}${difficultyText}${previousQuestionsText}
 IMPORTANT: Tu dois répondre UNIQUEMENT avec un tableau JSON valide contenant les questions. Pas de texte avant ou après le JSON.
 
 Format attendu pour chaque question:
 {
   "question": "texte de la question",
   "answers": [
-    {"text": "réponse A", "isCorrect": false},
-    {"text": "réponse B", "isCorrect": true},
-    {"text": "réponse C", "isCorrect": false},
-    {"text": "réponse D", "isCorrect": false}
+    {"text": "réponse A", "isCorrect": false, "rationale": "pourquoi cette option est fausse"},
+    {"text": "réponse B", "isCorrect": true, "rationale": "pourquoi cette option est correcte"},
+    {"text": "réponse C", "isCorrect": false, "rationale": "pourquoi cette option est fausse"},
+    {"text": "réponse D", "isCorrect": false, "rationale": "pourquoi cette option est fausse"}
   ],
-  "explanation": "explication détaillée de la bonne réponse"
-}
+  "explanation": "explication détaillée de la bonne réponse",
+  "difficulty": "easy" | "medium" | "hard",
+  "subtopic": "sous-thème du domaine couvert par la question"
+}${formatText}${languageText}
 
 Contraintes:
 - Les questions doivent être techniques et précises
-- Une seule bonne réponse par question
+- Environ un tiers des questions sont à réponses multiples ("cochez toutes les bonnes réponses") avec 2 ou 3 réponses "isCorrect": true
+- Les autres questions ont une seule bonne réponse
+- Le champ "difficulty" indique la difficulté réelle de chaque question
+- Le champ "subtopic" reprend tel quel le sous-thème de la liste du domaine que la question couvre
 - 4 choix de réponse par question
 - L'explication doit être concise (2-3 phrases maximum)
+- Chaque réponse a un champ "rationale" d'une phrase: pourquoi elle est correcte, ou précisément en quoi elle est fausse
 - Les questions doivent couvrir différents aspects du domaine
 - Inclure des questions pratiques et théoriques
 - CRITIQUE: Chaque nouvelle question doit traiter d'un sujet DIFFÉRENT des questions précédentes
@@ -95,6 +150,7 @@ Génère maintenant les ${count} questions au format JSON tableau:`;
 function parseQuestionsFromResponse(
   content: string,
   domain: Domain,
+  fallbackDifficulty: Difficulty = "medium",
 ): Question[] {
   console.log(
     "[Gemini] Parsing questions, content length:",
@@ -144,26 +200,44 @@ function parseQuestionsFromResponse(
         throw new Error("Invalid question structure");
       }
 
-      return {
+      const answers = q.answers.map((a: any) => ({
         id: generateId(),
-        domain,
-        type: QuestionType.SINGLE_CHOICE,
-        question: q.question,
-        answers: q.answers.map((a: any) => ({
-          id: generateId(),
-          text: a.text,
-          isCorrect: a.isCorrect || false,
-        })),
-        explanation: q.explanation || "",
-        difficulty: "medium",
-        tags: [domain],
-        createdAt: new Date(),
-      };
+        text: a.text,
+        isCorrect: a.isCorrect || false,
+        ...(typeof a.rationale === "string" && a.rationale.trim() && { rationale: a.rationale.trim() }),
+      }));
+
+      return tagSubtopic(
+        applyQuestionFormat(
+          {
+            id: generateId(),
+            domain,
+            type: inferQuestionType(answers),
+            question: q.question,
+            answers,
+            explanation: q.explanation || "",
+            difficulty: parseDifficulty(q.difficulty, fallbackDifficulty),
+            tags: [domain],
+            createdAt: new Date(),
+          },
+          q,
+        ),
+        q.subtopic,
+      );
     });
 
     console.log("[Gemini] Successfully parsed", questions.length, "questions");
     return questions;
   } catch (error) {
+    // Keep every complete question written before the cut
+    const salvaged = salvageQuestions(content, [domain], fallbackDifficulty);
+    if (salvaged.salvagedCount > 0) {
+      console.warn(
+        `[Gemini] Salvaged ${salvaged.salvagedCount} complete questions from ${salvaged.complete ? "malformed" : "truncated"} response`,
+      );
+      return salvaged.questions;
+    }
+
     console.error("[Gemini] Failed to parse questions:", error);
     console.error("[Gemini] Response content:", content);
     throw {
@@ -219,6 +293,507 @@ function createAPIError(
 }
 
 class GeminiService implements IAIService {
+  /**
+   * POST a generateContent request, asking for JSON output constrained by
+   * responseSchema when the model supports it and retrying once without it if rejected.
+   * A null schema requests plain text. With `stream`, uses streamGenerateContent and returns a server-sent events stream.
+   */
+  private async postGenerateContent(
+    apiKey: string,
+    model: string,
+    prompt: string,
+    schema: JSONSchema | null,
+    stream = false,
+    signal?: AbortSignal,
+    maxTokens = maxTokensFor(),
+  ): Promise<Response> {
+    const geminiApiUrl = stream
+      ? `https://generativelanguage.googleapis.com/v1beta/models/${model}:streamGenerateContent?alt=sse&key=${apiKey}`
+      : `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`;
+    const send = (structured: boolean) =>
+      fetch(geminiApiUrl, {
+        method: "POST",
+        signal,
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          contents: [{
+            parts: [{
+              text: prompt
+            }]
+          }],
+          generationConfig: {
+            temperature: 0.7,
+            maxOutputTokens: maxTokens,
+            ...(structured && schema && {
+              responseMimeType: "application/json",
+              responseSchema: toGeminiSchema(schema),
+            }),
+          }
+        }),
+      });
+
+    // Gemma models served by the Gemini API reject JSON mode
+    if (!schema || !supportsStructuredOutput("gemini", model)) {
+      return send(false);
+    }
+
+    const res = await send(true);
+    if (!res.ok) {
+      const error = await res.clone().json().catch(() => ({}));
+      if (isStructuredOutputUnsupported(res.status, error)) {
+        markStructuredOutputUnsupported("gemini", model);
+        return send(false);
+      }
+    }
+
+    return res;
+  }
+
+  /**
+   * Stream a generation, emitting each question as soon as its JSON object
+   * is complete. Falls back to parseContent on the full text when nothing
+   * could be parsed incrementally.
+   */
+  private async streamQuestions(
+    apiKey: string,
+    call: ApiCallContext,
+    prompt: string,
+    schema: JSONSchema,
+    onQuestion: (question: Question) => void,
+    fallbackDifficulty: Difficulty,
+    parseContent: (content: string) => Question[],
+    log: GenerationLogger,
+    maxTokens: number,
+    signal?: AbortSignal,
+  ): Promise<Question[]> {
+    const startTime = Date.now();
+
+    const { res, tracker } = await retryWithBackoff(
+      async () => {
+        const tracker = usageService.startCall(call);
+        try {
+          const res = await this.postGenerateContent(
+            apiKey,
+            call.model,
+            prompt,
+            schema,
+            true,
+            signal,
+            maxTokens,
+          );
+
+          if (!res.ok) {
+            const errorData = await res.json().catch(() => ({}));
+            console.error("[Gemini] API error response:", errorData);
+            throw createAPIError(
+              errorData.error?.message || errorData.message || "API request failed",
+              res.status
+            );
+          }
+
+          return { res, tracker };
+        } catch (error) {
+          tracker.fail(error);
+          throw error;
+        }
+      },
+      MAX_RETRIES,
+      BASE_DELAY,
+      signal,
+    );
+
+    // Each event carries a GenerateContentResponse chunk; skip thought parts.
+    // usageMetadata is cumulative, the last chunk holds the final counts.
+    let usage: TokenUsage | undefined;
+    const parser = new QuestionStreamParser(call.domains, onQuestion, fallbackDifficulty);
+    try {
+      await parser.consume<{
+        candidates?: Array<{ content?: { parts?: Array<{ text?: string; thought?: boolean }> } }>;
+        usageMetadata?: Parameters<typeof readGeminiUsage>[0];
+      }>(res, (event) => {
+        usage = readGeminiUsage(event.usageMetadata) ?? usage;
+        return event.candidates?.[0]?.content?.parts
+          ?.filter((p) => p.text && !p.thought)
+          .map((p) => p.text)
+          .join("");
+      });
+    } catch (error) {
+      tracker.fail(error);
+      log.fail(error, parser.content);
+      throw error;
+    }
+    tracker.succeed(usage);
+
+    console.log("[Gemini] Stream completed:", {
+      duration: `${Date.now() - startTime}ms`,
+      contentLength: parser.content.length,
+      streamedQuestions: parser.questions.length,
+    });
+
+    try {
+      const questions = parser.finish(parseContent);
+      log.succeed(parser.content, questions);
+      return questions;
+    } catch (error) {
+      log.fail(error, parser.content);
+      throw error;
+    }
+  }
+
+  /**
+   * Answer questions blind (verification pass)
+   */
+  async verifyQuestions(request: QuestionVerificationRequest): Promise<QuestionVerdict[]> {
+    const settings = await storageService.getSettings();
+    const apiKey = settings.credentials?.gemini?.apiKey;
+    const model = request.model || settings.model || "gemini-2.5-flash";
+
+    if (!apiKey) {
+      throw {
+        message: "Gemini API key not configured. Please check your settings.",
+        code: "NO_API_KEY",
+        isRetryable: false,
+      };
+    }
+
+    const prompt = `${VERIFIER_SYSTEM_PROMPT}\n\n${buildVerificationPrompt(request.questions)}`;
+    const call: ApiCallContext = {
+      provider: "gemini",
+      model,
+      sessionId: request.sessionId,
+      domains: [...new Set(request.questions.map((q) => q.domain))],
+    };
+
+    console.log("[Gemini] Verifying", request.questions.length, "questions with", model);
+
+    const data = await retryWithBackoff(
+      () => usageService.track(call, async () => {
+        const res = await this.postGenerateContent(
+          apiKey,
+          model,
+          prompt,
+          buildVerificationSchema(),
+          false,
+          request.signal,
+        );
+
+        if (!res.ok) {
+          const errorData = await res.json().catch(() => ({}));
+          console.error("[Gemini] API error response:", errorData);
+          throw createAPIError(
+            errorData.error?.message || errorData.message || "API request failed",
+            res.status
+          );
+        }
+
+        return res.json();
+      }, (data) => readGeminiUsage(data.usageMetadata)),
+      MAX_RETRIES,
+      BASE_DELAY,
+      request.signal,
+    );
+
+    const parts: Array<{ text?: string; thought?: boolean }> =
+      data.candidates?.[0]?.content?.parts || [];
+    const text = parts.filter((p) => p.text && !p.thought).map((p) => p.text).join("");
+    return parseVerdicts(text, request.questions);
+  }
+
+  /**
+   * Explain each option of the questions (rationale backfill)
+   */
+  async explainAnswers(request: AnswerRationaleRequest): Promise<Question[]> {
+    const settings = await storageService.getSettings();
+    const apiKey = settings.credentials?.gemini?.apiKey;
+    const model = request.model || settings.model || "gemini-2.5-flash";
+
+    if (!apiKey) {
+      throw {
+        message: "Gemini API key not configured. Please check your settings.",
+        code: "NO_API_KEY",
+        isRetryable: false,
+      };
+    }
+
+    const prompt = `${RATIONALE_SYSTEM_PROMPT}\n\n${buildRationalePrompt(request.questions)}`;
+    const call: ApiCallContext = {
+      provider: "gemini",
+      model,
+      sessionId: request.sessionId,
+      domains: [...new Set(request.questions.map((q) => q.domain))],
+    };
+
+    console.log("[Gemini] Explaining answers of", request.questions.length, "questions with", model);
+
+    const data = await retryWithBackoff(
+      () => usageService.track(call, async () => {
+        const res = await this.postGenerateContent(
+          apiKey,
+          model,
+          prompt,
+          buildRationaleSchema(),
+          false,
+          request.signal,
+        );
+
+        if (!res.ok) {
+          const errorData = await res.json().catch(() => ({}));
+          console.error("[Gemini] API error response:", errorData);
+          throw createAPIError(
+            errorData.error?.message || errorData.message || "API request failed",
+            res.status
+          );
+        }
+
+        return res.json();
+      }, (data) => readGeminiUsage(data.usageMetadata)),
+      MAX_RETRIES,
+      BASE_DELAY,
+      request.signal,
+    );
+
+    const parts: Array<{ text?: string; thought?: boolean }> =
+      data.candidates?.[0]?.content?.parts || [];
+    const text = parts.filter((p) => p.text && !p.thought).map((p) => p.text).join("");
+    return parseRationales(text, request.questions);
+  }
+
+  /**
+   * Translate questions into another language (question bank)
+   */
+  async translateQuestions(request: QuestionTranslationRequest): Promise<Question[]> {
+    const settings = await storageService.getSettings();
+    const apiKey = settings.credentials?.gemini?.apiKey;
+    const model = request.model || settings.model || "gemini-2.5-flash";
+
+    if (!apiKey) {
+      throw {
+        message: "Gemini API key not configured. Please check your settings.",
+        code: "NO_API_KEY",
+        isRetryable: false,
+      };
+    }
+
+    const prompt = `${TRANSLATION_SYSTEM_PROMPT}\n\n${buildTranslationPrompt(request.questions, request.language)}`;
+    const call: ApiCallContext = {
+      provider: "gemini",
+      model,
+      sessionId: request.sessionId,
+      domains: [...new Set(request.questions.map((q) => q.domain))],
+    };
+
+    console.log("[Gemini] Translating", request.questions.length, "questions to", request.language, "with", model);
+
+    const data = await retryWithBackoff(
+      () => usageService.track(call, async () => {
+        const res = await this.postGenerateContent(
+          apiKey,
+          model,
+          prompt,
+          buildTranslationSchema(),
+          false,
+          request.signal,
+        );
+
+        if (!res.ok) {
+          const errorData = await res.json().catch(() => ({}));
+          console.error("[Gemini] API error response:", errorData);
+          throw createAPIError(
+            errorData.error?.message || errorData.message || "API request failed",
+            res.status
+          );
+        }
+
+        return res.json();
+      }, (data) => readGeminiUsage(data.usageMetadata)),
+      MAX_RETRIES,
+      BASE_DELAY,
+      request.signal,
+    );
+
+    const parts: Array<{ text?: string; thought?: boolean }> =
+      data.candidates?.[0]?.content?.parts || [];
+    const text = parts.filter((p) => p.text && !p.thought).map((p) => p.text).join("");
+    return parseTranslations(text, request.questions, request.language);
+  }
+
+  /**
+   * Grade an open-ended answer against the question's rubric
+   */
+  async gradeAnswer(request: AnswerGradingRequest): Promise<AnswerGrade> {
+    const settings = await storageService.getSettings();
+    const apiKey = settings.credentials?.gemini?.apiKey;
+    const model = request.model || settings.model || "gemini-2.5-flash";
+
+    if (!apiKey) {
+      throw {
+        message: "Gemini API key not configured. Please check your settings.",
+        code: "NO_API_KEY",
+        isRetryable: false,
+      };
+    }
+
+    const prompt = `${GRADING_SYSTEM_PROMPT}\n\n${buildGradingPrompt(request.question, request.response)}`;
+    const call: ApiCallContext = {
+      provider: "gemini",
+      model,
+      sessionId: request.sessionId,
+      domains: [request.question.domain],
+    };
+
+    console.log("[Gemini] Grading answer to question", request.question.id, "with", model);
+
+    const data = await retryWithBackoff(
+      () => usageService.track(call, async () => {
+        const res = await this.postGenerateContent(
+          apiKey,
+          model,
+          prompt,
+          buildGradingSchema(),
+          false,
+          request.signal,
+        );
+
+        if (!res.ok) {
+          const errorData = await res.json().catch(() => ({}));
+          console.error("[Gemini] API error response:", errorData);
+          throw createAPIError(
+            errorData.error?.message || errorData.message || "API request failed",
+            res.status
+          );
+        }
+
+        return res.json();
+      }, (data) => readGeminiUsage(data.usageMetadata)),
+      MAX_RETRIES,
+      BASE_DELAY,
+      request.signal,
+    );
+
+    const parts: Array<{ text?: string; thought?: boolean }> =
+      data.candidates?.[0]?.content?.parts || [];
+    const text = parts.filter((p) => p.text && !p.thought).map((p) => p.text).join("");
+    return parseGrade(text, model);
+  }
+
+  /**
+   * Reply to a follow-up about an answered question ("Approfondir")
+   */
+  async explainQuestion(request: TutorChatRequest): Promise<string> {
+    const settings = await storageService.getSettings();
+    const apiKey = settings.credentials?.gemini?.apiKey;
+    const model = request.model || settings.model || "gemini-2.5-flash";
+
+    if (!apiKey) {
+      throw {
+        message: "Gemini API key not configured. Please check your settings.",
+        code: "NO_API_KEY",
+        isRetryable: false,
+      };
+    }
+
+    const prompt = `${TUTOR_SYSTEM_PROMPT}\n\n${buildTutorPrompt(request)}`;
+    const call: ApiCallContext = {
+      provider: "gemini",
+      model,
+      sessionId: request.sessionId,
+      domains: [request.question.domain],
+    };
+
+    console.log("[Gemini] Tutor reply for question", request.question.id, "with", model);
+
+    const data = await retryWithBackoff(
+      () => usageService.track(call, async () => {
+        const res = await this.postGenerateContent(
+          apiKey,
+          model,
+          prompt,
+          null,
+          false,
+          request.signal,
+        );
+
+        if (!res.ok) {
+          const errorData = await res.json().catch(() => ({}));
+          console.error("[Gemini] API error response:", errorData);
+          throw createAPIError(
+            errorData.error?.message || errorData.message || "API request failed",
+            res.status
+          );
+        }
+
+        return res.json();
+      }, (data) => readGeminiUsage(data.usageMetadata)),
+      MAX_RETRIES,
+      BASE_DELAY,
+      request.signal,
+    );
+
+    const parts: Array<{ text?: string; thought?: boolean }> =
+      data.candidates?.[0]?.content?.parts || [];
+    const text = parts.filter((p) => p.text && !p.thought).map((p) => p.text).join("").trim();
+    if (!text) {
+      throw new Error("Empty response from Gemini");
+    }
+    return text;
+  }
+
+  /**
+   * Fetch the models usable for generation (models.list, paginated).
+   * The Gemini API exposes no prices: every model is listed as free tier.
+   */
+  async listCatalog(apiKey: string): Promise<ProviderModel[]> {
+    const models: ProviderModel[] = [];
+    let pageToken = "";
+
+    do {
+      const url =
+        `https://generativelanguage.googleapis.com/v1beta/models?pageSize=1000&key=${apiKey}` +
+        (pageToken ? `&pageToken=${pageToken}` : "");
+      const res = await fetch(url);
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        throw createAPIError(errorData.error?.message || "Model list request failed", res.status);
+      }
+
+      const data = await res.json();
+      for (const m of data.models || []) {
+        if (!m.supportedGenerationMethods?.includes("generateContent")) continue;
+        const id = String(m.name || "").replace(/^models\//, "");
+        if (!id) continue;
+        models.push({
+          id,
+          name: m.displayName || id,
+          free: true,
+          contextLength: m.inputTokenLimit || undefined,
+        });
+      }
+      pageToken = data.nextPageToken || "";
+    } while (pageToken);
+
+    console.log("[Gemini] Catalog fetched:", models.length, "models");
+    return models;
+  }
+
+  /**
+   * Parse a raw generation response as generation does (diagnostics replay)
+   */
+  parseGeneratedQuestions(
+    content: string,
+    domains: Domain[],
+    fallbackDifficulty: Difficulty,
+    multiDomain: boolean,
+  ): Question[] {
+    return (
+      parseStructuredQuestions(content, domains, fallbackDifficulty) ??
+      (multiDomain
+        ? this.parseMultiDomainQuestions(content, domains, fallbackDifficulty)
+        : parseQuestionsFromResponse(content, domains[0], fallbackDifficulty))
+    );
+  }
+
   /**
    * Validate API key with a minimal request
    */
@@ -282,8 +857,8 @@ class GeminiService implements IAIService {
     try {
       // Get API key and batchSize from settings (IMPORTANT: Read fresh each time!)
       const settings = await storageService.getSettings();
-      const apiKey = settings.geminiApiKey;
-      const batchSize = settings?.batchSize || 10;
+      const apiKey = settings.credentials?.gemini?.apiKey;
+      const batchSize = request.batchSize || settings?.batchSize || 10;
 
       if (!apiKey) {
         throw {
@@ -342,12 +917,15 @@ class GeminiService implements IAIService {
     request: QuestionGenerationRequest,
   ): Promise<Question[]> {
     const { domain, count, difficulty } = request;
+    const fallbackDifficulty = getFallbackDifficulty(difficulty);
+    let log: GenerationLogger | undefined;
+    let responseText = "";
 
     try {
       // Get API key and model from settings (IMPORTANT: Read fresh each time!)
       const settings = await storageService.getSettings();
-      const apiKey = settings.geminiApiKey;
-      const model = settings.model || "gemini-2.5-flash";
+      const apiKey = settings.credentials?.gemini?.apiKey;
+      const model = request.model || settings.model || "gemini-2.5-flash";
 
       if (!apiKey) {
         throw {
@@ -357,7 +935,17 @@ class GeminiService implements IAIService {
         };
       }
 
-      const prompt = generatePrompt(domain, count, difficulty, request.previousQuestions);
+      const prompt = generatePrompt(
+        domain,
+        count,
+        difficulty,
+        request.previousQuestions,
+        request.difficultyMix,
+        request.source,
+        request.subtopics,
+        request.formats,
+        request.language,
+      );
 
       console.log("[Gemini] Starting batch generation:", {
         domain,
@@ -366,35 +954,57 @@ class GeminiService implements IAIService {
         difficulty,
         promptLength: prompt.length,
       });
-      console.log("[Gemini] Prompt being sent to API:");
-      console.log("---PROMPT START---");
-      console.log(prompt);
-      console.log("---PROMPT END---");
+
+      const call: ApiCallContext = {
+        provider: "gemini",
+        model,
+        sessionId: request.sessionId,
+        domains: [domain],
+      };
+
+      log = generationLogService.start({
+        provider: "gemini",
+        model,
+        sessionId: request.sessionId,
+        domains: [domain],
+        multiDomain: false,
+        fallbackDifficulty,
+        streamed: !!request.onQuestion,
+        prompt,
+      });
+
+      if (request.onQuestion) {
+        console.log("[Gemini] Streaming questions from Gemini API...");
+        return await this.streamQuestions(
+          apiKey,
+          call,
+          prompt,
+          buildQuestionsSchema(undefined, !!request.source, request.formats),
+          request.onQuestion,
+          fallbackDifficulty,
+          (text) =>
+            parseStructuredQuestions(text, [domain], fallbackDifficulty) ??
+            parseQuestionsFromResponse(text, domain, fallbackDifficulty),
+          log,
+          maxTokensFor(count),
+          request.signal
+        );
+      }
 
       console.log("[Gemini] Sending HTTP request to Gemini API...");
       const startTime = Date.now();
 
-      const response = await retryWithBackoff(
-        async () => {
-          const geminiApiUrl = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`;
-          const url = geminiApiUrl;
-          const res = await fetch(url, {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-            },
-            body: JSON.stringify({
-              contents: [{
-                parts: [{
-                  text: prompt
-                }]
-              }],
-              generationConfig: {
-                temperature: 0.7,
-                maxOutputTokens: 12000,
-              }
-            }),
-          });
+      const data = await retryWithBackoff(
+        () => usageService.track(call, async () => {
+          const res = await this.postGenerateContent(
+            apiKey,
+            model,
+            prompt,
+            buildQuestionsSchema(undefined, !!request.source, request.formats),
+            false,
+            request.signal,
+            maxTokensFor(count),
+          );
 
           console.log("[Gemini] Response status:", res.status);
 
@@ -407,22 +1017,21 @@ class GeminiService implements IAIService {
             );
           }
 
-          return res;
-        },
+          return res.json();
+        }, (data) => readGeminiUsage(data.usageMetadata)),
         MAX_RETRIES,
-        BASE_DELAY
+        BASE_DELAY,
+        request.signal,
       );
 
       const duration = Date.now() - startTime;
       console.log(`[Gemini] Request completed in ${duration}ms`);
 
-      const data = await response.json();
       console.log("[Gemini] Response received, parsing...");
 
       // Extract text from Gemini response format
       // Gemini returns: { candidates: [{ content: { parts: [{ text }] } }] }
       // Some models (e.g. gemma-4 with thinking) return thought parts — filter them out
-      let responseText = "";
       if (data.candidates && data.candidates[0]?.content?.parts) {
         const parts = data.candidates[0].content.parts;
         const nonThoughtParts = parts.filter((p: any) => p.text && !p.thought);
@@ -433,9 +1042,11 @@ class GeminiService implements IAIService {
       }
 
       console.log("[Gemini] Response text length:", responseText.length);
-      console.log("[Gemini] Response text preview:", responseText.substring(0, 200) + "...");
 
-      const questions = parseQuestionsFromResponse(responseText, domain);
+      const questions =
+        parseStructuredQuestions(responseText, [domain], fallbackDifficulty) ??
+        parseQuestionsFromResponse(responseText, domain, fallbackDifficulty);
+      log.succeed(responseText, questions);
 
       if (questions.length !== count) {
         console.warn(
@@ -446,6 +1057,7 @@ class GeminiService implements IAIService {
       return questions;
     } catch (error: any) {
       console.error("[Gemini] Failed to generate questions:", error);
+      log?.fail(error, responseText || undefined);
 
       // Check if it's already an APIError
       if (error.code) {
@@ -470,7 +1082,10 @@ class GeminiService implements IAIService {
     onProgress?: GenerationProgressCallback,
   ): Promise<Question[]> {
     const { domains, countPerDomain, difficulty } = request;
+    const fallbackDifficulty = getFallbackDifficulty(difficulty);
     const totalCount = domains.length * countPerDomain;
+    let log: GenerationLogger | undefined;
+    let responseText = "";
 
     console.log("[Gemini] ===== STARTING MULTI-DOMAIN QUESTION GENERATION =====");
     console.log("[Gemini] Request details:", {
@@ -486,8 +1101,8 @@ class GeminiService implements IAIService {
     try {
       // Get API key and model from settings (IMPORTANT: Read fresh each time!)
       const settings = await storageService.getSettings();
-      const apiKey = settings.geminiApiKey;
-      const model = settings.model || "gemini-2.5-flash";
+      const apiKey = settings.credentials?.gemini?.apiKey;
+      const model = request.model || settings.model || "gemini-2.5-flash";
 
       if (!apiKey) {
         throw {
@@ -510,35 +1125,67 @@ class GeminiService implements IAIService {
         difficulty,
         promptLength: prompt.length,
       });
-      console.log("[Gemini] Prompt being sent to API:");
-      console.log("---PROMPT START---");
-      console.log(prompt);
-      console.log("---PROMPT END---");
+
+      const call: ApiCallContext = {
+        provider: "gemini",
+        model,
+        sessionId: request.sessionId,
+        domains,
+      };
+
+      log = generationLogService.start({
+        provider: "gemini",
+        model,
+        sessionId: request.sessionId,
+        domains,
+        multiDomain: true,
+        fallbackDifficulty,
+        streamed: !!request.onQuestion,
+        prompt,
+      });
+
+      if (request.onQuestion) {
+        console.log("[Gemini] Streaming questions from Gemini API...");
+        const questions = await this.streamQuestions(
+          apiKey,
+          call,
+          prompt,
+          buildQuestionsSchema(domains, false, request.formats),
+          request.onQuestion,
+          fallbackDifficulty,
+          (text) =>
+            parseStructuredQuestions(text, domains, fallbackDifficulty) ??
+            this.parseMultiDomainQuestions(text, domains, fallbackDifficulty),
+          log,
+          maxTokensFor(totalCount),
+          request.signal
+        );
+
+        if (onProgress) {
+          onProgress({
+            current: questions.length,
+            total: totalCount,
+            batch: questions,
+          });
+        }
+
+        return questions;
+      }
 
       console.log("[Gemini] Sending HTTP request to Gemini API...");
       const startTime = Date.now();
 
       const response = await retryWithBackoff(
-        async () => {
-          const geminiApiUrl = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`;
-          const url = geminiApiUrl;
-          const res = await fetch(url, {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-            },
-            body: JSON.stringify({
-              contents: [{
-                parts: [{
-                  text: prompt
-                }]
-              }],
-              generationConfig: {
-                temperature: 0.7,
-                maxOutputTokens: 12000,
-              }
-            }),
-          });
+        () => usageService.track(call, async () => {
+          const res = await this.postGenerateContent(
+            apiKey,
+            model,
+            prompt,
+            buildQuestionsSchema(domains, false, request.formats),
+            false,
+            request.signal,
+            maxTokensFor(totalCount),
+          );
 
           if (!res.ok) {
             const error = await res.json();
@@ -547,9 +1194,10 @@ class GeminiService implements IAIService {
           }
 
           return res.json();
-        },
+        }, (data) => readGeminiUsage(data.usageMetadata)),
         MAX_RETRIES,
         BASE_DELAY,
+        request.signal,
       );
 
       const endTime = Date.now();
@@ -557,7 +1205,6 @@ class GeminiService implements IAIService {
 
       // Extract text from Gemini response format
       // Filter out thought parts for reasoning models (e.g. gemma-4)
-      let responseText = "";
       if (response.candidates && response.candidates[0]?.content?.parts) {
         const parts = response.candidates[0].content.parts;
         const nonThoughtParts = parts.filter((p: any) => p.text && !p.thought);
@@ -570,7 +1217,10 @@ class GeminiService implements IAIService {
       console.log("[Gemini] Response received, length:", responseText.length);
 
       // Parse questions from response
-      const questions = this.parseMultiDomainQuestions(responseText, domains);
+      const questions =
+        parseStructuredQuestions(responseText, domains, fallbackDifficulty) ??
+        this.parseMultiDomainQuestions(responseText, domains, fallbackDifficulty);
+      log.succeed(responseText, questions);
 
       if (questions.length !== totalCount) {
         console.warn(
@@ -598,6 +1248,7 @@ class GeminiService implements IAIService {
       return questions;
     } catch (error: any) {
       console.error("[Gemini] Failed to generate multi-domain questions:", error);
+      log?.fail(error, responseText || undefined);
 
       // Check if it's already an APIError
       if (error.code) {
@@ -619,16 +1270,19 @@ class GeminiService implements IAIService {
   private generateMultiDomainPrompt(request: MultiDomainQuestionRequest): string {
     const { domains, countPerDomain, difficulty } = request;
     const domainPrompts = domains.map(
-      (domain) => `${DOMAIN_PROMPTS[domain]} (${countPerDomain} questions)`
+      (domain) => `${getDomainPrompt(domain)} (${countPerDomain} questions)`
     ).join("\n\n");
 
-    const difficultyText = difficulty
-      ? ` Niveau de difficulté: ${difficulty}.`
-      : "";
+    const difficultyText = buildDifficultyInstruction(
+      countPerDomain,
+      difficulty,
+      request.difficultyMix,
+      true,
+    );
 
-    const previousQuestionsText = request.previousQuestions && request.previousQuestions.length > 0
-      ? `\n\nIMPORTANT: Les questions suivantes ont déjà été générées. Tu DOIS générer des questions DIFFÉRENTES qui ne traitent PAS des mêmes sujets:\n\n${request.previousQuestions.map(q => `- ${q}`).join('\n')}\n\n`
-      : "";
+    const previousQuestionsText = buildCoveredTopicsInstruction(request.previousQuestions);
+  const formatText = buildFormatInstruction(request.formats);
+  const languageText = buildLanguageInstruction(request.language);
 
     return `Tu es un expert pédagogique en Intelligence Artificielle et Big Data. Génère des questions à choix multiple (QCM) sur les domaines suivants:
 
@@ -642,19 +1296,25 @@ Format attendu pour chaque question:
   "question": "texte de la question",
   "domain": "MACHINE_LEARNING" | "IA_SYMBOLIQUE" | "DATA_WAREHOUSING" | "BIG_DATA" | "SYSTEMES_RECOMMANDATION" | "DATA_MINING" | "DEEP_LEARNING" | "VISUALISATION_DONNEES" | "ETHIQUE_IA" | "NLP",
   "answers": [
-    {"text": "réponse A", "isCorrect": false},
-    {"text": "réponse B", "isCorrect": true},
-    {"text": "réponse C", "isCorrect": false},
-    {"text": "réponse D", "isCorrect": false}
+    {"text": "réponse A", "isCorrect": false, "rationale": "pourquoi cette option est fausse"},
+    {"text": "réponse B", "isCorrect": true, "rationale": "pourquoi cette option est correcte"},
+    {"text": "réponse C", "isCorrect": false, "rationale": "pourquoi cette option est fausse"},
+    {"text": "réponse D", "isCorrect": false, "rationale": "pourquoi cette option est fausse"}
   ],
-  "explanation": "explication détaillée de la bonne réponse"
-}
+  "explanation": "explication détaillée de la bonne réponse",
+  "difficulty": "easy" | "medium" | "hard",
+  "subtopic": "sous-thème du domaine couvert par la question"
+}${formatText}${languageText}
 
 Contraintes:
 - Les questions doivent être techniques et précises
-- Une seule bonne réponse par question
+- Environ un tiers des questions sont à réponses multiples ("cochez toutes les bonnes réponses") avec 2 ou 3 réponses "isCorrect": true
+- Les autres questions ont une seule bonne réponse
+- Le champ "difficulty" indique la difficulté réelle de chaque question
+- Le champ "subtopic" reprend tel quel le sous-thème de la liste du domaine que la question couvre
 - 4 choix de réponse par question
 - L'explication doit être concise (2-3 phrases maximum)
+- Chaque réponse a un champ "rationale" d'une phrase: pourquoi elle est correcte, ou précisément en quoi elle est fausse
 - Les questions doivent couvrir différents aspects du domaine
 - Inclure des questions pratiques et théoriques
 - CRITIQUE: Le champ "domain" doit correspondre exactement au domaine de la question
@@ -667,7 +1327,11 @@ Génère maintenant les questions au format JSON tableau:`;
   /**
    * Parse questions from multi-domain API response
    */
-  private parseMultiDomainQuestions(content: string, expectedDomains: Domain[]): Question[] {
+  private parseMultiDomainQuestions(
+    content: string,
+    expectedDomains: Domain[],
+    fallbackDifficulty: Difficulty = "medium",
+  ): Question[] {
     try {
       // Strip Gemma thinking tokens
       content = content.replace(/<\|channel\|>thought[\s\S]*?<channel\|>/g, "");
@@ -713,26 +1377,43 @@ Génère maintenant les questions au format JSON tableau:`;
           );
         }
 
-        return {
+        const answers = q.answers.map((a: any) => ({
           id: generateId(),
-          domain: q.domain as Domain,
-          type: QuestionType.SINGLE_CHOICE,
-          question: q.question,
-          answers: q.answers.map((a: any) => ({
-            id: generateId(),
-            text: a.text,
-            isCorrect: a.isCorrect || false,
-          })),
-          explanation: q.explanation || "",
-          difficulty: "medium",
-          tags: [q.domain as Domain],
-          createdAt: new Date(),
-        };
+          text: a.text,
+          isCorrect: a.isCorrect || false,
+          ...(typeof a.rationale === "string" && a.rationale.trim() && { rationale: a.rationale.trim() }),
+        }));
+
+        return tagSubtopic(
+          applyQuestionFormat(
+            {
+              id: generateId(),
+              domain: q.domain as Domain,
+              type: inferQuestionType(answers),
+              question: q.question,
+              answers,
+              explanation: q.explanation || "",
+              difficulty: parseDifficulty(q.difficulty, fallbackDifficulty),
+              tags: [q.domain as Domain],
+              createdAt: new Date(),
+            },
+            q,
+          ),
+          q.subtopic,
+        );
       });
 
       console.log("[Gemini] Successfully parsed", questions.length, "questions from multi-domain response");
       return questions;
     } catch (error: any) {
+      const salvaged = salvageQuestions(content, expectedDomains, fallbackDifficulty);
+      if (salvaged.salvagedCount > 0) {
+        console.warn(
+          `[Gemini] Salvaged ${salvaged.salvagedCount} complete questions from ${salvaged.complete ? "malformed" : "truncated"} multi-domain response`,
+        );
+        return salvaged.questions;
+      }
+
       console.error("[Gemini] Error parsing multi-domain questions:", error);
       throw new Error(`Failed to parse questions: ${error.message}`);
     }
@@ -741,3 +1422,33 @@ Génère maintenant les questions au format JSON tableau:`;
 
 // Singleton instance
 export const geminiService = new GeminiService();
+
+// Provider declaration (registered in ProviderRegistry)
+export const geminiProvider: AIProviderDefinition = {
+  id: "gemini",
+  label: "provider.gemini.label",
+  description: "provider.gemini.description",
+  setupHint: "provider.gemini.setupHint",
+  credentialFields: [
+    {
+      key: "apiKey",
+      label: "provider.gemini.apiKey",
+      type: "password",
+      placeholder: "provider.gemini.apiKeyPlaceholder",
+      required: true,
+      helpUrl: "https://aistudio.google.com/app/apikey",
+      helpLabel: "provider.gemini.apiKeyHelp",
+    },
+  ],
+  models: [
+    { id: "gemma-4-31b-it", name: "Gemma 4 31B", free: true },
+    { id: "gemini-3.1-flash-lite-preview", name: "Gemini 3.1 Flash Lite", free: true },
+  ],
+  defaultModel: "gemma-4-31b-it",
+  customModelPlaceholder: "provider.gemini.customModelPlaceholder",
+  modelsDocUrl: "https://ai.google.dev/gemini-api/docs/models",
+  // Google API key format: AIza followed by 33+ alphanumeric characters
+  validateCredentials: ({ apiKey = "" }) => /^AIza[A-Za-z0-9_-]{33,}$/.test(apiKey),
+  fetchCatalog: ({ apiKey = "" }) => geminiService.listCatalog(apiKey),
+  createService: () => geminiService,
+};
@@ -0,0 +1,89 @@
+import { GenerationLog, Question } from "@/types";
+import { indexedDBService } from "./IndexedDBService";
+import { generateId } from "@/lib/utils";
+
+// ============================================
+// GENERATION LOG SERVICE
+// Ring buffer of question generation attempts
+// (prompt, raw response, parse result, error, timing)
+// shown on the diagnostics page
+// ============================================
+
+// Logs kept: prompts and responses are large, the oldest are dropped
+const MAX_GENERATION_LOGS = 50;
+
+// What a generation attempt was made with
+export type GenerationLogContext = Omit<
+  GenerationLog,
+  "id" | "timestamp" | "response" | "questionCount" | "error" | "durationMs"
+>;
+
+// Handle of a generation attempt in flight (see start)
+export interface GenerationLogger {
+  succeed: (response: string, questions: Question[]) => void;
+  fail: (error: unknown, response?: string) => void;
+}
+
+/**
+ * Readable message of an API error object or thrown Error
+ */
+export function describeError(error: unknown): string {
+  const e = error as { code?: string; message?: string };
+  const message = e?.message || String(error);
+  return e?.code ? `${e.code}: ${message}` : message;
+}
+
+class GenerationLogService {
+  /**
+   * Start timing a generation attempt; settle it with succeed() or fail().
+   * Logging never throws: diagnostics must not break generation.
+   */
+  start(context: GenerationLogContext): GenerationLogger {
+    const startedAt = Date.now();
+    let settled = false;
+
+    const record = (outcome: Pick<GenerationLog, "response" | "questionCount" | "error">) => {
+      if (settled) return;
+      settled = true;
+
+      const log: GenerationLog = {
+        ...context,
+        ...outcome,
+        id: generateId(),
+        timestamp: new Date(),
+        durationMs: Date.now() - startedAt,
+      };
+
+      indexedDBService.saveGenerationLog(log, MAX_GENERATION_LOGS).catch((error) => {
+        console.warn("[GenerationLog] Failed to record generation:", error);
+      });
+    };
+
+    return {
+      succeed: (response, questions) => record({ response, questionCount: questions.length }),
+      fail: (error, response) => record({ response, error: describeError(error) }),
+    };
+  }
+
+  async getAll(): Promise<GenerationLog[]> {
+    return indexedDBService.getGenerationLogs();
+  }
+
+  async get(id: string): Promise<GenerationLog | undefined> {
+    return indexedDBService.getGenerationLog(id);
+  }
+
+  async clear(): Promise<void> {
+    await indexedDBService.clearGenerationLogs();
+  }
+
+  /**
+   * Log as pretty-printed JSON (copy / export for bug reports)
+   */
+  toJSON(log: GenerationLog): string {
+    return JSON.stringify(log, null, 2);
+  }
+}
+
+// Singleton instance
+export const generationLogService = new GenerationLogService();
@@ -1,15 +1,37 @@
 import {
+  APIError,
+  DifficultyMix,
+  DifficultySetting,
   Domain,
+  IAIService,
+  Language,
+  ModelChoice,
   Question,
+  QuestionType,
   QuizSession,
   QuizSessionStatus,
+  QuizSource,
   SavedPracticeQuiz,
   SavedExam,
+  VerificationSettings,
 } from "@/types";
 import { indexedDBService } from "@/services/IndexedDBService";
 import { storageService } from "@/services/StorageService";
 import { notificationService } from "@/services/NotificationService";
 import { aiServiceFactory } from "@/services/AIServiceFactory";
+import { providerRegistry } from "@/services/ProviderRegistry";
+import { deduplicationService, type DuplicateFilter } from "@/services/DeduplicationService";
+import { demoProvider } from "@/services/DemoService";
+import { documentService } from "@/services/DocumentService";
+import { domainService } from "@/services/DomainService";
+import { batchSizeService } from "@/services/BatchSizeService";
+import { judgeQuestion } from "@/lib/verification";
+import { linkQuestionSource } from "@/lib/sourceMaterial";
+import { DEFAULT_QUESTION_FORMATS } from "@/lib/questionFormats";
+import { isChoiceQuestion } from "@/lib/scoring";
+import { DEFAULT_LANGUAGE, t } from "@/lib/i18n";
+import { getDomainLabel } from "@/lib/utils";
+import { BatchOutcome, isOutputFailure } from "@/lib/batchSizing";
 
 // ============================================
 // GENERATION SERVICE
@@ -25,7 +47,8 @@ export interface GenerationCallbacks {
     batchIndex: number;
     totalBatches: number;
   }) => void;
-  onSessionReady?: (sessionId: string) => void;
+  onSessionReady?: (sessionId: string) => void | Promise<void>;
+  onModelSwitch?: (from: ModelChoice, to: ModelChoice) => void;
   onGenerationComplete?: (sessionId: string) => void;
   onGenerationError?: (
     error: { message: string; code?: string; isRetryable: boolean },
@@ -35,6 +58,9 @@ export interface GenerationCallbacks {
   ) => void;
 }
 
+// Max follow-up requests to fill a batch that came back short
+const MAX_REMAINDER_REQUESTS = 2;
+
 // BroadcastChannel for same-tab communication with quiz page
 let generationChannel: BroadcastChannel | null = null;
 
@@ -45,7 +71,29 @@ function getGenerationChannel(): BroadcastChannel {
   return generationChannel;
 }
 
+type GenerationProgress = NonNullable<QuizSession["generationProgress"]>;
+
+// Per-batch streaming state (see createQuestionStream)
+interface QuestionStream {
+  onQuestion: (question: Question) => void;
+  flush: () => Promise<void>;
+  readonly isReady: boolean;
+}
+
+// First batch that failed in a run (see runConcurrently)
+interface BatchFailure {
+  batchIndex: number;
+  error: unknown;
+}
+
 class GenerationService {
+  // Batches currently in flight, by session
+  private activeBatches = new Map<string, Set<Promise<void>>>();
+  // Cancellation of the running generation, by session (see cancelGeneration)
+  private runs = new Map<string, { controller: AbortController; taskId?: string }>();
+  // Stops requested, by session (runs still waiting to start check it)
+  private cancellations = new Map<string, number>();
+
   /**
    * Start a new quiz generation with incremental saving.
    * Creates the session immediately and saves each batch to IDB.
@@ -57,15 +105,20 @@ class GenerationService {
     domains?: Domain[];
     countPerDomain?: number;
     totalCount: number;
-    difficulty?: "easy" | "medium" | "hard";
+    difficulty?: DifficultySetting;
+    difficultyMix?: DifficultyMix;
     includeExplanations: boolean;
     timeLimit?: number;
     examType?: "full" | "domain";
+    source?: QuizSource;
+    subtopics?: string[];
+    openEnded?: boolean; // Mix in open-ended questions (practice)
     taskId?: string;
   }): Promise<string> {
     const sessionId = `${options.type}-${Date.now()}`;
-    const settings = await storageService.getSettings();
-    const batchSize = settings?.batchSize || 10;
+    // Size learned for the primary model (the run adjusts it batch by batch)
+    const [primary] = await this.getModelChain();
+    const batchSize = await batchSizeService.getBatchSize(primary);
 
     // For practice or domain exam: batches based on totalCount
     // For full exam: batches = number of multi-domain groups
@@ -85,11 +138,17 @@ class GenerationService {
       status: QuizSessionStatus.GENERATING,
       startedAt: new Date(),
       timeLimit: options.timeLimit,
+      difficulty: options.difficulty,
+      difficultyMix: options.difficultyMix,
+      source: options.source,
+      subtopics: options.subtopics?.length ? options.subtopics : undefined,
+      openEnded: options.openEnded || undefined,
       generationProgress: {
         requestedCount: options.totalCount,
         completedBatches: 0,
         totalBatches,
         isGenerating: true,
+        batchSize: isMultiDomain ? undefined : batchSize,
       },
     };
 
@@ -109,14 +168,19 @@ class GenerationService {
     totalCount: number,
     callbacks: GenerationCallbacks,
     options?: {
-      difficulty?: "easy" | "medium" | "hard";
+      difficulty?: DifficultySetting;
+      difficultyMix?: DifficultyMix;
       taskId?: string;
     }
   ): Promise<void> {
+    if (!(await this.waitForPreviousRun(sessionId))) return;
+    const signal = this.startRun(sessionId, options?.taskId);
+
     const settings = await storageService.getSettings();
-    const batchSize = settings?.batchSize || 10;
-    const totalBatches = Math.ceil(totalCount / batchSize);
-    const aiService = aiServiceFactory.getService(settings.provider);
+    await domainService.init(); // Syllabus prompts of custom domains
+    const chain = await this.getModelChain();
+    const verification = settings.verification?.enabled ? settings.verification : undefined;
+    const duplicates = await this.createDuplicateFilter(chain);
 
     let previousQuestions: string[] = [];
 
@@ -126,113 +190,256 @@ class GenerationService {
       previousQuestions = existingSession.questions.map(q => q.question);
     }
 
-    const startBatch = existingSession?.generationProgress?.completedBatches || 0;
+    // Continued/resumed generation keeps the difficulty requested at creation
+    const difficulty = options?.difficulty ?? existingSession?.difficulty;
+    const difficultyMix = options?.difficultyMix ?? existingSession?.difficultyMix;
+
+    // Continued batches start from the model the previous batch fell back to
+    const batchModels = [...(existingSession?.generationProgress?.batchModels || [])];
+    let chainIndex = this.findChainIndex(chain, existingSession?.generationProgress?.activeModel);
+
+    const subtopics = existingSession?.subtopics;
+    const language = settings.language ?? DEFAULT_LANGUAGE;
+    const formats = [
+      ...(settings.questionFormats ?? DEFAULT_QUESTION_FORMATS),
+      ...(existingSession?.openEnded ? [QuestionType.OPEN_ENDED] : []),
+    ];
+
+    // Course material ("Mes supports"): batches rotate over its passages
+    const passages = existingSession?.source
+      ? await documentService.resolvePassages(existingSession.source)
+      : [];
+
+    // Batches are sized when they start, from the size learned for the
+    // active model: questions still to request are reserved by the batches
+    // started (saved questions included), the rest sets the batches left
+    let batchSize = await batchSizeService.getBatchSize(chain[chainIndex]);
+    const completed = this.getCompletedBatches(existingSession?.generationProgress);
+    const usedIndexes = new Set(completed);
+    const batchCounts = new Map<number, number>();
+    let reserved = existingSession?.questions.length || 0;
+    let started = completed.length;
+    const countBatches = () => started + Math.ceil(Math.max(0, totalCount - reserved) / batchSize);
+
+    // Shared by the batches in flight (their saves report the same progress)
+    const progress: GenerationProgress = {
+      requestedCount: totalCount,
+      completedBatches: completed.length,
+      completedBatchIndexes: completed,
+      totalBatches: countBatches(),
+      isGenerating: true,
+      activeModel: chain[chainIndex],
+      batchModels,
+      batchSize,
+    };
+
+    // The first batch runs alone so the quiz opens as soon as possible
+    const isFirstRun = !completed.includes(0);
+    const takeBatch = (): number | undefined => {
+      if (reserved >= totalCount || (isFirstRun && started > completed.length)) {
+        return undefined;
+      }
+      let batchIndex = 0;
+      while (usedIndexes.has(batchIndex)) batchIndex++;
+      usedIndexes.add(batchIndex);
+
+      const batchCount = Math.min(batchSize, totalCount - reserved);
+      batchCounts.set(batchIndex, batchCount);
+      reserved += batchCount;
+      started++;
+      progress.totalBatches = countBatches();
+      return batchIndex;
+    };
+
+    const runBatch = async (batchIndex: number) => {
+      const stream = this.createQuestionStream(
+        sessionId,
+        progress,
+        batchIndex === 0 ? callbacks.onSessionReady : undefined,
+        language
+      );
+      const releaseBatch = this.trackActiveBatch(sessionId);
+      const source = passages.length > 0 ? passages[batchIndex % passages.length] : undefined;
+      // Grounded questions carry the excerpt of the passage they are based on
+      const ground = (question: Question) =>
+        source ? linkQuestionSource(question, source) : question;
+      // Verified batches are only shown once checked, so they are not streamed
+      const onQuestion = verification
+        ? undefined
+        : (question: Question) => {
+            const grounded = ground(question);
+            if (duplicates.accept(grounded)) stream.onQuestion(grounded);
+          };
 
-    for (let batchIndex = startBatch; batchIndex < totalBatches; batchIndex++) {
       try {
-        const batchCount = Math.min(batchSize, totalCount - batchIndex * batchSize);
+        if (existingSession?.source && !source) {
+          throw {
+            message: t("generation.sourceNotFound"),
+            code: "SOURCE_NOT_FOUND",
+            isRetryable: false,
+          };
+        }
+
+        const batchCount = batchCounts.get(batchIndex)!;
 
         console.log(
-          `[GenerationService] Batch ${batchIndex + 1}/${totalBatches} (${batchCount} questions)`
+          `[GenerationService] Batch ${batchIndex + 1}/${progress.totalBatches} (${batchCount} questions)`
         );
 
-        // Generate a single batch
-        const batchQuestions = await aiService.generateQuestions({
-          domain,
-          count: batchCount,
-          difficulty: options?.difficulty,
-          includeExplanations: true,
-          previousQuestions:
-            previousQuestions.length > 0 ? previousQuestions : undefined,
-        });
-
-        // Append to session in IDB
-        previousQuestions.push(...batchQuestions.map(q => q.question));
-
-        const updatedSession = await indexedDBService.appendQuestionsToSession(
+        // Generate a single batch, moving down the fallback chain if needed
+        let attempt = { choice: chain[chainIndex], startedAt: Date.now() };
+        const generated = await this.generateWithFallback(
           sessionId,
-          batchQuestions,
-          {
-            requestedCount: totalCount,
-            completedBatches: batchIndex + 1,
-            totalBatches,
-            isGenerating: batchIndex < totalBatches - 1,
-            lastBatchAt: new Date(),
+          chain,
+          chainIndex,
+          progress,
+          callbacks,
+          signal,
+          (aiService, model, choice) => {
+            attempt = { choice, startedAt: Date.now() };
+            return aiService.generateQuestions({
+              domain,
+              count: batchCount,
+              batchSize: batchCount,
+              difficulty,
+              difficultyMix,
+              includeExplanations: true,
+              formats,
+              language,
+              previousQuestions:
+                previousQuestions.length > 0 ? previousQuestions : undefined,
+              source,
+              subtopics,
+              onQuestion,
+              model,
+              sessionId,
+              signal,
+            });
           }
+        ).catch(async (error) => {
+          // Unusable output: the next batches (after resume) ask for less
+          if (isOutputFailure(error)) {
+            await this.learnBatchSize(attempt.choice, {
+              requested: batchCount,
+              received: 0,
+              latencyMs: Date.now() - attempt.startedAt,
+              failed: true,
+            });
+          }
+          throw error;
+        });
+        // Batches still in flight on an earlier entry do not move the chain back
+        chainIndex = Math.max(chainIndex, generated.index);
+        const batchModel = chain[generated.index];
+        const aiService = aiServiceFactory.getService(batchModel.provider);
+
+        // Next batches are sized from how this one went
+        await this.learnBatchSize(batchModel, {
+          requested: batchCount,
+          received: generated.result.length,
+          latencyMs: Date.now() - attempt.startedAt,
+        });
+        batchSize = await batchSizeService.getBatchSize(chain[chainIndex]);
+        progress.batchSize = batchSize;
+        progress.totalBatches = countBatches();
+
+        // Truncated responses yield fewer questions: ask only for the rest
+        let batchQuestions = await this.requestRemainder(
+          generated.result.map(ground).filter(duplicates.accept),
+          batchCount,
+          duplicates.accept,
+          (missing, current) =>
+            aiService.generateQuestions({
+              domain,
+              count: missing,
+              batchSize: batchCount,
+              difficulty,
+              difficultyMix,
+              includeExplanations: true,
+              formats,
+              language,
+              previousQuestions: [
+                ...previousQuestions,
+                ...current.map(q => q.question),
+              ],
+              source,
+              subtopics,
+              onQuestion,
+              model: batchModel.model,
+              sessionId,
+              signal,
+            }).then(questions => questions.map(ground))
         );
 
-        // Notify via BroadcastChannel
-        try {
-          getGenerationChannel().postMessage({
-            type: "BATCH_COMPLETE",
+        if (verification) {
+          const generatedSoFar = batchQuestions.map(q => q.question);
+          batchQuestions = await this.verifyBatch(
             sessionId,
-            currentCount: updatedSession?.questions.length || 0,
-            totalCount,
-          });
-        } catch {
-          // BroadcastChannel might not be available
+            batchQuestions,
+            verification,
+            batchModel,
+            signal,
+            (count) =>
+              aiService.generateQuestions({
+                domain,
+                count,
+                batchSize: batchCount,
+                difficulty,
+                difficultyMix,
+                includeExplanations: true,
+                formats,
+                language,
+                previousQuestions: [...previousQuestions, ...generatedSoFar],
+                source,
+                subtopics,
+                model: batchModel.model,
+                sessionId,
+                signal,
+              }).then(questions => questions.map(ground).filter(duplicates.accept))
+          );
         }
 
-        // Callbacks
-        callbacks.onBatchComplete?.({
-          current: updatedSession?.questions.length || batchQuestions.length,
-          total: totalCount,
-          batch: batchQuestions,
-          batchIndex,
-          totalBatches,
-        });
+        // Append to session in IDB (streamed questions are already saved)
+        await stream.flush();
+        previousQuestions.push(...batchQuestions.map(q => q.question));
+        batchModels[batchIndex] = batchModel;
+        progress.activeModel = chain[chainIndex];
+        await this.completeBatch(sessionId, batchIndex, batchQuestions, progress, callbacks, language);
 
         // After first batch: session is ready for display
-        if (batchIndex === 0) {
+        // (already reported on its first question when streaming)
+        if (batchIndex === 0 && !stream.isReady) {
           callbacks.onSessionReady?.(sessionId);
-          // Stop here - the quiz page will continue generation.
-          // Navigating away kills this page's JS, so continuing is pointless.
-          return;
-        }
-      } catch (error: any) {
-        console.error(
-          `[GenerationService] Batch ${batchIndex + 1} FAILED:`,
-          error
-        );
-
-        // Save error state but keep existing questions
-        const currentSession = await indexedDBService.getSession(sessionId);
-        if (currentSession) {
-          await indexedDBService.appendQuestionsToSession(sessionId, [], {
-            requestedCount: totalCount,
-            completedBatches: batchIndex,
-            totalBatches,
-            isGenerating: false,
-            lastBatchAt: new Date(),
-            generationError: error.message || "Erreur inconnue",
-          });
         }
+      } catch (error) {
+        await stream.flush();
+        throw error;
+      } finally {
+        releaseBatch();
+      }
+    };
 
-        // Update background task
-        if (options?.taskId) {
-          await notificationService.updateTaskStatus(
-            options.taskId,
-            "failed",
-            undefined,
-            error.message || "Erreur inconnue"
-          );
-        }
+    const failure = await this.runConcurrently(
+      takeBatch,
+      settings.batchConcurrency || 1,
+      signal,
+      runBatch
+    );
 
-        callbacks.onGenerationError?.(
-          {
-            message: error.message || "Erreur inconnue",
-            code: error.code,
-            isRetryable: error.isRetryable ?? true,
-          },
-          sessionId,
-          currentSession?.questions.length || 0,
-          totalCount
-        );
+    // Stopped by the user: cancelGeneration() finalizes what was saved
+    if (signal.aborted) {
+      console.log("[GenerationService] Generation cancelled:", sessionId);
+      return;
+    }
 
-        return; // Stop generation, but questions are saved
-      }
+    if (failure) {
+      await this.failGeneration(sessionId, progress, failure, callbacks, options?.taskId);
+      return; // Stop generation, but questions are saved
     }
 
+    // Stop here - the quiz page will continue generation.
+    if (isFirstRun) return;
+
     // All batches complete - finalize session
     await this.finalizeSession(sessionId, callbacks, options?.taskId);
   }
@@ -246,11 +453,21 @@ class GenerationService {
     countPerDomain: number,
     callbacks: GenerationCallbacks,
     options?: {
+      difficulty?: DifficultySetting;
+      difficultyMix?: DifficultyMix;
       taskId?: string;
     }
   ): Promise<void> {
+    if (!(await this.waitForPreviousRun(sessionId))) return;
+    const signal = this.startRun(sessionId, options?.taskId);
+
     const settings = await storageService.getSettings();
-    const aiService = aiServiceFactory.getService(settings.provider);
+    await domainService.init(); // Syllabus prompts of custom domains
+    const chain = await this.getModelChain();
+    const verification = settings.verification?.enabled ? settings.verification : undefined;
+    const formats = settings.questionFormats ?? DEFAULT_QUESTION_FORMATS;
+    const language = settings.language ?? DEFAULT_LANGUAGE;
+    const duplicates = await this.createDuplicateFilter(chain);
     const totalCount = domains.length * countPerDomain;
 
     // Group domains into batches of 3 (same pattern as current exam page)
@@ -260,8 +477,6 @@ class GenerationService {
     }
 
     const totalBatches = groups.length;
-    const startBatch = (await indexedDBService.getSession(sessionId))
-      ?.generationProgress?.completedBatches || 0;
 
     let previousQuestions: string[] = [];
     const existingSession = await indexedDBService.getSession(sessionId);
@@ -269,8 +484,41 @@ class GenerationService {
       previousQuestions = existingSession.questions.map(q => q.question);
     }
 
-    for (let batchIndex = startBatch; batchIndex < totalBatches; batchIndex++) {
+    // Continued/resumed generation keeps the difficulty requested at creation
+    const difficulty = options?.difficulty ?? existingSession?.difficulty;
+    const difficultyMix = options?.difficultyMix ?? existingSession?.difficultyMix;
+
+    // Continued batches start from the model the previous batch fell back to
+    const batchModels = [...(existingSession?.generationProgress?.batchModels || [])];
+    let chainIndex = this.findChainIndex(chain, existingSession?.generationProgress?.activeModel);
+
+    // Shared by the batches in flight (their saves report the same progress)
+    const completed = this.getCompletedBatches(existingSession?.generationProgress);
+    const progress: GenerationProgress = {
+      requestedCount: totalCount,
+      completedBatches: completed.length,
+      completedBatchIndexes: completed,
+      totalBatches,
+      isGenerating: true,
+      activeModel: chain[chainIndex],
+      batchModels,
+    };
+
+    const runBatch = async (batchIndex: number) => {
       const group = groups[batchIndex];
+      const stream = this.createQuestionStream(
+        sessionId,
+        progress,
+        batchIndex === 0 ? callbacks.onSessionReady : undefined,
+        language
+      );
+      const releaseBatch = this.trackActiveBatch(sessionId);
+      // Verified batches are only shown once checked, so they are not streamed
+      const onQuestion = verification
+        ? undefined
+        : (question: Question) => {
+            if (duplicates.accept(question)) stream.onQuestion(question);
+          };
 
       try {
         console.log(
@@ -278,95 +526,657 @@ class GenerationService {
           group.map(d => d.replace(/_/g, " "))
         );
 
-        const batchQuestions = await aiService.generateMultiDomainQuestions({
-          domains: group,
-          countPerDomain,
-          includeExplanations: true,
-          previousQuestions:
-            previousQuestions.length > 0 ? previousQuestions : undefined,
-        });
+        const generated = await this.generateWithFallback(
+          sessionId,
+          chain,
+          chainIndex,
+          progress,
+          callbacks,
+          signal,
+          (aiService, model) =>
+            aiService.generateMultiDomainQuestions({
+              domains: group,
+              countPerDomain,
+              difficulty,
+              difficultyMix,
+              includeExplanations: true,
+              formats,
+              language,
+              previousQuestions:
+                previousQuestions.length > 0 ? previousQuestions : undefined,
+              onQuestion,
+              model,
+              sessionId,
+              signal,
+            })
+        );
+        // Batches still in flight on an earlier entry do not move the chain back
+        chainIndex = Math.max(chainIndex, generated.index);
+        const batchModel = chain[generated.index];
+        const aiService = aiServiceFactory.getService(batchModel.provider);
+        let batchQuestions = generated.result.filter(duplicates.accept);
+
+        // Truncated responses yield fewer questions: ask only for the rest, per domain
+        for (const domain of group) {
+          const domainQuestions = batchQuestions.filter(q => q.domain === domain);
+          if (domainQuestions.length >= countPerDomain) continue;
+
+          const generatedSoFar = batchQuestions.map(q => q.question);
+          const topped = await this.requestRemainder(
+            domainQuestions,
+            countPerDomain,
+            duplicates.accept,
+            (missing, current) =>
+              aiService.generateQuestions({
+                domain,
+                count: missing,
+                difficulty,
+                difficultyMix,
+                includeExplanations: true,
+                formats,
+                language,
+                previousQuestions: [
+                  ...previousQuestions,
+                  ...generatedSoFar,
+                  ...current.map(q => q.question),
+                ],
+                onQuestion,
+                model: batchModel.model,
+                sessionId,
+                signal,
+              })
+          );
+          batchQuestions = [...batchQuestions, ...topped.slice(domainQuestions.length)];
+        }
+
+        if (verification) {
+          const generatedSoFar = batchQuestions.map(q => q.question);
+          batchQuestions = await this.verifyBatch(
+            sessionId,
+            batchQuestions,
+            verification,
+            batchModel,
+            signal,
+            (count, domain) =>
+              aiService.generateQuestions({
+                domain,
+                count,
+                difficulty,
+                difficultyMix,
+                includeExplanations: true,
+                formats,
+                language,
+                previousQuestions: [...previousQuestions, ...generatedSoFar],
+                model: batchModel.model,
+                sessionId,
+                signal,
+              }).then(questions => questions.filter(duplicates.accept))
+          );
+        }
 
+        await stream.flush();
         previousQuestions.push(...batchQuestions.map(q => q.question));
+        batchModels[batchIndex] = batchModel;
+        progress.activeModel = chain[chainIndex];
+        await this.completeBatch(sessionId, batchIndex, batchQuestions, progress, callbacks, language);
 
-        const updatedSession = await indexedDBService.appendQuestionsToSession(
-          sessionId,
-          batchQuestions,
-          {
-            requestedCount: totalCount,
-            completedBatches: batchIndex + 1,
-            totalBatches,
-            isGenerating: batchIndex < totalBatches - 1,
-            lastBatchAt: new Date(),
+        if (batchIndex === 0 && !stream.isReady) {
+          callbacks.onSessionReady?.(sessionId);
+        }
+      } catch (error) {
+        await stream.flush();
+        throw error;
+      } finally {
+        releaseBatch();
+      }
+    };
+
+    // The first group runs alone so the exam opens as soon as possible
+    const isFirstRun = !completed.includes(0);
+    const queue = isFirstRun ? [0] : this.getPendingBatches(progress);
+    const failure = await this.runConcurrently(
+      () => queue.shift(),
+      settings.batchConcurrency || 1,
+      signal,
+      runBatch
+    );
+
+    // Stopped by the user: cancelGeneration() finalizes what was saved
+    if (signal.aborted) {
+      console.log("[GenerationService] Generation cancelled:", sessionId);
+      return;
+    }
+
+    if (failure) {
+      await this.failGeneration(sessionId, progress, failure, callbacks, options?.taskId);
+      return;
+    }
+
+    // Stop here - the quiz page will continue generation.
+    if (isFirstRun) return;
+
+    await this.finalizeSession(sessionId, callbacks, options?.taskId);
+  }
+
+  /**
+   * Run the batches `nextBatch` hands out (until it returns undefined) with
+   * at most `concurrency` of them in flight.
+   * After a failure (or a cancel) no new batch starts; batches already in
+   * flight finish and keep their saves. Returns the first failure, if any.
+   */
+  private async runConcurrently(
+    nextBatch: () => number | undefined,
+    concurrency: number,
+    signal: AbortSignal,
+    runBatch: (batchIndex: number) => Promise<void>
+  ): Promise<BatchFailure | undefined> {
+    let failure: BatchFailure | undefined;
+
+    const worker = async () => {
+      while (!failure && !signal.aborted) {
+        const batchIndex = nextBatch();
+        if (batchIndex === undefined) return;
+        try {
+          await runBatch(batchIndex);
+        } catch (error) {
+          if (!signal.aborted) {
+            failure ??= { batchIndex, error };
           }
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.max(1, concurrency) }, worker));
+    return failure;
+  }
+
+  /**
+   * Batches already saved. Sessions created before concurrent generation
+   * only have the count, their batches having completed in order.
+   */
+  private getCompletedBatches(progress?: GenerationProgress): number[] {
+    return [
+      ...(progress?.completedBatchIndexes ??
+        Array.from({ length: progress?.completedBatches || 0 }, (_, i) => i)),
+    ];
+  }
+
+  /**
+   * Batches left to generate (batches may have completed out of order)
+   */
+  private getPendingBatches(progress: GenerationProgress): number[] {
+    const completed = new Set(progress.completedBatchIndexes);
+    return Array.from({ length: progress.totalBatches }, (_, i) => i).filter(
+      (i) => !completed.has(i)
+    );
+  }
+
+  /**
+   * Save a finished batch (streamed questions are already saved), record it
+   * as completed and notify the quiz page. Questions are tagged with the
+   * language they were requested in.
+   */
+  private async completeBatch(
+    sessionId: string,
+    batchIndex: number,
+    batchQuestions: Question[],
+    progress: GenerationProgress,
+    callbacks: GenerationCallbacks,
+    language: Language
+  ): Promise<void> {
+    progress.completedBatchIndexes = [...(progress.completedBatchIndexes || []), batchIndex].sort(
+      (a, b) => a - b
+    );
+    progress.completedBatches = progress.completedBatchIndexes.length;
+
+    const updatedSession = await indexedDBService.appendQuestionsToSession(
+      sessionId,
+      batchQuestions.map((question) => ({ ...question, language })),
+      {
+        ...progress,
+        isGenerating: progress.completedBatches < progress.totalBatches,
+        lastBatchAt: new Date(),
+      }
+    );
+
+    // Notify via BroadcastChannel
+    try {
+      getGenerationChannel().postMessage({
+        type: "BATCH_COMPLETE",
+        sessionId,
+        currentCount: updatedSession?.questions.length || 0,
+        totalCount: progress.requestedCount,
+      });
+    } catch {
+      // BroadcastChannel might not be available
+    }
+
+    callbacks.onBatchComplete?.({
+      current: updatedSession?.questions.length || batchQuestions.length,
+      total: progress.requestedCount,
+      batch: batchQuestions,
+      batchIndex,
+      totalBatches: progress.totalBatches,
+    });
+  }
+
+  /**
+   * Save the error state of a failed generation (existing questions are
+   * kept, resume runs the batches still missing) and report it
+   */
+  private async failGeneration(
+    sessionId: string,
+    progress: GenerationProgress,
+    failure: BatchFailure,
+    callbacks: GenerationCallbacks,
+    taskId?: string
+  ): Promise<void> {
+    const error = failure.error as Partial<APIError> | undefined;
+    const message = error?.message || t("common.unknownError");
+    console.error(
+      `[GenerationService] Batch ${failure.batchIndex + 1} FAILED:`,
+      failure.error
+    );
+
+    const currentSession = await indexedDBService.getSession(sessionId);
+    if (currentSession) {
+      await indexedDBService.appendQuestionsToSession(sessionId, [], {
+        ...progress,
+        isGenerating: false,
+        lastBatchAt: new Date(),
+        generationError: message,
+      });
+    }
+
+    // Update background task
+    if (taskId) {
+      await notificationService.updateTaskStatus(taskId, "failed", undefined, message);
+    }
+
+    callbacks.onGenerationError?.(
+      {
+        message,
+        code: error?.code,
+        isRetryable: error?.isRetryable ?? true,
+      },
+      sessionId,
+      currentSession?.questions.length || 0,
+      progress.requestedCount
+    );
+  }
+
+  /**
+   * Build the streaming handler of a batch: each question is appended to
+   * the session and announced on the channel as soon as it is complete.
+   * On the first batch, onReady fires with the first question so the user
+   * can start answering while the rest of the batch streams in.
+   * Saves run in order; flush() resolves once all of them are done.
+   */
+  private createQuestionStream(
+    sessionId: string,
+    progress: GenerationProgress,
+    onReady: GenerationCallbacks["onSessionReady"] | undefined,
+    language: Language
+  ): QuestionStream {
+    let saving = Promise.resolve();
+    let isReady = false;
+
+    const save = async (question: Question) => {
+      const updatedSession = await indexedDBService.appendQuestionsToSession(
+        sessionId,
+        [{ ...question, language }],
+        { ...progress, lastBatchAt: new Date() }
+      );
+
+      try {
+        getGenerationChannel().postMessage({
+          type: "QUESTION_READY",
+          sessionId,
+          currentCount: updatedSession?.questions.length || 0,
+          totalCount: progress.requestedCount,
+        });
+      } catch {
+        // BroadcastChannel might not be available
+      }
+
+      if (onReady && !isReady) {
+        isReady = true;
+        await onReady(sessionId);
+      }
+    };
+
+    return {
+      onQuestion: (question) => {
+        saving = saving
+          .then(() => save(question))
+          .catch((error) => {
+            console.error("[GenerationService] Failed to save streamed question:", error);
+          });
+      },
+      flush: () => saving,
+      get isReady() {
+        return isReady;
+      },
+    };
+  }
+
+  /**
+   * Models to generate with: the configured chain, minus fallback entries
+   * whose provider has no credentials
+   */
+  private async getModelChain(): Promise<ModelChoice[]> {
+    const settings = await storageService.getSettings();
+    const chain = await storageService.getModelChain();
+    return chain.filter(
+      (choice, index) =>
+        index === 0 ||
+        providerRegistry.isConfigured(choice.provider, settings.credentials?.[choice.provider])
+    );
+  }
+
+  /**
+   * Duplicate filter for a run. The demo provider serves the preloaded bank,
+   * so its questions are only checked against the run itself.
+   */
+  private createDuplicateFilter(chain: ModelChoice[]): Promise<DuplicateFilter> {
+    const demo = chain.some(c => c.provider === demoProvider.id);
+    return deduplicationService.createFilter(!demo);
+  }
+
+  /**
+   * Position of a model in the chain (first entry when absent)
+   */
+  private findChainIndex(chain: ModelChoice[], model?: ModelChoice): number {
+    const index = model
+      ? chain.findIndex(c => c.provider === model.provider && c.model === model.model)
+      : -1;
+    return Math.max(0, index);
+  }
+
+  /**
+   * Record the outcome of a batch for the size of the next ones.
+   * Learning is best effort: a failed save never fails the batch.
+   */
+  private async learnBatchSize(choice: ModelChoice, outcome: BatchOutcome): Promise<void> {
+    try {
+      await batchSizeService.recordOutcome(choice, outcome);
+    } catch (error) {
+      console.warn("[GenerationService] Failed to record batch outcome:", error);
+    }
+  }
+
+  /**
+   * Run a generation request from chain[startIndex] on. When an entry gives up
+   * with a retryable error (rate limit, outage — its own retries are exhausted),
+   * the next entry is tried; other errors are thrown as-is.
+   * Returns the result and the index of the entry that produced it.
+   */
+  private async generateWithFallback<T>(
+    sessionId: string,
+    chain: ModelChoice[],
+    startIndex: number,
+    progress: GenerationProgress,
+    callbacks: GenerationCallbacks,
+    signal: AbortSignal,
+    generate: (aiService: IAIService, model: string, choice: ModelChoice) => Promise<T>
+  ): Promise<{ result: T; index: number }> {
+    for (let index = startIndex; ; index++) {
+      const choice = chain[index];
+      try {
+        const aiService = aiServiceFactory.getService(choice.provider);
+        return { result: await generate(aiService, choice.model, choice), index };
+      } catch (error) {
+        const next = chain[index + 1];
+        if (!next || signal.aborted || !(error as Partial<APIError>)?.isRetryable) throw error;
+
+        console.warn(
+          `[GenerationService] ${choice.provider}/${choice.model} failed, falling back to ${next.provider}/${next.model}:`,
+          (error as Partial<APIError>).message
         );
+        progress.activeModel = next;
+        await indexedDBService.appendQuestionsToSession(sessionId, [], {
+          ...progress,
+          lastBatchAt: new Date(),
+        });
 
         try {
           getGenerationChannel().postMessage({
-            type: "BATCH_COMPLETE",
+            type: "MODEL_SWITCH",
             sessionId,
-            currentCount: updatedSession?.questions.length || 0,
-            totalCount,
+            from: choice,
+            to: next,
           });
         } catch {
           // BroadcastChannel might not be available
         }
+        callbacks.onModelSwitch?.(choice, next);
+      }
+    }
+  }
 
-        callbacks.onBatchComplete?.({
-          current: updatedSession?.questions.length || batchQuestions.length,
-          total: totalCount,
-          batch: batchQuestions,
-          batchIndex,
-          totalBatches,
-        });
+  /**
+   * Register the generation run of a session; returns the signal that
+   * cancelGeneration() fires
+   */
+  private startRun(sessionId: string, taskId?: string): AbortSignal {
+    const controller = new AbortController();
+    this.runs.set(sessionId, { controller, taskId });
+    return controller.signal;
+  }
 
-        if (batchIndex === 0) {
-          callbacks.onSessionReady?.(sessionId);
-          // Stop here - the quiz page will continue generation.
-          return;
-        }
-      } catch (error: any) {
-        console.error(
-          `[GenerationService] Multi-domain group ${batchIndex + 1} FAILED:`,
-          error
+  /**
+   * Stop a generation: aborts the requests in flight (and their retries),
+   * waits for the batches to wind down, then finalizes the session with the
+   * questions already saved. A session with no question is deleted.
+   */
+  async cancelGeneration(sessionId: string): Promise<QuizSession | undefined> {
+    console.log("[GenerationService] Cancelling generation:", sessionId);
+    const run = this.runs.get(sessionId);
+    run?.controller.abort();
+    this.runs.delete(sessionId);
+    this.cancellations.set(sessionId, (this.cancellations.get(sessionId) ?? 0) + 1);
+    await this.waitForActiveBatches(sessionId);
+
+    const session = await indexedDBService.getSession(sessionId);
+    const progress = session?.generationProgress;
+    if (session && progress && !progress.isGenerating && !progress.generationError) {
+      return session; // Completed before the stop took effect
+    }
+    if (!session || session.questions.length === 0) {
+      await indexedDBService.deleteSession(sessionId);
+      if (run?.taskId) {
+        await notificationService.updateTaskStatus(
+          run.taskId,
+          "failed",
+          undefined,
+          t("generation.stopped")
         );
+      }
+      return undefined;
+    }
 
-        const currentSession = await indexedDBService.getSession(sessionId);
-        if (currentSession) {
-          await indexedDBService.appendQuestionsToSession(sessionId, [], {
-            requestedCount: totalCount,
-            completedBatches: batchIndex,
-            totalBatches,
-            isGenerating: false,
-            lastBatchAt: new Date(),
-            generationError: error.message || "Erreur inconnue",
-          });
-        }
+    const finalized = await this.finalizeAsPartial(sessionId);
+    if (run?.taskId) {
+      await notificationService.updateTaskStatus(run.taskId, "ready", sessionId);
+    }
+    return finalized;
+  }
 
-        if (options?.taskId) {
-          await notificationService.updateTaskStatus(
-            options.taskId,
-            "failed",
-            undefined,
-            error.message || "Erreur inconnue"
-          );
-        }
+  /**
+   * Mark a batch of this session as in flight; returns its release function
+   */
+  private trackActiveBatch(sessionId: string): () => void {
+    let release!: () => void;
+    const batch = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const batches = this.activeBatches.get(sessionId) ?? new Set<Promise<void>>();
+    batches.add(batch);
+    this.activeBatches.set(sessionId, batches);
+
+    return () => {
+      batches.delete(batch);
+      if (batches.size === 0) this.activeBatches.delete(sessionId);
+      release();
+    };
+  }
 
-        callbacks.onGenerationError?.(
-          {
-            message: error.message || "Erreur inconnue",
-            code: error.code,
-            isRetryable: error.isRetryable ?? true,
-          },
-          sessionId,
-          currentSession?.questions.length || 0,
-          totalCount
+  /**
+   * Wait for the batches of a previous run to finish before starting a new
+   * one. Returns false when the generation was stopped in the meantime
+   * (cancelGeneration() has finalized the session) or the session is gone.
+   */
+  private async waitForPreviousRun(sessionId: string): Promise<boolean> {
+    const cancellations = this.cancellations.get(sessionId) ?? 0;
+    await this.waitForActiveBatches(sessionId);
+    if (
+      (this.cancellations.get(sessionId) ?? 0) !== cancellations ||
+      !(await indexedDBService.getSession(sessionId))
+    ) {
+      console.log("[GenerationService] Generation stopped before it started:", sessionId);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Wait for the in-flight batches of this session, if any.
+   * The first batch keeps streaming after onSessionReady (client-side
+   * navigation), so the quiz page must not start it a second time.
+   */
+  private async waitForActiveBatches(sessionId: string): Promise<void> {
+    const active = this.activeBatches.get(sessionId);
+    if (active) {
+      console.log("[GenerationService] Waiting for in-flight batches of", sessionId);
+      await Promise.all(active);
+    }
+  }
+
+  /**
+   * Top up a short batch (e.g. questions salvaged from a truncated
+   * response or rejected as duplicates) by requesting only the missing
+   * remainder; follow-ups go through `accept` too.
+   * Failed follow-ups keep what was already salvaged.
+   */
+  private async requestRemainder(
+    questions: Question[],
+    expectedCount: number,
+    accept: (question: Question) => boolean,
+    generate: (missing: number, current: Question[]) => Promise<Question[]>
+  ): Promise<Question[]> {
+    let result = questions;
+
+    for (
+      let attempt = 0;
+      attempt < MAX_REMAINDER_REQUESTS && result.length < expectedCount;
+      attempt++
+    ) {
+      const missing = expectedCount - result.length;
+      console.log(
+        `[GenerationService] Got ${result.length}/${expectedCount} questions, requesting remaining ${missing}`
+      );
+
+      try {
+        const extra = (await generate(missing, result)).filter(accept);
+        if (extra.length === 0) break;
+        result = [...result, ...extra.slice(0, missing)];
+      } catch (error) {
+        console.warn(
+          "[GenerationService] Remainder request failed, keeping salvaged questions:",
+          error
         );
+        break;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Second opinion on a finished batch: the verifier (generating model by
+   * default) answers blind and disagreements flag the question. Flagged
+   * questions are regenerated, dropped or kept with their badge depending on
+   * the setting; replacements are checked once and keep the badge if flagged
+   * again. When the verifier itself fails, the batch is kept unverified.
+   */
+  private async verifyBatch(
+    sessionId: string,
+    questions: Question[],
+    verification: VerificationSettings,
+    generator: ModelChoice,
+    signal: AbortSignal,
+    regenerate: (count: number, domain: Domain) => Promise<Question[]>
+  ): Promise<Question[]> {
+    const verifier = verification.model ?? generator;
+    const judged = await this.judgeQuestions(sessionId, questions, verifier, signal);
+    const flagged = judged.filter(q => q.verification?.status === "flagged");
+
+    console.log(
+      `[GenerationService] Verification: ${flagged.length}/${questions.length} flagged by ${verifier.provider}/${verifier.model}`
+    );
+    if (flagged.length === 0 || verification.onFlagged === "badge") {
+      return judged;
+    }
+
+    const kept = judged.filter(q => q.verification?.status !== "flagged");
+    if (verification.onFlagged === "drop") {
+      return kept;
+    }
 
-        return;
+    const replacements: Question[] = [];
+    for (const domain of new Set(flagged.map(q => q.domain))) {
+      const domainFlagged = flagged.filter(q => q.domain === domain);
+      try {
+        const regenerated = await regenerate(domainFlagged.length, domain);
+        replacements.push(
+          ...(await this.judgeQuestions(
+            sessionId,
+            regenerated.slice(0, domainFlagged.length),
+            verifier,
+            signal
+          ))
+        );
+      } catch (error) {
+        if (signal.aborted) throw error;
+        console.warn("[GenerationService] Regeneration failed, keeping flagged questions:", error);
+        replacements.push(...domainFlagged);
       }
     }
 
-    await this.finalizeSession(sessionId, callbacks, options?.taskId);
+    return [...kept, ...replacements];
+  }
+
+  /**
+   * Record the verifier's judgement on each question (unchanged if it fails).
+   * Only questions answered by picking options (QCM, true/false) are checked.
+   */
+  private async judgeQuestions(
+    sessionId: string,
+    questions: Question[],
+    verifier: ModelChoice,
+    signal: AbortSignal
+  ): Promise<Question[]> {
+    const checkable = questions.filter(isChoiceQuestion);
+    if (checkable.length === 0) return questions;
+
+    try {
+      const verdicts = await aiServiceFactory
+        .getService(verifier.provider)
+        .verifyQuestions({ questions: checkable, model: verifier.model, sessionId, signal });
+
+      return questions.map(q => !isChoiceQuestion(q) ? q : ({
+        ...q,
+        verification: judgeQuestion(
+          q,
+          verdicts.find(v => v.questionId === q.id),
+          verifier.model
+        ),
+      }));
+    } catch (error) {
+      if (signal.aborted) throw error;
+      console.warn("[GenerationService] Verification failed, keeping questions unverified:", error);
+      return questions;
+    }
   }
 
   /**
@@ -431,8 +1241,8 @@ class GenerationService {
     if (session.type === "exam") {
       const examId = `exam-${session.timeLimit === 7200 ? "full" : "domain"}-${Date.now()}`;
       const examName = session.domain
-        ? `Examen ${session.domain.replace(/_/g, " ")}`
-        : "Examen Complet";
+        ? t("exam.name.domain", { domain: getDomainLabel(session.domain) })
+        : t("exam.full");
 
       const savedExam: SavedExam = {
         id: examId,
@@ -469,6 +1279,7 @@ class GenerationService {
       // ignore
     }
 
+    this.runs.delete(sessionId);
     callbacks.onGenerationComplete?.(sessionId);
     console.log("[GenerationService] Generation complete:", sessionId);
   }
@@ -528,8 +1339,8 @@ class GenerationService {
     if (session.type === "exam") {
       const examId = `exam-partial-${Date.now()}`;
       const examName = session.domain
-        ? `Examen ${session.domain.replace(/_/g, " ")} (partiel)`
-        : "Examen Complet (partiel)";
+        ? t("exam.name.domainPartial", { domain: getDomainLabel(session.domain) })
+        : t("exam.name.fullPartial");
 
       const savedExam: SavedExam = {
         id: examId,
@@ -0,0 +1,37 @@
+import { AnswerGrade, Question } from "@/types";
+import { storageService } from "./StorageService";
+import { aiServiceFactory } from "./AIServiceFactory";
+
+// ============================================
+// GRADING SERVICE
+// AI grading of open-ended answers against the rubric
+// generated with the question
+// ============================================
+
+export interface GradeOptions {
+  sessionId?: string; // Session the question belongs to (usage ledger)
+  signal?: AbortSignal;
+}
+
+class GradingService {
+  /**
+   * Grade the user's written answer with the configured provider.
+   * The grade is stored by the caller, in the session's UserAnswer.
+   */
+  async grade(question: Question, response: string, options: GradeOptions = {}): Promise<AnswerGrade> {
+    if (!response.trim()) {
+      throw new Error("Nothing to grade: empty answer");
+    }
+
+    const provider = await storageService.getProvider();
+    return aiServiceFactory.getService(provider).gradeAnswer({
+      question,
+      response,
+      sessionId: options.sessionId,
+      signal: options.signal,
+    });
+  }
+}
+
+// Singleton instance
+export const gradingService = new GradingService();
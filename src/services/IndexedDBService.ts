@@ -9,6 +9,12 @@ import {
   UserStatistics,
   UserAnswer,
   BackgroundTask,
+  ApiCallRecord,
+  SourceDocument,
+  CustomDomain,
+  ModelCatalog,
+  AIProvider,
+  GenerationLog,
 } from "@/types";
 
 // ============================================
@@ -73,10 +79,40 @@ interface ReviewIABDDB extends DBSchema {
       "by-status": string;
     };
   };
+  apiCalls: {
+    key: string;
+    value: ApiCallRecord;
+    indexes: {
+      "by-timestamp": Date;
+      "by-session": string;
+    };
+  };
+  documents: {
+    key: string;
+    value: SourceDocument;
+    indexes: {
+      "by-domain": string;
+    };
+  };
+  customDomains: {
+    key: string;
+    value: CustomDomain;
+  };
+  modelCatalogs: {
+    key: string;
+    value: ModelCatalog;
+  };
+  generationLogs: {
+    key: string;
+    value: GenerationLog;
+    indexes: {
+      "by-timestamp": Date;
+    };
+  };
 }
 
 const DB_NAME = "ReviewIABD";
-const DB_VERSION = 5;
+const DB_VERSION = 10;
 
 class IndexedDBService {
   private db: IDBPDatabase<ReviewIABDDB> | null = null;
@@ -91,7 +127,7 @@ class IndexedDBService {
 
     try {
       this.db = await openDB<ReviewIABDDB>(DB_NAME, DB_VERSION, {
-        upgrade(db) {
+        upgrade(db, _oldVersion, _newVersion, transaction) {
           // Settings store
           if (!db.objectStoreNames.contains("settings")) {
             db.createObjectStore("settings");
@@ -142,11 +178,45 @@ class IndexedDBService {
 
         // Background tasks store
         // Delete old version if it exists (from v2.2.2 without keyPath)
-        if (db.objectStoreNames.contains("backgroundTasks")) {
+        if (
+          db.objectStoreNames.contains("backgroundTasks") &&
+          transaction.objectStore("backgroundTasks").keyPath !== "id"
+        ) {
           db.deleteObjectStore("backgroundTasks");
         }
-        const taskStore = db.createObjectStore("backgroundTasks", { keyPath: "id" });
-        taskStore.createIndex("by-status", "status");
+        if (!db.objectStoreNames.contains("backgroundTasks")) {
+          const taskStore = db.createObjectStore("backgroundTasks", { keyPath: "id" });
+          taskStore.createIndex("by-status", "status");
+        }
+
+        // API calls store (usage ledger)
+        if (!db.objectStoreNames.contains("apiCalls")) {
+          const apiCallStore = db.createObjectStore("apiCalls", { keyPath: "id" });
+          apiCallStore.createIndex("by-timestamp", "timestamp");
+          apiCallStore.createIndex("by-session", "sessionId");
+        }
+
+        // Documents store ("Mes supports" course material)
+        if (!db.objectStoreNames.contains("documents")) {
+          const documentStore = db.createObjectStore("documents", { keyPath: "id" });
+          documentStore.createIndex("by-domain", "domain");
+        }
+
+        // Custom domains store (user-defined subjects)
+        if (!db.objectStoreNames.contains("customDomains")) {
+          db.createObjectStore("customDomains", { keyPath: "id" });
+        }
+
+        // Model catalogs store (provider model lists cache)
+        if (!db.objectStoreNames.contains("modelCatalogs")) {
+          db.createObjectStore("modelCatalogs", { keyPath: "provider" });
+        }
+
+        // Generation logs store (diagnostics ring buffer)
+        if (!db.objectStoreNames.contains("generationLogs")) {
+          const generationLogStore = db.createObjectStore("generationLogs", { keyPath: "id" });
+          generationLogStore.createIndex("by-timestamp", "timestamp");
+        }
       },
     });
     } catch (error) {
@@ -174,6 +244,15 @@ class IndexedDBService {
           db.createObjectStore("statistics");
           const taskStore2 = db.createObjectStore("backgroundTasks", { keyPath: "id" });
           taskStore2.createIndex("by-status", "status");
+          const apiCallStore2 = db.createObjectStore("apiCalls", { keyPath: "id" });
+          apiCallStore2.createIndex("by-timestamp", "timestamp");
+          apiCallStore2.createIndex("by-session", "sessionId");
+          const documentStore2 = db.createObjectStore("documents", { keyPath: "id" });
+          documentStore2.createIndex("by-domain", "domain");
+          db.createObjectStore("customDomains", { keyPath: "id" });
+          db.createObjectStore("modelCatalogs", { keyPath: "provider" });
+          const generationLogStore2 = db.createObjectStore("generationLogs", { keyPath: "id" });
+          generationLogStore2.createIndex("by-timestamp", "timestamp");
         },
       });
       console.log("[IndexedDB] Database recreated successfully");
@@ -254,6 +333,8 @@ class IndexedDBService {
   /**
    * Append questions to an existing session (for progressive generation).
    * Does NOT replace existing questions - only appends unique ones.
+   * Read and write share one transaction, so concurrent batches
+   * appending to the same session do not overwrite each other.
    */
   async appendQuestionsToSession(
     sessionId: string,
@@ -261,8 +342,12 @@ class IndexedDBService {
     generationProgress?: QuizSession["generationProgress"]
   ): Promise<QuizSession | undefined> {
     const db = await this.ensureDB();
-    const session = await db.get("sessions", sessionId);
-    if (!session) return undefined;
+    const tx = db.transaction("sessions", "readwrite");
+    const session = await tx.store.get(sessionId);
+    if (!session) {
+      await tx.done;
+      return undefined;
+    }
 
     const existingIds = new Set(session.questions.map(q => q.id));
     const uniqueNew = newQuestions.filter(q => !existingIds.has(q.id));
@@ -273,10 +358,47 @@ class IndexedDBService {
       ...(generationProgress !== undefined ? { generationProgress } : {}),
     };
 
-    await db.put("sessions", updatedSession, sessionId);
+    await Promise.all([tx.store.put(updatedSession, sessionId), tx.done]);
     return updatedSession;
   }
 
+  /**
+   * Apply an update to every saved copy of a question: the session it was
+   * answered in, the practice quiz, exam or exercise linked to that session,
+   * and the favorite (if any)
+   */
+  async updateQuestionCopies(
+    questionId: string,
+    update: (question: Question) => Question,
+    sessionId?: string
+  ): Promise<void> {
+    const updateIn = (questions: Question[]) =>
+      questions.map((q) => (q.id === questionId ? update(q) : q));
+
+    const favorite = await this.getFavorite(questionId);
+    if (favorite) {
+      await this.addFavorite(update(favorite));
+    }
+
+    if (!sessionId) return;
+    const session = await this.getSession(sessionId);
+    if (!session) return;
+    await this.saveSession({ ...session, questions: updateIn(session.questions) });
+
+    if (session.practiceQuizId) {
+      const quiz = await this.getPracticeQuiz(session.practiceQuizId);
+      if (quiz) await this.savePracticeQuiz({ ...quiz, questions: updateIn(quiz.questions) });
+    }
+    if (session.examId) {
+      const exam = await this.getExam(session.examId);
+      if (exam) await this.saveExam({ ...exam, questions: updateIn(exam.questions) });
+    }
+    if (session.exerciseId) {
+      const exercise = await this.getExercise(session.exerciseId);
+      if (exercise) await this.saveExercise({ ...exercise, questions: updateIn(exercise.questions) });
+    }
+  }
+
   /**
    * Find sessions stuck in GENERATING status (interrupted generations)
    */
@@ -453,6 +575,11 @@ class IndexedDBService {
     return favorite !== undefined;
   }
 
+  async getFavorite(id: string): Promise<Question | undefined> {
+    const db = await this.ensureDB();
+    return db.get("favorites", id);
+  }
+
   async getAllFavorites(): Promise<Question[]> {
     const db = await this.ensureDB();
     return db.getAll("favorites");
@@ -532,6 +659,10 @@ class IndexedDBService {
       "exercises",
       "questions",
       "favorites",
+      "apiCalls",
+      "documents",
+      "customDomains",
+      "generationLogs",
     ] as const;
     const tx = db.transaction(stores, "readwrite");
     await Promise.all([...stores.map((s) => db.clear(s)), tx.done]);
@@ -541,13 +672,14 @@ class IndexedDBService {
    * Export all data as JSON (for backup)
    */
   async exportData(): Promise<string> {
-    const [settings, sessions, exams, exercises, favorites] =
+    const [settings, sessions, exams, exercises, favorites, customDomains] =
       await Promise.all([
         this.getSettings(),
         this.getAllSessions(),
         this.getAllExams(),
         this.getAllExercises(),
         this.getAllFavorites(),
+        this.getAllCustomDomains(),
       ]);
 
     return JSON.stringify({
@@ -558,6 +690,7 @@ class IndexedDBService {
       exams,
       exercises,
       favorites,
+      customDomains,
     });
   }
 
@@ -588,6 +721,11 @@ class IndexedDBService {
         await this.addFavorite(favorite);
       }
     }
+    if (data.customDomains) {
+      for (const domain of data.customDomains) {
+        await this.saveCustomDomain(domain);
+      }
+    }
   }
 
   /**
@@ -668,6 +806,143 @@ class IndexedDBService {
       await db.delete("backgroundTasks", task.id);
     }
   }
+
+  // ============================================
+  // API CALLS OPERATIONS (usage ledger)
+  // ============================================
+
+  /**
+   * Record an API call
+   */
+  async saveApiCall(record: ApiCallRecord): Promise<void> {
+    const db = await this.ensureDB();
+    await db.put("apiCalls", record);
+  }
+
+  /**
+   * Get API calls made since a date (all calls when omitted)
+   */
+  async getApiCalls(since?: Date): Promise<ApiCallRecord[]> {
+    const db = await this.ensureDB();
+    if (!since) {
+      return db.getAll("apiCalls");
+    }
+    return db.getAllFromIndex("apiCalls", "by-timestamp", IDBKeyRange.lowerBound(since));
+  }
+
+  /**
+   * Get API calls that served a session
+   */
+  async getApiCallsBySession(sessionId: string): Promise<ApiCallRecord[]> {
+    const db = await this.ensureDB();
+    return db.getAllFromIndex("apiCalls", "by-session", sessionId);
+  }
+
+  /**
+   * Clear the usage ledger
+   */
+  async clearApiCalls(): Promise<void> {
+    const db = await this.ensureDB();
+    await db.clear("apiCalls");
+  }
+
+  // ============================================
+  // DOCUMENT OPERATIONS ("Mes supports")
+  // ============================================
+
+  async saveDocument(document: SourceDocument): Promise<void> {
+    const db = await this.ensureDB();
+    await db.put("documents", document);
+  }
+
+  async getDocument(id: string): Promise<SourceDocument | undefined> {
+    const db = await this.ensureDB();
+    return db.get("documents", id);
+  }
+
+  async getAllDocuments(): Promise<SourceDocument[]> {
+    const db = await this.ensureDB();
+    return db.getAll("documents");
+  }
+
+  async deleteDocument(id: string): Promise<void> {
+    const db = await this.ensureDB();
+    await db.delete("documents", id);
+  }
+
+  // ============================================
+  // CUSTOM DOMAIN OPERATIONS
+  // ============================================
+
+  async saveCustomDomain(domain: CustomDomain): Promise<void> {
+    const db = await this.ensureDB();
+    await db.put("customDomains", domain);
+  }
+
+  async getAllCustomDomains(): Promise<CustomDomain[]> {
+    const db = await this.ensureDB();
+    return db.getAll("customDomains");
+  }
+
+  async deleteCustomDomain(id: string): Promise<void> {
+    const db = await this.ensureDB();
+    await db.delete("customDomains", id);
+  }
+
+  // ============================================
+  // MODEL CATALOG OPERATIONS
+  // ============================================
+
+  async saveModelCatalog(catalog: ModelCatalog): Promise<void> {
+    const db = await this.ensureDB();
+    await db.put("modelCatalogs", catalog);
+  }
+
+  async getModelCatalog(provider: AIProvider): Promise<ModelCatalog | undefined> {
+    const db = await this.ensureDB();
+    return db.get("modelCatalogs", provider);
+  }
+
+  // ============================================
+  // GENERATION LOG OPERATIONS
+  // ============================================
+
+  /**
+   * Save a generation log, deleting the oldest ones beyond `limit`
+   */
+  async saveGenerationLog(log: GenerationLog, limit: number): Promise<void> {
+    const db = await this.ensureDB();
+    const tx = db.transaction("generationLogs", "readwrite");
+    await tx.store.put(log);
+
+    let excess = (await tx.store.count()) - limit;
+    let cursor = await tx.store.index("by-timestamp").openCursor();
+    while (cursor && excess > 0) {
+      await cursor.delete();
+      excess--;
+      cursor = await cursor.continue();
+    }
+    await tx.done;
+  }
+
+  /**
+   * Get generation logs, newest first
+   */
+  async getGenerationLogs(): Promise<GenerationLog[]> {
+    const db = await this.ensureDB();
+    const logs = await db.getAllFromIndex("generationLogs", "by-timestamp");
+    return logs.reverse();
+  }
+
+  async getGenerationLog(id: string): Promise<GenerationLog | undefined> {
+    const db = await this.ensureDB();
+    return db.get("generationLogs", id);
+  }
+
+  async clearGenerationLogs(): Promise<void> {
+    const db = await this.ensureDB();
+    await db.clear("generationLogs");
+  }
 }
 
 // Singleton instance
@@ -0,0 +1,102 @@
+import { AIProvider, ModelCatalog, ProviderCredentials } from "@/types";
+import { isCatalogStale } from "@/lib/modelCatalog";
+import { indexedDBService } from "./IndexedDBService";
+import { providerRegistry } from "./ProviderRegistry";
+import { storageService } from "./StorageService";
+
+// ============================================
+// MODEL CATALOG SERVICE
+// Provider model lists fetched from their APIs,
+// cached in IndexedDB with their fetch date
+// ============================================
+
+export interface MissingModel {
+  provider: AIProvider;
+  model: string;
+}
+
+class ModelCatalogService {
+  /**
+   * Whether the provider can list its models
+   */
+  hasCatalog(provider: AIProvider): boolean {
+    return !!providerRegistry.get(provider).fetchCatalog;
+  }
+
+  /**
+   * Cached catalog, whatever its age
+   */
+  async getCached(provider: AIProvider): Promise<ModelCatalog | undefined> {
+    return indexedDBService.getModelCatalog(provider);
+  }
+
+  /**
+   * Fetch the catalog from the provider API and replace the cached one
+   */
+  async refresh(provider: AIProvider, credentials: ProviderCredentials = {}): Promise<ModelCatalog> {
+    const definition = providerRegistry.get(provider);
+    if (!definition.fetchCatalog) {
+      throw new Error(`Provider "${provider}" has no model catalog`);
+    }
+
+    const catalog: ModelCatalog = {
+      provider: definition.id,
+      models: await definition.fetchCatalog(credentials),
+      fetchedAt: new Date(),
+    };
+    await indexedDBService.saveModelCatalog(catalog);
+    console.log("[ModelCatalog]", provider, "catalog cached:", catalog.models.length, "models");
+    return catalog;
+  }
+
+  /**
+   * Cached catalog, refetched when stale.
+   * Falls back to the stale copy when the provider cannot be reached.
+   */
+  async get(provider: AIProvider, credentials: ProviderCredentials = {}): Promise<ModelCatalog | undefined> {
+    const cached = await this.getCached(provider);
+    if (cached && !isCatalogStale(cached)) {
+      return cached;
+    }
+
+    try {
+      return await this.refresh(provider, credentials);
+    } catch (error) {
+      console.warn("[ModelCatalog] Failed to refresh", provider, "catalog:", error);
+      return cached;
+    }
+  }
+
+  /**
+   * Check that the configured model still exists in its provider catalog.
+   * Returns the missing model, or null when it exists or cannot be checked
+   * (provider without catalog, not configured, catalog unavailable).
+   */
+  async checkConfiguredModel(): Promise<MissingModel | null> {
+    const settings = await storageService.getSettings();
+    const { provider, model } = settings;
+    const credentials = settings.credentials?.[provider];
+    if (
+      !model ||
+      !this.hasCatalog(provider) ||
+      !providerRegistry.isConfigured(provider, credentials)
+    ) {
+      return null;
+    }
+
+    const catalog = await this.get(provider, credentials);
+    if (!catalog || catalog.models.length === 0) {
+      return null;
+    }
+
+    if (catalog.models.some((m) => m.id === model)) {
+      return null;
+    }
+
+    console.warn("[ModelCatalog] Configured model not in", provider, "catalog:", model);
+    return { provider, model };
+  }
+}
+
+// Singleton instance
+export const modelCatalogService = new ModelCatalogService();
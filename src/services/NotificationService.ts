@@ -1,6 +1,6 @@
 import { BackgroundTask, Domain } from "@/types";
 import { indexedDBService } from "@/services/IndexedDBService";
-import { DOMAIN_LABELS } from "@/types";
+import { getDomainLabel } from "@/lib/utils";
 
 // ============================================
 // NOTIFICATION SERVICE
@@ -118,7 +118,7 @@ class NotificationService {
       return;
     }
 
-    const domainLabel = DOMAIN_LABELS[task.domain as Domain] || task.domain;
+    const domainLabel = getDomainLabel(task.domain as Domain);
     const title = "Quiz prêt !";
     const body = `Vos ${task.questionCount} questions sur ${domainLabel} sont prêtes à être utilisées.`;
 
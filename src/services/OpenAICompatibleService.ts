@@ -0,0 +1,578 @@
+import {
+  Question,
+  Domain,
+  Difficulty,
+  QuestionGenerationRequest,
+  MultiDomainQuestionRequest,
+  GenerationProgressCallback,
+  IAIService,
+  APIError,
+  QuestionVerificationRequest,
+  QuestionVerdict,
+  TutorChatRequest,
+  AnswerGradingRequest,
+  AnswerGrade,
+  QuestionTranslationRequest,
+  AnswerRationaleRequest,
+  AIProviderDefinition,
+} from "@/types";
+import { retryWithBackoff, batchArray } from "@/lib/utils";
+import { storageService } from "./StorageService";
+import {
+  generatePrompt,
+  generateMultiDomainPrompt,
+  parseQuestionsFromResponse,
+  parseMultiDomainQuestions,
+  handleAPIError,
+} from "./OpenRouterService";
+import {
+  JSONSchema,
+  buildQuestionsSchema,
+  parseStructuredQuestions,
+  supportsStructuredOutput,
+  markStructuredOutputUnsupported,
+  isStructuredOutputUnsupported,
+} from "@/lib/questionSchema";
+import { getFallbackDifficulty } from "@/lib/difficulty";
+import {
+  VERIFIER_SYSTEM_PROMPT,
+  buildVerificationPrompt,
+  buildVerificationSchema,
+  parseVerdicts,
+} from "@/lib/verification";
+import { TUTOR_SYSTEM_PROMPT, buildTutorPrompt } from "@/lib/tutor";
+import {
+  TRANSLATION_SYSTEM_PROMPT,
+  buildTranslationPrompt,
+  buildTranslationSchema,
+  parseTranslations,
+} from "@/lib/translation";
+import {
+  GRADING_SYSTEM_PROMPT,
+  buildGradingPrompt,
+  buildGradingSchema,
+  parseGrade,
+} from "@/lib/grading";
+import {
+  RATIONALE_SYSTEM_PROMPT,
+  buildRationalePrompt,
+  buildRationaleSchema,
+  parseRationales,
+} from "@/lib/rationale";
+import { usageService, readOpenAIUsage } from "./UsageService";
+import { maxTokensFor } from "@/lib/batchSizing";
+import { generationLogService, GenerationLogger } from "./GenerationLogService";
+
+// ============================================
+// OPENAI-COMPATIBLE SERVICE
+// Handles AI question generation via any server exposing
+// /v1/chat/completions (Ollama, llama.cpp, LM Studio...)
+// ============================================
+
+const MAX_RETRIES = 3;
+const BASE_DELAY = 1000;
+const GENERATOR_SYSTEM_PROMPT =
+  "Tu es un expert pédagogique en IA et Big Data. Tu génères des QCM de haute qualité, techniques et précis.";
+
+export const DEFAULT_LOCAL_BASE_URL = "http://localhost:11434";
+
+/**
+ * Normalize a user-entered base URL so that both "http://host:port"
+ * and "http://host:port/v1/" resolve to the same endpoints.
+ */
+export function normalizeBaseUrl(baseUrl: string): string {
+  return baseUrl.trim().replace(/\/+$/, "").replace(/\/v1$/, "");
+}
+
+/**
+ * Strip reasoning blocks emitted by local thinking models
+ * (e.g. deepseek-r1, qwen3) before JSON extraction.
+ */
+function stripThinking(content: string): string {
+  return content.replace(/<think>[\s\S]*?<\/think>/g, "").trim();
+}
+
+/**
+ * Map errors to APIError, keeping already-classified errors intact
+ * and flagging unreachable servers (fetch network failure).
+ */
+function toAPIError(error: unknown): APIError {
+  if ((error as APIError)?.code) {
+    return error as APIError;
+  }
+  if (error instanceof TypeError) {
+    return {
+      message: "Local server unreachable. Is it running and does it allow CORS?",
+      code: "SERVER_UNREACHABLE",
+      isRetryable: true,
+    };
+  }
+  return handleAPIError(error);
+}
+
+function buildHeaders(apiKey?: string): Record<string, string> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  };
+  if (apiKey) {
+    headers.Authorization = `Bearer ${apiKey}`;
+  }
+  return headers;
+}
+
+class OpenAICompatibleService implements IAIService {
+  /**
+   * List models exposed by the server via GET /v1/models
+   */
+  async listModels(baseUrl: string, apiKey?: string): Promise<string[]> {
+    const res = await fetch(`${normalizeBaseUrl(baseUrl)}/v1/models`, {
+      headers: buildHeaders(apiKey),
+    });
+
+    if (!res.ok) {
+      throw handleAPIError({
+        response: {
+          status: res.status,
+          data: await res.json().catch(() => ({})),
+        },
+      });
+    }
+
+    const data = await res.json();
+    const models: string[] = (data.data || [])
+      .map((m: { id?: string }) => m.id)
+      .filter((id: string | undefined): id is string => !!id);
+
+    console.log("[Local] Discovered models:", models);
+    return models;
+  }
+
+  /**
+   * Send a chat completion request and return the text content.
+   * Asks for json_schema structured output when the server supports it
+   * (a null schema requests plain text).
+   */
+  private async complete(
+    prompt: string,
+    schema: JSONSchema | null,
+    domains: Domain[],
+    request: Pick<QuestionGenerationRequest, "model" | "sessionId" | "signal">,
+    systemPrompt = GENERATOR_SYSTEM_PROMPT,
+    maxTokens = maxTokensFor(),
+  ): Promise<string> {
+    const settings = await storageService.getSettings();
+    const { baseUrl, apiKey } = settings.credentials?.local || {};
+    const model = request.model || settings.model;
+
+    if (!baseUrl) {
+      throw {
+        message: "Local server URL not configured. Please check your settings.",
+        code: "NO_BASE_URL",
+        isRetryable: false,
+      };
+    }
+
+    if (!model) {
+      throw {
+        message: "No local model selected. Please check your settings.",
+        code: "NO_MODEL",
+        isRetryable: false,
+      };
+    }
+
+    console.log("[Local] Sending request:", {
+      baseUrl,
+      model,
+      promptLength: prompt.length,
+    });
+    const startTime = Date.now();
+
+    const call = { provider: "local", model, sessionId: request.sessionId, domains };
+    const data = await retryWithBackoff(
+      () => usageService.track(call, async () => {
+        const send = (structured: boolean) =>
+          fetch(`${normalizeBaseUrl(baseUrl)}/v1/chat/completions`, {
+            method: "POST",
+            signal: request.signal,
+            headers: buildHeaders(apiKey),
+            body: JSON.stringify({
+              model,
+              messages: [
+                {
+                  role: "system",
+                  content: systemPrompt,
+                },
+                {
+                  role: "user",
+                  content: prompt,
+                },
+              ],
+              temperature: 0.7,
+              max_tokens: maxTokens,
+              stream: false,
+              ...(structured && {
+                response_format: {
+                  type: "json_schema",
+                  json_schema: { name: "questions", strict: true, schema },
+                },
+              }),
+            }),
+          });
+
+        const structured = !!schema && supportsStructuredOutput("local", model);
+        let res = await send(structured);
+        if (!res.ok && structured) {
+          const error = await res.clone().json().catch(() => ({}));
+          if (isStructuredOutputUnsupported(res.status, error)) {
+            markStructuredOutputUnsupported("local", model);
+            res = await send(false);
+          }
+        }
+
+        if (!res.ok) {
+          const error = await res.json().catch(() => ({}));
+          console.error("[Local] Error response:", error);
+          throw {
+            response: {
+              status: res.status,
+              data: error,
+            },
+          };
+        }
+
+        return res.json();
+      }, (data) => readOpenAIUsage(data.usage)),
+      MAX_RETRIES,
+      BASE_DELAY,
+      request.signal,
+    );
+
+    console.log(`[Local] Request completed in ${Date.now() - startTime}ms`, {
+      usage: data.usage,
+    });
+
+    const content = data.choices?.[0]?.message?.content;
+    if (!content) {
+      throw new Error("Empty response from local server");
+    }
+
+    return stripThinking(content);
+  }
+
+  /**
+   * Generate a batch of questions via the local server
+   */
+  async generateQuestionsBatch(
+    request: QuestionGenerationRequest,
+  ): Promise<Question[]> {
+    const { domain, count, difficulty } = request;
+    const fallbackDifficulty = getFallbackDifficulty(difficulty);
+    let log: GenerationLogger | undefined;
+    let content: string | undefined;
+
+    try {
+      const prompt = generatePrompt(
+        domain,
+        count,
+        difficulty,
+        request.previousQuestions,
+        request.difficultyMix,
+        request.source,
+        request.subtopics,
+        request.formats,
+        request.language,
+      );
+      log = generationLogService.start({
+        provider: "local",
+        model: request.model || (await storageService.getModel()),
+        sessionId: request.sessionId,
+        domains: [domain],
+        multiDomain: false,
+        fallbackDifficulty,
+        streamed: false,
+        systemPrompt: GENERATOR_SYSTEM_PROMPT,
+        prompt,
+      });
+      content = await this.complete(
+        prompt,
+        buildQuestionsSchema(undefined, !!request.source, request.formats),
+        [request.domain],
+        request,
+        GENERATOR_SYSTEM_PROMPT,
+        maxTokensFor(count),
+      );
+      const questions =
+        parseStructuredQuestions(content, [domain], fallbackDifficulty) ??
+        parseQuestionsFromResponse(content, domain, fallbackDifficulty);
+      log.succeed(content, questions);
+      return questions;
+    } catch (error) {
+      const apiError = toAPIError(error);
+      log?.fail(apiError, content);
+      throw apiError;
+    }
+  }
+
+  /**
+   * Generate multiple questions in batches
+   */
+  async generateQuestions(
+    request: QuestionGenerationRequest,
+    onProgress?: GenerationProgressCallback,
+  ): Promise<Question[]> {
+    const { count } = request;
+    const settings = await storageService.getSettings();
+    const batchSize = request.batchSize || settings?.batchSize || 10;
+
+    const batches = batchArray(Array.from({ length: count }, (_, i) => i), batchSize);
+    const allQuestions: Question[] = [];
+
+    for (let i = 0; i < batches.length; i++) {
+      console.log(`[Local] Processing batch ${i + 1}/${batches.length}`);
+
+      const questions = await this.generateQuestionsBatch({
+        ...request,
+        count: batches[i].length,
+      });
+
+      allQuestions.push(...questions);
+
+      // Update previousQuestions for next batch to avoid duplicates
+      request.previousQuestions = allQuestions.map(q => q.question);
+
+      onProgress?.({
+        current: allQuestions.length,
+        total: count,
+        batch: questions,
+      });
+    }
+
+    return allQuestions;
+  }
+
+  /**
+   * Generate questions for multiple domains in a single request
+   */
+  async generateMultiDomainQuestions(
+    request: MultiDomainQuestionRequest,
+    onProgress?: GenerationProgressCallback,
+  ): Promise<Question[]> {
+    const totalCount = request.domains.length * request.countPerDomain;
+    const fallbackDifficulty = getFallbackDifficulty(request.difficulty);
+    let log: GenerationLogger | undefined;
+    let content: string | undefined;
+
+    try {
+      const prompt = generateMultiDomainPrompt(request);
+      log = generationLogService.start({
+        provider: "local",
+        model: request.model || (await storageService.getModel()),
+        sessionId: request.sessionId,
+        domains: request.domains,
+        multiDomain: true,
+        fallbackDifficulty,
+        streamed: false,
+        systemPrompt: GENERATOR_SYSTEM_PROMPT,
+        prompt,
+      });
+      content = await this.complete(
+        prompt,
+        buildQuestionsSchema(request.domains, false, request.formats),
+        request.domains,
+        request,
+        GENERATOR_SYSTEM_PROMPT,
+        maxTokensFor(totalCount),
+      );
+      const questions =
+        parseStructuredQuestions(content, request.domains, fallbackDifficulty) ??
+        parseMultiDomainQuestions(content, request.domains, fallbackDifficulty);
+      log.succeed(content, questions);
+
+      if (questions.length !== totalCount) {
+        console.warn(
+          `[Local] Expected ${totalCount} questions but got ${questions.length}`,
+        );
+      }
+
+      onProgress?.({
+        current: questions.length,
+        total: totalCount,
+        batch: questions,
+      });
+
+      return questions;
+    } catch (error) {
+      const apiError = toAPIError(error);
+      log?.fail(apiError, content);
+      throw apiError;
+    }
+  }
+
+  /**
+   * Answer questions blind with the local model (verification pass)
+   */
+  async verifyQuestions(request: QuestionVerificationRequest): Promise<QuestionVerdict[]> {
+    try {
+      const content = await this.complete(
+        buildVerificationPrompt(request.questions),
+        buildVerificationSchema(),
+        [...new Set(request.questions.map((q) => q.domain))],
+        request,
+        VERIFIER_SYSTEM_PROMPT,
+      );
+      return parseVerdicts(content, request.questions);
+    } catch (error) {
+      throw toAPIError(error);
+    }
+  }
+
+  /**
+   * Explain each option of the questions with the local model (rationale backfill)
+   */
+  async explainAnswers(request: AnswerRationaleRequest): Promise<Question[]> {
+    try {
+      const content = await this.complete(
+        buildRationalePrompt(request.questions),
+        buildRationaleSchema(),
+        [...new Set(request.questions.map((q) => q.domain))],
+        request,
+        RATIONALE_SYSTEM_PROMPT,
+      );
+      return parseRationales(content, request.questions);
+    } catch (error) {
+      throw toAPIError(error);
+    }
+  }
+
+  /**
+   * Translate questions into another language with the local model (question bank)
+   */
+  async translateQuestions(request: QuestionTranslationRequest): Promise<Question[]> {
+    try {
+      const content = await this.complete(
+        buildTranslationPrompt(request.questions, request.language),
+        buildTranslationSchema(),
+        [...new Set(request.questions.map((q) => q.domain))],
+        request,
+        TRANSLATION_SYSTEM_PROMPT,
+      );
+      return parseTranslations(content, request.questions, request.language);
+    } catch (error) {
+      throw toAPIError(error);
+    }
+  }
+
+  /**
+   * Grade an open-ended answer against the question's rubric with the local model
+   */
+  async gradeAnswer(request: AnswerGradingRequest): Promise<AnswerGrade> {
+    try {
+      const content = await this.complete(
+        buildGradingPrompt(request.question, request.response),
+        buildGradingSchema(),
+        [request.question.domain],
+        request,
+        GRADING_SYSTEM_PROMPT,
+      );
+      return parseGrade(content, request.model || (await storageService.getModel()));
+    } catch (error) {
+      throw toAPIError(error);
+    }
+  }
+
+  /**
+   * Reply to a follow-up about an answered question ("Approfondir")
+   */
+  async explainQuestion(request: TutorChatRequest): Promise<string> {
+    try {
+      return await this.complete(
+        buildTutorPrompt(request),
+        null,
+        [request.question.domain],
+        request,
+        TUTOR_SYSTEM_PROMPT,
+      );
+    } catch (error) {
+      throw toAPIError(error);
+    }
+  }
+
+  /**
+   * Parse a raw generation response as generation does (diagnostics replay)
+   */
+  parseGeneratedQuestions(
+    content: string,
+    domains: Domain[],
+    fallbackDifficulty: Difficulty,
+    multiDomain: boolean,
+  ): Question[] {
+    return (
+      parseStructuredQuestions(content, domains, fallbackDifficulty) ??
+      (multiDomain
+        ? parseMultiDomainQuestions(content, domains, fallbackDifficulty)
+        : parseQuestionsFromResponse(content, domains[0], fallbackDifficulty))
+    );
+  }
+
+  /**
+   * Validate the (optional) key by listing models on the configured server
+   */
+  async validateApiKey(apiKey: string): Promise<boolean> {
+    try {
+      const baseUrl = await storageService.getCredential("local", "baseUrl");
+      const models = await this.listModels(
+        baseUrl || DEFAULT_LOCAL_BASE_URL,
+        apiKey || undefined,
+      );
+      return models.length > 0;
+    } catch {
+      return false;
+    }
+  }
+}
+
+// Singleton instance
+export const openAICompatibleService = new OpenAICompatibleService();
+
+// Provider declaration (registered in ProviderRegistry)
+export const localProvider: AIProviderDefinition = {
+  id: "local",
+  free: true,
+  label: "provider.local.label",
+  description: "provider.local.description",
+  setupHint: "provider.local.setupHint",
+  credentialFields: [
+    {
+      key: "baseUrl",
+      label: "provider.local.baseUrl",
+      type: "url",
+      required: true,
+      defaultValue: DEFAULT_LOCAL_BASE_URL,
+    },
+    {
+      key: "apiKey",
+      label: "provider.local.apiKey",
+      type: "password",
+      placeholder: "provider.local.apiKeyPlaceholder",
+      required: false,
+    },
+  ],
+  models: [],
+  defaultModel: "",
+  customModelPlaceholder: "provider.local.customModelPlaceholder",
+  // Local servers only need a reachable http(s) base URL
+  validateCredentials: ({ baseUrl = "" }) => {
+    try {
+      const url = new URL(baseUrl);
+      return url.protocol === "http:" || url.protocol === "https:";
+    } catch {
+      return false;
+    }
+  },
+  discoverModels: ({ baseUrl, apiKey }) =>
+    openAICompatibleService.listModels(
+      baseUrl || DEFAULT_LOCAL_BASE_URL,
+      apiKey || undefined,
+    ),
+  createService: () => openAICompatibleService,
+};
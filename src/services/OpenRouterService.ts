@@ -1,16 +1,84 @@
 import {
   Question,
+  Language,
   Domain,
-  QuestionType,
   QuestionGenerationRequest,
   MultiDomainQuestionRequest,
   QuestionGenerationResponse,
   GenerationProgressCallback,
   APIError,
   IAIService,
+  Difficulty,
+  DifficultySetting,
+  DifficultyMix,
+  AIProviderDefinition,
+  QuestionVerificationRequest,
+  QuestionVerdict,
+  TutorChatRequest,
+  AnswerGradingRequest,
+  AnswerGrade,
+  QuestionTranslationRequest,
+  AnswerRationaleRequest,
+  SourcePassage,
+  QuestionType,
+  ProviderModel,
 } from "@/types";
-import { generateId, retryWithBackoff, sleep, batchArray } from "@/lib/utils";
+import { generateId, retryWithBackoff, sleep, batchArray, isAbortError } from "@/lib/utils";
 import { storageService } from "./StorageService";
+import {
+  JSONSchema,
+  buildQuestionsSchema,
+  parseStructuredQuestions,
+  supportsStructuredOutput,
+  markStructuredOutputUnsupported,
+  isStructuredOutputUnsupported,
+  salvageQuestions,
+} from "@/lib/questionSchema";
+import { inferQuestionType } from "@/lib/scoring";
+import {
+  buildDifficultyInstruction,
+  getFallbackDifficulty,
+  parseDifficulty,
+} from "@/lib/difficulty";
+import { QuestionStreamParser } from "@/lib/questionStream";
+import { buildCoveredTopicsInstruction } from "@/lib/similarity";
+import { buildSourceContext } from "@/lib/sourceMaterial";
+import { getDomainPrompt, tagSubtopic } from "@/lib/subtopics";
+import { applyQuestionFormat, buildFormatInstruction } from "@/lib/questionFormats";
+import { buildLanguageInstruction } from "@/lib/i18n";
+import { maxTokensFor } from "@/lib/batchSizing";
+import {
+  VERIFIER_SYSTEM_PROMPT,
+  buildVerificationPrompt,
+  buildVerificationSchema,
+  parseVerdicts,
+} from "@/lib/verification";
+import { TUTOR_SYSTEM_PROMPT, buildTutorPrompt } from "@/lib/tutor";
+import {
+  TRANSLATION_SYSTEM_PROMPT,
+  buildTranslationPrompt,
+  buildTranslationSchema,
+  parseTranslations,
+} from "@/lib/translation";
+import {
+  GRADING_SYSTEM_PROMPT,
+  buildGradingPrompt,
+  buildGradingSchema,
+  parseGrade,
+} from "@/lib/grading";
+import {
+  RATIONALE_SYSTEM_PROMPT,
+  buildRationalePrompt,
+  buildRationaleSchema,
+  parseRationales,
+} from "@/lib/rationale";
+import {
+  usageService,
+  ApiCallContext,
+  TokenUsage,
+  readOpenAIUsage,
+} from "./UsageService";
+import { generationLogService, GenerationLogger } from "./GenerationLogService";
 
 // ============================================
 // OPENROUTER SERVICE
@@ -18,72 +86,61 @@ import { storageService } from "./StorageService";
 // ============================================
 
 const OPENROUTER_API_URL = "https://openrouter.ai/api/v1/chat/completions";
+const OPENROUTER_MODELS_URL = "https://openrouter.ai/api/v1/models";
 const MAX_RETRIES = 3;
 const BASE_DELAY = 1000;
-
-// Domain prompts for question generation
-const DOMAIN_PROMPTS: Record<Domain, string> = {
-  [Domain.MACHINE_LEARNING]:
-    "Machine Learning Fondamental: algorithmes supervisés, non supervisés, régression, classification, clustering, evaluation de modèles, biais/variance, overfitting/underfitting.",
-  [Domain.IA_SYMBOLIQUE]:
-    "IA Symbolique: systèmes experts, logique propositionnelle, SAT, planification, représentation des connaissances, raisonnement, graphes de recherche.",
-  [Domain.DATA_WAREHOUSING]:
-    "Data Warehousing: ETL, architecture en étoile/flacon, schémas dimensionnels, modélisation, data marts, SCD, optimisation de requêtes.",
-  [Domain.BIG_DATA]:
-    "Big Data: frameworks distribués (Hadoop, Spark), NoSQL, streaming, MapReduce, scalabilité, partitionnement, sharding, CAP theorem.",
-  [Domain.SYSTEMES_RECOMMANDATION]:
-    "Systèmes de Recommandation: filtrage collaboratif, contenu, hybride, matrix factorization, cold start, évaluation, biais, fairité.",
-  [Domain.DATA_MINING]:
-    "Data Mining: pattern discovery, association rules, sequential pattern mining, outlier detection, preprocessing, feature engineering, validation.",
-  [Domain.DEEP_LEARNING]:
-    "Deep Learning: réseaux de neurones, CNN, RNN, LSTM, Transformer, backpropagation, activation functions, optimisation, regularisation.",
-  [Domain.VISUALISATION_DONNEES]:
-    "Visualisation de Données: principes de perception, types de graphiques, interaction, dashboards, storytelling, outils (D3.js, matplotlib), best practices.",
-  [Domain.ETHIQUE_IA]:
-    "Éthique de l'IA: biais algorithmiques, équité, accountability, transparence, vie privée, impact social, régulation, AI act, responsible AI.",
-  [Domain.NLP]:
-    "Traitement du Langage Naturel: tokenization, embeddings, attention, transformers, BERT, GPT, sentiment analysis, traduction, NER, langage vs parole.",
-};
+const GENERATOR_SYSTEM_PROMPT =
+  "Tu es un expert pédagogique en IA et Big Data. Tu génères des QCM de haute qualité, techniques et précis.";
 
 // Prompt template for question generation
-function generatePrompt(
+export function generatePrompt(
   domain: Domain,
   count: number,
-  difficulty?: "easy" | "medium" | "hard",
+  difficulty?: DifficultySetting,
   previousQuestions?: string[],
+  difficultyMix?: DifficultyMix,
+  source?: SourcePassage,
+  subtopics?: string[],
+  formats?: QuestionType[],
+  language?: Language,
 ): string {
-  const domainContext = DOMAIN_PROMPTS[domain];
-  const difficultyText = difficulty
-    ? ` Niveau de difficulté: ${difficulty}.`
-    : "";
-
-  // Add previous questions to avoid duplicates
-  const previousQuestionsText = previousQuestions && previousQuestions.length > 0
-    ? `\n\nIMPORTANT: Les questions suivantes ont déjà été générées. Tu DOIS générer des questions DIFFÉRENTES qui ne traitent PAS des mêmes sujets:\n\n${previousQuestions.map(q => `- ${q}`).join('\n')}\n\n`
-    : "";
-
-  return `Tu es un expert pédagogique en Intelligence Artificielle et Big Data. Génère ${count} questions à choix multiple (QCM) sur le domaine suivant:
-
-${domainContext}${difficultyText}${previousQuestionsText}
+  // Course material replaces the domain syllabus as the only content source
+  const domainContext = source
+    ? buildSourceContext(source)
+    : `sur le domaine suivant:\n\n${getDomainPrompt(domain, subtopics)}`;
+  const difficultyText = buildDifficultyInstruction(count, difficulty, difficultyMix);
+
+  // Steer away from topics already covered (compact summary, not full texts)
+  const previousQuestionsText = buildCoveredTopicsInstruction(previousQuestions);
+  const formatText = buildFormatInstruction(formats);
+  const languageText = buildLanguageInstruction(language);
+
+  return `Tu es un expert pédagogique en Intelligence Artificielle et Big Data. Génère ${count} questions à choix multiple (QCM) ${domainContext}${difficultyText}${previousQuestionsText}
 IMPORTANT: Tu dois répondre UNIQUEMENT avec un tableau JSON valide contenant les questions. Pas de texte avant ou après le JSON.
 
 Format attendu pour chaque question:
 {
   "question": "texte de la question",
   "answers": [
-    {"text": "réponse A", "isCorrect": false},
-    {"text": "réponse B", "isCorrect": true},
-    {"text": "réponse C", "isCorrect": false},
-    {"text": "réponse D", "isCorrect": false}
+    {"text": "réponse A", "isCorrect": false, "rationale": "pourquoi cette option est fausse"},
+    {"text": "réponse B", "isCorrect": true, "rationale": "pourquoi cette option est correcte"},
+    {"text": "réponse C", "isCorrect": false, "rationale": "pourquoi cette option est fausse"},
+    {"text": "réponse D", "isCorrect": false, "rationale": "pourquoi cette option est fausse"}
   ],
-  "explanation": "explication détaillée de la bonne réponse"
-}
+  "explanation": "explication détaillée de la bonne réponse",
+  "difficulty": "easy" | "medium" | "hard",
+  "subtopic": "sous-thème du domaine couvert par la question"
+}${formatText}${languageText}
 
 Contraintes:
 - Les questions doivent être techniques et précises
-- Une seule bonne réponse par question
+- Environ un tiers des questions sont à réponses multiples ("cochez toutes les bonnes réponses") avec 2 ou 3 réponses "isCorrect": true
+- Les autres questions ont une seule bonne réponse
+- Le champ "difficulty" indique la difficulté réelle de chaque question
+- Le champ "subtopic" reprend tel quel le sous-thème de la liste du domaine que la question couvre
 - 4 choix de réponse par question
 - L'explication doit être concise (2-3 phrases maximum)
+- Chaque réponse a un champ "rationale" d'une phrase: pourquoi elle est correcte, ou précisément en quoi elle est fausse
 - Les questions doivent couvrir différents aspects du domaine
 - Inclure des questions pratiques et théoriques
 - CRITIQUE: Chaque nouvelle question doit traiter d'un sujet DIFFÉRENT des questions précédentes
@@ -94,9 +151,10 @@ Génère maintenant les ${count} questions au format JSON tableau:`;
 }
 
 // Parse questions from API response
-function parseQuestionsFromResponse(
+export function parseQuestionsFromResponse(
   content: string,
   domain: Domain,
+  fallbackDifficulty: Difficulty = "medium",
 ): Question[] {
   console.log(
     "[OpenRouter] Parsing questions, content length:",
@@ -162,23 +220,41 @@ function parseQuestionsFromResponse(
         throw new Error(`Invalid question format at index ${index}`);
       }
 
-      return {
-        id: generateId(),
-        domain,
-        type: QuestionType.SINGLE_CHOICE,
-        question: q.question,
-        answers: q.answers.map((a: any, i: number) => ({
-          id: `${generateId()}-${i}`,
-          text: a.text || a.answer,
-          isCorrect: a.isCorrect || a.correct || false,
-        })),
-        explanation: q.explanation || "",
-        difficulty: "medium",
-        tags: [domain],
-        createdAt: new Date(),
-      };
+      const answers = q.answers.map((a: any, i: number) => ({
+        id: `${generateId()}-${i}`,
+        text: a.text || a.answer,
+        isCorrect: a.isCorrect || a.correct || false,
+        ...(typeof a.rationale === "string" && a.rationale.trim() && { rationale: a.rationale.trim() }),
+      }));
+
+      return tagSubtopic(
+        applyQuestionFormat(
+          {
+            id: generateId(),
+            domain,
+            type: inferQuestionType(answers),
+            question: q.question,
+            answers,
+            explanation: q.explanation || "",
+            difficulty: parseDifficulty(q.difficulty, fallbackDifficulty),
+            tags: [domain],
+            createdAt: new Date(),
+          },
+          q,
+        ),
+        q.subtopic,
+      );
     });
   } catch (error) {
+    // Keep every complete question written before the cut
+    const salvaged = salvageQuestions(content, [domain], fallbackDifficulty);
+    if (salvaged.salvagedCount > 0) {
+      console.warn(
+        `[OpenRouter] Salvaged ${salvaged.salvagedCount} complete questions from ${salvaged.complete ? "malformed" : "truncated"} response`,
+      );
+      return salvaged.questions;
+    }
+
     console.error("[OpenRouter] Failed to parse questions:", error);
     console.error("[OpenRouter] Content that failed to parse:", content);
     throw new Error("Invalid response format from AI");
@@ -186,7 +262,16 @@ function parseQuestionsFromResponse(
 }
 
 // API error handler
-function handleAPIError(error: any): APIError {
+export function handleAPIError(error: any): APIError {
+  // Cancelled by the caller (AbortController)
+  if (isAbortError(error)) {
+    return {
+      message: "Generation cancelled.",
+      code: "ABORTED",
+      isRetryable: false,
+    };
+  }
+
   if (error.response) {
     const status = error.response.status;
     const message = error.response.data?.error?.message || error.message;
@@ -234,7 +319,288 @@ function handleAPIError(error: any): APIError {
   };
 }
 
+/**
+ * Generate prompt for multi-domain question generation
+ */
+export function generateMultiDomainPrompt(request: MultiDomainQuestionRequest): string {
+  const { domains, countPerDomain, difficulty } = request;
+  const domainPrompts = domains.map(
+    (domain) => `${getDomainPrompt(domain)} (${countPerDomain} questions)`
+  ).join("\n\n");
+
+  const difficultyText = buildDifficultyInstruction(
+    countPerDomain,
+    difficulty,
+    request.difficultyMix,
+    true,
+  );
+
+  const previousQuestionsText = buildCoveredTopicsInstruction(request.previousQuestions);
+  const formatText = buildFormatInstruction(request.formats);
+  const languageText = buildLanguageInstruction(request.language);
+
+  return `Tu es un expert pédagogique en Intelligence Artificielle et Big Data. Génère des questions à choix multiple (QCM) sur les domaines suivants:
+
+${domainPrompts}${difficultyText}${previousQuestionsText}
+IMPORTANT: Tu dois répondre UNIQUEMENT avec un tableau JSON valide contenant les questions. Pas de texte avant ou après le JSON.
+
+Pour chaque domaine, génère exactement ${countPerDomain} questions.
+
+Format attendu pour chaque question:
+{
+  "question": "texte de la question",
+  "domain": "MACHINE_LEARNING" | "IA_SYMBOLIQUE" | "DATA_WAREHOUSING" | "BIG_DATA" | "SYSTEMES_RECOMMANDATION" | "DATA_MINING" | "DEEP_LEARNING" | "VISUALISATION_DONNEES" | "ETHIQUE_IA" | "NLP",
+  "answers": [
+    {"text": "réponse A", "isCorrect": false, "rationale": "pourquoi cette option est fausse"},
+    {"text": "réponse B", "isCorrect": true, "rationale": "pourquoi cette option est correcte"},
+    {"text": "réponse C", "isCorrect": false, "rationale": "pourquoi cette option est fausse"},
+    {"text": "réponse D", "isCorrect": false, "rationale": "pourquoi cette option est fausse"}
+  ],
+  "explanation": "explication détaillée de la bonne réponse",
+  "difficulty": "easy" | "medium" | "hard",
+  "subtopic": "sous-thème du domaine couvert par la question"
+}${formatText}${languageText}
+
+Contraintes:
+- Les questions doivent être techniques et précises
+- Environ un tiers des questions sont à réponses multiples ("cochez toutes les bonnes réponses") avec 2 ou 3 réponses "isCorrect": true
+- Les autres questions ont une seule bonne réponse
+- Le champ "difficulty" indique la difficulté réelle de chaque question
+- Le champ "subtopic" reprend tel quel le sous-thème de la liste du domaine que la question couvre
+- 4 choix de réponse par question
+- L'explication doit être concise (2-3 phrases maximum)
+- Chaque réponse a un champ "rationale" d'une phrase: pourquoi elle est correcte, ou précisément en quoi elle est fausse
+- Les questions doivent couvrir différents aspects du domaine
+- Inclure des questions pratiques et théoriques
+- CRITIQUE: Le champ "domain" doit correspondre exactement au domaine de la question
+
+IMPORTANT: Assure-toi que le JSON est complet et bien formé. Ne coupe pas ta réponse.
+
+Génère maintenant les questions au format JSON tableau:`;
+}
+
+/**
+ * Parse questions from multi-domain API response
+ */
+export function parseMultiDomainQuestions(
+  content: string,
+  expectedDomains: Domain[],
+  fallbackDifficulty: Difficulty = "medium",
+): Question[] {
+  try {
+    // Try to extract JSON from markdown code blocks
+    const jsonMatch = content.match(/```(?:json)?\s*(\[[\s\S]*?\])\s*```/);
+    const jsonContent = jsonMatch ? jsonMatch[1] : content;
+
+    const questionsData = JSON.parse(jsonContent);
+
+    if (!Array.isArray(questionsData)) {
+      throw new Error("Response is not an array");
+    }
+
+    const questions: Question[] = questionsData.map((q: any) => {
+      if (!q.question || !q.answers || !Array.isArray(q.answers) || !q.domain) {
+        throw new Error("Invalid question structure - missing required fields");
+      }
+
+      // Validate domain
+      if (!expectedDomains.includes(q.domain as Domain)) {
+        console.warn(
+          `[OpenRouter] Question has unexpected domain: ${q.domain}. Expected one of: ${expectedDomains.join(", ")}`,
+        );
+      }
+
+      const answers = q.answers.map((a: any) => ({
+        id: generateId(),
+        text: a.text,
+        isCorrect: a.isCorrect || false,
+        ...(typeof a.rationale === "string" && a.rationale.trim() && { rationale: a.rationale.trim() }),
+      }));
+
+      return tagSubtopic(
+        applyQuestionFormat(
+          {
+            id: generateId(),
+            domain: q.domain as Domain,
+            type: inferQuestionType(answers),
+            question: q.question,
+            answers,
+            explanation: q.explanation || "",
+            difficulty: parseDifficulty(q.difficulty, fallbackDifficulty),
+            tags: [q.domain as Domain],
+            createdAt: new Date(),
+          },
+          q,
+        ),
+        q.subtopic,
+      );
+    });
+
+    console.log("[OpenRouter] Successfully parsed", questions.length, "questions from multi-domain response");
+    return questions;
+  } catch (error: any) {
+    const salvaged = salvageQuestions(content, expectedDomains, fallbackDifficulty);
+    if (salvaged.salvagedCount > 0) {
+      console.warn(
+        `[OpenRouter] Salvaged ${salvaged.salvagedCount} complete questions from ${salvaged.complete ? "malformed" : "truncated"} multi-domain response`,
+      );
+      return salvaged.questions;
+    }
+
+    console.error("[OpenRouter] Error parsing multi-domain questions:", error);
+    throw new Error(`Failed to parse questions: ${error.message}`);
+  }
+}
+
 class OpenRouterService implements IAIService {
+  /**
+   * POST a chat completion request, asking for json_schema structured output
+   * when the model supports it and retrying once without it if rejected.
+   * A null schema requests plain text. With `stream`, the response body is
+   * a server-sent events stream.
+   */
+  private async postChatCompletion(
+    apiKey: string,
+    model: string,
+    messages: Array<{ role: string; content: string }>,
+    schema: JSONSchema | null,
+    stream = false,
+    signal?: AbortSignal,
+    maxTokens = maxTokensFor(),
+  ): Promise<Response> {
+    const send = (structured: boolean) =>
+      fetch(OPENROUTER_API_URL, {
+        method: "POST",
+        signal,
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${apiKey}`,
+          "HTTP-Referer":
+            typeof window !== "undefined" ? window.location.href : "",
+          "X-Title": "Review IABD",
+        },
+        body: JSON.stringify({
+          model,
+          messages,
+          temperature: 0.7,
+          max_tokens: maxTokens, // Sized to the batch to avoid truncation
+          ...(stream && { stream: true, stream_options: { include_usage: true } }),
+          ...(structured && {
+            response_format: {
+              type: "json_schema",
+              json_schema: { name: "questions", strict: true, schema },
+            },
+            // Only route to endpoints that honour response_format
+            provider: { require_parameters: true },
+          }),
+        }),
+      });
+
+    if (!schema || !supportsStructuredOutput("openrouter", model)) {
+      return send(false);
+    }
+
+    const res = await send(true);
+    if (!res.ok) {
+      const error = await res.clone().json().catch(() => ({}));
+      if (isStructuredOutputUnsupported(res.status, error)) {
+        markStructuredOutputUnsupported("openrouter", model);
+        return send(false);
+      }
+    }
+
+    return res;
+  }
+
+  /**
+   * Stream a chat completion, emitting each question as soon as its JSON
+   * object is complete. Falls back to parseContent on the full text when
+   * nothing could be parsed incrementally.
+   */
+  private async streamQuestions(
+    apiKey: string,
+    call: ApiCallContext,
+    messages: Array<{ role: string; content: string }>,
+    schema: JSONSchema,
+    onQuestion: (question: Question) => void,
+    fallbackDifficulty: Difficulty,
+    parseContent: (content: string) => Question[],
+    log: GenerationLogger,
+    maxTokens: number,
+    signal?: AbortSignal,
+  ): Promise<Question[]> {
+    const startTime = Date.now();
+
+    const { res, tracker } = await retryWithBackoff(
+      async () => {
+        const tracker = usageService.startCall(call);
+        try {
+          const res = await this.postChatCompletion(
+            apiKey,
+            call.model,
+            messages,
+            schema,
+            true,
+            signal,
+            maxTokens,
+          );
+
+          if (!res.ok) {
+            const error = await res.json().catch(() => ({}));
+            console.error("[OpenRouter] Error response:", error);
+            throw {
+              response: {
+                status: res.status,
+                data: error,
+              },
+            };
+          }
+
+          return { res, tracker };
+        } catch (error) {
+          tracker.fail(error);
+          throw error;
+        }
+      },
+      MAX_RETRIES,
+      BASE_DELAY,
+      signal,
+    );
+
+    // Usage comes with the last event (stream_options.include_usage)
+    let usage: TokenUsage | undefined;
+    const parser = new QuestionStreamParser(call.domains, onQuestion, fallbackDifficulty);
+    try {
+      await parser.consume<{
+        choices?: Array<{ delta?: { content?: string } }>;
+        usage?: { prompt_tokens?: number; completion_tokens?: number };
+      }>(res, (event) => {
+        usage = readOpenAIUsage(event.usage) ?? usage;
+        return event.choices?.[0]?.delta?.content;
+      });
+    } catch (error) {
+      tracker.fail(error);
+      log.fail(error, parser.content);
+      throw error;
+    }
+    tracker.succeed(usage);
+
+    console.log("[OpenRouter] Stream completed:", {
+      duration: `${Date.now() - startTime}ms`,
+      contentLength: parser.content.length,
+      streamedQuestions: parser.questions.length,
+    });
+
+    try {
+      const questions = parser.finish(parseContent);
+      log.succeed(parser.content, questions);
+      return questions;
+    } catch (error) {
+      log.fail(error, parser.content);
+      throw error;
+    }
+  }
+
   /**
    * Generate a batch of questions via OpenRouter API
    */
@@ -242,11 +608,14 @@ class OpenRouterService implements IAIService {
     request: QuestionGenerationRequest,
   ): Promise<Question[]> {
     const { domain, count, difficulty } = request;
+    const fallbackDifficulty = getFallbackDifficulty(difficulty);
+    let log: GenerationLogger | undefined;
+    let content: string | undefined;
 
     try {
       // Get API key and model from StorageService
-      const apiKey = await storageService.getApiKey();
-      const model = await storageService.getModel();
+      const apiKey = await storageService.getCredential("openrouter", "apiKey");
+      const model = request.model || (await storageService.getModel());
 
       if (!apiKey) {
         throw {
@@ -256,7 +625,17 @@ class OpenRouterService implements IAIService {
         };
       }
 
-      const prompt = generatePrompt(domain, count, difficulty, request.previousQuestions);
+      const prompt = generatePrompt(
+        domain,
+        count,
+        difficulty,
+        request.previousQuestions,
+        request.difficultyMix,
+        request.source,
+        request.subtopics,
+        request.formats,
+        request.language,
+      );
 
       console.log("[OpenRouter] Starting batch generation:", {
         domain,
@@ -265,42 +644,69 @@ class OpenRouterService implements IAIService {
         difficulty,
         promptLength: prompt.length,
       });
-      console.log("[OpenRouter] Prompt being sent to API:");
-      console.log("---PROMPT START---");
-      console.log(prompt);
-      console.log("---PROMPT END---");
+
+      const messages = [
+        {
+          role: "system",
+          content: GENERATOR_SYSTEM_PROMPT,
+        },
+        {
+          role: "user",
+          content: prompt,
+        },
+      ];
+
+      const call: ApiCallContext = {
+        provider: "openrouter",
+        model,
+        sessionId: request.sessionId,
+        domains: [domain],
+      };
+
+      log = generationLogService.start({
+        provider: "openrouter",
+        model,
+        sessionId: request.sessionId,
+        domains: [domain],
+        multiDomain: false,
+        fallbackDifficulty,
+        streamed: !!request.onQuestion,
+        systemPrompt: messages[0].content,
+        prompt,
+      });
+
+      if (request.onQuestion) {
+        console.log("[OpenRouter] Streaming questions from OpenRouter API...");
+        return await this.streamQuestions(
+          apiKey,
+          call,
+          messages,
+          buildQuestionsSchema(undefined, !!request.source, request.formats),
+          request.onQuestion,
+          fallbackDifficulty,
+          (content) =>
+            parseStructuredQuestions(content, [domain], fallbackDifficulty) ??
+            parseQuestionsFromResponse(content, domain, fallbackDifficulty),
+          log,
+          maxTokensFor(count),
+          request.signal,
+        );
+      }
 
       console.log("[OpenRouter] Sending HTTP request to OpenRouter API...");
       const startTime = Date.now();
 
       const response = await retryWithBackoff(
-        async () => {
-          const res = await fetch(OPENROUTER_API_URL, {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              Authorization: `Bearer ${apiKey}`,
-              "HTTP-Referer":
-                typeof window !== "undefined" ? window.location.href : "",
-              "X-Title": "Review IABD",
-            },
-            body: JSON.stringify({
-              model,
-              messages: [
-                {
-                  role: "system",
-                  content:
-                    "Tu es un expert pédagogique en IA et Big Data. Tu génères des QCM de haute qualité, techniques et précis.",
-                },
-                {
-                  role: "user",
-                  content: prompt,
-                },
-              ],
-              temperature: 0.7,
-              max_tokens: 12000, // Increased from 4000 to avoid truncation
-            }),
-          });
+        () => usageService.track(call, async () => {
+          const res = await this.postChatCompletion(
+            apiKey,
+            model,
+            messages,
+            buildQuestionsSchema(undefined, !!request.source, request.formats),
+            false,
+            request.signal,
+            maxTokensFor(count),
+          );
 
           console.log("[OpenRouter] Response status:", res.status);
 
@@ -326,23 +732,18 @@ class OpenRouterService implements IAIService {
           });
 
           return data;
-        },
+        }, (data) => readOpenAIUsage(data.usage)),
         MAX_RETRIES,
         BASE_DELAY,
+        request.signal,
       );
 
-      const content = response.choices?.[0]?.message?.content;
+      content = response.choices?.[0]?.message?.content;
 
-      console.log("[OpenRouter] Extracting content from response...");
       console.log("[OpenRouter] Content details:", {
         length: content?.length,
         hasContent: !!content,
-        previewFirst200: content?.substring(0, 200),
       });
-      console.log("[OpenRouter] Full content received:");
-      console.log("---CONTENT START---");
-      console.log(content);
-      console.log("---CONTENT END---");
 
       if (!content) {
         console.error("[OpenRouter] Empty response - full response:", response);
@@ -350,15 +751,19 @@ class OpenRouterService implements IAIService {
       }
 
       console.log("[OpenRouter] Starting JSON parsing...");
-      const questions = parseQuestionsFromResponse(content, domain);
+      const questions =
+        parseStructuredQuestions(content, [domain], fallbackDifficulty) ??
+        parseQuestionsFromResponse(content, domain, fallbackDifficulty);
       console.log(
         "[OpenRouter] Successfully parsed and validated questions:",
         questions.length,
       );
+      log.succeed(content, questions);
 
       return questions;
     } catch (error: any) {
       const apiError = handleAPIError(error);
+      log?.fail(apiError, content);
       throw apiError;
     }
   }
@@ -373,9 +778,9 @@ class OpenRouterService implements IAIService {
     const { count, domain } = request;
     const allQuestions: Question[] = [];
 
-    // Read batchSize from settings
+    // Batch size chosen by the caller, else from settings
     const settings = await storageService.getSettings();
-    const batchSize = settings?.batchSize || 10;
+    const batchSize = request.batchSize || settings?.batchSize || 10;
     const totalBatches = Math.ceil(count / batchSize);
 
     console.log("[OpenRouter] ===== STARTING QUESTION GENERATION =====");
@@ -399,11 +804,11 @@ class OpenRouterService implements IAIService {
 
       try {
         console.log(
-          `[OpenRouter] Batch ${batchIndex + 1}: calling generateQuestionsBatch with ${batchSize} questions`,
+          `[OpenRouter] Batch ${batchIndex + 1}: calling generateQuestionsBatch with ${currentBatchSize} questions`,
         );
         const batchQuestions = await this.generateQuestionsBatch({
           ...request,
-          count: batchSize,
+          count: currentBatchSize,
           previousQuestions: request.previousQuestions,
         });
         console.log(
@@ -432,7 +837,7 @@ class OpenRouterService implements IAIService {
           console.log(
             `[OpenRouter] Batch ${batchIndex + 1}: waiting 500ms before next batch`,
           );
-          await sleep(500);
+          await sleep(500, request.signal);
         }
       } catch (error: any) {
         console.error(`[OpenRouter] Batch ${batchIndex + 1} FAILED:`, error);
@@ -460,7 +865,10 @@ class OpenRouterService implements IAIService {
     onProgress?: GenerationProgressCallback,
   ): Promise<Question[]> {
     const { domains, countPerDomain, difficulty } = request;
+    const fallbackDifficulty = getFallbackDifficulty(difficulty);
     const totalCount = domains.length * countPerDomain;
+    let log: GenerationLogger | undefined;
+    let content: string | undefined;
 
     console.log("[OpenRouter] ===== STARTING MULTI-DOMAIN QUESTION GENERATION =====");
     console.log("[OpenRouter] Request details:", {
@@ -475,8 +883,8 @@ class OpenRouterService implements IAIService {
 
     try {
       // Get API key and model from StorageService
-      const apiKey = await storageService.getApiKey();
-      const model = await storageService.getModel();
+      const apiKey = await storageService.getCredential("openrouter", "apiKey");
+      const model = request.model || (await storageService.getModel());
 
       if (!apiKey) {
         throw {
@@ -487,7 +895,7 @@ class OpenRouterService implements IAIService {
       }
 
       // Build the multi-domain prompt
-      const prompt = this.generateMultiDomainPrompt(request);
+      const prompt = generateMultiDomainPrompt(request);
 
       console.log("[OpenRouter] Starting multi-domain batch generation:", {
         domains: domains.join(", "),
@@ -496,54 +904,104 @@ class OpenRouterService implements IAIService {
         difficulty,
         promptLength: prompt.length,
       });
-      console.log("[OpenRouter] Prompt being sent to API:");
-      console.log("---PROMPT START---");
-      console.log(prompt);
-      console.log("---PROMPT END---");
+
+      const messages = [
+        {
+          role: "system",
+          content: GENERATOR_SYSTEM_PROMPT,
+        },
+        {
+          role: "user",
+          content: prompt,
+        },
+      ];
+
+      const call: ApiCallContext = {
+        provider: "openrouter",
+        model,
+        sessionId: request.sessionId,
+        domains,
+      };
+
+      log = generationLogService.start({
+        provider: "openrouter",
+        model,
+        sessionId: request.sessionId,
+        domains,
+        multiDomain: true,
+        fallbackDifficulty,
+        streamed: !!request.onQuestion,
+        systemPrompt: messages[0].content,
+        prompt,
+      });
+
+      if (request.onQuestion) {
+        console.log("[OpenRouter] Streaming questions from OpenRouter API...");
+        const questions = await this.streamQuestions(
+          apiKey,
+          call,
+          messages,
+          buildQuestionsSchema(domains, false, request.formats),
+          request.onQuestion,
+          fallbackDifficulty,
+          (content) =>
+            parseStructuredQuestions(content, domains, fallbackDifficulty) ??
+            parseMultiDomainQuestions(content, domains, fallbackDifficulty),
+          log,
+          maxTokensFor(totalCount),
+          request.signal,
+        );
+
+        if (onProgress) {
+          onProgress({
+            current: questions.length,
+            total: totalCount,
+            batch: questions,
+          });
+        }
+
+        return questions;
+      }
 
       console.log("[OpenRouter] Sending HTTP request to OpenRouter API...");
       const startTime = Date.now();
 
       const response = await retryWithBackoff(
-        async () => {
-          const res = await fetch(OPENROUTER_API_URL, {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              Authorization: `Bearer ${apiKey}`,
-              "HTTP-Referer":
-                typeof window !== "undefined" ? window.location.href : "",
-              "X-Title": "Review IABD",
-            },
-            body: JSON.stringify({
-              model,
-              messages: [
-                {
-                  role: "user",
-                  content: prompt,
-                },
-              ],
-              temperature: 0.7,
-              max_tokens: 12000,
-            }),
-          });
+        () => usageService.track(call, async () => {
+          const res = await this.postChatCompletion(
+            apiKey,
+            model,
+            messages,
+            buildQuestionsSchema(domains, false, request.formats),
+            false,
+            request.signal,
+            maxTokensFor(totalCount),
+          );
 
           if (!res.ok) {
-            console.error("[OpenRouter] API error response:", await res.text());
-            throw new Error(`API error: ${res.status} ${res.statusText}`);
+            const error = await res.json().catch(() => ({}));
+            console.error("[OpenRouter] API error response:", error);
+            // Same shape as the batch path so 429/5xx stay retryable
+            throw {
+              response: {
+                status: res.status,
+                data: error,
+              },
+            };
           }
 
           return res.json();
-        },
+        }, (data) => readOpenAIUsage(data.usage)),
         MAX_RETRIES,
         BASE_DELAY,
+        request.signal,
       );
 
       const endTime = Date.now();
       console.log(`[OpenRouter] Request completed in ${endTime - startTime}ms`);
 
       // Parse response
-      const content = response.choices[0]?.message?.content;
+      content = response.choices[0]?.message?.content;
       if (!content) {
         throw new Error("Empty response from API");
       }
@@ -551,7 +1009,10 @@ class OpenRouterService implements IAIService {
       console.log("[OpenRouter] Response received, length:", content.length);
 
       // Parse questions from response
-      const questions = this.parseMultiDomainQuestions(content, domains);
+      const questions =
+        parseStructuredQuestions(content, domains, fallbackDifficulty) ??
+        parseMultiDomainQuestions(content, domains, fallbackDifficulty);
+      log.succeed(content, questions);
 
       if (questions.length !== totalCount) {
         console.warn(
@@ -579,113 +1040,393 @@ class OpenRouterService implements IAIService {
       return questions;
     } catch (error: any) {
       const apiError = handleAPIError(error);
+      log?.fail(apiError, content);
       throw apiError;
     }
   }
 
   /**
-   * Generate prompt for multi-domain question generation
+   * Answer questions blind (verification pass)
    */
-  private generateMultiDomainPrompt(request: MultiDomainQuestionRequest): string {
-    const { domains, countPerDomain, difficulty } = request;
-    const domainPrompts = domains.map(
-      (domain) => `${DOMAIN_PROMPTS[domain]} (${countPerDomain} questions)`
-    ).join("\n\n");
+  async verifyQuestions(request: QuestionVerificationRequest): Promise<QuestionVerdict[]> {
+    try {
+      const apiKey = await storageService.getCredential("openrouter", "apiKey");
+      const model = request.model || (await storageService.getModel());
 
-    const difficultyText = difficulty
-      ? ` Niveau de difficulté: ${difficulty}.`
-      : "";
+      if (!apiKey) {
+        throw {
+          message: "API key not configured. Please complete onboarding.",
+          code: "NO_API_KEY",
+          isRetryable: false,
+        };
+      }
 
-    const previousQuestionsText = request.previousQuestions && request.previousQuestions.length > 0
-      ? `\n\nIMPORTANT: Les questions suivantes ont déjà été générées. Tu DOIS générer des questions DIFFÉRENTES qui ne traitent PAS des mêmes sujets:\n\n${request.previousQuestions.map(q => `- ${q}`).join('\n')}\n\n`
-      : "";
+      const messages = [
+        { role: "system", content: VERIFIER_SYSTEM_PROMPT },
+        { role: "user", content: buildVerificationPrompt(request.questions) },
+      ];
+      const call: ApiCallContext = {
+        provider: "openrouter",
+        model,
+        sessionId: request.sessionId,
+        domains: [...new Set(request.questions.map((q) => q.domain))],
+      };
 
-    return `Tu es un expert pédagogique en Intelligence Artificielle et Big Data. Génère des questions à choix multiple (QCM) sur les domaines suivants:
+      console.log("[OpenRouter] Verifying", request.questions.length, "questions with", model);
 
-${domainPrompts}${difficultyText}${previousQuestionsText}
-IMPORTANT: Tu dois répondre UNIQUEMENT avec un tableau JSON valide contenant les questions. Pas de texte avant ou après le JSON.
+      const response = await retryWithBackoff(
+        () => usageService.track(call, async () => {
+          const res = await this.postChatCompletion(
+            apiKey,
+            model,
+            messages,
+            buildVerificationSchema(),
+            false,
+            request.signal,
+          );
 
-Pour chaque domaine, génère exactement ${countPerDomain} questions.
+          if (!res.ok) {
+            const error = await res.json().catch(() => ({}));
+            console.error("[OpenRouter] Error response:", error);
+            throw {
+              response: {
+                status: res.status,
+                data: error,
+              },
+            };
+          }
 
-Format attendu pour chaque question:
-{
-  "question": "texte de la question",
-  "domain": "MACHINE_LEARNING" | "IA_SYMBOLIQUE" | "DATA_WAREHOUSING" | "BIG_DATA" | "SYSTEMES_RECOMMANDATION" | "DATA_MINING" | "DEEP_LEARNING" | "VISUALISATION_DONNEES" | "ETHIQUE_IA" | "NLP",
-  "answers": [
-    {"text": "réponse A", "isCorrect": false},
-    {"text": "réponse B", "isCorrect": true},
-    {"text": "réponse C", "isCorrect": false},
-    {"text": "réponse D", "isCorrect": false}
-  ],
-  "explanation": "explication détaillée de la bonne réponse"
-}
+          return res.json();
+        }, (data) => readOpenAIUsage(data.usage)),
+        MAX_RETRIES,
+        BASE_DELAY,
+        request.signal,
+      );
 
-Contraintes:
-- Les questions doivent être techniques et précises
-- Une seule bonne réponse par question
-- 4 choix de réponse par question
-- L'explication doit être concise (2-3 phrases maximum)
-- Les questions doivent couvrir différents aspects du domaine
-- Inclure des questions pratiques et théoriques
-- CRITIQUE: Le champ "domain" doit correspondre exactement au domaine de la question
+      return parseVerdicts(response.choices?.[0]?.message?.content || "", request.questions);
+    } catch (error) {
+      throw handleAPIError(error);
+    }
+  }
 
-IMPORTANT: Assure-toi que le JSON est complet et bien formé. Ne coupe pas ta réponse.
+  /**
+   * Explain each option of the questions (rationale backfill)
+   */
+  async explainAnswers(request: AnswerRationaleRequest): Promise<Question[]> {
+    try {
+      const apiKey = await storageService.getCredential("openrouter", "apiKey");
+      const model = request.model || (await storageService.getModel());
 
-Génère maintenant les questions au format JSON tableau:`;
+      if (!apiKey) {
+        throw {
+          message: "API key not configured. Please complete onboarding.",
+          code: "NO_API_KEY",
+          isRetryable: false,
+        };
+      }
+
+      const messages = [
+        { role: "system", content: RATIONALE_SYSTEM_PROMPT },
+        { role: "user", content: buildRationalePrompt(request.questions) },
+      ];
+      const call: ApiCallContext = {
+        provider: "openrouter",
+        model,
+        sessionId: request.sessionId,
+        domains: [...new Set(request.questions.map((q) => q.domain))],
+      };
+
+      console.log("[OpenRouter] Explaining answers of", request.questions.length, "questions with", model);
+
+      const response = await retryWithBackoff(
+        () => usageService.track(call, async () => {
+          const res = await this.postChatCompletion(
+            apiKey,
+            model,
+            messages,
+            buildRationaleSchema(),
+            false,
+            request.signal,
+          );
+
+          if (!res.ok) {
+            const error = await res.json().catch(() => ({}));
+            console.error("[OpenRouter] Error response:", error);
+            throw {
+              response: {
+                status: res.status,
+                data: error,
+              },
+            };
+          }
+
+          return res.json();
+        }, (data) => readOpenAIUsage(data.usage)),
+        MAX_RETRIES,
+        BASE_DELAY,
+        request.signal,
+      );
+
+      return parseRationales(response.choices?.[0]?.message?.content || "", request.questions);
+    } catch (error) {
+      throw handleAPIError(error);
+    }
   }
 
   /**
-   * Parse questions from multi-domain API response
+   * Translate questions into another language (question bank)
    */
-  private parseMultiDomainQuestions(content: string, expectedDomains: Domain[]): Question[] {
+  async translateQuestions(request: QuestionTranslationRequest): Promise<Question[]> {
     try {
-      // Try to extract JSON from markdown code blocks
-      const jsonMatch = content.match(/```(?:json)?\s*(\[[\s\S]*?\])\s*```/);
-      const jsonContent = jsonMatch ? jsonMatch[1] : content;
+      const apiKey = await storageService.getCredential("openrouter", "apiKey");
+      const model = request.model || (await storageService.getModel());
 
-      const questionsData = JSON.parse(jsonContent);
+      if (!apiKey) {
+        throw {
+          message: "API key not configured. Please complete onboarding.",
+          code: "NO_API_KEY",
+          isRetryable: false,
+        };
+      }
+
+      const messages = [
+        { role: "system", content: TRANSLATION_SYSTEM_PROMPT },
+        { role: "user", content: buildTranslationPrompt(request.questions, request.language) },
+      ];
+      const call: ApiCallContext = {
+        provider: "openrouter",
+        model,
+        sessionId: request.sessionId,
+        domains: [...new Set(request.questions.map((q) => q.domain))],
+      };
+
+      console.log("[OpenRouter] Translating", request.questions.length, "questions to", request.language, "with", model);
+
+      const response = await retryWithBackoff(
+        () => usageService.track(call, async () => {
+          const res = await this.postChatCompletion(
+            apiKey,
+            model,
+            messages,
+            buildTranslationSchema(),
+            false,
+            request.signal,
+          );
+
+          if (!res.ok) {
+            const error = await res.json().catch(() => ({}));
+            console.error("[OpenRouter] Error response:", error);
+            throw {
+              response: {
+                status: res.status,
+                data: error,
+              },
+            };
+          }
 
-      if (!Array.isArray(questionsData)) {
-        throw new Error("Response is not an array");
+          return res.json();
+        }, (data) => readOpenAIUsage(data.usage)),
+        MAX_RETRIES,
+        BASE_DELAY,
+        request.signal,
+      );
+
+      return parseTranslations(response.choices?.[0]?.message?.content || "", request.questions, request.language);
+    } catch (error) {
+      throw handleAPIError(error);
+    }
+  }
+
+  /**
+   * Grade an open-ended answer against the question's rubric
+   */
+  async gradeAnswer(request: AnswerGradingRequest): Promise<AnswerGrade> {
+    try {
+      const apiKey = await storageService.getCredential("openrouter", "apiKey");
+      const model = request.model || (await storageService.getModel());
+
+      if (!apiKey) {
+        throw {
+          message: "API key not configured. Please complete onboarding.",
+          code: "NO_API_KEY",
+          isRetryable: false,
+        };
       }
 
-      const questions: Question[] = questionsData.map((q: any) => {
-        if (!q.question || !q.answers || !Array.isArray(q.answers) || !q.domain) {
-          throw new Error("Invalid question structure - missing required fields");
-        }
+      const messages = [
+        { role: "system", content: GRADING_SYSTEM_PROMPT },
+        { role: "user", content: buildGradingPrompt(request.question, request.response) },
+      ];
+      const call: ApiCallContext = {
+        provider: "openrouter",
+        model,
+        sessionId: request.sessionId,
+        domains: [request.question.domain],
+      };
+
+      console.log("[OpenRouter] Grading answer to question", request.question.id, "with", model);
 
-        // Validate domain
-        if (!expectedDomains.includes(q.domain as Domain)) {
-          console.warn(
-            `[OpenRouter] Question has unexpected domain: ${q.domain}. Expected one of: ${expectedDomains.join(", ")}`,
+      const response = await retryWithBackoff(
+        () => usageService.track(call, async () => {
+          const res = await this.postChatCompletion(
+            apiKey,
+            model,
+            messages,
+            buildGradingSchema(),
+            false,
+            request.signal,
           );
-        }
 
-        return {
-          id: generateId(),
-          domain: q.domain as Domain,
-          type: QuestionType.SINGLE_CHOICE,
-          question: q.question,
-          answers: q.answers.map((a: any) => ({
-            id: generateId(),
-            text: a.text,
-            isCorrect: a.isCorrect || false,
-          })),
-          explanation: q.explanation || "",
-          difficulty: "medium",
-          tags: [q.domain as Domain],
-          createdAt: new Date(),
+          if (!res.ok) {
+            const error = await res.json().catch(() => ({}));
+            console.error("[OpenRouter] Error response:", error);
+            throw {
+              response: {
+                status: res.status,
+                data: error,
+              },
+            };
+          }
+
+          return res.json();
+        }, (data) => readOpenAIUsage(data.usage)),
+        MAX_RETRIES,
+        BASE_DELAY,
+        request.signal,
+      );
+
+      return parseGrade(response.choices?.[0]?.message?.content || "", model);
+    } catch (error) {
+      throw handleAPIError(error);
+    }
+  }
+
+  /**
+   * Reply to a follow-up about an answered question ("Approfondir")
+   */
+  async explainQuestion(request: TutorChatRequest): Promise<string> {
+    try {
+      const apiKey = await storageService.getCredential("openrouter", "apiKey");
+      const model = request.model || (await storageService.getModel());
+
+      if (!apiKey) {
+        throw {
+          message: "API key not configured. Please complete onboarding.",
+          code: "NO_API_KEY",
+          isRetryable: false,
         };
-      });
+      }
 
-      console.log("[OpenRouter] Successfully parsed", questions.length, "questions from multi-domain response");
-      return questions;
-    } catch (error: any) {
-      console.error("[OpenRouter] Error parsing multi-domain questions:", error);
-      throw new Error(`Failed to parse questions: ${error.message}`);
+      const messages = [
+        { role: "system", content: TUTOR_SYSTEM_PROMPT },
+        { role: "user", content: buildTutorPrompt(request) },
+      ];
+      const call: ApiCallContext = {
+        provider: "openrouter",
+        model,
+        sessionId: request.sessionId,
+        domains: [request.question.domain],
+      };
+
+      console.log("[OpenRouter] Tutor reply for question", request.question.id, "with", model);
+
+      const response = await retryWithBackoff(
+        () => usageService.track(call, async () => {
+          const res = await this.postChatCompletion(
+            apiKey,
+            model,
+            messages,
+            null,
+            false,
+            request.signal,
+          );
+
+          if (!res.ok) {
+            const error = await res.json().catch(() => ({}));
+            console.error("[OpenRouter] Error response:", error);
+            throw {
+              response: {
+                status: res.status,
+                data: error,
+              },
+            };
+          }
+
+          return res.json();
+        }, (data) => readOpenAIUsage(data.usage)),
+        MAX_RETRIES,
+        BASE_DELAY,
+        request.signal,
+      );
+
+      const content: string = response.choices?.[0]?.message?.content || "";
+      if (!content.trim()) {
+        throw new Error("Empty response from OpenRouter");
+      }
+      return content.trim();
+    } catch (error) {
+      throw handleAPIError(error);
+    }
+  }
+
+  /**
+   * Fetch the full model catalog (public endpoint, no key needed).
+   * OpenRouter prices are per token: converted to per million tokens.
+   */
+  async listCatalog(): Promise<ProviderModel[]> {
+    try {
+      const res = await fetch(OPENROUTER_MODELS_URL);
+      if (!res.ok) {
+        throw { response: { status: res.status, data: await res.json().catch(() => ({})) } };
+      }
+
+      const data = await res.json();
+      const models: ProviderModel[] = (data.data || [])
+        .filter((m: { id?: string }) => !!m.id)
+        .map(
+          (m: {
+            id: string;
+            name?: string;
+            context_length?: number;
+            pricing?: { prompt?: string; completion?: string };
+          }) => {
+            const prompt = Number(m.pricing?.prompt) * 1_000_000 || 0;
+            const completion = Number(m.pricing?.completion) * 1_000_000 || 0;
+            const free = m.id.endsWith(":free") || (prompt === 0 && completion === 0);
+            return {
+              id: m.id,
+              name: m.name || m.id,
+              free,
+              pricing: free ? undefined : { prompt, completion },
+              contextLength: m.context_length || undefined,
+            };
+          }
+        );
+
+      console.log("[OpenRouter] Catalog fetched:", models.length, "models");
+      return models;
+    } catch (error) {
+      throw handleAPIError(error);
     }
   }
 
+  /**
+   * Parse a raw generation response as generation does (diagnostics replay)
+   */
+  parseGeneratedQuestions(
+    content: string,
+    domains: Domain[],
+    fallbackDifficulty: Difficulty,
+    multiDomain: boolean,
+  ): Question[] {
+    return (
+      parseStructuredQuestions(content, domains, fallbackDifficulty) ??
+      (multiDomain
+        ? parseMultiDomainQuestions(content, domains, fallbackDifficulty)
+        : parseQuestionsFromResponse(content, domains[0], fallbackDifficulty))
+    );
+  }
+
   /**
    * Validate API key by making a test request
    */
@@ -718,3 +1459,33 @@ Génère maintenant les questions au format JSON tableau:`;
 
 // Singleton instance
 export const openRouterService = new OpenRouterService();
+
+// Provider declaration (registered in ProviderRegistry)
+export const openRouterProvider: AIProviderDefinition = {
+  id: "openrouter",
+  label: "provider.openrouter.label",
+  description: "provider.openrouter.description",
+  setupHint: "provider.openrouter.setupHint",
+  credentialFields: [
+    {
+      key: "apiKey",
+      label: "provider.openrouter.apiKey",
+      type: "password",
+      placeholder: "provider.openrouter.apiKeyPlaceholder",
+      required: true,
+      helpUrl: "https://openrouter.ai/keys",
+      helpLabel: "provider.openrouter.apiKeyHelp",
+    },
+  ],
+  models: [
+    { id: "google/gemma-4-31b-it:free", name: "Gemma 4 31B (Free)", free: true },
+    { id: "openai/gpt-oss-120b:free", name: "GPT-OSS 120B (Free)", free: true },
+  ],
+  defaultModel: "google/gemma-4-31b-it:free",
+  customModelPlaceholder: "provider.openrouter.customModelPlaceholder",
+  modelsDocUrl: "https://openrouter.ai/models",
+  validateCredentials: ({ apiKey = "" }) =>
+    apiKey.length >= 20 && /^[a-zA-Z0-9_-]+$/.test(apiKey),
+  fetchCatalog: () => openRouterService.listCatalog(),
+  createService: () => openRouterService,
+};
@@ -1,5 +1,8 @@
 import { Domain, Question, QuestionType } from "@/types";
 import { indexedDBService } from "@/services/IndexedDBService";
+import { applyQuestionFormat, parseQuestionType } from "@/lib/questionFormats";
+import { parseDifficulty } from "@/lib/difficulty";
+import { DEFAULT_LANGUAGE, isLanguage } from "@/lib/i18n";
 
 // ============================================
 // PRE-GENERATED QUESTIONS LOADER
@@ -34,6 +37,8 @@ interface RawQuestionSimple {
   options: string[];  // ["A) text", "B) text", ...]
   answer: string;     // "A", "B", "C", or "D"
   explanation: string;
+  rationales?: string[]; // Optional, one per option (same order)
+  language?: string; // "fr" or "en" (default: fr)
 }
 
 interface RawQuestionFull {
@@ -41,10 +46,13 @@ interface RawQuestionFull {
   domain: string;
   type: string;
   question: string;
-  answers: { id: string; text: string; isCorrect: boolean }[];
+  answers: { id: string; text: string; isCorrect: boolean; rationale?: string }[];
   explanation: string;
   difficulty: string;
   tags: string[];
+  tolerance?: number; // NUMERIC questions only
+  rubric?: string[]; // OPEN_ENDED questions only
+  language?: string; // "fr" or "en" (default: fr)
 }
 
 type RawQuestion = RawQuestionSimple | RawQuestionFull;
@@ -70,6 +78,8 @@ function shuffleArray<T>(arr: T[]): T[] {
  * Shuffles answer order so the correct answer isn't always the same position.
  */
 function transformQuestion(raw: RawQuestion, domain: string): Question {
+  const language = isLanguage(raw.language) ? raw.language : DEFAULT_LANGUAGE;
+
   if (isSimpleFormat(raw)) {
     const answerLetter = raw.answer.toUpperCase();
     const answerMap: Record<string, number> = { A: 0, B: 1, C: 2, D: 3 };
@@ -83,6 +93,7 @@ function transformQuestion(raw: RawQuestion, domain: string): Question {
       id: `${raw.id}_${String.fromCharCode(97 + i)}`,
       text: stripPrefix(opt),
       isCorrect: i === correctIndex,
+      ...(raw.rationales?.[i] && { rationale: raw.rationales[i] }),
     }));
 
     return {
@@ -94,20 +105,26 @@ function transformQuestion(raw: RawQuestion, domain: string): Question {
       explanation: raw.explanation,
       difficulty: "medium" as const,
       tags: [domain.toLowerCase()],
+      language,
       createdAt: new Date(),
     };
   }
 
-  // Already in full format — shuffle answers
-  return {
-    ...raw,
-    domain: raw.domain as Domain,
-    type: (raw.type as QuestionType) || QuestionType.SINGLE_CHOICE,
-    difficulty: (raw.difficulty as "easy" | "medium" | "hard") || "medium",
-    tags: raw.tags || [],
-    answers: shuffleArray(raw.answers),
-    createdAt: new Date(),
-  };
+  // Already in full format — shuffle answers (ordering steps stay in the correct order)
+  const type = parseQuestionType(raw.type, raw.answers);
+  return applyQuestionFormat(
+    {
+      ...raw,
+      domain: raw.domain as Domain,
+      type,
+      difficulty: parseDifficulty(raw.difficulty),
+      tags: raw.tags || [],
+      answers: type === QuestionType.ORDERING ? raw.answers : shuffleArray(raw.answers),
+      language,
+      createdAt: new Date(),
+    },
+    raw
+  );
 }
 
 class PreloadedQuestionsService {
@@ -201,6 +218,57 @@ class PreloadedQuestionsService {
     }
   }
 
+  /**
+   * Save the question pack of a custom domain (a JSON array in one of the
+   * bundled file formats) as its offline exercise. Returns the question count.
+   */
+  async importQuestionPack(domain: Domain, json: string): Promise<number> {
+    let rawQuestions: unknown;
+    try {
+      rawQuestions = JSON.parse(json);
+    } catch {
+      throw new Error("Le pack de questions n'est pas un fichier JSON valide.");
+    }
+
+    const valid = (Array.isArray(rawQuestions) ? rawQuestions : []).filter(
+      (q): q is RawQuestion =>
+        !!q &&
+        typeof q.id === "string" &&
+        typeof q.question === "string" &&
+        ((Array.isArray(q.options) && typeof q.answer === "string") || Array.isArray(q.answers))
+    );
+    if (valid.length === 0) {
+      throw new Error("Le pack ne contient aucune question au format attendu.");
+    }
+
+    // Prefixed ids: packs are written by hand and may reuse the bundled ids
+    const questions = valid.map((q) => ({
+      ...transformQuestion(q, domain),
+      id: `${domain}-${q.id}`,
+      domain,
+    }));
+
+    await indexedDBService.init();
+    await indexedDBService.saveExercise({
+      id: `preloaded-${domain}`,
+      domain,
+      questions,
+      createdAt: new Date(),
+      used: false,
+    });
+
+    console.log(`[PreloadedQuestions] Imported ${questions.length} questions for ${domain}`);
+    return questions.length;
+  }
+
+  /**
+   * Remove the question pack of a custom domain
+   */
+  async removeQuestionPack(domain: Domain): Promise<void> {
+    await indexedDBService.init();
+    await indexedDBService.deleteExercise(`preloaded-${domain}`);
+  }
+
   /**
    * Force reload all pre-generated questions (for updates).
    */
@@ -0,0 +1,89 @@
+import {
+  AIProvider,
+  AIProviderDefinition,
+  ProviderCredentials,
+  ProviderModel,
+} from "@/types";
+import { openRouterProvider } from "./OpenRouterService";
+import { geminiProvider } from "./GeminiService";
+import { localProvider } from "./OpenAICompatibleService";
+import { demoProvider } from "./DemoService";
+
+// ============================================
+// PROVIDER REGISTRY
+// Declares available AI providers (credentials,
+// models, validation, service) for the whole app
+// ============================================
+
+const DEFAULT_PROVIDER: AIProvider = "openrouter";
+
+class ProviderRegistry {
+  private providers = new Map<AIProvider, AIProviderDefinition>();
+
+  /**
+   * Register a provider (later registrations override earlier ones)
+   */
+  register(definition: AIProviderDefinition): void {
+    this.providers.set(definition.id, definition);
+  }
+
+  /**
+   * Get all providers in registration order
+   */
+  getAll(): AIProviderDefinition[] {
+    return Array.from(this.providers.values());
+  }
+
+  /**
+   * Get a provider, falling back to the default one for unknown ids
+   */
+  get(id: AIProvider): AIProviderDefinition {
+    const definition = this.providers.get(id);
+    if (definition) {
+      return definition;
+    }
+
+    console.warn(`[ProviderRegistry] Unknown provider "${id}", using ${DEFAULT_PROVIDER}`);
+    return this.providers.get(DEFAULT_PROVIDER)!;
+  }
+
+  /**
+   * Build initial credentials for a provider from its field defaults
+   */
+  getDefaultCredentials(id: AIProvider): ProviderCredentials {
+    const credentials: ProviderCredentials = {};
+    for (const field of this.get(id).credentialFields) {
+      if (field.defaultValue) {
+        credentials[field.key] = field.defaultValue;
+      }
+    }
+    return credentials;
+  }
+
+  /**
+   * Check that required credentials are present and well-formed
+   */
+  isConfigured(id: AIProvider, credentials: ProviderCredentials = {}): boolean {
+    const definition = this.get(id);
+    const hasRequired = definition.credentialFields
+      .filter((field) => field.required)
+      .every((field) => !!credentials[field.key]);
+    return hasRequired && definition.validateCredentials(credentials);
+  }
+
+  /**
+   * Get model name by ID across all providers
+   */
+  getModelName(modelId: string): string {
+    const models: ProviderModel[] = this.getAll().flatMap((p) => p.models);
+    const model = models.find((m) => m.id === modelId);
+    return model?.name || modelId;
+  }
+}
+
+// Singleton instance with built-in providers
+export const providerRegistry = new ProviderRegistry();
+providerRegistry.register(openRouterProvider);
+providerRegistry.register(geminiProvider);
+providerRegistry.register(localProvider);
+providerRegistry.register(demoProvider);
@@ -0,0 +1,61 @@
+import { Question } from "@/types";
+import { indexedDBService } from "./IndexedDBService";
+import { storageService } from "./StorageService";
+import { aiServiceFactory } from "./AIServiceFactory";
+import { needsRationales } from "@/lib/rationale";
+
+// ============================================
+// RATIONALE SERVICE
+// Lazy backfill of per-option rationales for questions
+// generated before they existed (and preloaded packs)
+// ============================================
+
+class RationaleService {
+  // Backfills in flight, by question ID (one request per question)
+  private pending = new Map<string, Promise<Question>>();
+
+  /**
+   * Return the question with a rationale for each option, asking the
+   * configured provider for the missing ones and saving them with the question.
+   * Resolves to the question unchanged when nothing is missing.
+   */
+  async backfill(question: Question, sessionId?: string): Promise<Question> {
+    if (!needsRationales(question)) return question;
+
+    let request = this.pending.get(question.id);
+    if (!request) {
+      request = this.fetchRationales(question, sessionId).finally(() => {
+        this.pending.delete(question.id);
+      });
+      this.pending.set(question.id, request);
+    }
+    return request;
+  }
+
+  private async fetchRationales(question: Question, sessionId?: string): Promise<Question> {
+    const provider = await storageService.getProvider();
+    const [explained] = await aiServiceFactory
+      .getService(provider)
+      .explainAnswers({ questions: [question], sessionId });
+
+    if (!explained || explained === question) return question;
+
+    const rationales = new Map(explained.answers.map((a) => [a.id, a.rationale]));
+    await indexedDBService.updateQuestionCopies(
+      question.id,
+      (saved) => ({
+        ...saved,
+        answers: saved.answers.map((a) =>
+          a.rationale || !rationales.get(a.id) ? a : { ...a, rationale: rationales.get(a.id) }
+        ),
+      }),
+      sessionId
+    );
+
+    console.log("[Rationale] Backfilled rationales for question", question.id);
+    return explained;
+  }
+}
+
+// Singleton instance
+export const rationaleService = new RationaleService();
@@ -1,5 +1,8 @@
 import { indexedDBService } from "./IndexedDBService";
-import { Domain, QuizSession, SavedExam, UserStatistics } from "@/types";
+import { Difficulty, Domain, Question, QuestionType, QuizSession, SavedExam, UserAnswer, UserStatistics } from "@/types";
+import { getAnswerCredit } from "@/lib/scoring";
+import { DIFFICULTIES, parseDifficulty } from "@/lib/difficulty";
+import { getQuestionSubtopic } from "@/lib/subtopics";
 
 // ============================================
 // STATISTICS SERVICE
@@ -22,6 +25,33 @@ class StatisticsService {
     if (savedStats) {
       console.log('[StatisticsService] Loaded saved statistics:', savedStats);
       this.stats = savedStats;
+
+      // Statistics saved before difficulty tracking: rebuild it from sessions
+      if (!this.stats.difficultyProgress) {
+        const allSessions = await indexedDBService.getAllSessions();
+        this.stats.difficultyProgress = this.calculateDifficultyProgress(
+          allSessions.filter((s) => s.status === "COMPLETED")
+        );
+        await this.save();
+      }
+
+      // Statistics saved before subtopic tracking: rebuild it from sessions
+      if (!this.stats.subtopicsProgress) {
+        const allSessions = await indexedDBService.getAllSessions();
+        this.stats.subtopicsProgress = this.calculateSubtopicProgress(
+          allSessions.filter((s) => s.status === "COMPLETED")
+        );
+        await this.save();
+      }
+
+      // Statistics saved before question formats: rebuild them from sessions
+      if (!this.stats.formatsProgress) {
+        const allSessions = await indexedDBService.getAllSessions();
+        this.stats.formatsProgress = this.calculateFormatProgress(
+          allSessions.filter((s) => s.status === "COMPLETED")
+        );
+        await this.save();
+      }
     } else {
       console.log('[StatisticsService] No saved statistics, calculating from data...');
       this.stats = await this.calculateFromScratch();
@@ -66,19 +96,11 @@ class StatisticsService {
     let totalStudyTime = 0;
 
     // Domain progress tracking
-    const domainsProgress: Record<Domain, {
-      questionsAnswered: number;
-      correctAnswers: number;
-      averageScore: number;
-    }> = {} as any;
+    const domainsProgress: UserStatistics["domainsProgress"] = {} as any;
 
-    // Initialize all domains
+    // Initialize all built-in domains
     Object.values(Domain).forEach((d) => {
-      domainsProgress[d] = {
-        questionsAnswered: 0,
-        correctAnswers: 0,
-        averageScore: 0,
-      };
+      domainsProgress[d] = this.createDomainProgress();
     });
 
     // Process each completed session
@@ -109,10 +131,13 @@ class StatisticsService {
 
           // Update domain progress
           const domain = question.domain;
-          if (domain && domainsProgress[domain]) {
-            domainsProgress[domain].questionsAnswered++;
+          if (domain) {
+            // Custom domains get an entry on their first answer
+            const progress = (domainsProgress[domain] ??= this.createDomainProgress());
+            progress.questionsAnswered++;
+            progress.creditEarned! += getAnswerCredit(userAnswer);
             if (isCorrect) {
-              domainsProgress[domain].correctAnswers++;
+              progress.correctAnswers++;
             }
           }
         }
@@ -137,12 +162,12 @@ class StatisticsService {
 
     const averageScore = scoreCount > 0 ? Math.round(totalScore / scoreCount) : 0;
 
-    // Calculate average score per domain
+    // Calculate average score per domain (partial credit included)
     Object.keys(domainsProgress).forEach((domain) => {
       const progress = domainsProgress[domain as Domain];
       if (progress.questionsAnswered > 0) {
         progress.averageScore = Math.round(
-          (progress.correctAnswers / progress.questionsAnswered) * 100
+          (progress.creditEarned! / progress.questionsAnswered) * 100
         );
       }
     });
@@ -150,6 +175,10 @@ class StatisticsService {
     // Get favorite question IDs
     const favoriteQuestionIds = favorites.map((q) => q.id);
 
+    const difficultyProgress = this.calculateDifficultyProgress(completedSessions);
+    const subtopicsProgress = this.calculateSubtopicProgress(completedSessions);
+    const formatsProgress = this.calculateFormatProgress(completedSessions);
+
     const statistics: UserStatistics = {
       totalQuestionsAnswered,
       totalCorrectAnswers,
@@ -158,6 +187,9 @@ class StatisticsService {
       totalStudyTime,
       favoriteQuestions: favoriteQuestionIds,
       domainsProgress,
+      difficultyProgress,
+      subtopicsProgress,
+      formatsProgress,
     };
 
     console.log('[StatisticsService] Calculated statistics:', statistics);
@@ -165,25 +197,175 @@ class StatisticsService {
   }
 
   /**
-   * Calculate score for a single session
+   * Empty progress of one domain
+   */
+  private createDomainProgress(): UserStatistics["domainsProgress"][Domain] {
+    return {
+      questionsAnswered: 0,
+      correctAnswers: 0,
+      creditEarned: 0,
+      averageScore: 0,
+    };
+  }
+
+  /**
+   * Empty progress for every difficulty level
+   */
+  private createDifficultyProgress(): NonNullable<UserStatistics["difficultyProgress"]> {
+    const progress = {} as NonNullable<UserStatistics["difficultyProgress"]>;
+    DIFFICULTIES.forEach((d) => {
+      progress[d] = {
+        questionsAnswered: 0,
+        correctAnswers: 0,
+        creditEarned: 0,
+        averageScore: 0,
+      };
+    });
+    return progress;
+  }
+
+  /**
+   * Accuracy per difficulty level over completed sessions
+   */
+  private calculateDifficultyProgress(
+    sessions: QuizSession[]
+  ): NonNullable<UserStatistics["difficultyProgress"]> {
+    const progress = this.createDifficultyProgress();
+
+    sessions.forEach((session) => {
+      (session.questions || []).forEach((question) => {
+        const userAnswer = session.userAnswers?.[question.id];
+        if (userAnswer) {
+          this.addDifficultyAnswer(progress, question, userAnswer);
+        }
+      });
+    });
+
+    return progress;
+  }
+
+  /**
+   * Count an answer in the progress of its question's difficulty
+   */
+  private addDifficultyAnswer(
+    progress: NonNullable<UserStatistics["difficultyProgress"]>,
+    question: Question,
+    userAnswer: UserAnswer
+  ): void {
+    const level = progress[parseDifficulty(question.difficulty)];
+    level.questionsAnswered++;
+    level.creditEarned += getAnswerCredit(userAnswer);
+    if (userAnswer.isCorrect) {
+      level.correctAnswers++;
+    }
+    level.averageScore = Math.round((level.creditEarned / level.questionsAnswered) * 100);
+  }
+
+  /**
+   * Accuracy per subtopic (grouped by domain) over completed sessions
+   */
+  private calculateSubtopicProgress(
+    sessions: QuizSession[]
+  ): NonNullable<UserStatistics["subtopicsProgress"]> {
+    const progress: NonNullable<UserStatistics["subtopicsProgress"]> = {};
+
+    sessions.forEach((session) => {
+      (session.questions || []).forEach((question) => {
+        const userAnswer = session.userAnswers?.[question.id];
+        if (userAnswer) {
+          this.addSubtopicAnswer(progress, question, userAnswer);
+        }
+      });
+    });
+
+    return progress;
+  }
+
+  /**
+   * Count an answer in the progress of its question's subtopic (if known)
+   */
+  private addSubtopicAnswer(
+    progress: NonNullable<UserStatistics["subtopicsProgress"]>,
+    question: Question,
+    userAnswer: UserAnswer
+  ): void {
+    const subtopic = getQuestionSubtopic(question);
+    if (!question.domain || !subtopic) return;
+
+    const entry = ((progress[question.domain] ??= {})[subtopic] ??= {
+      questionsAnswered: 0,
+      correctAnswers: 0,
+      creditEarned: 0,
+      averageScore: 0,
+    });
+    entry.questionsAnswered++;
+    entry.creditEarned += getAnswerCredit(userAnswer);
+    if (userAnswer.isCorrect) {
+      entry.correctAnswers++;
+    }
+    entry.averageScore = Math.round((entry.creditEarned / entry.questionsAnswered) * 100);
+  }
+
+  /**
+   * Accuracy per question format over completed sessions
+   */
+  private calculateFormatProgress(
+    sessions: QuizSession[]
+  ): NonNullable<UserStatistics["formatsProgress"]> {
+    const progress: NonNullable<UserStatistics["formatsProgress"]> = {};
+
+    sessions.forEach((session) => {
+      (session.questions || []).forEach((question) => {
+        const userAnswer = session.userAnswers?.[question.id];
+        if (userAnswer) {
+          this.addFormatAnswer(progress, question, userAnswer);
+        }
+      });
+    });
+
+    return progress;
+  }
+
+  /**
+   * Count an answer in the progress of its question's format
+   */
+  private addFormatAnswer(
+    progress: NonNullable<UserStatistics["formatsProgress"]>,
+    question: Question,
+    userAnswer: UserAnswer
+  ): void {
+    const entry = (progress[question.type || QuestionType.SINGLE_CHOICE] ??= {
+      questionsAnswered: 0,
+      correctAnswers: 0,
+      creditEarned: 0,
+      averageScore: 0,
+    });
+    entry.questionsAnswered++;
+    entry.creditEarned += getAnswerCredit(userAnswer);
+    if (userAnswer.isCorrect) {
+      entry.correctAnswers++;
+    }
+    entry.averageScore = Math.round((entry.creditEarned / entry.questionsAnswered) * 100);
+  }
+
+  /**
+   * Calculate score for a single session (partial credit included)
    */
   private calculateSessionScore(session: QuizSession): number | null {
     if (!session.questions || !session.userAnswers) return null;
 
-    let correct = 0;
+    let credit = 0;
     let answered = 0;
 
     session.questions.forEach((q) => {
       const userAnswer = session.userAnswers[q.id];
       if (userAnswer) {
         answered++;
-        if (userAnswer.isCorrect) {
-          correct++;
-        }
+        credit += getAnswerCredit(userAnswer);
       }
     });
 
-    return answered > 0 ? Math.round((correct / answered) * 100) : null;
+    return answered > 0 ? Math.round((credit / answered) * 100) : null;
   }
 
   /**
@@ -208,27 +390,37 @@ class StatisticsService {
     const answeredCount = Object.keys(sessionUserAnswers).length;
     this.stats!.totalQuestionsAnswered += answeredCount;
 
-    // Count correct answers
-    let sessionCorrect = 0;
+    // Count correct answers (exact matches) and credit (partial credit included)
+    let sessionCredit = 0;
+    const difficultyProgress = (this.stats!.difficultyProgress ??= this.createDifficultyProgress());
+    const subtopicsProgress = (this.stats!.subtopicsProgress ??= {});
+    const formatsProgress = (this.stats!.formatsProgress ??= {});
     sessionQuestions.forEach((question) => {
       const userAnswer = sessionUserAnswers[question.id];
       if (userAnswer) {
+        const credit = getAnswerCredit(userAnswer);
+        sessionCredit += credit;
         if (userAnswer.isCorrect) {
-          sessionCorrect++;
           this.stats!.totalCorrectAnswers++;
         }
 
+        this.addDifficultyAnswer(difficultyProgress, question, userAnswer);
+        this.addSubtopicAnswer(subtopicsProgress, question, userAnswer);
+        this.addFormatAnswer(formatsProgress, question, userAnswer);
+
         // Update domain progress
         const domain = question.domain;
-        if (domain && this.stats!.domainsProgress[domain]) {
-          this.stats!.domainsProgress[domain].questionsAnswered++;
+        if (domain) {
+          const progress = (this.stats!.domainsProgress[domain] ??= this.createDomainProgress());
+          // Statistics saved before partial credit only counted exact matches
+          progress.creditEarned = (progress.creditEarned ?? progress.correctAnswers) + credit;
+          progress.questionsAnswered++;
           if (userAnswer.isCorrect) {
-            this.stats!.domainsProgress[domain].correctAnswers++;
+            progress.correctAnswers++;
           }
           // Recalculate domain average
-          this.stats!.domainsProgress[domain].averageScore = Math.round(
-            (this.stats!.domainsProgress[domain].correctAnswers /
-              this.stats!.domainsProgress[domain].questionsAnswered) * 100
+          progress.averageScore = Math.round(
+            (progress.creditEarned / progress.questionsAnswered) * 100
           );
         }
       }
@@ -248,7 +440,7 @@ class StatisticsService {
     }
 
     // Recalculate average score
-    const sessionScore = answeredCount > 0 ? Math.round((sessionCorrect / answeredCount) * 100) : 0;
+    const sessionScore = answeredCount > 0 ? Math.round((sessionCredit / answeredCount) * 100) : 0;
     const totalSessions = await this.getTotalCompletedSessions();
     this.stats!.averageScore = Math.round(
       ((this.stats!.averageScore * (totalSessions - 1)) + sessionScore) / totalSessions
@@ -310,15 +502,14 @@ class StatisticsService {
       totalStudyTime: 0,
       favoriteQuestions: [],
       domainsProgress: {} as any,
+      difficultyProgress: this.createDifficultyProgress(),
+      subtopicsProgress: {},
+      formatsProgress: {},
     };
 
     // Initialize domain progress
     Object.values(Domain).forEach((d) => {
-      this.stats!.domainsProgress[d] = {
-        questionsAnswered: 0,
-        correctAnswers: 0,
-        averageScore: 0,
-      };
+      this.stats!.domainsProgress[d] = this.createDomainProgress();
     });
 
     await this.save();
@@ -356,6 +547,13 @@ class StatisticsService {
       correctAnswers: number;
       averageScore: number;
     }>;
+    difficulties: Record<Difficulty, {
+      questionsAnswered: number;
+      correctAnswers: number;
+      averageScore: number;
+    }>;
+    subtopics: NonNullable<UserStatistics["subtopicsProgress"]>;
+    formats: NonNullable<UserStatistics["formatsProgress"]>;
   }> {
     const stats = await this.getStatistics();
 
@@ -368,6 +566,9 @@ class StatisticsService {
       studyTimeHours: Math.floor(stats.totalStudyTime / 3600),
       favoriteCount: stats.favoriteQuestions.length,
       domains: stats.domainsProgress,
+      difficulties: stats.difficultyProgress || this.createDifficultyProgress(),
+      subtopics: stats.subtopicsProgress || {},
+      formats: stats.formatsProgress || {},
     };
   }
 }
@@ -1,5 +1,13 @@
 import { indexedDBService } from "./IndexedDBService";
-import { UserSettings, Domain, AIProvider } from "@/types";
+import {
+  UserSettings,
+  Domain,
+  AIProvider,
+  ProviderCredentials,
+  ScoringMode,
+  ModelChoice,
+} from "@/types";
+import { DEFAULT_SCORING_MODE } from "@/lib/scoring";
 
 // ============================================
 // STORAGE SERVICE
@@ -8,18 +16,69 @@ import { UserSettings, Domain, AIProvider } from "@/types";
 // ============================================
 
 const DEFAULT_SETTINGS: UserSettings = {
-  apiKey: "",
-  geminiApiKey: "",
   provider: "openrouter" as AIProvider,
+  credentials: {},
+  customModels: {},
   model: "z-ai/glm-4.5-air:free",
   defaultModel: "z-ai/glm-4.5-air:free",
   notifyOnComplete: false,
   offlineQuestionsPerDomain: 10,
   batchSize: 10, // Number of questions per API call (default: 10)
+  batchConcurrency: 1, // Batches generated in parallel
+  scoringMode: DEFAULT_SCORING_MODE,
+  fallbackChain: [],
   onboardingCompleted: false,
   updatedAt: new Date(),
 };
 
+// Provider fields stored flat on UserSettings before the provider registry
+interface LegacyProviderSettings {
+  apiKey?: string;
+  geminiApiKey?: string;
+  customOpenRouterModel?: string;
+  customGeminiModel?: string;
+  localBaseUrl?: string;
+  localApiKey?: string;
+}
+
+/**
+ * Move legacy per-provider fields into the generic credentials map
+ */
+function migrateLegacySettings(
+  settings: UserSettings & LegacyProviderSettings,
+): UserSettings {
+  const {
+    apiKey,
+    geminiApiKey,
+    customOpenRouterModel,
+    customGeminiModel,
+    localBaseUrl,
+    localApiKey,
+    ...rest
+  } = settings;
+
+  const credentials = { ...(rest.credentials || {}) };
+  const customModels = { ...(rest.customModels || {}) };
+
+  if (apiKey && !credentials.openrouter) {
+    credentials.openrouter = { apiKey };
+  }
+  if (geminiApiKey && !credentials.gemini) {
+    credentials.gemini = { apiKey: geminiApiKey };
+  }
+  if (localBaseUrl && !credentials.local) {
+    credentials.local = { baseUrl: localBaseUrl, apiKey: localApiKey || "" };
+  }
+  if (customOpenRouterModel && !customModels.openrouter) {
+    customModels.openrouter = customOpenRouterModel;
+  }
+  if (customGeminiModel && !customModels.gemini) {
+    customModels.gemini = customGeminiModel;
+  }
+
+  return { ...rest, credentials, customModels };
+}
+
 class StorageService {
   private settingsCache: UserSettings | null = null;
 
@@ -46,8 +105,9 @@ class StorageService {
       return this.settingsCache;
     }
 
-    const settings = await indexedDBService.getSettings();
-    if (settings) {
+    const stored = await indexedDBService.getSettings();
+    if (stored) {
+      const settings = migrateLegacySettings(stored);
       this.settingsCache = settings;
       return settings;
     }
@@ -61,7 +121,7 @@ class StorageService {
    */
   async saveSettings(settings: UserSettings): Promise<void> {
     const updatedSettings = {
-      ...settings,
+      ...migrateLegacySettings(settings),
       updatedAt: new Date(),
     };
 
@@ -85,44 +145,43 @@ class StorageService {
   }
 
   // ============================================
-  // API KEY MANAGEMENT
+  // CREDENTIALS MANAGEMENT
   // ============================================
 
   /**
-   * Get API key
+   * Get all credentials of a provider
    */
-  async getApiKey(): Promise<string> {
+  async getCredentials(provider: AIProvider): Promise<ProviderCredentials> {
     const settings = await this.getSettings();
-    return settings.apiKey;
+    return settings.credentials?.[provider] || {};
   }
 
   /**
-   * Set API key
+   * Get a single credential of a provider (e.g. "apiKey")
    */
-  async setApiKey(apiKey: string): Promise<void> {
-    await this.updateSettings({ apiKey });
+  async getCredential(provider: AIProvider, key: string): Promise<string> {
+    const credentials = await this.getCredentials(provider);
+    return credentials[key] || "";
   }
 
   /**
-   * Check if API key is configured
+   * Set credentials of a provider
    */
-  async hasApiKey(): Promise<boolean> {
-    const apiKey = await this.getApiKey();
-    return apiKey.length > 0;
-  }
-
-  /**
-   * Validate API key format
-   */
-  async validateApiKey(apiKey: string): Promise<boolean> {
-    return apiKey.length >= 20 && /^[a-zA-Z0-9_-]+$/.test(apiKey);
+  async setCredentials(
+    provider: AIProvider,
+    credentials: ProviderCredentials,
+  ): Promise<void> {
+    const settings = await this.getSettings();
+    await this.updateSettings({
+      credentials: { ...settings.credentials, [provider]: credentials },
+    });
   }
 
   /**
-   * Clear API key
+   * Clear credentials of a provider
    */
-  async clearApiKey(): Promise<void> {
-    await this.setApiKey("");
+  async clearCredentials(provider: AIProvider): Promise<void> {
+    await this.setCredentials(provider, {});
   }
 
   // ============================================
@@ -144,52 +203,6 @@ class StorageService {
     await this.updateSettings({ model });
   }
 
-  /**
-   * Get available models
-   */
-  getAvailableModels(): Array<{
-    id: string;
-    name: string;
-    free: boolean;
-    provider: AIProvider;
-  }> {
-    return [
-      {
-        id: "google/gemma-4-31b-it:free",
-        name: "Gemma 4 31B (Free)",
-        free: true,
-        provider: "openrouter" as AIProvider,
-      },
-      {
-        id: "openai/gpt-oss-120b:free",
-        name: "GPT-OSS 120B (Free)",
-        free: true,
-        provider: "openrouter" as AIProvider,
-      },
-      {
-        id: "gemma-4-31b-it",
-        name: "Gemma 4 31B",
-        free: true,
-        provider: "gemini" as AIProvider,
-      },
-      {
-        id: "gemini-3.1-flash-lite-preview",
-        name: "Gemini 3.1 Flash Lite",
-        free: true,
-        provider: "gemini" as AIProvider,
-      },
-    ];
-  }
-
-  /**
-   * Get model name by ID
-   */
-  getModelName(modelId: string): string {
-    const models = this.getAvailableModels();
-    const model = models.find((m) => m.id === modelId);
-    return model?.name || modelId;
-  }
-
   /**
    * Get AI provider
    */
@@ -206,48 +219,44 @@ class StorageService {
   }
 
   /**
-   * Get Gemini API key
+   * Get custom model of a provider
    */
-  async getGeminiApiKey(): Promise<string> {
+  async getCustomModel(provider: AIProvider): Promise<string> {
     const settings = await this.getSettings();
-    return settings.geminiApiKey || "";
-  }
-
-  /**
-   * Set Gemini API key
-   */
-  async setGeminiApiKey(apiKey: string): Promise<void> {
-    await this.updateSettings({ geminiApiKey: apiKey });
+    return settings.customModels?.[provider] || "";
   }
 
   /**
-   * Get custom OpenRouter model
+   * Set custom model of a provider
    */
-  async getCustomOpenRouterModel(): Promise<string> {
+  async setCustomModel(provider: AIProvider, model: string): Promise<void> {
     const settings = await this.getSettings();
-    return settings.customOpenRouterModel || "";
-  }
-
-  /**
-   * Set custom OpenRouter model
-   */
-  async setCustomOpenRouterModel(model: string): Promise<void> {
-    await this.updateSettings({ customOpenRouterModel: model || undefined });
+    await this.updateSettings({
+      customModels: { ...settings.customModels, [provider]: model },
+    });
   }
 
   /**
-   * Get custom Gemini model
+   * Get the models tried by generation, in order: selected provider/model
+   * first, then the fallback chain (blank and duplicate entries skipped)
    */
-  async getCustomGeminiModel(): Promise<string> {
+  async getModelChain(): Promise<ModelChoice[]> {
     const settings = await this.getSettings();
-    return settings.customGeminiModel || "";
-  }
+    const chain: ModelChoice[] = [];
+
+    for (const entry of [
+      { provider: settings.provider, model: settings.model },
+      ...(settings.fallbackChain || []),
+    ]) {
+      const isDuplicate = chain.some(
+        (c) => c.provider === entry.provider && c.model === entry.model
+      );
+      if (chain.length === 0 || (entry.model && !isDuplicate)) {
+        chain.push(entry);
+      }
+    }
 
-  /**
-   * Set custom Gemini model
-   */
-  async setCustomGeminiModel(model: string): Promise<void> {
-    await this.updateSettings({ customGeminiModel: model || undefined });
+    return chain;
   }
 
   // ============================================
@@ -298,6 +307,18 @@ class StorageService {
     return newValue;
   }
 
+  // ============================================
+  // SCORING PREFERENCES
+  // ============================================
+
+  /**
+   * Get how multiple-choice questions are scored
+   */
+  async getScoringMode(): Promise<ScoringMode> {
+    const settings = await this.getSettings();
+    return settings.scoringMode ?? DEFAULT_SCORING_MODE;
+  }
+
   // ============================================
   // OFFLINE SETTINGS
   // ============================================
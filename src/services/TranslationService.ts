@@ -0,0 +1,51 @@
+import { Language, Question } from "@/types";
+import { storageService } from "./StorageService";
+import { aiServiceFactory } from "./AIServiceFactory";
+
+// ============================================
+// TRANSLATION SERVICE
+// AI translation of saved questions (question bank):
+// the translated copies are new questions, the
+// originals are left untouched
+// ============================================
+
+// Questions sent per request (keeps responses short enough for free models)
+const TRANSLATION_BATCH_SIZE = 10;
+
+export interface TranslateOptions {
+  onProgress?: (translated: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+class TranslationService {
+  /**
+   * Translate the questions with the configured provider, in batches.
+   * Questions the model could not translate are left out of the result.
+   */
+  async translate(
+    questions: Question[],
+    language: Language,
+    options: TranslateOptions = {}
+  ): Promise<Question[]> {
+    const provider = await storageService.getProvider();
+    const service = aiServiceFactory.getService(provider);
+    const translated: Question[] = [];
+
+    for (let i = 0; i < questions.length; i += TRANSLATION_BATCH_SIZE) {
+      const batch = questions.slice(i, i + TRANSLATION_BATCH_SIZE);
+      translated.push(
+        ...(await service.translateQuestions({ questions: batch, language, signal: options.signal }))
+      );
+      options.onProgress?.(translated.length, questions.length);
+    }
+
+    if (translated.length === 0 && questions.length > 0) {
+      throw new Error("Invalid translation response: no question translated");
+    }
+    console.log("[Translation]", translated.length, "/", questions.length, "questions translated to", language);
+    return translated;
+  }
+}
+
+// Singleton instance
+export const translationService = new TranslationService();
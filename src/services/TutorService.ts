@@ -0,0 +1,64 @@
+import { Question, TutorMessage } from "@/types";
+import { indexedDBService } from "./IndexedDBService";
+import { storageService } from "./StorageService";
+import { aiServiceFactory } from "./AIServiceFactory";
+import { createTutorMessage } from "@/lib/tutor";
+
+// ============================================
+// TUTOR SERVICE
+// "Approfondir" conversations about answered questions,
+// sent to the configured provider and saved with the
+// question (session, saved quiz/exam, favorite)
+// ============================================
+
+export interface TutorAskOptions {
+  selectedAnswerIds: string[];
+  sessionId?: string; // Session the question belongs to (usage ledger, persistence)
+  signal?: AbortSignal;
+}
+
+class TutorService {
+  /**
+   * Send the user's message and return the conversation with the tutor's reply.
+   * The conversation is saved with the question before returning.
+   */
+  async ask(
+    question: Question,
+    content: string,
+    options: TutorAskOptions
+  ): Promise<TutorMessage[]> {
+    const messages = [...(question.tutorChat || []), createTutorMessage("user", content)];
+    const provider = await storageService.getProvider();
+
+    const reply = await aiServiceFactory.getService(provider).explainQuestion({
+      question,
+      selectedAnswerIds: options.selectedAnswerIds,
+      messages,
+      sessionId: options.sessionId,
+      signal: options.signal,
+    });
+
+    const tutorChat = [...messages, createTutorMessage("assistant", reply)];
+    await this.saveTranscript(question.id, tutorChat, options.sessionId);
+    return tutorChat;
+  }
+
+  /**
+   * Store the conversation on every saved copy of the question
+   */
+  async saveTranscript(
+    questionId: string,
+    tutorChat: TutorMessage[],
+    sessionId?: string
+  ): Promise<void> {
+    await indexedDBService.updateQuestionCopies(
+      questionId,
+      (question) => ({ ...question, tutorChat }),
+      sessionId
+    );
+    console.log("[Tutor] Saved", tutorChat.length, "messages for question", questionId);
+  }
+}
+
+// Singleton instance
+export const tutorService = new TutorService();
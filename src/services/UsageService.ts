@@ -0,0 +1,284 @@
+import { AIProvider, ApiCallRecord, Domain, ModelPricing, ProviderModel } from "@/types";
+import { indexedDBService } from "./IndexedDBService";
+import { storageService } from "./StorageService";
+import { generateId, isAbortError } from "@/lib/utils";
+
+// ============================================
+// USAGE SERVICE
+// Ledger of every API call (tokens, latency, outcome)
+// and usage/cost summaries per day, model and domain
+// ============================================
+
+// What an API call was made for
+export interface ApiCallContext {
+  provider: AIProvider;
+  model: string;
+  sessionId?: string;
+  domains: Domain[];
+}
+
+export interface TokenUsage {
+  promptTokens?: number;
+  completionTokens?: number;
+}
+
+// Handle of an API call in flight (see startCall)
+export interface ApiCallTracker {
+  succeed: (usage?: TokenUsage) => void;
+  fail: (error: unknown) => void;
+}
+
+// Totals of a group of calls
+export interface UsageTotals {
+  calls: number;
+  failures: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalLatencyMs: number;
+  cost: number; // USD, known prices only
+  hasUnknownCost: boolean; // Some calls used a paid model without price
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  byDay: Record<string, UsageTotals>; // Keyed by YYYY-MM-DD
+  byModel: Record<string, UsageTotals & { provider: AIProvider; model: string }>; // Keyed by "provider/model"
+  byDomain: Partial<Record<Domain, UsageTotals>>;
+}
+
+/**
+ * Token counts of an OpenAI-compatible response (OpenRouter, local servers)
+ */
+export function readOpenAIUsage(usage?: {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}): TokenUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+  };
+}
+
+/**
+ * Token counts of a Gemini response (thinking tokens are billed as output)
+ */
+export function readGeminiUsage(usageMetadata?: {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  thoughtsTokenCount?: number;
+}): TokenUsage | undefined {
+  if (!usageMetadata) return undefined;
+  return {
+    promptTokens: usageMetadata.promptTokenCount,
+    completionTokens:
+      (usageMetadata.candidatesTokenCount || 0) + (usageMetadata.thoughtsTokenCount || 0),
+  };
+}
+
+/**
+ * Error code recorded for a failed call
+ */
+function getErrorCode(error: unknown): string {
+  const e = error as { code?: string; response?: { status?: number }; statusCode?: number; name?: string };
+  if (isAbortError(error)) return "ABORTED";
+  if (e?.code) return e.code;
+  const status = e?.response?.status ?? e?.statusCode;
+  if (status) return `HTTP_${status}`;
+  return e?.name === "TypeError" ? "NETWORK_ERROR" : "UNKNOWN_ERROR";
+}
+
+/**
+ * Local calendar day of a date (YYYY-MM-DD)
+ */
+function toDayKey(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    calls: 0,
+    failures: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalLatencyMs: 0,
+    cost: 0,
+    hasUnknownCost: false,
+  };
+}
+
+class UsageService {
+  /**
+   * Start timing an API call; settle it with succeed() or fail().
+   * Recording never throws: the ledger must not break generation.
+   */
+  startCall(context: ApiCallContext): ApiCallTracker {
+    const startedAt = Date.now();
+    let settled = false;
+
+    const record = (outcome: Pick<ApiCallRecord, "success" | "errorCode"> & TokenUsage) => {
+      if (settled) return;
+      settled = true;
+
+      const entry: ApiCallRecord = {
+        id: generateId(),
+        timestamp: new Date(),
+        provider: context.provider,
+        model: context.model,
+        promptTokens: outcome.promptTokens || 0,
+        completionTokens: outcome.completionTokens || 0,
+        latencyMs: Date.now() - startedAt,
+        success: outcome.success,
+        errorCode: outcome.errorCode,
+        sessionId: context.sessionId,
+        domains: context.domains,
+      };
+
+      indexedDBService.saveApiCall(entry).catch((error) => {
+        console.warn("[UsageService] Failed to record API call:", error);
+      });
+    };
+
+    return {
+      succeed: (usage) => record({ success: true, ...usage }),
+      fail: (error) => record({ success: false, errorCode: getErrorCode(error) }),
+    };
+  }
+
+  /**
+   * Run and record an API call; readUsage extracts token counts from its result
+   */
+  async track<T>(
+    context: ApiCallContext,
+    call: () => Promise<T>,
+    readUsage: (result: T) => TokenUsage | undefined,
+  ): Promise<T> {
+    const tracker = this.startCall(context);
+    try {
+      const result = await call();
+      tracker.succeed(readUsage(result));
+      return result;
+    } catch (error) {
+      tracker.fail(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Price of a model: user-entered price first, then the provider declaration.
+   * Free models cost 0; null when the price is unknown.
+   */
+  getPricing(
+    model: string,
+    declaredModels: ProviderModel[] = [],
+    userPricing: Record<string, ModelPricing> = {},
+  ): ModelPricing | null {
+    if (userPricing[model]) {
+      return userPricing[model];
+    }
+
+    const declared = declaredModels.find((m) => m.id === model);
+    if (declared?.pricing) {
+      return declared.pricing;
+    }
+    if (declared?.free || model.endsWith(":free")) {
+      return { prompt: 0, completion: 0 };
+    }
+    return null;
+  }
+
+  /**
+   * Usage totals over the last `days` days.
+   * declaredModels (from the provider registry) supply prices and free flags;
+   * calls to freeProviders (local server, demo) cost nothing.
+   */
+  async getSummary(
+    days = 30,
+    declaredModels: ProviderModel[] = [],
+    freeProviders: AIProvider[] = [],
+  ): Promise<UsageSummary> {
+    const since = new Date();
+    since.setHours(0, 0, 0, 0);
+    since.setDate(since.getDate() - (days - 1));
+
+    const [records, settings] = await Promise.all([
+      indexedDBService.getApiCalls(since),
+      storageService.getSettings(),
+    ]);
+
+    const summary: UsageSummary = {
+      total: emptyTotals(),
+      byDay: {},
+      byModel: {},
+      byDomain: {},
+    };
+
+    for (const record of records) {
+      const pricing = freeProviders.includes(record.provider)
+        ? { prompt: 0, completion: 0 }
+        : this.getPricing(record.model, declaredModels, settings.modelPricing);
+      const cost = pricing
+        ? (record.promptTokens * pricing.prompt + record.completionTokens * pricing.completion) /
+          1_000_000
+        : 0;
+
+      const day = toDayKey(new Date(record.timestamp));
+      summary.byDay[day] ??= emptyTotals();
+      const modelKey = `${record.provider}/${record.model}`;
+      summary.byModel[modelKey] ??= {
+        ...emptyTotals(),
+        provider: record.provider,
+        model: record.model,
+      };
+
+      const add = (totals: UsageTotals, share: number) => {
+        totals.calls += share;
+        totals.failures += record.success ? 0 : share;
+        totals.promptTokens += record.promptTokens * share;
+        totals.completionTokens += record.completionTokens * share;
+        totals.totalLatencyMs += record.latencyMs * share;
+        totals.cost += cost * share;
+        totals.hasUnknownCost ||= !pricing && record.success;
+      };
+
+      add(summary.total, 1);
+      add(summary.byDay[day], 1);
+      add(summary.byModel[modelKey], 1);
+
+      // Multi-domain calls are split evenly between their domains
+      const domains = record.domains || [];
+      for (const domain of domains) {
+        summary.byDomain[domain] ??= emptyTotals();
+        add(summary.byDomain[domain]!, 1 / domains.length);
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Save the price of a model (USD per million tokens)
+   */
+  async setModelPricing(model: string, pricing: ModelPricing | null): Promise<void> {
+    const settings = await storageService.getSettings();
+    const modelPricing = { ...settings.modelPricing };
+    if (pricing) {
+      modelPricing[model] = pricing;
+    } else {
+      delete modelPricing[model];
+    }
+    await storageService.updateSettings({ modelPricing });
+  }
+
+  /**
+   * Clear the usage ledger
+   */
+  async clear(): Promise<void> {
+    console.log("[UsageService] Clearing usage ledger...");
+    await indexedDBService.clearApiCalls();
+  }
+}
+
+// Singleton instance
+export const usageService = new UsageService();
@@ -1,9 +1,11 @@
+import type { MessageKey } from "@/locales/fr";
+
 // ============================================
 // TYPES FOR REVIEW IABD APPLICATION
 // ============================================
 
-// IABD Domain Enum (10 domains)
-export enum Domain {
+// IABD Domain Enum (10 built-in domains)
+export enum BuiltInDomain {
   MACHINE_LEARNING = "MACHINE_LEARNING",
   IA_SYMBOLIQUE = "IA_SYMBOLIQUE",
   DATA_WAREHOUSING = "DATA_WAREHOUSING",
@@ -16,31 +18,47 @@ export enum Domain {
   NLP = "NLP",
 }
 
-// Domain display names
-export const DOMAIN_LABELS: Record<Domain, string> = {
-  [Domain.MACHINE_LEARNING]: "Machine Learning Fondamental",
-  [Domain.IA_SYMBOLIQUE]: "IA Symbolique",
-  [Domain.DATA_WAREHOUSING]: "Data Warehousing",
-  [Domain.BIG_DATA]: "Big Data",
-  [Domain.SYSTEMES_RECOMMANDATION]: "Systèmes de Recommandation",
-  [Domain.DATA_MINING]: "Data Mining",
-  [Domain.DEEP_LEARNING]: "Deep Learning",
-  [Domain.VISUALISATION_DONNEES]: "Visualisation de Données",
-  [Domain.ETHIQUE_IA]: "Éthique de l'IA",
-  [Domain.NLP]: "Traitement du Langage Naturel (NLP)",
-};
-
-// Question type (single choice for now, extensible)
+// Domain created by the user in the settings (see CustomDomain)
+export type CustomDomainId = `custom-${string}`;
+
+// A domain is either built in or user-defined; `Domain.X` still names the built-ins
+export const Domain = BuiltInDomain;
+export type Domain = BuiltInDomain | CustomDomainId;
+
+// Display names are in the message catalogs (src/locales, "domain.*" keys)
+
+// UI and generation language
+export type Language = "fr" | "en";
+
+// Question type (MULTIPLE_CHOICE = "select all that apply")
 export enum QuestionType {
   SINGLE_CHOICE = "SINGLE_CHOICE",
   MULTIPLE_CHOICE = "MULTIPLE_CHOICE",
+  TRUE_FALSE = "TRUE_FALSE", // Answers: "Vrai" / "Faux"
+  FILL_BLANK = "FILL_BLANK", // Answers: accepted words for the "___" blank
+  ORDERING = "ORDERING", // Answers: the steps, in the correct order
+  NUMERIC = "NUMERIC", // Answers: the expected value (see Question.tolerance)
+  OPEN_ENDED = "OPEN_ENDED", // Answers: a model answer; graded by the AI (see Question.rubric)
 }
 
+// Question difficulty level
+export type Difficulty = "easy" | "medium" | "hard";
+
+// Difficulty requested for a generation: one level, or a mix of all three
+export type DifficultySetting = Difficulty | "mixed";
+
+// Requested share of each level in "mixed" mode (percentages summing to 100)
+export type DifficultyMix = Record<Difficulty, number>;
+
+// Scoring of multiple-choice questions: exact match only, or partial credit
+export type ScoringMode = "all-or-nothing" | "partial";
+
 // Answer structure
 export interface Answer {
   id: string;
   text: string;
   isCorrect: boolean;
+  rationale?: string; // Why this option is right or wrong (generated or backfilled)
 }
 
 // Question structure
@@ -51,9 +69,43 @@ export interface Question {
   question: string;
   answers: Answer[];
   explanation: string;
-  difficulty: "easy" | "medium" | "hard";
+  difficulty: Difficulty;
   tags: string[];
+  subtopic?: string; // Syllabus subtopic covered (see lib/subtopics), also in tags
+  tolerance?: number; // NUMERIC: accepted gap around the expected value
+  rubric?: string[]; // OPEN_ENDED: points a complete answer covers
+  language?: Language; // Language the question is written in (unset: French)
   createdAt: Date;
+  verification?: QuestionVerification; // Set when a verification pass checked the answer key
+  source?: QuestionSource; // Set when generated from the user's course material
+  tutorChat?: TutorMessage[]; // "Approfondir" conversation, kept for offline review
+}
+
+// Message of the "Approfondir" tutoring conversation
+export interface TutorMessage {
+  role: "user" | "assistant";
+  content: string;
+  createdAt: Date;
+}
+
+// Excerpt of the course material a question is based on
+export interface QuestionSource {
+  excerpt: string; // Quoted from the document
+  documentId?: string; // "Mes supports" document (set once linked)
+  documentTitle?: string;
+}
+
+// Outcome of the "second opinion" check of a question
+// UI catalog message, translated when displayed
+export interface LocalizedMessage {
+  key: MessageKey;
+  params?: Record<string, string | number>;
+}
+
+export interface QuestionVerification {
+  status: "verified" | "flagged";
+  reason?: LocalizedMessage | string; // Why it was flagged (string: verifier's own comment)
+  model?: string; // Model that answered blind
 }
 
 // Quiz session state
@@ -68,12 +120,23 @@ export enum QuizSessionStatus {
 // User's answer for a question
 export interface UserAnswer {
   questionId: string;
-  selectedAnswerIds: string[];
-  isCorrect: boolean;
+  selectedAnswerIds: string[]; // Response: selected answer IDs (ordering: IDs in the user's order, fill-in/numeric: [typed text])
+  isCorrect: boolean; // Exact match (all correct answers, nothing else)
+  score?: number; // Credit earned in [0, 1] (partial credit for multiple choice, AI grade for open-ended)
+  grade?: AnswerGrade; // Open-ended answers, once graded
   timeSpent: number; // in seconds
   isFavorite: boolean;
 }
 
+// AI grading of an open-ended answer against the question's rubric
+export interface AnswerGrade {
+  score: number; // In [0, 1]
+  missingPoints: string[]; // Rubric points the answer misses
+  feedback: string;
+  model?: string; // Model that graded the answer
+  gradedAt: Date;
+}
+
 // Quiz session
 export interface QuizSession {
   id: string;
@@ -90,13 +153,22 @@ export interface QuizSession {
   examId?: string; // Link to the SavedExam if this is an exam attempt
   exerciseId?: string; // Link to the SavedExercise if this is an offline exercise
   practiceQuizId?: string; // Link to the SavedPracticeQuiz if this is a practice quiz
+  difficulty?: DifficultySetting; // Requested difficulty (kept for continued/resumed generation)
+  difficultyMix?: DifficultyMix; // Requested ratio when difficulty is "mixed"
+  source?: QuizSource; // Course material the questions are grounded in
+  subtopics?: string[]; // Subtopics the practice questions are restricted to
+  openEnded?: boolean; // Practice questions mix in open-ended questions
   generationProgress?: {
     requestedCount: number;
     completedBatches: number;
+    completedBatchIndexes?: number[]; // Batches may complete out of order (concurrent generation)
     totalBatches: number;
     isGenerating: boolean;
     lastBatchAt?: Date;
     generationError?: string;
+    activeModel?: ModelChoice; // Fallback chain entry in use (continued batches start from it)
+    batchModels?: ModelChoice[]; // Model that produced each completed batch, by batch index
+    batchSize?: number; // Questions per batch for the next batches (adaptive sizing)
   };
 }
 
@@ -105,6 +177,9 @@ export interface GenerationState {
   isGenerating: boolean;
   availableCount: number;
   requestedCount: number;
+  activeModel?: ModelChoice; // Model currently generating
+  switchedFrom?: ModelChoice; // Model abandoned by the last fallback
+  batchSize?: number; // Questions per batch currently requested
 }
 
 // Exam attempt with history
@@ -158,21 +233,97 @@ export interface SavedPracticeQuiz {
   lastAttemptAt: Date;
 }
 
-// AI Provider type
-export type AIProvider = 'openrouter' | 'gemini';
+// User-defined domain (MLOps, Cloud, Statistics...)
+export interface CustomDomain {
+  id: CustomDomainId;
+  label: string;
+  color: string; // Hex color, e.g. "#3b82f6"
+  prompt: string; // Syllabus sent to the model, like the built-in domain prompts
+  questionCount?: number; // Questions in the imported offline pack, if any
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Course material imported in "Mes supports"
+export type SourceDocumentFormat = "text" | "markdown" | "pdf";
+
+export interface SourceDocument {
+  id: string;
+  title: string;
+  format: SourceDocumentFormat;
+  domain: Domain; // Domain the generated questions are filed under
+  content: string; // Plain text (PDFs are parsed on import)
+  createdAt: Date;
+}
+
+// Part of a document small enough to be sent to the model (see lib/sourceMaterial)
+export interface SourcePassage {
+  documentId: string;
+  title: string; // Document title, with the section heading when known
+  text: string;
+}
+
+// Material a generation is grounded in: a whole document or one of its passages
+export interface QuizSource {
+  documentId: string;
+  passageIndex?: number; // Whole document when absent (batches rotate over its passages)
+}
+
+// AI Provider id (registered in ProviderRegistry: "openrouter", "gemini", "local", "demo"...)
+export type AIProvider = string;
+
+// Provider/model pair (entry of the generation fallback chain)
+export interface ModelChoice {
+  provider: AIProvider;
+  model: string;
+}
+
+// What to do with questions the verifier disagrees with
+export type VerificationAction = "regenerate" | "drop" | "badge";
+
+// Verification pass settings
+export interface VerificationSettings {
+  enabled: boolean;
+  onFlagged: VerificationAction;
+  model?: ModelChoice; // Verifier (defaults to the model that generated the batch)
+}
+
+// Adaptive batch sizing: bounds of the learned per-model size
+export interface AdaptiveBatchSettings {
+  enabled: boolean;
+  min: number;
+  max: number;
+}
+
+// Batch size learned for a model from its generation outcomes (see BatchSizeService)
+export interface LearnedBatchSize {
+  size: number;
+  samples: number;
+  updatedAt: Date;
+}
+
+// Credentials of a single provider, keyed by ProviderCredentialField.key
+export type ProviderCredentials = Record<string, string>;
 
 // User settings
 export interface UserSettings {
-  apiKey: string;
-  geminiApiKey?: string;  // Google API key for Gemini
   provider: AIProvider;   // AI provider selection
+  credentials: Record<AIProvider, ProviderCredentials>;  // Per-provider credentials (API keys, base URLs...)
+  customModels?: Record<AIProvider, string>;  // Custom model ID per provider
   model: string;
   defaultModel: string;
-  customOpenRouterModel?: string;  // Custom model ID for OpenRouter
-  customGeminiModel?: string;       // Custom model ID for Gemini
   notifyOnComplete: boolean;
   offlineQuestionsPerDomain: number;
-  batchSize: number;  // Number of questions per API call (default: 10)
+  batchSize: number;  // Number of questions per API call (default: 10; starting size when adaptive)
+  adaptiveBatchSize?: AdaptiveBatchSettings;  // Per-model batch size learned within bounds (default: on, 5-25)
+  learnedBatchSizes?: Record<string, LearnedBatchSize>;  // Keyed by "provider/model"
+  batchConcurrency?: number;  // Batches generated in parallel (default: 1)
+  scoringMode?: ScoringMode;  // Multiple-choice scoring (default: all-or-nothing)
+  questionFormats?: QuestionType[];  // Formats generated besides QCM (default: QCM only)
+  language?: Language;  // UI and generation language (default: fr)
+  fallbackChain?: ModelChoice[];  // Tried in order when provider/model keeps failing (429, outages)
+  modelPricing?: Record<string, ModelPricing>;  // User-entered prices by model ID (usage cost estimate)
+  verification?: VerificationSettings;  // Blind re-answering of generated questions (default: off)
   onboardingCompleted: boolean;
   updatedAt: Date;
 }
@@ -203,8 +354,27 @@ export interface UserStatistics {
   domainsProgress: Record<Domain, {
     questionsAnswered: number;
     correctAnswers: number;
+    creditEarned?: number; // Sum of answer credits (partial credit included)
+    averageScore: number;
+  }>;
+  difficultyProgress?: Record<Difficulty, {
+    questionsAnswered: number;
+    correctAnswers: number;
+    creditEarned: number;
     averageScore: number;
   }>;
+  formatsProgress?: Partial<Record<QuestionType, {
+    questionsAnswered: number;
+    correctAnswers: number;
+    creditEarned: number;
+    averageScore: number;
+  }>>;
+  subtopicsProgress?: Partial<Record<Domain, Record<string, {
+    questionsAnswered: number;
+    correctAnswers: number;
+    creditEarned: number;
+    averageScore: number;
+  }>>>;
 }
 
 // Quiz result summary
@@ -226,18 +396,87 @@ export interface QuizResult {
 export interface QuestionGenerationRequest {
   domain: Domain;
   count: number;
-  difficulty?: "easy" | "medium" | "hard";
+  difficulty?: DifficultySetting;
+  difficultyMix?: DifficultyMix; // Used when difficulty is "mixed"
   includeExplanations: boolean;
   previousQuestions?: string[]; // Questions already generated (to avoid duplicates)
+  source?: SourcePassage; // Ground the questions in this passage only (instead of the domain syllabus)
+  subtopics?: string[]; // Restrict the questions to these subtopics of the domain
+  formats?: QuestionType[]; // Formats allowed besides QCM (none: QCM only)
+  language?: Language; // Language of the questions (default: French)
+  onQuestion?: (question: Question) => void; // Enables streaming: called as each question completes
+  model?: string; // Overrides the configured model (fallback chain)
+  batchSize?: number; // Questions per API call (default: settings.batchSize)
+  sessionId?: string; // Session served (usage ledger)
+  signal?: AbortSignal; // Cancels the request (and its retries)
 }
 
 // Multi-domain generation request (for exams)
 export interface MultiDomainQuestionRequest {
   domains: Domain[];
   countPerDomain: number;
-  difficulty?: "easy" | "medium" | "hard";
+  difficulty?: DifficultySetting;
+  difficultyMix?: DifficultyMix; // Used when difficulty is "mixed"
   includeExplanations: boolean;
+  formats?: QuestionType[]; // Formats allowed besides QCM (none: QCM only)
+  language?: Language; // Language of the questions (default: French)
   previousQuestions?: string[]; // Questions already generated (to avoid duplicates)
+  onQuestion?: (question: Question) => void; // Enables streaming: called as each question completes
+  model?: string; // Overrides the configured model (fallback chain)
+  sessionId?: string; // Session served (usage ledger)
+  signal?: AbortSignal; // Cancels the request (and its retries)
+}
+
+// Verification request: questions answered blind by the verifier
+export interface QuestionVerificationRequest {
+  questions: Question[];
+  model?: string; // Overrides the configured model
+  sessionId?: string; // Session served (usage ledger)
+  signal?: AbortSignal; // Cancels the request (and its retries)
+}
+
+// Rationale request: why each option of the questions is right or wrong
+export interface AnswerRationaleRequest {
+  questions: Question[];
+  model?: string; // Overrides the configured model
+  sessionId?: string; // Session served (usage ledger)
+  signal?: AbortSignal; // Cancels the request (and its retries)
+}
+
+// Grading request: an open-ended answer to grade against the rubric
+export interface AnswerGradingRequest {
+  question: Question;
+  response: string; // What the user wrote
+  model?: string; // Overrides the configured model
+  sessionId?: string; // Session served (usage ledger)
+  signal?: AbortSignal; // Cancels the request (and its retries)
+}
+
+// Translation request: questions rewritten in another language
+export interface QuestionTranslationRequest {
+  questions: Question[];
+  language: Language; // Target language
+  model?: string; // Overrides the configured model
+  sessionId?: string; // Session served (usage ledger)
+  signal?: AbortSignal; // Cancels the request (and its retries)
+}
+
+// Tutoring request: a follow-up question about an answered question
+export interface TutorChatRequest {
+  question: Question;
+  selectedAnswerIds: string[]; // What the user answered
+  messages: TutorMessage[]; // Conversation so far, ending with the user's message
+  model?: string; // Overrides the configured model
+  sessionId?: string; // Session served (usage ledger)
+  signal?: AbortSignal; // Cancels the request (and its retries)
+}
+
+// Verifier's blind answer to a question
+export interface QuestionVerdict {
+  questionId: string;
+  selectedAnswerIds: string[];
+  ambiguous: boolean;
+  comment?: string;
 }
 
 // Domain with count
@@ -267,15 +506,97 @@ export interface BackgroundTask {
   errorMessage?: string;
 }
 
-// AI Service interface (implemented by OpenRouterService and GeminiService)
+// Credential input declared by a provider (rendered by settings/onboarding)
+// Labels, hints and placeholders are UI catalog keys
+export interface ProviderCredentialField {
+  key: string;            // Key in ProviderCredentials
+  label: MessageKey;
+  type: "password" | "text" | "url";
+  placeholder?: MessageKey;
+  required: boolean;
+  defaultValue?: string;
+  helpUrl?: string;       // Where to get the credential
+  helpLabel?: MessageKey;
+}
+
+// Price of a model in USD per million tokens
+export interface ModelPricing {
+  prompt: number;
+  completion: number;
+}
+
+// Model offered by a provider
+export interface ProviderModel {
+  id: string;
+  name: string;
+  free: boolean;
+  pricing?: ModelPricing; // Paid models only
+  contextLength?: number; // Tokens, when the provider reports it
+}
+
+// Model list fetched from a provider API (cached in IndexedDB)
+export interface ModelCatalog {
+  provider: AIProvider;
+  models: ProviderModel[];
+  fetchedAt: Date;
+}
+
+// API call recorded in the usage ledger
+export interface ApiCallRecord {
+  id: string;
+  timestamp: Date;
+  provider: AIProvider;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  success: boolean;
+  errorCode?: string;
+  sessionId?: string;
+  domains: Domain[]; // Domains the call generated questions for
+}
+
+// Question generation attempt kept for the diagnostics page (see GenerationLogService)
+export interface GenerationLog {
+  id: string;
+  timestamp: Date;
+  provider: AIProvider;
+  model: string;
+  sessionId?: string;
+  domains: Domain[];
+  multiDomain: boolean;
+  fallbackDifficulty: Difficulty;
+  streamed: boolean;
+  systemPrompt?: string;
+  prompt: string;
+  response?: string; // Raw model output (partial when the stream broke)
+  questionCount?: number; // Questions parsed, on success
+  error?: string;
+  durationMs: number;
+}
+
+// Provider declaration (see ProviderRegistry)
+export interface AIProviderDefinition {
+  id: AIProvider;
+  label: MessageKey;
+  description: MessageKey;      // Short subtitle shown on the provider card
+  setupHint: MessageKey;        // One-line hint shown above the credential fields
+  credentialFields: ProviderCredentialField[];
+  models: ProviderModel[];
+  defaultModel: string;
+  customModelPlaceholder: MessageKey;
+  modelsDocUrl?: string;
+  free?: boolean;               // Calls cost nothing (local server, demo)
+  validateCredentials(credentials: ProviderCredentials): boolean;  // Format check only (no network)
+  discoverModels?(credentials: ProviderCredentials): Promise<string[]>;
+  fetchCatalog?(credentials: ProviderCredentials): Promise<ProviderModel[]>;  // Full model list (see ModelCatalogService)
+  createService(): IAIService;
+}
+
+// AI Service interface (implemented by OpenRouterService, GeminiService, OpenAICompatibleService and DemoService)
 export interface IAIService {
   generateQuestions(
-    options: {
-      domain: Domain;
-      count: number;
-      difficulty?: "easy" | "medium" | "hard";
-      includeExplanations: boolean;
-    },
+    options: QuestionGenerationRequest,
     onProgress?: (progress: {
       current: number;
       total: number;
@@ -292,5 +613,23 @@ export interface IAIService {
     }) => void
   ): Promise<Question[]>;
 
+  verifyQuestions(request: QuestionVerificationRequest): Promise<QuestionVerdict[]>;
+
+  explainAnswers(request: AnswerRationaleRequest): Promise<Question[]>;
+
+  explainQuestion(request: TutorChatRequest): Promise<string>;
+
+  gradeAnswer(request: AnswerGradingRequest): Promise<AnswerGrade>;
+
+  translateQuestions(request: QuestionTranslationRequest): Promise<Question[]>;
+
   validateApiKey(apiKey: string): Promise<boolean>;
+
+  // Parse a raw generation response as generation does (diagnostics replay)
+  parseGeneratedQuestions(
+    content: string,
+    domains: Domain[],
+    fallbackDifficulty: Difficulty,
+    multiDomain: boolean
+  ): Question[];
 }